@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { activityChanges, describeActivity, filterActivity } from '../utils';
+import type { ActivityEntry } from '@/hooks/useSessionActivity';
+
+const entry = (overrides: Partial<ActivityEntry>): ActivityEntry => ({
+  id: 'e1',
+  occurredAt: '2026-10-19T20:00:00Z',
+  actorId: 'device-1',
+  entity: 'rating',
+  action: 'insert',
+  rowId: 'r1',
+  personId: 'p1',
+  subject: 'Heat',
+  oldValues: null,
+  newValues: null,
+  ...overrides,
+});
+
+const names: Record<string, string> = { p1: 'Alice', p2: 'Bob' };
+const personName = (id: string | null) => (id && names[id]) || 'Someone';
+
+describe('Activity utils', () => {
+  // Test that ratings, presence and watched entries read as plain sentences
+  it('describeActivity summarises each kind of change', () => {
+    expect(describeActivity(entry({ newValues: { rating: 4 } }), personName)).toBe('Alice rated "Heat" 4★');
+    expect(describeActivity(entry({ action: 'update', oldValues: { rating: 4 }, newValues: { rating: 2 } }), personName))
+      .toBe('Alice changed their rating of "Heat" 2★');
+    expect(describeActivity(entry({ action: 'delete', oldValues: { rating: 2 } }), personName)).toBe('Alice cleared their rating for "Heat"');
+    expect(describeActivity(entry({ entity: 'score', action: 'update', oldValues: { present: false }, newValues: { present: true } }), personName))
+      .toBe('Alice was marked present for "Heat"');
+    expect(describeActivity(entry({ entity: 'person', subject: 'Bob', action: 'update', oldValues: { is_present: true }, newValues: { is_present: false } }), personName))
+      .toBe('Bob was marked absent');
+    expect(describeActivity(entry({ entity: 'proposal', action: 'trash' }), personName)).toBe('"Heat" was removed from the proposals');
+    expect(describeActivity(entry({ entity: 'watched_movie', personId: null }), personName)).toBe('"Heat" was marked as watched');
+  });
+
+  // Test that scheduling nights and answering for them read as plain sentences
+  it('describeActivity summarises movie nights and RSVPs', () => {
+    const night = { subject: '2026-10-23T19:00:00+00:00', personId: null };
+
+    expect(describeActivity(entry({ entity: 'movie_night', ...night }), personName))
+      .toBe('The movie night of 2026-10-23 19:00 was scheduled');
+    expect(describeActivity(entry({ entity: 'movie_night', action: 'delete', ...night }), personName))
+      .toBe('The movie night of 2026-10-23 19:00 was cancelled');
+    expect(describeActivity(entry({ entity: 'rsvp', subject: night.subject, newValues: { response: 'yes' } }), personName))
+      .toBe('Alice answered "Going" for the movie night of 2026-10-23 19:00');
+    expect(describeActivity(entry({ entity: 'rsvp', subject: night.subject, action: 'delete', oldValues: { response: 'no' } }), personName))
+      .toBe("Alice's RSVP for the movie night of 2026-10-23 19:00 was cleared");
+
+    const changed = entry({ entity: 'rsvp', subject: night.subject, action: 'update', oldValues: { response: 'maybe' }, newValues: { response: 'no' } });
+    expect(activityChanges(changed)).toEqual([{ field: 'RSVP', before: 'Maybe', after: 'Not going' }]);
+  });
+
+  // Test that only labelled columns of an update are listed, with before and after values
+  it('activityChanges lists before and after values of updates', () => {
+    const update = entry({
+      entity: 'watched_movie',
+      action: 'update',
+      oldValues: { watched_at: '2026-10-01T00:00:00+00:00', proposal_id: 'x' },
+      newValues: { watched_at: '2026-10-02T00:00:00+00:00', proposal_id: 'y' },
+    });
+
+    expect(activityChanges(update)).toEqual([{ field: 'watched on', before: '2026-10-01', after: '2026-10-02' }]);
+    expect(activityChanges(entry({ newValues: { rating: 4 } }))).toEqual([]);
+  });
+
+  // Test that the timeline can be narrowed by kind of change and by person
+  it('filterActivity filters by entity and person', () => {
+    const entries = [
+      entry({ id: 'a', entity: 'rating', personId: 'p1' }),
+      entry({ id: 'b', entity: 'favourite', personId: 'p1' }),
+      entry({ id: 'c', entity: 'rating', personId: 'p2' }),
+    ];
+
+    expect(filterActivity(entries, {}).map(e => e.id)).toEqual(['a', 'b', 'c']);
+    expect(filterActivity(entries, { entity: 'rating' }).map(e => e.id)).toEqual(['a', 'c']);
+    expect(filterActivity(entries, { entity: 'rating', personId: 'p2' }).map(e => e.id)).toEqual(['c']);
+  });
+});
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { ArrowLeft, History } from "lucide-react";
+import { Person } from "@/types/session";
+import useSessionActivity, { ActivityEntity } from "@/hooks/useSessionActivity";
+import { activityChanges, describeActivity, filterActivity, ENTITY_LABELS } from "./utils";
+
+interface ActivityProps {
+  sessionId: string;
+  people: Person[];
+  onBack: () => void;
+}
+
+// Timeline of every change in the session, as recorded by the database
+export const Activity = ({ sessionId, people, onBack }: ActivityProps) => {
+  const { entries, loading, hasMore, loadMore } = useSessionActivity(sessionId);
+  const [entity, setEntity] = useState<ActivityEntity | "">("");
+  const [personId, setPersonId] = useState("");
+
+  const personName = (id: string | null) => people.find(p => p.id === id)?.name ?? "Someone";
+
+  // Devices are shown as the people they have claimed in this session
+  const actorName = (actorId: string | null) => {
+    if (!actorId) return "the server";
+    const names = people.filter(p => p.claimedBy === actorId).map(p => p.name);
+    return names.length > 0 ? names.join(", ") : "an unknown device";
+  };
+
+  const shown = filterActivity(entries, { entity, personId });
+  const days = shown.reduce<{ day: string; items: typeof shown }[]>((acc, entry) => {
+    const day = format(new Date(entry.occurredAt), "EEEE d MMMM yyyy");
+    const last = acc[acc.length - 1];
+    if (last?.day === day) last.items.push(entry);
+    else acc.push({ day, items: [entry] });
+    return acc;
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background/95 to-primary/5 p-4">
+      <div className="container mx-auto max-w-4xl">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+          <Button onClick={onBack} variant="ghost" className="hover:bg-secondary/80 self-start">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Session
+          </Button>
+          <h1 className="text-xl sm:text-2xl font-bold flex items-center">
+            <History className="w-5 h-5 sm:w-6 sm:h-6 mr-2 text-primary" />
+            Activity
+          </h1>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2 mb-4">
+          <select
+            value={entity}
+            onChange={e => setEntity(e.target.value as ActivityEntity | "")}
+            className="p-2 rounded bg-card text-foreground border border-border text-sm"
+            aria-label="Filter by kind of change"
+          >
+            <option value="">All changes</option>
+            {(Object.keys(ENTITY_LABELS) as ActivityEntity[]).map(key => (
+              <option key={key} value={key}>{ENTITY_LABELS[key]}</option>
+            ))}
+          </select>
+          <select
+            value={personId}
+            onChange={e => setPersonId(e.target.value)}
+            className="p-2 rounded bg-card text-foreground border border-border text-sm"
+            aria-label="Filter by person"
+          >
+            <option value="">Everyone</option>
+            {people.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+          </div>
+        ) : shown.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <History className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">No activity to show.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-6">
+            {days.map(({ day, items }) => (
+              <div key={day}>
+                <h2 className="text-sm font-semibold text-muted-foreground mb-2">{day}</h2>
+                <Card>
+                  <CardContent className="p-0 divide-y divide-border/50">
+                    {items.map(entry => {
+                      const changes = activityChanges(entry);
+                      return (
+                        <div key={entry.id} className="p-3 flex items-start gap-3">
+                          <span className="text-xs text-muted-foreground w-10 flex-shrink-0 mt-0.5">
+                            {format(new Date(entry.occurredAt), "HH:mm")}
+                          </span>
+                          <div className="min-w-0 flex-1">
+                            <p className="text-sm">{describeActivity(entry, personName)}</p>
+                            {changes.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {changes.map(change => (
+                                  <Badge key={change.field} variant="outline" className="text-xs font-normal">
+                                    {change.field}: {change.before} → {change.after}
+                                  </Badge>
+                                ))}
+                              </div>
+                            )}
+                            <p className="text-xs text-muted-foreground mt-1">by {actorName(entry.actorId)}</p>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </CardContent>
+                </Card>
+              </div>
+            ))}
+            {hasMore && (
+              <div className="text-center">
+                <Button variant="outline" size="sm" onClick={loadMore}>Load older activity</Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Activity;
@@ -0,0 +1,133 @@
+import type { ActivityEntry, ActivityEntity } from "@/hooks/useSessionActivity";
+import { isRsvpResponse, RSVP_RESPONSES } from "@/lib/movieNights";
+
+export interface ActivityFilter {
+  entity?: ActivityEntity | "";
+  personId?: string;
+}
+
+export interface ActivityChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+export const ENTITY_LABELS: Record<ActivityEntity, string> = {
+  rating: "Hype ratings",
+  score: "Scores",
+  person: "People & presence",
+  proposal: "Proposals",
+  comment: "Comments",
+  favourite: "Favourites",
+  watched_movie: "Watched movies",
+  movie_night: "Movie nights",
+  rsvp: "RSVPs",
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  rating: "rating",
+  present: "present",
+  is_present: "present",
+  name: "name",
+  comment: "comment",
+  movie_title: "title",
+  watched_at: "watched on",
+  response: "RSVP",
+  scheduled_for: "scheduled for",
+  note: "note",
+};
+
+export const filterActivity = (entries: ActivityEntry[], filter: ActivityFilter): ActivityEntry[] =>
+  entries.filter(e =>
+    (!filter.entity || e.entity === filter.entity) &&
+    (!filter.personId || e.personId === filter.personId)
+  );
+
+const formatValue = (field: string, value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "yes" : "no";
+  if (field === "watched_at" && typeof value === "string") return value.split("T")[0];
+  if (field === "scheduled_for" && typeof value === "string") return formatNight(value);
+  if (field === "response" && isRsvpResponse(value)) return RSVP_RESPONSES[value];
+  return String(value);
+};
+
+// "2026-10-23T19:00:00+00:00" -> "2026-10-23 19:00"
+const formatNight = (scheduledFor: string): string => scheduledFor.slice(0, 16).replace("T", " ");
+
+// Before/after pairs for the columns an update touched. Ids and soft delete
+// markers are left out; the summary already covers them.
+export const activityChanges = (entry: ActivityEntry): ActivityChange[] => {
+  if (entry.action !== "update" || !entry.oldValues) return [];
+  return Object.keys(entry.oldValues)
+    .filter(field => FIELD_LABELS[field])
+    .map(field => ({
+      field: FIELD_LABELS[field],
+      before: formatValue(field, entry.oldValues?.[field]),
+      after: formatValue(field, entry.newValues?.[field]),
+    }));
+};
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+// One line describing the change, e.g. 'Alice rated "Heat" 4'
+export const describeActivity = (entry: ActivityEntry, personName: (id: string | null) => string): string => {
+  const who = personName(entry.personId);
+  const what = entry.subject ? `"${entry.subject}"` : "a movie";
+  const values = entry.newValues ?? entry.oldValues ?? {};
+
+  switch (entry.entity) {
+    case "rating":
+    case "score": {
+      const scale = entry.entity === "score" ? "/10" : "★";
+      if (entry.action === "delete") return `${who} cleared their ${entry.entity} for ${what}`;
+      if (values.rating !== null && values.rating !== undefined) {
+        return `${who} ${entry.action === "insert" ? "rated" : "changed their rating of"} ${what} ${values.rating}${scale}`;
+      }
+      if ("present" in values) return `${who} was marked ${values.present ? "present" : "absent"} for ${what}`;
+      return `${who} cleared their ${entry.entity} for ${what}`;
+    }
+    case "person":
+      if (entry.action === "insert") return `${entry.subject} was added`;
+      if (entry.action === "trash") return `${entry.subject} was removed`;
+      if (entry.action === "restore") return `${entry.subject} was restored`;
+      if (entry.action === "delete") return `${entry.subject} was deleted`;
+      if ("is_present" in values) return `${entry.subject} was marked ${values.is_present ? "present" : "absent"}`;
+      if ("profile_id" in values) return `${entry.subject} was ${values.profile_id ? "linked to" : "unlinked from"} a profile`;
+      return `${entry.subject} was updated`;
+    case "proposal":
+      if (entry.action === "insert") return `${who} proposed ${what}`;
+      if (entry.action === "trash") return `${what} was removed from the proposals`;
+      if (entry.action === "restore") return `${what} was restored to the proposals`;
+      if (entry.action === "delete") return `${what} left the proposals`;
+      return `${what} was updated`;
+    case "comment":
+      if (entry.action === "delete") return `The comment on ${what} was removed`;
+      return `${who}'s comment on ${what} was ${entry.action === "insert" ? "added" : "edited"}`;
+    case "favourite":
+      if (entry.action === "delete") return `${who} no longer has a favourite`;
+      return `${who} picked ${what} as their favourite`;
+    case "watched_movie":
+      if (entry.action === "insert") return `${what} was marked as watched`;
+      if (entry.action === "trash") return `${what} was removed from the watched movies`;
+      if (entry.action === "restore") return `${what} was restored to the watched movies`;
+      if (entry.action === "delete") return `${what} was deleted`;
+      if ("watched_at" in values) return `The watched date of ${what} was changed`;
+      return `${what} was updated`;
+    case "movie_night": {
+      const night = `the movie night of ${entry.subject ? formatNight(entry.subject) : "an unknown date"}`;
+      if (entry.action === "insert") return `${capitalize(night)} was scheduled`;
+      if (entry.action === "delete") return `${capitalize(night)} was cancelled`;
+      if ("scheduled_for" in values) return `A movie night was moved to ${formatNight(String(values.scheduled_for))}`;
+      if ("selected_proposal_id" in values) return `The movie for ${night} was ${values.selected_proposal_id ? "picked" : "unpicked"}`;
+      return `${capitalize(night)} was updated`;
+    }
+    case "rsvp": {
+      const night = `the movie night of ${entry.subject ? formatNight(entry.subject) : "an unknown date"}`;
+      if (entry.action === "delete" || !isRsvpResponse(values.response)) return `${who}'s RSVP for ${night} was cleared`;
+      return `${who} answered "${RSVP_RESPONSES[values.response]}" for ${night}`;
+    }
+    default:
+      return `${what} changed`;
+  }
+};
@@ -6,15 +6,20 @@ import { StarRating } from "./StarRating";
 import { Film, Search } from "lucide-react";
 import { useState, useEffect } from "react";
 import { MovieDetails, MovieRating, Person } from "@/types/session";
+import { useMovieSearch } from "@/hooks/useMovieSearch";
+import { MovieSearchPicker } from "./MovieSearchPicker";
 
 
 interface MovieCardProps {
   movie: MovieRating;
   people: Person[];
   currentPersonId?: string;
-  onRatingChange: (movieTitle: string, personId: string, rating: number) => Promise<void>;
-  onSearchAgain: (movieTitle: string) => Promise<void>;
-  onMarkAsWatched: (movieTitle: string) => Promise<void>;
+  // people whose stars are editable on this device; all by default
+  canRateFor?: (personId: string) => boolean;
+  onRatingChange: (proposalId: string, personId: string, rating: number) => Promise<void>;
+  // imdbId: the search result picked for the proposal
+  onSearchAgain: (proposalId: string, movieTitle: string, imdbId?: string | null) => Promise<void>;
+  onMarkAsWatched: (proposalId: string) => Promise<void>;
   showAllRatings: boolean;
   onSaveComment?: (proposalId: string, comment: string) => Promise<void>;
 }
@@ -23,6 +28,7 @@ export const MovieCard = ({
   movie,
   people,
   currentPersonId,
+  canRateFor = () => true,
   onRatingChange,
   onSearchAgain,
   onMarkAsWatched,
@@ -31,13 +37,11 @@ export const MovieCard = ({
 }: MovieCardProps) => {
   const [searchTitle, setSearchTitle] = useState("");
   const [showSearchInput, setShowSearchInput] = useState(false);
+  const search = useMovieSearch();
   
   // --- proposal comment state & helpers (added) ---
-  const initialComment = (movie as any).comment ?? "";
-  const proposalId = (movie as any).proposalId ?? (movie as any).proposal_id;
-  // try a few common names / ids for proposer stored on the movie object
-  const proposerId =
-    (movie as any).proposedBy
+  const initialComment = movie.comment ?? "";
+  const proposalId = movie.proposalId;
 
   const [commentText, setCommentText] = useState<string>(initialComment);
   const [isSavingComment, setIsSavingComment] = useState(false);
@@ -84,18 +88,8 @@ export const MovieCard = ({
     }
   };
 
-  // Determine proposer match more robustly:
-  // - match by proposer id fields if present
-  // - fallback to comparing current person's name to movie.proposedBy
-  const currentPersonName = people.find(p => p.id === currentPersonId)?.name;
-  const isProposer = Boolean(
-    currentPersonId &&
-    (
-      (proposerId && currentPersonId === proposerId) ||
-      (movie as any).proposedBy && currentPersonName && currentPersonName === (movie as any).proposedBy ||
-      (movie as any).proposedBy === currentPersonName
-    )
-  );
+  // Any co-proposer can edit the comment; names are display only
+  const isProposer = Boolean(currentPersonId && movie.proposerIds.includes(currentPersonId));
   // --- end comment additions ---
 
   const presentPeople = people.filter(p => p.isPresent);
@@ -106,11 +100,14 @@ export const MovieCard = ({
     : 0;
 
   const handleSearch = () => {
-    if (searchTitle.trim() && onSearchAgain) {
-      onSearchAgain(searchTitle.trim());
-      setSearchTitle("");
-      setShowSearchInput(false);
-    }
+    if (searchTitle.trim()) search.search(searchTitle);
+  };
+
+  const pickResult = (title: string, imdbId: string | null) => {
+    onSearchAgain?.(movie.proposalId, title, imdbId);
+    setSearchTitle("");
+    setShowSearchInput(false);
+    search.reset();
   };
 
   return (
@@ -166,8 +163,8 @@ export const MovieCard = ({
                   </p>
                   {movie.details.year && <p>Year: {movie.details.year}</p>}
                   {movie.details.director && <p>Director: {movie.details.director}</p>}
-                  {movie.details.runtime && <p>Runtime: {movie.details.runtime}</p>}
-                  {movie.details.genre && <p className="break-words">Genre: {movie.details.genre}</p>}
+                  {movie.details.runtimeMinutes && <p>Runtime: {movie.details.runtimeMinutes} min</p>}
+                  {movie.details.genres?.length > 0 && <p className="break-words">Genre: {movie.details.genres.join(", ")}</p>}
                   {movie.details.plot && <p className="break-words">Plot: <span className="italic">{movie.details.plot}</span></p>}
 
                   {/* Proposer comment aligned under Genre */}
@@ -236,13 +233,25 @@ export const MovieCard = ({
                 variant="outline"
                 size="sm"
                 onClick={handleSearch}
-                disabled={!searchTitle.trim()}
+                disabled={!searchTitle.trim() || search.searching}
                 className="h-8 px-3 text-sm sm:w-auto"
               >
                 Search
               </Button>
             </div>
           )}
+
+          {showSearchInput && onSearchAgain && search.query && (
+            <MovieSearchPicker
+              results={search.results}
+              totalResults={search.totalResults}
+              searching={search.searching}
+              hasMore={search.hasMore}
+              selectedImdbId={movie.details?.imdbId}
+              onPick={result => pickResult(result.title, result.imdbId)}
+              onLoadMore={search.loadMore}
+            />
+          )}
         </div>
       </CardHeader>
 
@@ -263,9 +272,9 @@ export const MovieCard = ({
                     <StarRating
                       rating={movie.ratings[person.id] || 0}
                       onRatingChange={(rating) =>
-                        onRatingChange?.(movie.movieTitle, person.id, rating)
+                        onRatingChange?.(movie.proposalId, person.id, rating)
                       }
-                      readonly={false}
+                      readonly={!canRateFor(person.id)}
                       size="sm"
                     />
                   </div>
@@ -283,8 +292,9 @@ export const MovieCard = ({
                 <StarRating
                   rating={movie.ratings[currentPersonId] || 0}
                   onRatingChange={(rating) =>
-                    onRatingChange?.(movie.movieTitle, currentPersonId, rating)
+                    onRatingChange?.(movie.proposalId, currentPersonId, rating)
                   }
+                  readonly={!canRateFor(currentPersonId)}
                   size="md"
                 />
               </div>
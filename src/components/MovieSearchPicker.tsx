@@ -0,0 +1,73 @@
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Film, RefreshCw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { MovieCandidate } from "../../supabase/functions/_shared/movieMetadata.ts";
+
+interface MovieSearchPickerProps {
+  results: MovieCandidate[];
+  totalResults: number;
+  searching: boolean;
+  hasMore: boolean;
+  onPick: (candidate: MovieCandidate) => void;
+  onLoadMore: () => void;
+  // highlights the candidate picked so far, when picking doesn't act right away
+  selectedImdbId?: string | null;
+  // shown when the search found nothing
+  emptyText?: string;
+}
+
+// Search candidates with year, type and poster, so titles shared by several
+// movies can be told apart before one is picked
+export const MovieSearchPicker = ({ results, totalResults, searching, hasMore, onPick, onLoadMore, selectedImdbId, emptyText = "No movies found." }: MovieSearchPickerProps) => (
+  <div className="space-y-2">
+    {results.length > 0 && (
+      <p className="text-xs text-muted-foreground">
+        Showing {results.length} of {totalResults}. Pick the right one.
+      </p>
+    )}
+    {results.map((movie, index) => (
+      <button
+        key={movie.imdbId ?? `${movie.title}-${index}`}
+        type="button"
+        onClick={() => onPick(movie)}
+        className={cn(
+          "w-full text-left p-2 border rounded-md transition-colors hover:bg-secondary",
+          selectedImdbId && movie.imdbId === selectedImdbId && "bg-primary/20 border-primary"
+        )}
+      >
+        <div className="flex items-center gap-3">
+          {movie.poster ? (
+            <img src={movie.poster} alt={`${movie.title} poster`} className="w-10 h-14 object-cover rounded flex-shrink-0" />
+          ) : (
+            <div className="w-10 h-14 bg-primary/10 rounded flex items-center justify-center flex-shrink-0">
+              <Film className="w-4 h-4 text-primary" />
+            </div>
+          )}
+          <div className="flex-1 min-w-0">
+            <h5 className="font-medium text-sm truncate">{movie.title}</h5>
+            <div className="flex items-center gap-2 mt-1">
+              {movie.year && <span className="text-xs text-muted-foreground">{movie.year}</span>}
+              {movie.type && <Badge variant="secondary" className="text-xs capitalize">{movie.type}</Badge>}
+              {movie.imdbId && <span className="text-xs text-muted-foreground">{movie.imdbId}</span>}
+            </div>
+          </div>
+        </div>
+      </button>
+    ))}
+    {searching && (
+      <div className="flex items-center text-sm text-muted-foreground p-2">
+        <RefreshCw className="w-3 h-3 animate-spin mr-2" />
+        Searching...
+      </div>
+    )}
+    {!searching && hasMore && (
+      <Button variant="ghost" size="sm" className="w-full" onClick={onLoadMore}>
+        Show more results
+      </Button>
+    )}
+    {!searching && results.length === 0 && (
+      <div className="text-sm text-muted-foreground p-2">{emptyText}</div>
+    )}
+  </div>
+);
@@ -0,0 +1,109 @@
+import React, { useState } from "react";
+import { Person } from "@/types/session";
+import { Button } from "@/components/ui/button";
+import { UserCheck, Lock } from "lucide-react";
+
+// Lets a device pick which of its claimed people it is acting as, claim an
+// unclaimed person, or ask for a re-claim of someone claimed elsewhere.
+const IdentityPicker = ({
+  people,
+  deviceUserId,
+  selectedPersonId,
+  onSelectPerson,
+  onClaimPerson,
+  onRequestReclaim,
+}: {
+  people: Person[];
+  deviceUserId: string | null;
+  selectedPersonId: string;
+  onSelectPerson: (id: string) => void;
+  onClaimPerson: (id: string) => Promise<void>;
+  onRequestReclaim: (id: string) => Promise<void>;
+}) => {
+  const [pendingPersonId, setPendingPersonId] = useState("");
+
+  const sortedPeople = people.slice().sort((a, b) => a.name.localeCompare(b.name));
+  const mine = sortedPeople.filter(p => deviceUserId && p.claimedBy === deviceUserId);
+  const unclaimed = sortedPeople.filter(p => !p.claimedBy);
+  const claimedElsewhere = sortedPeople.filter(p => p.claimedBy && p.claimedBy !== deviceUserId);
+
+  const pendingPerson = people.find(p => p.id === pendingPersonId);
+  const pendingIsUnclaimed = pendingPerson && !pendingPerson.claimedBy;
+
+  const handleChange = (id: string) => {
+    if (!id || mine.some(p => p.id === id)) {
+      setPendingPersonId("");
+      onSelectPerson(id);
+      return;
+    }
+    // Unclaimed or claimed elsewhere: confirm the action below the select
+    setPendingPersonId(id);
+  };
+
+  return (
+    <div className="space-y-2">
+      <select
+        value={pendingPersonId || selectedPersonId}
+        onChange={e => handleChange(e.target.value)}
+        className="w-full p-2 rounded bg-card text-foreground border border-border focus:outline-none focus:ring-2 focus:ring-primary transition text-sm"
+      >
+        <option value="">Select who you are (optional)</option>
+        {mine.length > 0 && (
+          <optgroup label="On this device">
+            {mine.map(person => (
+              <option key={person.id} value={person.id}>{person.name}</option>
+            ))}
+          </optgroup>
+        )}
+        {unclaimed.length > 0 && (
+          <optgroup label="Claim as you">
+            {unclaimed.map(person => (
+              <option key={person.id} value={person.id}>{person.name}</option>
+            ))}
+          </optgroup>
+        )}
+        {claimedElsewhere.length > 0 && (
+          <optgroup label="Claimed on another device">
+            {claimedElsewhere.map(person => (
+              <option key={person.id} value={person.id}>{person.name} (claimed)</option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+
+      {pendingPerson && (
+        <div className="p-3 rounded border border-border bg-card/60 text-xs text-left space-y-2">
+          {pendingIsUnclaimed ? (
+            <p className="text-muted-foreground">
+              Claim <span className="font-medium text-foreground">{pendingPerson.name}</span>? Only this device will be able to rate as them.
+            </p>
+          ) : (
+            <p className="text-muted-foreground flex items-start gap-1">
+              <Lock className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              <span>
+                <span className="font-medium text-foreground">{pendingPerson.name}</span> is claimed on another device. You can ask an admin to move them to this one.
+              </span>
+            </p>
+          )}
+          <div className="flex gap-2 justify-end">
+            <Button variant="ghost" size="sm" onClick={() => setPendingPersonId("")}>
+              Cancel
+            </Button>
+            {pendingIsUnclaimed ? (
+              <Button size="sm" onClick={() => onClaimPerson(pendingPerson.id).then(() => setPendingPersonId(""))}>
+                <UserCheck className="w-3 h-3 mr-1" />
+                Claim
+              </Button>
+            ) : (
+              <Button size="sm" variant="outline" onClick={() => onRequestReclaim(pendingPerson.id).then(() => setPendingPersonId(""))}>
+                Request re-claim
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IdentityPicker;
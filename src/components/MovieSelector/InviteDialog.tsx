@@ -0,0 +1,180 @@
+import React, { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { QRCodeSVG } from "qrcode.react";
+import { Person } from "@/types/session";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { X, Copy, Tv, Ban, QrCode, Plus } from "lucide-react";
+import useSessionInvites, { isInviteActive, SessionInvite } from "@/hooks/useSessionInvites";
+import { useToast } from "@/hooks/use-toast";
+import { buildInviteLink } from "@/lib/sessionAccess";
+import { cn } from "@/lib/utils";
+
+const EXPIRY_OPTIONS = [
+  { value: "1 hour", label: "1 hour" },
+  { value: "1 day", label: "1 day" },
+  { value: "7 days", label: "7 days" },
+  { value: "30 days", label: "30 days" },
+];
+
+// Creates expiring invite links (with a QR code that can be shown full screen
+// on the TV), lists who joined through each invite and lets them be revoked.
+const InviteDialog = ({ sessionId, sessionName, people, deviceUserId, isAdmin, onClose }: {
+  sessionId: string;
+  sessionName: string;
+  people: Person[];
+  deviceUserId: string | null;
+  isAdmin: boolean;
+  onClose: () => void;
+}) => {
+  const { toast } = useToast();
+  const { invites, createInvite, revokeInvite } = useSessionInvites(sessionId);
+  const [expiresIn, setExpiresIn] = useState("1 day");
+  const [creating, setCreating] = useState(false);
+  const [shownInviteId, setShownInviteId] = useState<string | null>(null);
+  const [tvMode, setTvMode] = useState(false);
+
+  const shownInvite = invites.find(i => i.id === shownInviteId && isInviteActive(i));
+  const shownLink = shownInvite ? buildInviteLink(sessionId, shownInvite.token) : null;
+
+  const handleCreate = async () => {
+    setCreating(true);
+    const invite = await createInvite(expiresIn);
+    setCreating(false);
+    if (invite) setShownInviteId(invite.id);
+  };
+
+  const copyLink = async (link: string) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      toast({ title: "Invite link copied", description: "Anyone with this link can join until it expires." });
+    } catch {
+      window.prompt("Copy this invite link:", link);
+    }
+  };
+
+  const describeJoined = (invite: SessionInvite) => {
+    const names = invite.joinedUserIds.flatMap(userId => {
+      const claimed = people.filter(p => p.claimedBy === userId).map(p => p.name);
+      return claimed.length > 0 ? claimed : ["a device without a claimed person"];
+    });
+    return names.length > 0 ? `Joined: ${names.join(", ")}` : "Nobody has joined yet";
+  };
+
+  const inviteStatus = (invite: SessionInvite) => {
+    if (invite.revokedAt) return "Revoked";
+    return isInviteActive(invite) ? `Expires ${formatDistanceToNow(new Date(invite.expiresAt), { addSuffix: true })}` : "Expired";
+  };
+
+  if (tvMode && shownLink) {
+    return (
+      <div className="fixed inset-0 bg-background z-50 flex flex-col items-center justify-center gap-6 p-4" onClick={() => setTvMode(false)}>
+        <h2 className="text-3xl sm:text-5xl font-bold bg-gradient-cinema bg-clip-text text-transparent text-center">Join {sessionName}</h2>
+        <div className="bg-white p-4 rounded-lg">
+          <QRCodeSVG value={shownLink} size={512} className="w-[70vmin] h-[70vmin]" />
+        </div>
+        <p className="text-muted-foreground text-sm">Scan with your phone camera. Tap anywhere to close.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-start sm:items-center justify-center z-50 p-2 sm:p-4">
+      <Card className="w-full max-w-sm sm:max-w-md max-h-[95vh] sm:max-h-[90vh] overflow-y-auto mt-2 sm:mt-0">
+        <CardHeader className="flex flex-row items-center justify-between p-4 sm:p-6">
+          <CardTitle className="text-lg sm:text-xl">Invite People</CardTitle>
+          <Button variant="ghost" size="icon" onClick={onClose} className="flex-shrink-0">
+            <X className="w-4 h-4" />
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4 p-4 sm:p-6 pt-0 sm:pt-0">
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="invite-expiry" className="text-xs">Link expires after</Label>
+              <select
+                id="invite-expiry"
+                value={expiresIn}
+                onChange={e => setExpiresIn(e.target.value)}
+                className="w-full p-2 rounded bg-card text-foreground border border-border focus:outline-none focus:ring-2 focus:ring-primary transition text-sm"
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+            <Button onClick={handleCreate} disabled={creating}>
+              <Plus className="w-4 h-4 mr-1" />
+              New Link
+            </Button>
+          </div>
+
+          {shownLink && (
+            <div className="flex flex-col items-center gap-3 p-3 rounded-md border border-border bg-card/60">
+              <div className="bg-white p-2 rounded">
+                <QRCodeSVG value={shownLink} size={180} />
+              </div>
+              <p className="text-xs text-muted-foreground break-all text-center">{shownLink}</p>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => copyLink(shownLink)}>
+                  <Copy className="w-3 h-3 mr-1" />
+                  Copy Link
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setTvMode(true)}>
+                  <Tv className="w-3 h-3 mr-1" />
+                  Show on TV
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-muted-foreground">Invite links</h4>
+            {invites.length === 0 && (
+              <p className="text-xs text-muted-foreground">No invite links yet.</p>
+            )}
+            {invites.map(invite => {
+              const active = isInviteActive(invite);
+              const canRevoke = active && (isAdmin || invite.createdBy === deviceUserId);
+              return (
+                <div
+                  key={invite.id}
+                  className={cn(
+                    "flex items-center justify-between gap-2 p-2 rounded-md text-sm bg-secondary",
+                    !active && "opacity-60",
+                    invite.id === shownInvite?.id && "ring-2 ring-primary"
+                  )}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant={active ? "default" : "outline"}>{inviteStatus(invite)}</Badge>
+                      {invite.createdBy === deviceUserId && <span className="text-xs text-muted-foreground">by you</span>}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate mt-1">{describeJoined(invite)}</p>
+                  </div>
+                  <div className="flex gap-1 flex-shrink-0">
+                    {active && (
+                      <Button size="sm" variant="ghost" onClick={() => setShownInviteId(invite.id)} title="Show QR code">
+                        <QrCode className="w-3 h-3" />
+                      </Button>
+                    )}
+                    {active && (
+                      <span title={canRevoke ? "Revoke invite" : "Only the inviter or a session admin can revoke this invite"}>
+                        <Button size="sm" variant="ghost" disabled={!canRevoke} onClick={() => revokeInvite(invite.id)}>
+                          <Ban className="w-3 h-3" />
+                        </Button>
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default InviteDialog;
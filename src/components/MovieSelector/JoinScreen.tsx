@@ -0,0 +1,121 @@
+import React, { useState } from "react";
+import { Person } from "@/types/session";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { UserPlus, UserCheck, Lock, ArrowRight } from "lucide-react";
+
+// Landing screen for invite links: the newcomer either adds themselves as a
+// new person or claims someone who is already on the list.
+const JoinScreen = ({
+  sessionName,
+  people,
+  deviceUserId,
+  onJoinAsNewPerson,
+  onClaimPerson,
+  onRequestReclaim,
+  onContinue,
+}: {
+  sessionName: string;
+  people: Person[];
+  deviceUserId: string | null;
+  onJoinAsNewPerson: (name: string) => Promise<boolean>;
+  onClaimPerson: (id: string) => Promise<void>;
+  onRequestReclaim: (id: string) => Promise<void>;
+  onContinue: () => void;
+}) => {
+  const [name, setName] = useState("");
+  const [joining, setJoining] = useState(false);
+
+  const sortedPeople = people.slice().sort((a, b) => a.name.localeCompare(b.name));
+  const mine = sortedPeople.filter(p => deviceUserId && p.claimedBy === deviceUserId);
+  const unclaimed = sortedPeople.filter(p => !p.claimedBy);
+  const claimedElsewhere = sortedPeople.filter(p => p.claimedBy && p.claimedBy !== deviceUserId);
+
+  const handleJoin = async () => {
+    if (!name.trim()) return;
+    setJoining(true);
+    const joined = await onJoinAsNewPerson(name);
+    setJoining(false);
+    if (joined) setName("");
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl">Join {sessionName}</CardTitle>
+          <p className="text-muted-foreground text-sm">
+            {mine.length > 0
+              ? `You're in as ${mine.map(p => p.name).join(", ")}.`
+              : "Add yourself, or pick your name if someone already added you."}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {mine.length > 0 ? (
+            <Button onClick={onContinue} className="w-full">
+              Continue to the session
+              <ArrowRight className="w-4 h-4 ml-2" />
+            </Button>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-muted-foreground">I'm new here</h4>
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Your name"
+                    value={name}
+                    onChange={e => setName(e.target.value)}
+                    onKeyPress={e => e.key === "Enter" && handleJoin()}
+                    autoFocus
+                  />
+                  <Button onClick={handleJoin} disabled={!name.trim() || joining}>
+                    <UserPlus className="w-4 h-4 mr-1" />
+                    Join
+                  </Button>
+                </div>
+              </div>
+
+              {unclaimed.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium text-muted-foreground">I'm already on the list</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {unclaimed.map(person => (
+                      <Button key={person.id} variant="outline" size="sm" onClick={() => onClaimPerson(person.id)}>
+                        <UserCheck className="w-3 h-3 mr-1" />
+                        {person.name}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {claimedElsewhere.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium text-muted-foreground flex items-center gap-1">
+                    <Lock className="w-3 h-3" />
+                    Claimed on another device
+                  </h4>
+                  <p className="text-xs text-muted-foreground">If one of these is you, ask an admin to move them to this device.</p>
+                  <div className="flex flex-wrap gap-2">
+                    {claimedElsewhere.map(person => (
+                      <Button key={person.id} variant="ghost" size="sm" onClick={() => onRequestReclaim(person.id)}>
+                        {person.name}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <Button variant="ghost" onClick={onContinue} className="w-full text-xs">
+                Skip for now
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default JoinScreen;
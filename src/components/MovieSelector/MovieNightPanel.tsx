@@ -0,0 +1,143 @@
+import React, { useState } from "react";
+import { MovieRating, Person } from "@/types/session";
+import { MovieNight, RSVP_RESPONSES, RsvpResponse } from "@/lib/movieNights";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CalendarDays, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { isPendingProposal } from "@/lib/sessionHelpers";
+
+const formatNight = (scheduledFor: string) =>
+  new Date(scheduledFor).toLocaleString(undefined, { weekday: "long", day: "numeric", month: "long", hour: "2-digit", minute: "2-digit" });
+
+// The upcoming movie night: when it is, who's coming and the movie picked for
+// it. Admins schedule and cancel nights; people RSVP from their own device.
+const MovieNightPanel = ({ nextNight, people, proposals, isAdmin = false, claimedPersonIds = [], onSchedule, onCancel, onRsvp, onSelectMovie }: {
+  nextNight: MovieNight | null;
+  people: Person[];
+  proposals: MovieRating[];
+  isAdmin?: boolean;
+  claimedPersonIds?: string[];
+  onSchedule: (scheduledFor: string, note?: string) => Promise<void>;
+  onCancel: (nightId: string) => Promise<void>;
+  onRsvp: (personId: string, response: RsvpResponse) => Promise<void>;
+  onSelectMovie: (proposalId: string | null) => Promise<void>;
+}) => {
+  const [when, setWhen] = useState("");
+  const [note, setNote] = useState("");
+
+  const schedule = () => {
+    if (!when) return;
+    // datetime-local values are local time; store an absolute timestamp
+    onSchedule(new Date(when).toISOString(), note).then(() => {
+      setWhen("");
+      setNote("");
+    });
+  };
+
+  if (!nextNight) {
+    return (
+      <Card className="mb-4">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="w-5 h-5" />
+            Next Movie Night
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            No movie night scheduled. Presence is set by hand on each person below.
+          </p>
+          {isAdmin && (
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input type="datetime-local" value={when} onChange={e => setWhen(e.target.value)} aria-label="Date and time" className="sm:w-auto" />
+              <Input placeholder="Note (optional)" value={note} onChange={e => setNote(e.target.value)} className="flex-1" />
+              <Button onClick={schedule} disabled={!when}>Schedule</Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const counts = people.reduce<Record<RsvpResponse, number>>((acc, p) => {
+    if (p.rsvp) acc[p.rsvp]++;
+    return acc;
+  }, { yes: 0, maybe: 0, no: 0 });
+  const selectedMovie = proposals.find(m => m.proposalId === nextNight.selectedProposalId);
+
+  return (
+    <Card className="mb-4">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="w-5 h-5" />
+              {formatNight(nextNight.scheduledFor)}
+            </CardTitle>
+            {nextNight.note && <p className="text-sm text-muted-foreground mt-1">{nextNight.note}</p>}
+          </div>
+          {isAdmin && (
+            <Button variant="ghost" size="sm" onClick={() => onCancel(nextNight.id)}>
+              <X className="w-4 h-4 mr-1" />
+              Cancel night
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          {counts.yes} going · {counts.maybe} maybe · {counts.no} not going. Only people going count as present for the results.
+        </p>
+
+        <div className="space-y-2">
+          {people.slice().sort((a, b) => a.name.localeCompare(b.name)).map(person => {
+            const canAnswer = isAdmin || claimedPersonIds.includes(person.id);
+            return (
+              <div key={person.id} className="flex items-center justify-between gap-2 p-2 bg-secondary rounded-md text-sm">
+                <span className="truncate">{person.name}</span>
+                <div className="flex gap-1" title={canAnswer ? undefined : "Only this person's device or an admin can RSVP for them"}>
+                  {(Object.keys(RSVP_RESPONSES) as RsvpResponse[]).map(response => (
+                    <Button
+                      key={response}
+                      size="sm"
+                      variant={person.rsvp === response ? "default" : "outline"}
+                      className={cn("h-7 px-2 text-xs", person.rsvp === response && response === "no" && "bg-destructive hover:bg-destructive/90")}
+                      onClick={() => onRsvp(person.id, response)}
+                      disabled={!canAnswer}
+                      aria-pressed={person.rsvp === response}
+                    >
+                      {RSVP_RESPONSES[response]}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Movie for the night:</span>
+          {isAdmin ? (
+            <select
+              value={nextNight.selectedProposalId ?? ""}
+              onChange={e => onSelectMovie(e.target.value || null)}
+              className="p-2 rounded bg-card text-foreground border border-border text-sm"
+              aria-label="Movie for the night"
+            >
+              <option value="">Not picked yet</option>
+              {proposals.filter(m => !isPendingProposal(m.proposalId)).map(movie => (
+                <option key={movie.proposalId} value={movie.proposalId}>{movie.movieTitle}</option>
+              ))}
+            </select>
+          ) : (
+            <span className="font-medium">{selectedMovie?.movieTitle ?? "Not picked yet"}</span>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MovieNightPanel;
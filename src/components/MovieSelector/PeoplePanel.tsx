@@ -6,11 +6,19 @@ import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Users } from "lucide-react";
 
-const PeoplePanel = ({ people, onAddPerson, onUpdatePerson, onDeletePerson }: {
+const PeoplePanel = ({ people, onAddPerson, onUpdatePerson, onDeletePerson, onProposeMovie, onRemoveProposal, onParkProposal, onPromoteProposal, maxActiveProposals = 3, onChangeMaxActiveProposals, isAdmin = false, claimedPersonIds = [] }: {
   people: Person[];
   onAddPerson: (name: string) => Promise<void>;
   onUpdatePerson: (p: Person) => Promise<void>;
   onDeletePerson: (id: string) => Promise<void>;
+  onProposeMovie: (personId: string, movieTitle: string, parked?: boolean) => Promise<void>;
+  onRemoveProposal: (personId: string, proposalId: string) => Promise<void>;
+  onParkProposal?: (proposalId: string) => Promise<void>;
+  onPromoteProposal?: (proposalId: string) => Promise<void>;
+  maxActiveProposals?: number;
+  onChangeMaxActiveProposals?: (count: number) => Promise<void>;
+  isAdmin?: boolean;
+  claimedPersonIds?: string[];
 }) => {
   const [newPersonName, setNewPersonName] = useState("");
 
@@ -27,12 +35,39 @@ const PeoplePanel = ({ people, onAddPerson, onUpdatePerson, onDeletePerson }: {
               Add Person
             </Button>
           </div>
+          {onChangeMaxActiveProposals && (
+            <label className="flex items-center gap-2 mt-3 text-sm text-muted-foreground" title={isAdmin ? undefined : "Only session admins can change the proposal limit"}>
+              Active proposals per person
+              <select
+                value={maxActiveProposals}
+                onChange={e => onChangeMaxActiveProposals(Number(e.target.value))}
+                disabled={!isAdmin}
+                className="p-2 rounded bg-card text-foreground border border-border text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {Array.from({ length: 10 }, (_, i) => i + 1).map(n => (
+                  <option key={n} value={n}>{n}</option>
+                ))}
+              </select>
+            </label>
+          )}
         </CardContent>
       </Card>
 
       <div className="grid gap-4 md:grid-cols-2 mt-4">
         {people.slice().sort((a, b) => a.name.localeCompare(b.name)).map(person => (
-          <PersonCard key={person.id} person={person} onUpdatePerson={onUpdatePerson} onDeletePerson={onDeletePerson} />
+          <PersonCard
+            key={person.id}
+            person={person}
+            onUpdatePerson={onUpdatePerson}
+            onDeletePerson={onDeletePerson}
+            onAddMovie={onProposeMovie}
+            onRemoveMovie={onRemoveProposal}
+            onParkMovie={onParkProposal}
+            onPromoteMovie={onPromoteProposal}
+            maxActive={maxActiveProposals}
+            canDelete={isAdmin}
+            canRemoveMovies={isAdmin || claimedPersonIds.includes(person.id)}
+          />
         ))}
       </div>
 
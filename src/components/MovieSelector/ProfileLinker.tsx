@@ -0,0 +1,59 @@
+import React from "react";
+import { Link } from "react-router-dom";
+import { Person } from "@/types/session";
+import { Button } from "@/components/ui/button";
+import { UserCircle, Unlink } from "lucide-react";
+import useProfiles from "@/hooks/useProfiles";
+
+const NEW_PROFILE = "__new__";
+
+// Links the person this device is acting as to a cross-session profile, so
+// their stats can be looked at across every session they are part of.
+const ProfileLinker = ({ person, onLinkProfile }: {
+  person: Person;
+  onLinkProfile: (personId: string, profileId: string | null) => Promise<void>;
+}) => {
+  const { profiles, createProfile } = useProfiles();
+
+  const handleChange = async (value: string) => {
+    if (!value) return;
+    if (value === NEW_PROFILE) {
+      const profile = await createProfile(person.name);
+      if (profile) await onLinkProfile(person.id, profile.id);
+      return;
+    }
+    await onLinkProfile(person.id, value);
+  };
+
+  if (person.profileId) {
+    const profile = profiles.find(p => p.id === person.profileId);
+    return (
+      <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+        <UserCircle className="w-3 h-3" />
+        <Link to={`/profile/${person.profileId}`} className="underline hover:text-foreground">
+          {profile ? `${profile.displayName}'s profile` : "View profile"}
+        </Link>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onLinkProfile(person.id, null)} title="Unlink profile">
+          <Unlink className="w-3 h-3" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <select
+      value=""
+      onChange={e => handleChange(e.target.value)}
+      className="w-full p-2 rounded bg-card text-foreground border border-border focus:outline-none focus:ring-2 focus:ring-primary transition text-xs"
+      aria-label="Link to profile"
+    >
+      <option value="">Link {person.name} to a profile across sessions…</option>
+      {profiles.map(profile => (
+        <option key={profile.id} value={profile.id}>{profile.displayName}</option>
+      ))}
+      <option value={NEW_PROFILE}>New profile "{person.name}"</option>
+    </select>
+  );
+};
+
+export default ProfileLinker;
@@ -3,56 +3,80 @@ import { MovieRating, Person } from "@/types/session";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Film, RefreshCw, ChevronDown, ChevronRight, Heart } from "lucide-react";
+import { Film, RefreshCw, ChevronDown, ChevronRight, Heart, ThumbsUp, Ban, Undo2 } from "lucide-react";
 import { MovieCard } from "../MovieCard";
 import useFavouriteMovie from "@/hooks/useFavouriteMovie";
 import { supabase } from "@/integrations/supabase/client";
+import { isPendingProposal } from "@/lib/sessionHelpers";
 
 const RatePanel = ({
   movieRatings,
   presentPeople,
   selectedPersonId,
+  claimedPersonIds,
   setSelectedPersonId,
   fetchingDetails,
   fetchAllMovieDetails,
   updateRating,
+  secondProposal,
+  vetoProposal,
+  revokeVeto,
+  vetoesLeft,
   searchMovieAgain,
   markMovieAsWatched,
   collapsedMovies,
   toggleCollapse,
   setShouldSort,
+  expandedProposalId,
 }: {
   movieRatings: MovieRating[];
   presentPeople: Person[];
   selectedPersonId: string;
+  claimedPersonIds: string[];
   setSelectedPersonId: (id: string) => void;
   fetchingDetails: boolean;
   fetchAllMovieDetails: () => Promise<void>;
-  updateRating: (movieTitle: string, personId: string, rating: number) => Promise<void>;
-  searchMovieAgain: (title: string) => Promise<void>;
-  markMovieAsWatched: (title: string) => Promise<void>;
+  updateRating: (proposalId: string, personId: string, rating: number) => Promise<void>;
+  secondProposal: (proposalId: string, personId: string) => Promise<void>;
+  vetoProposal: (proposalId: string, personId: string) => Promise<void>;
+  revokeVeto: (proposalId: string, personId: string) => Promise<void>;
+  // vetoes a person has left tonight
+  vetoesLeft: (personId: string) => number;
+  searchMovieAgain: (proposalId: string, title: string, imdbId?: string | null) => Promise<void>;
+  markMovieAsWatched: (proposalId: string) => Promise<void>;
+  // keyed by proposalId
   collapsedMovies: Record<string, boolean>;
-  toggleCollapse: (title: string) => void;
+  toggleCollapse: (proposalId: string) => void;
   setShouldSort: (val: boolean) => void;
+  expandedProposalId?: string;
 }) => {
   const { favoriteProposalId, loading: favLoading, toggleFavourite } = useFavouriteMovie(selectedPersonId);
   const [localCollapsedOverrides, setLocalCollapsedOverrides] = useState<Record<string, boolean>>({});
 
-  const selectedPersonName = presentPeople.find(p => p.id === selectedPersonId)?.name;
+  // Co-proposers count as proposers too
+  const isOwnProposalFor = (movie: MovieRating) =>
+    !!selectedPersonId && movie.proposerIds.includes(selectedPersonId);
 
-  const isOwnProposalFor = (movie: MovieRating) => {
-    if (selectedPersonId && (movie as any).proposerId) {
-      return (movie as any).proposerId === selectedPersonId;
+  const canActAsSelected = !!selectedPersonId && claimedPersonIds.includes(selectedPersonId);
+
+  // collapsedMovies was changed from outside (e.g. by the URL), so it is authoritative again
+  useEffect(() => {
+    setLocalCollapsedOverrides({});
+  }, [collapsedMovies]);
+
+  // Bring the card named in the URL into view once it is rendered
+  const hasExpandedCard = !!expandedProposalId && movieRatings.some(m => m.proposalId === expandedProposalId);
+  useEffect(() => {
+    if (hasExpandedCard) {
+      document.getElementById(`proposal-${expandedProposalId}`)?.scrollIntoView({ block: "nearest" });
     }
-    // Fallback to name comparison before proposerId is attached
-    return selectedPersonName ? selectedPersonName === movie.proposedBy : false;
-  };
+  }, [expandedProposalId, hasExpandedCard]);
 
-  const handleToggleCollapse = (title: string) => {
-    const current = collapsedMovies[title] ?? true;
+  const handleToggleCollapse = (proposalId: string) => {
+    const current = collapsedMovies[proposalId] ?? true;
     const newVal = !current;
-    setLocalCollapsedOverrides(prev => ({ ...prev, [title]: newVal }));
-    toggleCollapse(title);
+    setLocalCollapsedOverrides(prev => ({ ...prev, [proposalId]: newVal }));
+    toggleCollapse(proposalId);
   };
 
   // Persist a proposer's comment to proposal_comments (one row per proposal_id)
@@ -103,20 +127,24 @@ const RatePanel = ({
       <div className="flex flex-col gap-4 w-full max-w-xl mx-auto mt-4">
         {movieRatings.map(movie => {
           const hasVoted = selectedPersonId && movie.ratings[selectedPersonId] !== undefined && movie.ratings[selectedPersonId] > 0;
-          // use attached proposalId/proposerId directly
-          const proposalId = (movie as any).proposalId ?? (movie as any).proposal_id ?? null;
+          const proposalId = movie.proposalId;
+          // optimistic proposals have no row to favourite or comment on yet
+          const isPending = isPendingProposal(proposalId);
           const disallowOwn = isOwnProposalFor(movie);
-          const isFavourite = proposalId ? favoriteProposalId === proposalId : false;
+          const isFavourite = favoriteProposalId === proposalId;
+          // only vetoes from present people keep a movie out of tonight's results
+          const vetoerNames = presentPeople.filter(p => movie.vetoedBy.includes(p.id)).map(p => p.name);
+          const vetoedBySelected = !!selectedPersonId && movie.vetoedBy.includes(selectedPersonId);
 
           // prefer local optimistic override, then parent collapsed state, then default collapsed=true
-          const isCollapsed = localCollapsedOverrides[movie.movieTitle] ?? collapsedMovies[movie.movieTitle] ?? true;
+          const isCollapsed = localCollapsedOverrides[proposalId] ?? collapsedMovies[proposalId] ?? true;
 
           return (
-            <Card key={movie.movieTitle} className="w-full max-w-full relative">
+            <Card key={proposalId} id={`proposal-${proposalId}`} className="w-full max-w-full relative">
               {selectedPersonId && (
                 <div className="absolute top-2 right-2 z-10 flex items-center gap-2">
-                  {/* hide heart entirely for own proposals or when we don't have a proposal id */}
-                  {proposalId && !disallowOwn && (
+                  {/* hide heart entirely for own proposals or while the proposal is being saved */}
+                  {!isPending && !disallowOwn && (
                     <button
                       type="button"
                       onClick={() => toggleFavourite(proposalId)}
@@ -141,19 +169,52 @@ const RatePanel = ({
 
               <CardHeader className="flex flex-row items-center justify-between p-4">
                 <div className="flex items-center gap-2 min-w-0 w-full pr-20">
-                  <button onClick={() => handleToggleCollapse(movie.movieTitle)} aria-label={isCollapsed ? "Expand" : "Collapse"} className="p-1">
+                  <button onClick={() => handleToggleCollapse(proposalId)} aria-label={isCollapsed ? "Expand" : "Collapse"} className="p-1">
                     {isCollapsed ? <ChevronRight className="w-5 h-5" /> : <ChevronDown className="w-5 h-5" />}
                   </button>
                   <span className="font-semibold text-base sm:text-lg truncate min-w-0">{movie.movieTitle}</span>
+                  {vetoerNames.length > 0 && (
+                    <Badge variant="destructive" className="text-xs flex-shrink-0" title={`Vetoed by ${vetoerNames.join(", ")}`}>
+                      <Ban className="w-3 h-3 mr-1" /> Vetoed
+                    </Badge>
+                  )}
                 </div>
               </CardHeader>
 
               {!isCollapsed && (
                 <CardContent>
+                  {vetoerNames.length > 0 && (
+                    <p className="text-xs text-destructive mb-2">Vetoed tonight by {vetoerNames.join(", ")}</p>
+                  )}
+                  {!isPending && !disallowOwn && canActAsSelected && (
+                    <div className="flex flex-wrap justify-end gap-2 mb-2">
+                      {vetoedBySelected ? (
+                        <Button variant="outline" size="sm" onClick={() => revokeVeto(proposalId, selectedPersonId)} className="text-xs">
+                          <Undo2 className="w-3 h-3 mr-1" /> Revoke veto
+                        </Button>
+                      ) : (
+                        <span title={vetoesLeft(selectedPersonId) === 0 ? "No vetoes left tonight" : undefined}>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => vetoProposal(proposalId, selectedPersonId)}
+                            disabled={vetoesLeft(selectedPersonId) === 0}
+                            className="text-xs"
+                          >
+                            <Ban className="w-3 h-3 mr-1" /> Veto ({vetoesLeft(selectedPersonId)} left)
+                          </Button>
+                        </span>
+                      )}
+                      <Button variant="outline" size="sm" onClick={() => secondProposal(proposalId, selectedPersonId)} className="text-xs">
+                        <ThumbsUp className="w-3 h-3 mr-1" /> Second this proposal
+                      </Button>
+                    </div>
+                  )}
                   <MovieCard
                     movie={movie}
                     people={presentPeople}
                     currentPersonId={selectedPersonId}
+                    canRateFor={personId => claimedPersonIds.includes(personId)}
                     onRatingChange={updateRating}
                     onSearchAgain={searchMovieAgain}
                     onMarkAsWatched={markMovieAsWatched}
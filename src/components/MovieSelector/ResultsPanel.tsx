@@ -1,17 +1,68 @@
 import React, { useEffect, useState } from "react";
-import { MovieWithStats, Person } from "@/types/session";
+import { MovieRating, MovieWithStats, Person } from "@/types/session";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Film, Trophy, Check } from "lucide-react";
+import { Film, Trophy, Check, Ban, X, Shuffle, Users, Clock } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { SELECTION_METHODS, SelectionMethod, SelectionResult, DEFAULT_APPROVAL_THRESHOLD } from "@/lib/votingMethods";
+import { TIE_BREAKERS, TieBreaker } from "@/lib/resultRules";
+import { TimeBudget } from "@/lib/timeBudget";
+import { Button } from "@/components/ui/button";
 
-const ResultsPanel = ({ rankedMovies, people, markMovieAsWatched }: {
+const ResultsPanel = ({
+  rankedMovies,
+  people,
+  markMovieAsWatched,
+  isAdmin = false,
+  selection,
+  selectionMethod = "mean",
+  approvalThreshold = DEFAULT_APPROVAL_THRESHOLD,
+  onChangeMethod,
+  vetoedMovies = [],
+  vetoesPerPerson,
+  onChangeVetoesPerPerson,
+  fairnessStrength = 0,
+  onChangeFairnessStrength,
+  belowQuorumMovies = [],
+  quorumPercent = 0,
+  tieBreakers = [],
+  onChangeResultRules,
+  tooLongMovies = [],
+  timeBudget = null,
+  budgetMinutes = null,
+  onChangeTimeBudget,
+}: {
   rankedMovies: MovieWithStats[];
   people: Person[];
-  markMovieAsWatched: (title: string) => Promise<void>;
+  markMovieAsWatched: (proposalId: string) => Promise<void>;
+  isAdmin?: boolean;
+  selection?: SelectionResult;
+  selectionMethod?: SelectionMethod;
+  approvalThreshold?: number;
+  onChangeMethod?: (method: SelectionMethod, approvalThreshold?: number) => void;
+  // proposals a present person vetoed tonight; they are not in rankedMovies
+  vetoedMovies?: MovieRating[];
+  vetoesPerPerson?: number;
+  onChangeVetoesPerPerson?: (count: number) => void;
+  // 0-100, 0 when fairness weighting is off
+  fairnessStrength?: number;
+  onChangeFairnessStrength?: (strength: number) => void;
+  // rated by fewer than quorumPercent of present people; listed but can't win
+  belowQuorumMovies?: MovieWithStats[];
+  quorumPercent?: number;
+  tieBreakers?: TieBreaker[];
+  onChangeResultRules?: (rules: { quorumPercent?: number; tieBreakers?: TieBreaker[]; tieBreakSeed?: number }) => void;
+  // longer than tonight's time budget; not in rankedMovies
+  tooLongMovies?: MovieWithStats[];
+  timeBudget?: TimeBudget | null;
+  // minutes the budget leaves, null without one
+  budgetMinutes?: number | null;
+  onChangeTimeBudget?: (budget: TimeBudget | null) => void;
 }) => {
   const presentPeople = people.filter(p => p.isPresent);
 
+  const unusedTieBreakers = (Object.keys(TIE_BREAKERS) as TieBreaker[]).filter(t => !tieBreakers.includes(t));
+
   const [favouritesByProposal, setFavouritesByProposal] = useState<Record<string, string[]>>({});
 
   useEffect(() => {
@@ -48,19 +99,182 @@ const ResultsPanel = ({ rankedMovies, people, markMovieAsWatched }: {
     <>
       <Card>
         <CardHeader>
-          <div className="flex items-center justify-between">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
             <h3 className="text-lg font-semibold">Movie Rankings</h3>
+            {onChangeMethod && (
+              <div className="flex gap-2" title={isAdmin ? undefined : "Only session admins can change how the winner is picked"}>
+                <select
+                  value={selectionMethod}
+                  onChange={e => onChangeMethod(e.target.value as SelectionMethod)}
+                  disabled={!isAdmin}
+                  className="p-2 rounded bg-card text-foreground border border-border text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  aria-label="Selection method"
+                >
+                  {(Object.keys(SELECTION_METHODS) as SelectionMethod[]).map(key => (
+                    <option key={key} value={key}>{SELECTION_METHODS[key].label}</option>
+                  ))}
+                </select>
+                {onChangeVetoesPerPerson && (
+                  <select
+                    value={vetoesPerPerson}
+                    onChange={e => onChangeVetoesPerPerson(Number(e.target.value))}
+                    disabled={!isAdmin}
+                    className="p-2 rounded bg-card text-foreground border border-border text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label="Vetoes per person"
+                  >
+                    {[0, 1, 2, 3, 4, 5].map(count => (
+                      <option key={count} value={count}>{count === 0 ? "No vetoes" : `${count} veto${count === 1 ? "" : "es"} each`}</option>
+                    ))}
+                  </select>
+                )}
+                {onChangeFairnessStrength && (
+                  <select
+                    value={fairnessStrength}
+                    onChange={e => onChangeFairnessStrength(Number(e.target.value))}
+                    disabled={!isAdmin}
+                    className="p-2 rounded bg-card text-foreground border border-border text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label="Fairness weighting"
+                  >
+                    {[0, 25, 50, 75, 100].map(strength => (
+                      <option key={strength} value={strength}>{strength === 0 ? "Fairness off" : `Fairness ${strength}%`}</option>
+                    ))}
+                  </select>
+                )}
+                {selectionMethod === "approval" && (
+                  <select
+                    value={approvalThreshold}
+                    onChange={e => onChangeMethod("approval", Number(e.target.value))}
+                    disabled={!isAdmin}
+                    className="p-2 rounded bg-card text-foreground border border-border text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label="Approval threshold"
+                  >
+                    {[1, 2, 3, 4, 5].map(stars => (
+                      <option key={stars} value={stars}>{stars}★ or more</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
           </div>
         </CardHeader>
         <CardContent>
-          <p className="text-muted-foreground text-sm">Movies ranked by average rating from present participants</p>
+          <p className="text-muted-foreground text-sm">
+            {SELECTION_METHODS[selectionMethod].description}, counting present participants only
+            {fairnessStrength > 0 && ". Fairness weighting boosts proposals from people whose picks were watched least often or least recently"}
+          </p>
+          {onChangeResultRules && (
+            <div className="flex flex-wrap items-center gap-2 mt-3 text-sm" title={isAdmin ? undefined : "Only session admins can change the results rules"}>
+              <select
+                value={quorumPercent}
+                onChange={e => onChangeResultRules({ quorumPercent: Number(e.target.value) })}
+                disabled={!isAdmin}
+                className="p-2 rounded bg-card text-foreground border border-border text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                aria-label="Quorum"
+              >
+                {[0, 25, 50, 75, 100].map(percent => (
+                  <option key={percent} value={percent}>{percent === 0 ? "No quorum" : `Quorum ${percent}%`}</option>
+                ))}
+              </select>
+              <span className="text-muted-foreground">Ties:</span>
+              {tieBreakers.map(tieBreaker => (
+                <Badge key={tieBreaker} variant="outline" className="gap-1 font-normal">
+                  {TIE_BREAKERS[tieBreaker]}
+                  {isAdmin && (
+                    <button
+                      type="button"
+                      onClick={() => onChangeResultRules({ tieBreakers: tieBreakers.filter(t => t !== tieBreaker) })}
+                      aria-label={`Remove ${TIE_BREAKERS[tieBreaker]} tie-breaker`}
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </Badge>
+              ))}
+              {unusedTieBreakers.length > 0 && (
+                <select
+                  value=""
+                  onChange={e => onChangeResultRules({ tieBreakers: [...tieBreakers, e.target.value as TieBreaker] })}
+                  disabled={!isAdmin}
+                  className="p-2 rounded bg-card text-foreground border border-border text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  aria-label="Add tie-breaker"
+                >
+                  <option value="">{tieBreakers.length > 0 ? "Then by…" : "Title (add a tie-breaker)"}</option>
+                  {unusedTieBreakers.map(tieBreaker => (
+                    <option key={tieBreaker} value={tieBreaker}>{TIE_BREAKERS[tieBreaker]}</option>
+                  ))}
+                </select>
+              )}
+              {tieBreakers.includes("random") && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={!isAdmin}
+                  onClick={() => onChangeResultRules({ tieBreakSeed: Math.floor(Math.random() * 2147483647) })}
+                  className="text-xs"
+                >
+                  <Shuffle className="w-3 h-3 mr-1" /> Redraw
+                </Button>
+              )}
+            </div>
+          )}
+          {onChangeTimeBudget && (
+            <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+              <Clock className="w-4 h-4 text-muted-foreground" />
+              <select
+                value={timeBudget?.kind ?? ""}
+                onChange={e => {
+                  const kind = e.target.value;
+                  if (kind === "minutes") onChangeTimeBudget({ kind, minutes: 120 });
+                  else if (kind === "until") onChangeTimeBudget({ kind, until: "23:30" });
+                  else onChangeTimeBudget(null);
+                }}
+                className="p-2 rounded bg-card text-foreground border border-border text-sm"
+                aria-label="Time budget"
+              >
+                <option value="">Any length</option>
+                <option value="minutes">At most</option>
+                <option value="until">Finished by</option>
+              </select>
+              {timeBudget?.kind === "minutes" && (
+                <>
+                  <input
+                    type="number"
+                    min={1}
+                    value={timeBudget.minutes}
+                    onChange={e => onChangeTimeBudget({ kind: "minutes", minutes: Number(e.target.value) })}
+                    className="w-20 p-2 rounded bg-card text-foreground border border-border text-sm"
+                    aria-label="Maximum minutes"
+                  />
+                  <span className="text-muted-foreground">minutes</span>
+                </>
+              )}
+              {timeBudget?.kind === "until" && (
+                <>
+                  <input
+                    type="time"
+                    value={timeBudget.until}
+                    onChange={e => onChangeTimeBudget({ kind: "until", until: e.target.value })}
+                    className="p-2 rounded bg-card text-foreground border border-border text-sm"
+                    aria-label="Finish time"
+                  />
+                  {budgetMinutes !== null && <span className="text-muted-foreground">{budgetMinutes} minutes from now</span>}
+                </>
+              )}
+            </div>
+          )}
+          {selection?.winnerId && selection.explanation && (
+            <div className="flex items-start gap-2 mt-3 p-3 rounded-lg bg-primary/10">
+              <Trophy className="w-4 h-4 text-primary flex-shrink-0 mt-0.5" />
+              <p className="text-sm">{selection.explanation}</p>
+            </div>
+          )}
         </CardContent>
       </Card>
 
       <div className="flex flex-col gap-4 mt-4">
         {rankedMovies.map((movie, index) => (
           (
-           <Card key={movie.movieTitle} className="w-full max-w-full">
+           <Card key={movie.proposalId} className="w-full max-w-full">
              <CardHeader className="pb-3 p-3 sm:p-6">
                <div className="flex items-center gap-2 sm:gap-3">
                  <div className="flex items-center justify-center w-6 h-6 sm:w-8 sm:h-8 rounded-full bg-primary text-primary-foreground font-bold text-xs sm:text-sm flex-shrink-0">
@@ -70,7 +284,7 @@ const ResultsPanel = ({ rankedMovies, people, markMovieAsWatched }: {
                    <h3 className="font-semibold text-base sm:text-lg leading-tight truncate">{movie.movieTitle}</h3>
                    <p className="text-xs sm:text-sm text-muted-foreground">Proposed by {movie.proposedBy}</p>
                  </div>
-                 <Badge variant="secondary" className="text-base sm:text-lg">★ {movie.averageRating.toFixed(1)}</Badge>
+                 <Badge variant="secondary" className="text-base sm:text-lg whitespace-nowrap">{movie.scoreLabel ?? `★ ${movie.averageRating.toFixed(1)}`}</Badge>
                </div>
              </CardHeader>
              <CardContent className="pt-0">
@@ -85,14 +299,19 @@ const ResultsPanel = ({ rankedMovies, people, markMovieAsWatched }: {
                  <div className="space-y-1 text-xs text-muted-foreground flex-1">
                    {movie.details?.year && <p>Year: {movie.details.year}</p>}
                    {movie.details?.director && <p>Director: {movie.details.director}</p>}
-                   {movie.details?.runtime && <p>Runtime: {movie.details.runtime}</p>}
-                   {movie.details?.genre && <p className="break-words">Genre: {movie.details.genre}</p>}
+                   {movie.details?.runtimeMinutes && <p>Runtime: {movie.details.runtimeMinutes} min</p>}
+                   {movie.details?.genres?.length > 0 && <p className="break-words">Genre: {movie.details.genres.join(", ")}</p>}
                    <p>{movie.totalRatings}/{presentPeople.length} people rated</p>
+                   {movie.runtimeFit === "unknown" && (
+                     <p className="text-yellow-600 font-medium">Runtime unknown: may not fit in {budgetMinutes} minutes</p>
+                   )}
+                   {fairnessStrength > 0 && movie.rawScoreLabel && (
+                     <p>Raw score: {movie.rawScoreLabel} · fairness ×{(movie.fairnessBoost ?? 1).toFixed(2)} → {movie.scoreLabel}</p>
+                   )}
 
                   {(() => {
                     const absentVoters = people.filter(p => !p.isPresent && movie.ratings[p.id] === 1).map(p => p.name);
-                    const proposalId = (movie as any).proposalId ?? (movie as any).proposal_id ?? null;
-                    const favPersonIds = proposalId ? favouritesByProposal[proposalId] ?? [] : [];
+                    const favPersonIds = favouritesByProposal[movie.proposalId] ?? [];
                     const absentFavNames = people.filter(p => !p.isPresent && favPersonIds.includes(p.id)).map(p => p.name);
                     const notYetRated = presentPeople.filter(p => !(movie.ratings[p.id] > 0)).map(p => p.name);
 
@@ -117,7 +336,12 @@ const ResultsPanel = ({ rankedMovies, people, markMovieAsWatched }: {
                    <a href={`https://www.imdb.com/title/${movie.details.imdbId}`} target="_blank" rel="noopener noreferrer" className="text-xs text-primary hover:underline">View on IMDb</a>
                  )}
 
-                 <button onClick={() => markMovieAsWatched(movie.movieTitle)} className="inline-flex items-center gap-2 px-3 py-1 border rounded text-xs">
+                 <button
+                   onClick={() => markMovieAsWatched(movie.proposalId)}
+                   disabled={!isAdmin}
+                   title={isAdmin ? undefined : "Only session admins can mark movies as watched"}
+                   className="inline-flex items-center gap-2 px-3 py-1 border rounded text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+                 >
                    <Check className="w-3 h-3" />
                    Watched
                  </button>
@@ -127,7 +351,64 @@ const ResultsPanel = ({ rankedMovies, people, markMovieAsWatched }: {
         )))}
       </div>
 
-      {rankedMovies.length === 0 && (
+      {belowQuorumMovies.length > 0 && (
+        <Card className="mt-4">
+          <CardHeader className="pb-2">
+            <h3 className="text-sm font-semibold flex items-center gap-2">
+              <Users className="w-4 h-4 text-muted-foreground" />
+              Below quorum
+            </h3>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {belowQuorumMovies.map(movie => (
+              <p key={movie.proposalId} className="text-sm text-muted-foreground">
+                <span className="font-medium text-foreground">{movie.movieTitle}</span>
+                {" "}rated by {movie.totalRatings}/{presentPeople.length}, needs {quorumPercent}% ({Math.ceil(quorumPercent * presentPeople.length / 100)})
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {tooLongMovies.length > 0 && (
+        <Card className="mt-4">
+          <CardHeader className="pb-2">
+            <h3 className="text-sm font-semibold flex items-center gap-2">
+              <Clock className="w-4 h-4 text-muted-foreground" />
+              Too long tonight
+            </h3>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {tooLongMovies.map(movie => (
+              <p key={movie.proposalId} className="text-sm text-muted-foreground">
+                <span className="font-medium text-foreground">{movie.movieTitle}</span>
+                {" "}runs {movie.details?.runtimeMinutes} min, {budgetMinutes} minutes available
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {vetoedMovies.length > 0 && (
+        <Card className="mt-4">
+          <CardHeader className="pb-2">
+            <h3 className="text-sm font-semibold flex items-center gap-2">
+              <Ban className="w-4 h-4 text-destructive" />
+              Vetoed tonight
+            </h3>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {vetoedMovies.map(movie => (
+              <p key={movie.proposalId} className="text-sm text-muted-foreground">
+                <span className="font-medium text-foreground">{movie.movieTitle}</span>
+                {" "}vetoed by {presentPeople.filter(p => movie.vetoedBy.includes(p.id)).map(p => p.name).join(", ")}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {rankedMovies.length === 0 && belowQuorumMovies.length === 0 && tooLongMovies.length === 0 && (
         <Card className="text-center py-8 mt-4">
           <CardContent>
             <Trophy className="w-12 h-12 mx-auto text-muted-foreground mb-4" />
@@ -0,0 +1,91 @@
+import React from "react";
+import { Person } from "@/types/session";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Shield, ShieldOff, Check, X } from "lucide-react";
+import useSessionAdmin from "@/hooks/useSessionAdmin";
+
+// Admin-only controls: promote/demote devices and resolve re-claim requests.
+// Devices are identified by the people they have claimed.
+const SessionAdminPanel = ({ sessionId, people, deviceUserId }: {
+  sessionId: string;
+  people: Person[];
+  deviceUserId: string | null;
+}) => {
+  const { members, reclaimRequests, setMemberRole, resolveReclaim } = useSessionAdmin(sessionId, true, people);
+
+  const adminCount = members.filter(m => m.role === "admin").length;
+
+  const describeDevice = (userId: string) => {
+    const names = people.filter(p => p.claimedBy === userId).map(p => p.name);
+    const label = names.length > 0 ? names.join(", ") : "Device without a claimed person";
+    return userId === deviceUserId ? `${label} (this device)` : label;
+  };
+
+  return (
+    <Card className="mt-4">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Shield className="w-5 h-5" />
+          Session Admin
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reclaimRequests.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-muted-foreground">Re-claim requests</h4>
+            {reclaimRequests.map(request => {
+              const person = people.find(p => p.id === request.personId);
+              return (
+                <div key={request.id} className="flex items-center justify-between gap-2 p-2 bg-secondary rounded-md text-sm">
+                  <span>Move <span className="font-medium">{person?.name ?? "Unknown"}</span> to another device</span>
+                  <div className="flex gap-1">
+                    <Button size="sm" variant="outline" onClick={() => resolveReclaim(request.id, true)}>
+                      <Check className="w-3 h-3 mr-1" />
+                      Approve
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => resolveReclaim(request.id, false)}>
+                      <X className="w-3 h-3 mr-1" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-muted-foreground">Devices</h4>
+          {members.map(member => {
+            const isLastAdmin = member.role === "admin" && adminCount <= 1;
+            return (
+              <div key={member.userId} className="flex items-center justify-between gap-2 p-2 bg-secondary rounded-md text-sm">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="truncate">{describeDevice(member.userId)}</span>
+                  {member.role === "admin" && <Badge variant="secondary">Admin</Badge>}
+                </div>
+                {member.role === "admin" ? (
+                  <span title={isLastAdmin ? "A session needs at least one admin" : undefined}>
+                    <Button size="sm" variant="ghost" disabled={isLastAdmin} onClick={() => setMemberRole(member.userId, "member")}>
+                      <ShieldOff className="w-3 h-3 mr-1" />
+                      Remove admin
+                    </Button>
+                  </span>
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => setMemberRole(member.userId, "admin")}>
+                    <Shield className="w-3 h-3 mr-1" />
+                    Make admin
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SessionAdminPanel;
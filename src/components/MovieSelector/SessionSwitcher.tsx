@@ -0,0 +1,38 @@
+import React from "react";
+import { useNavigate } from "react-router-dom";
+import useMySessions from "@/hooks/useMySessions";
+
+const ALL_SESSIONS = "__all__";
+
+// Jumps between the sessions this device has joined without reloading the page
+const SessionSwitcher = ({ currentSessionId, currentSessionName }: {
+  currentSessionId: string;
+  currentSessionName: string;
+}) => {
+  const navigate = useNavigate();
+  const { sessions } = useMySessions();
+
+  // Archived sessions are only listed when they are the one currently open
+  const options = sessions
+    .filter(s => !s.archivedAt || s.id === currentSessionId)
+    .map(s => ({ id: s.id, name: s.id === currentSessionId ? currentSessionName : s.name }));
+  if (!options.some(s => s.id === currentSessionId)) {
+    options.unshift({ id: currentSessionId, name: currentSessionName });
+  }
+
+  return (
+    <select
+      value={currentSessionId}
+      onChange={e => navigate(e.target.value === ALL_SESSIONS ? "/" : `/s/${e.target.value}`)}
+      className="p-2 rounded bg-card text-foreground border border-border focus:outline-none focus:ring-2 focus:ring-primary transition text-sm"
+      aria-label="Switch session"
+    >
+      {options.map(session => (
+        <option key={session.id} value={session.id}>{session.name}</option>
+      ))}
+      <option value={ALL_SESSIONS}>All sessions…</option>
+    </select>
+  );
+};
+
+export default SessionSwitcher;
@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from "react";
+import { MovieWithStats } from "@/types/session";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Check, Dices } from "lucide-react";
+import useWheelSpins from "@/hooks/useWheelSpins";
+import { drawWheel, sliceAngles, WheelSlice, WheelWeighting } from "@/lib/wheel";
+import { SELECTION_METHODS, SelectionMethod } from "@/lib/votingMethods";
+
+const SIZE = 200;
+const RADIUS = SIZE / 2 - 4;
+// full turns before the wheel settles, so short spins still look like spins
+const EXTRA_TURNS = 5;
+
+const slicePath = (start: number, end: number) => {
+  const point = (deg: number) => {
+    const rad = ((deg - 90) * Math.PI) / 180;
+    return `${SIZE / 2 + RADIUS * Math.cos(rad)} ${SIZE / 2 + RADIUS * Math.sin(rad)}`;
+  };
+  const largeArc = end - start > 180 ? 1 : 0;
+  if (end - start >= 360) {
+    return `M ${SIZE / 2} ${SIZE / 2 - RADIUS} A ${RADIUS} ${RADIUS} 0 1 1 ${SIZE / 2 - 0.01} ${SIZE / 2 - RADIUS} Z`;
+  }
+  return `M ${SIZE / 2} ${SIZE / 2} L ${point(start)} A ${RADIUS} ${RADIUS} 0 ${largeArc} 1 ${point(end)} Z`;
+};
+
+// Settles a close result: an admin spins among the top N movies, each slice
+// sized by its average hype or its score, and every device replays the spin.
+const SpinWheel = ({ sessionId, rankedMovies, selectionMethod, isAdmin, markMovieAsWatched }: {
+  sessionId: string | null;
+  rankedMovies: MovieWithStats[];
+  selectionMethod: SelectionMethod;
+  isAdmin: boolean;
+  markMovieAsWatched: (proposalId: string) => Promise<void>;
+}) => {
+  const { latestSpin, loaded, spinning, spin } = useWheelSpins(sessionId, isAdmin);
+  const [topN, setTopN] = useState(3);
+  const [weighting, setWeighting] = useState<WheelWeighting>("average");
+  const [rotation, setRotation] = useState(0);
+  const [revealed, setRevealed] = useState(true);
+  // the spin already there when the wheel was opened is shown, not replayed
+  const shownSpinId = useRef<string | null | undefined>(undefined);
+
+  const candidates: WheelSlice[] = rankedMovies.slice(0, topN).map(movie => ({
+    proposalId: movie.proposalId,
+    title: movie.movieTitle,
+    weight: weighting === "average" ? movie.averageRating : movie.score ?? 0,
+  }));
+
+  // Show the latest spin's wheel; before any spin, preview tonight's candidates
+  const slices = latestSpin?.slices ?? candidates;
+  const angles = sliceAngles(slices);
+
+  useEffect(() => {
+    if (!loaded) return;
+    if (!latestSpin) {
+      shownSpinId.current = null;
+      return;
+    }
+    const draw = drawWheel(latestSpin.slices, latestSpin.seed);
+    if (!draw) return;
+    // turn the wheel so the landing point ends under the pointer at the top
+    const target = 360 - draw.landingAngle;
+    if (shownSpinId.current === undefined) {
+      setRotation(target);
+      setRevealed(true);
+    } else if (shownSpinId.current !== latestSpin.id) {
+      setRevealed(false);
+      setRotation(prev => prev - (prev % 360) + 360 * EXTRA_TURNS + target);
+    }
+    shownSpinId.current = latestSpin.id;
+  }, [loaded, latestSpin]);
+
+  if (rankedMovies.length < 2 && !latestSpin) return null;
+
+  return (
+    <Card className="mb-4">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Dices className="w-5 h-5 text-primary" />
+            Spin the wheel
+          </h3>
+          <div className="flex flex-wrap gap-2" title={isAdmin ? undefined : "Only session admins can spin the wheel"}>
+            <select
+              value={topN}
+              onChange={e => setTopN(Number(e.target.value))}
+              className="p-2 rounded bg-card text-foreground border border-border text-sm"
+              aria-label="Movies on the wheel"
+            >
+              {[2, 3, 4, 5, 6].map(n => (
+                <option key={n} value={n}>Top {n}</option>
+              ))}
+            </select>
+            <select
+              value={weighting}
+              onChange={e => setWeighting(e.target.value as WheelWeighting)}
+              className="p-2 rounded bg-card text-foreground border border-border text-sm"
+              aria-label="Slice size"
+            >
+              <option value="average">By average hype</option>
+              <option value="score">By {SELECTION_METHODS[selectionMethod].label.toLowerCase()} score</option>
+            </select>
+            <Button size="sm" onClick={() => spin(candidates, weighting)} disabled={!isAdmin || spinning || candidates.length < 2}>
+              <Dices className="w-4 h-4 mr-1" /> Spin
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="flex flex-col sm:flex-row items-center gap-4">
+        <div className="relative flex-shrink-0" style={{ width: SIZE, height: SIZE }}>
+          <div className="absolute left-1/2 -translate-x-1/2 -top-1 z-10 w-0 h-0 border-l-8 border-r-8 border-t-[14px] border-l-transparent border-r-transparent border-t-foreground" />
+          <svg
+            width={SIZE}
+            height={SIZE}
+            viewBox={`0 0 ${SIZE} ${SIZE}`}
+            style={{ transform: `rotate(${rotation}deg)`, transition: revealed ? "none" : "transform 4s cubic-bezier(0.15, 0.85, 0.25, 1)" }}
+            onTransitionEnd={() => setRevealed(true)}
+            role="img"
+            aria-label="Wheel of movies"
+          >
+            {slices.map((slice, index) => (
+              <path
+                key={slice.proposalId}
+                d={slicePath(angles[index].start, angles[index].end)}
+                fill={`hsl(${(index * 360) / slices.length}, 70%, 60%)`}
+                stroke="white"
+                strokeWidth={2}
+              >
+                <title>{slice.title}</title>
+              </path>
+            ))}
+          </svg>
+        </div>
+
+        <div className="flex-1 min-w-0 space-y-2 text-sm">
+          <ul className="space-y-1">
+            {slices.map((slice, index) => (
+              <li key={slice.proposalId} className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ background: `hsl(${(index * 360) / slices.length}, 70%, 60%)` }} />
+                <span className="truncate">{slice.title}</span>
+                <span className="text-muted-foreground text-xs">{Math.round(((angles[index].end - angles[index].start) / 360) * 100)}%</span>
+              </li>
+            ))}
+          </ul>
+
+          {latestSpin && (revealed ? (
+            <div className="p-3 rounded-lg bg-primary/10 space-y-2">
+              <p>The wheel picked <span className="font-semibold">{latestSpin.pickedTitle}</span></p>
+              {rankedMovies.some(m => m.proposalId === latestSpin.pickedProposalId) && (
+                <button
+                  onClick={() => markMovieAsWatched(latestSpin.pickedProposalId!)}
+                  disabled={!isAdmin}
+                  title={isAdmin ? undefined : "Only session admins can mark movies as watched"}
+                  className="inline-flex items-center gap-2 px-3 py-1 border rounded text-xs disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Check className="w-3 h-3" />
+                  Mark as watched
+                </button>
+              )}
+            </div>
+          ) : (
+            <p className="text-muted-foreground">Spinning…</p>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SpinWheel;
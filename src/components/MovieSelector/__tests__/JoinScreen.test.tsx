@@ -0,0 +1,60 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import type { ComponentProps } from 'react';
+import { describe, it, expect, vi } from 'vitest';
+import JoinScreen from '../JoinScreen';
+import { Person } from '@/types/session';
+
+describe('JoinScreen', () => {
+  const people: Person[] = [
+    { id: 'p1', name: 'Alice', isPresent: true, movies: [], claimedBy: null },
+    { id: 'p2', name: 'Bob', isPresent: true, movies: [], claimedBy: 'other-device' }
+  ];
+
+  const renderScreen = (overrides: Partial<ComponentProps<typeof JoinScreen>> = {}) => render(
+    <JoinScreen
+      sessionName="Friday Films"
+      people={people}
+      deviceUserId="this-device"
+      onJoinAsNewPerson={vi.fn().mockResolvedValue(true)}
+      onClaimPerson={vi.fn().mockResolvedValue(undefined)}
+      onRequestReclaim={vi.fn().mockResolvedValue(undefined)}
+      onContinue={vi.fn()}
+      {...overrides}
+    />
+  );
+
+  // Test that a newcomer can add themselves by name
+  it('joins as a new person with the typed name', () => {
+    const onJoinAsNewPerson = vi.fn().mockResolvedValue(true);
+    renderScreen({ onJoinAsNewPerson });
+
+    fireEvent.change(screen.getByPlaceholderText('Your name'), { target: { value: 'Carol' } });
+    fireEvent.click(screen.getByText('Join'));
+
+    expect(onJoinAsNewPerson).toHaveBeenCalledWith('Carol');
+  });
+
+  // Test that unclaimed people can be claimed and claimed ones can be requested
+  it('offers to claim unclaimed people and re-claim claimed ones', () => {
+    const onClaimPerson = vi.fn().mockResolvedValue(undefined);
+    const onRequestReclaim = vi.fn().mockResolvedValue(undefined);
+    renderScreen({ onClaimPerson, onRequestReclaim });
+
+    fireEvent.click(screen.getByText('Alice'));
+    fireEvent.click(screen.getByText('Bob'));
+
+    expect(onClaimPerson).toHaveBeenCalledWith('p1');
+    expect(onRequestReclaim).toHaveBeenCalledWith('p2');
+  });
+
+  // Test that a device that already has a person only sees the continue button
+  it('shows the continue button once this device has a person', () => {
+    const onContinue = vi.fn();
+    renderScreen({ people: [{ ...people[0], claimedBy: 'this-device' }], onContinue });
+
+    expect(screen.getByText("You're in as Alice.")).toBeInTheDocument();
+    expect(screen.queryByPlaceholderText('Your name')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText('Continue to the session'));
+    expect(onContinue).toHaveBeenCalled();
+  });
+});
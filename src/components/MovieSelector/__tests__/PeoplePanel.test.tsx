@@ -4,11 +4,12 @@ import PeoplePanel from '../PeoplePanel';
 import { Person } from '@/types/session';
 
 // Mock PersonCard to avoid testing child implementation details here
-vi.mock('../PersonCard', () => ({
-  PersonCard: ({ person, onDeletePerson }: any) => (
+vi.mock('../../PersonCard', () => ({
+  PersonCard: ({ person, onDeletePerson, canDelete, canRemoveMovies }: any) => (
     <div data-testid="person-card">
       {person.name}
-      <button onClick={() => onDeletePerson(person.id)}>Delete</button>
+      <button onClick={() => onDeletePerson(person.id)} disabled={!canDelete}>Delete</button>
+      <button disabled={!canRemoveMovies}>Remove {person.name}'s movie</button>
     </div>
   )
 }));
@@ -27,6 +28,8 @@ describe('PeoplePanel', () => {
         onAddPerson={vi.fn()}
         onUpdatePerson={vi.fn()}
         onDeletePerson={vi.fn()}
+        onProposeMovie={vi.fn()}
+        onRemoveProposal={vi.fn()}
       />
     );
 
@@ -44,6 +47,8 @@ describe('PeoplePanel', () => {
         onAddPerson={handleAdd}
         onUpdatePerson={vi.fn()}
         onDeletePerson={vi.fn()}
+        onProposeMovie={vi.fn()}
+        onRemoveProposal={vi.fn()}
       />
     );
 
@@ -64,9 +69,46 @@ describe('PeoplePanel', () => {
         onAddPerson={vi.fn()}
         onUpdatePerson={vi.fn()}
         onDeletePerson={vi.fn()}
+        onProposeMovie={vi.fn()}
+        onRemoveProposal={vi.fn()}
       />
     );
 
     expect(screen.getByText(/No people added yet/i)).toBeInTheDocument();
   });
+
+  // Test that non-admins can only remove proposals of people claimed on this device
+  it('gates destructive person controls behind the admin role', () => {
+    const { rerender } = render(
+      <PeoplePanel
+        people={mockPeople}
+        onAddPerson={vi.fn()}
+        onUpdatePerson={vi.fn()}
+        onDeletePerson={vi.fn()}
+        onProposeMovie={vi.fn()}
+        onRemoveProposal={vi.fn()}
+        claimedPersonIds={['p1']}
+      />
+    );
+
+    screen.getAllByText('Delete').forEach(button => expect(button).toBeDisabled());
+    expect(screen.getByText("Remove Alice's movie")).toBeEnabled();
+    expect(screen.getByText("Remove Bob's movie")).toBeDisabled();
+
+    rerender(
+      <PeoplePanel
+        people={mockPeople}
+        onAddPerson={vi.fn()}
+        onUpdatePerson={vi.fn()}
+        onDeletePerson={vi.fn()}
+        onProposeMovie={vi.fn()}
+        onRemoveProposal={vi.fn()}
+        isAdmin
+        claimedPersonIds={['p1']}
+      />
+    );
+
+    screen.getAllByText('Delete').forEach(button => expect(button).toBeEnabled());
+    expect(screen.getByText("Remove Bob's movie")).toBeEnabled();
+  });
 });
@@ -15,6 +15,7 @@ vi.mock('@/integrations/supabase/client', () => ({
 describe('ResultsPanel', () => {
   const mockRankedMovies: MovieWithStats[] = [
     {
+      proposalId: 'm1',
       movieTitle: 'Best Movie',
       proposedBy: 'Alice',
       ratings: { 'p1': 5 },
@@ -23,6 +24,7 @@ describe('ResultsPanel', () => {
       details: { poster: 'poster.jpg' }
     },
     {
+      proposalId: 'm2',
       movieTitle: 'Mediocre Movie',
       proposedBy: 'Bob',
       ratings: { 'p1': 3 },
@@ -80,4 +82,75 @@ describe('ResultsPanel', () => {
     const buttons = screen.getAllByText(/Watched/i);
     expect(buttons.length).toBeGreaterThan(0);
   });
+
+  // Test that the winner's explanation and the method scores are shown
+  it('explains why the winner won under the chosen method', () => {
+    render(
+      <ResultsPanel
+        rankedMovies={mockRankedMovies.map(m => ({ ...m, scoreLabel: m.proposalId === 'm1' ? '1 pts' : '0 pts' }))}
+        people={mockPeople}
+        markMovieAsWatched={vi.fn()}
+        selectionMethod="borda"
+        selection={{ method: 'borda', ranking: [], winnerId: 'm1', explanation: '"Best Movie" scored 1 Borda points.' }}
+        onChangeMethod={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('"Best Movie" scored 1 Borda points.')).toBeInTheDocument();
+    expect(screen.getByText('1 pts')).toBeInTheDocument();
+    // Only admins can change the method
+    expect(screen.getByLabelText('Selection method')).toBeDisabled();
+  });
+
+  // Test that vetoed proposals are listed with who vetoed them
+  it('lists movies vetoed tonight', () => {
+    render(
+      <ResultsPanel
+        rankedMovies={[]}
+        people={mockPeople}
+        markMovieAsWatched={vi.fn()}
+        vetoedMovies={[{ proposalId: 'm3', movieTitle: 'Vetoed Movie', proposedBy: 'Bob', ratings: {}, proposerIds: ['p2'], vetoedBy: ['p1'] }]}
+      />
+    );
+
+    expect(screen.getByText('Vetoed tonight')).toBeInTheDocument();
+    expect(screen.getByText('Vetoed Movie')).toBeInTheDocument();
+    expect(screen.getByText(/vetoed by Alice/)).toBeInTheDocument();
+  });
+
+  // Test that movies short of the quorum are marked rather than hidden
+  it('marks movies below quorum', () => {
+    render(
+      <ResultsPanel
+        rankedMovies={[mockRankedMovies[0]]}
+        people={mockPeople}
+        markMovieAsWatched={vi.fn()}
+        belowQuorumMovies={[{ ...mockRankedMovies[1], totalRatings: 0 }]}
+        quorumPercent={100}
+      />
+    );
+
+    expect(screen.getByText('Below quorum')).toBeInTheDocument();
+    expect(screen.getByText('Mediocre Movie')).toBeInTheDocument();
+    expect(screen.getByText(/rated by 0\/1, needs 100%/)).toBeInTheDocument();
+  });
+
+  // Test that unknown runtimes are flagged and movies over the budget are listed apart
+  it('flags runtimes against the time budget', () => {
+    render(
+      <ResultsPanel
+        rankedMovies={[{ ...mockRankedMovies[0], runtimeFit: 'unknown' }]}
+        people={mockPeople}
+        markMovieAsWatched={vi.fn()}
+        tooLongMovies={[{ ...mockRankedMovies[1], details: { runtimeMinutes: 150 }, runtimeFit: 'too_long' }]}
+        timeBudget={{ kind: 'minutes', minutes: 110 }}
+        budgetMinutes={110}
+        onChangeTimeBudget={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Runtime unknown: may not fit in 110 minutes')).toBeInTheDocument();
+    expect(screen.getByText('Too long tonight')).toBeInTheDocument();
+    expect(screen.getByText(/runs 150 min, 110 minutes available/)).toBeInTheDocument();
+  });
 });
@@ -1,18 +1,78 @@
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
 import useMovieSession from "@/hooks/useMovieSession";
 import PeoplePanel from "./PeoplePanel";
+import MovieNightPanel from "./MovieNightPanel";
 import RatePanel from "./RatePanel";
 import ResultsPanel from "./ResultsPanel";
+import SpinWheel from "./SpinWheel";
+import IdentityPicker from "./IdentityPicker";
+import SessionAdminPanel from "./SessionAdminPanel";
+import SessionSwitcher from "./SessionSwitcher";
+import InviteDialog from "./InviteDialog";
+import JoinScreen from "./JoinScreen";
+import ProfileLinker from "./ProfileLinker";
 import { WatchedMovies } from "../WatchedMovies";
 import Stats from "../Stats";
+import Trash from "../Trash";
+import Activity from "../Activity";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Users, Film, Trophy, Award, BarChart } from "lucide-react";
+import { Users, Film, Trophy, Award, BarChart, UserPlus, Lock, Pencil, LayoutList, Trash2, History } from "lucide-react";
+import { parseSessionPath, sessionPath, SessionRoute, SessionTab } from "@/lib/sessionRoutes";
+import { isPendingProposal } from "@/lib/sessionHelpers";
 
-const MovieSelectorRoot = ({ onSessionLoad }: { onSessionLoad?: (id: string) => void }) => {
-  const session = useMovieSession({ onSessionLoad });
-  const [newSessionName, setNewSessionName] = useState("");
+const MovieSelectorRoot = ({ sessionId, inviteKey, subPath, onSessionLoad }: {
+  sessionId: string;
+  inviteKey?: string | null;
+  subPath?: string;
+  onSessionLoad?: (id: string) => void;
+}) => {
+  const session = useMovieSession({ sessionId, inviteKey, onSessionLoad });
+  const navigate = useNavigate();
+  const [editingName, setEditingName] = useState(false);
+  const [showInvite, setShowInvite] = useState(false);
+  const [draftName, setDraftName] = useState("");
+
+  const selectedPerson = session.people.find(p => p.id === session.selectedPersonId);
+
+  // View, tab and expanded cards live in the URL so links and back/forward restore them
+  const route = parseSessionPath(subPath);
+  const goTo = (next: Partial<SessionRoute>) => navigate(sessionPath(sessionId, next));
+
+  // Only once the proposal is loaded, so a stale link doesn't collapse anything
+  const routeProposalId = route.proposalId && session.movieRatings.some(m => m.proposalId === route.proposalId)
+    ? route.proposalId
+    : undefined;
+
+  // Expand the card named in the URL; collapse it again when the URL goes back to /rate
+  const prevRouteProposalId = useRef<string>();
+  const { setCollapsedMovies } = session;
+  useEffect(() => {
+    const prev = prevRouteProposalId.current;
+    prevRouteProposalId.current = routeProposalId;
+    if (routeProposalId) {
+      setCollapsedMovies(c => ({ ...c, [routeProposalId]: false }));
+    } else if (prev && route.tab === "rate") {
+      setCollapsedMovies(c => ({ ...c, [prev]: true }));
+    }
+  }, [routeProposalId, route.tab, setCollapsedMovies]);
+
+  const toggleMovie = (proposalId: string) => {
+    const expanding = session.collapsedMovies[proposalId] ?? true;
+    session.toggleCollapse(proposalId);
+    if (isPendingProposal(proposalId)) return;
+    if (expanding) goTo({ tab: "rate", proposalId });
+    else if (route.proposalId === proposalId) goTo({ tab: "rate" });
+  };
+
+  const changeTab = (tab: string) => {
+    if (tab === "rate") {
+      session.setShouldSort(true);
+    }
+    goTo({ tab: tab as SessionTab });
+  };
 
   if (session.loading) {
     return <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5 flex items-center justify-center">
@@ -23,45 +83,129 @@ const MovieSelectorRoot = ({ onSessionLoad }: { onSessionLoad?: (id: string) =>
     </div>;
   }
 
-  if (session.showNewSession) {
+  if (session.sessionNotFound) {
     return <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5 flex items-center justify-center">
       <Card className="w-full max-w-md">
         <CardHeader className="text-center">
-          <CardTitle className="text-2xl">Create New Session</CardTitle>
-          <p className="text-muted-foreground">Start a new movie selection session</p>
+          <CardTitle className="text-2xl">Session Not Found</CardTitle>
+          <p className="text-muted-foreground">This session doesn't exist or could not be loaded.</p>
         </CardHeader>
-        <CardContent className="space-y-4">
-          <div>
-            <input placeholder="Session name (e.g., Friday Movie Night)" value={newSessionName} onChange={e => setNewSessionName(e.target.value)} onKeyPress={e => e.key === "Enter" && session.createNewSession(newSessionName)} className="w-full p-2 rounded bg-input border" />
-          </div>
-          <Button onClick={() => session.createNewSession(newSessionName)} disabled={!newSessionName.trim()} className="w-full">
-            Create Session
+        <CardContent>
+          <Button variant="outline" onClick={() => navigate('/')} className="w-full">
+            Back to My Sessions
           </Button>
         </CardContent>
       </Card>
     </div>;
   }
 
+  if (session.accessDenied) {
+    return <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5 flex items-center justify-center">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl flex items-center justify-center gap-2">
+            <Lock className="w-5 h-5" />
+            Private Session
+          </CardTitle>
+          <p className="text-muted-foreground">
+            {inviteKey
+              ? "This invite link has expired or was revoked. Ask someone in the session for a new one."
+              : "This session can only be opened with an invite link. Ask someone in the session to share it with you."}
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Button variant="outline" onClick={() => navigate('/')} className="w-full">
+            Back to My Sessions
+          </Button>
+        </CardContent>
+      </Card>
+    </div>;
+  }
+
+  if (route.view === 'join') {
+    return (
+      <JoinScreen
+        sessionName={session.sessionName}
+        people={session.people}
+        deviceUserId={session.deviceUserId}
+        onJoinAsNewPerson={session.joinAsNewPerson}
+        onClaimPerson={session.claimPerson}
+        onRequestReclaim={session.requestReclaim}
+        onContinue={() => navigate(sessionPath(sessionId, { tab: 'rate' }), { replace: true })}
+      />
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
-      {session.currentView === 'session' && (
+      {showInvite && session.sessionId && (
+        <InviteDialog
+          sessionId={session.sessionId}
+          sessionName={session.sessionName}
+          people={session.people}
+          deviceUserId={session.deviceUserId}
+          isAdmin={session.isAdmin}
+          onClose={() => setShowInvite(false)}
+        />
+      )}
+
+      {route.view === 'session' && (
         <div className="container mx-auto py-8 px-4">
           <div className="text-center mb-8">
             <h1 className="text-4xl font-bold bg-gradient-cinema bg-clip-text text-transparent mb-4">CarciOscar</h1>
 
+            <div className="flex items-center justify-center gap-2 mb-4">
+              {editingName ? (
+                <>
+                  <input
+                    value={draftName}
+                    onChange={e => setDraftName(e.target.value)}
+                    onKeyPress={e => e.key === "Enter" && session.renameSession(draftName).then(() => setEditingName(false))}
+                    className="p-1 rounded bg-input border text-sm"
+                    autoFocus
+                  />
+                  <Button size="sm" onClick={() => session.renameSession(draftName).then(() => setEditingName(false))} disabled={!draftName.trim()}>
+                    Save
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setEditingName(false)}>
+                    Cancel
+                  </Button>
+                </>
+              ) : (
+                <>
+                  <SessionSwitcher currentSessionId={sessionId} currentSessionName={session.sessionName} />
+                  <span title={session.isAdmin ? "Rename session" : "Only session admins can rename the session"}>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={!session.isAdmin}
+                      onClick={() => {
+                        setDraftName(session.sessionName);
+                        setEditingName(true);
+                      }}
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </Button>
+                  </span>
+                </>
+              )}
+            </div>
+
             <div className="flex flex-col sm:flex-row items-center justify-center gap-3 mb-6">
-              <Button variant="outline" size="sm" onClick={() => {
-                session.setShowNewSession?.(true);
-                session.setSessionId?.(null);
-                window.history.pushState({}, '', window.location.pathname);
-              }}>
-                Start New Session
+              <Button variant="outline" size="sm" onClick={() => navigate('/')}>
+                <LayoutList className="w-4 h-4 mr-2" />
+                My Sessions
+              </Button>
+
+              <Button variant="outline" size="sm" onClick={() => setShowInvite(true)} disabled={!session.sessionId}>
+                <UserPlus className="w-4 h-4 mr-2" />
+                Invite People
               </Button>
 
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => session.setCurrentView('watched')}
+                onClick={() => goTo({ view: 'watched' })}
                 disabled={!session.sessionId}
                 className="bg-gradient-to-r from-accent/20 to-primary/20 border-accent/40 hover:from-accent/30 hover:to-primary/30"
               >
@@ -72,34 +216,43 @@ const MovieSelectorRoot = ({ onSessionLoad }: { onSessionLoad?: (id: string) =>
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => session.setCurrentView('stats')}
+                onClick={() => goTo({ view: 'stats' })}
                 disabled={!session.sessionId}
                 className="bg-gradient-to-r from-blue-500/10 to-purple-500/10 border-blue-500/30 hover:from-blue-500/20 hover:to-purple-500/20"
               >
                 <BarChart className="w-4 h-4 mr-2" />
                 Session Stats
               </Button>
+
+              <Button variant="outline" size="sm" onClick={() => goTo({ view: 'trash' })} disabled={!session.sessionId}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Trash
+              </Button>
+
+              <Button variant="outline" size="sm" onClick={() => goTo({ view: 'activity' })} disabled={!session.sessionId}>
+                <History className="w-4 h-4 mr-2" />
+                Activity
+              </Button>
             </div>
 
             <div className="max-w-xs mx-auto mb-4">
-              <select
-                value={session.selectedPersonId}
-                onChange={e => session.setSelectedPersonId(e.target.value)}
-                className="w-full p-2 rounded bg-card text-foreground border border-border focus:outline-none focus:ring-2 focus:ring-primary transition text-sm"
-              >
-                <option value="">Select who you are (optional)</option>
-                {session.people.map(person => (
-                  <option key={person.id} value={person.id}>{person.name}</option>
-                ))}
-              </select>
+              <IdentityPicker
+                people={session.people}
+                deviceUserId={session.deviceUserId}
+                selectedPersonId={session.selectedPersonId}
+                onSelectPerson={session.setSelectedPersonId}
+                onClaimPerson={session.claimPerson}
+                onRequestReclaim={session.requestReclaim}
+              />
+              {selectedPerson && session.claimedPersonIds.includes(selectedPerson.id) && (
+                <div className="mt-2">
+                  <ProfileLinker person={selectedPerson} onLinkProfile={session.linkPersonToProfile} />
+                </div>
+              )}
             </div>
           </div>
 
-          <Tabs defaultValue="people" className="space-y-6" onValueChange={(value) => {
-            if (value === "rate") {
-              session.setShouldSort(true);
-            }
-          }}>
+          <Tabs value={route.tab} className="space-y-6" onValueChange={changeTab}>
             <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="people" className="flex items-center gap-2">
                 <Users className="w-4 h-4" />
@@ -116,12 +269,38 @@ const MovieSelectorRoot = ({ onSessionLoad }: { onSessionLoad?: (id: string) =>
             </TabsList>
 
             <TabsContent value="people">
+              <MovieNightPanel
+                nextNight={session.nextNight}
+                people={session.people}
+                proposals={session.movieRatings}
+                isAdmin={session.isAdmin}
+                claimedPersonIds={session.claimedPersonIds}
+                onSchedule={session.scheduleMovieNight}
+                onCancel={session.cancelMovieNight}
+                onRsvp={session.setRsvp}
+                onSelectMovie={session.selectMovieForNight}
+              />
               <PeoplePanel
                 people={session.people}
                 onAddPerson={session.addPerson}
                 onUpdatePerson={session.updatePerson}
                 onDeletePerson={session.deletePerson}
+                onProposeMovie={session.proposeMovie}
+                onRemoveProposal={session.removeProposal}
+                onParkProposal={session.parkProposal}
+                onPromoteProposal={session.promoteProposal}
+                maxActiveProposals={session.maxActiveProposals}
+                onChangeMaxActiveProposals={session.setMaxActiveProposals}
+                isAdmin={session.isAdmin}
+                claimedPersonIds={session.claimedPersonIds}
               />
+              {session.isAdmin && session.sessionId && (
+                <SessionAdminPanel
+                  sessionId={session.sessionId}
+                  people={session.people}
+                  deviceUserId={session.deviceUserId}
+                />
+              )}
             </TabsContent>
 
             <TabsContent value="rate">
@@ -129,37 +308,96 @@ const MovieSelectorRoot = ({ onSessionLoad }: { onSessionLoad?: (id: string) =>
                 movieRatings={session.getSortedMovies()}
                 presentPeople={session.presentPeople}
                 selectedPersonId={session.selectedPersonId}
+                claimedPersonIds={session.claimedPersonIds}
                 setSelectedPersonId={session.setSelectedPersonId}
                 fetchingDetails={session.fetchingDetails}
                 fetchAllMovieDetails={session.fetchAllMovieDetails}
                 updateRating={session.updateRating}
+                secondProposal={session.secondProposal}
+                vetoProposal={session.vetoProposal}
+                revokeVeto={session.revokeVeto}
+                vetoesLeft={session.vetoesLeft}
                 searchMovieAgain={session.searchMovieAgain}
                 markMovieAsWatched={session.markMovieAsWatched}
                 collapsedMovies={session.collapsedMovies}
-                toggleCollapse={session.toggleCollapse}
+                toggleCollapse={toggleMovie}
                 setShouldSort={session.setShouldSort}
+                expandedProposalId={route.proposalId}
               />
             </TabsContent>
 
             <TabsContent value="results">
-              <ResultsPanel rankedMovies={session.rankedMovies} people={session.people} markMovieAsWatched={session.markMovieAsWatched} />
+              <SpinWheel
+                sessionId={session.sessionId}
+                rankedMovies={session.rankedMovies}
+                selectionMethod={session.selectionMethod}
+                isAdmin={session.isAdmin}
+                markMovieAsWatched={session.markMovieAsWatched}
+              />
+              <ResultsPanel
+                rankedMovies={session.rankedMovies}
+                people={session.people}
+                markMovieAsWatched={session.markMovieAsWatched}
+                isAdmin={session.isAdmin}
+                selection={session.selection}
+                selectionMethod={session.selectionMethod}
+                approvalThreshold={session.approvalThreshold}
+                onChangeMethod={session.setSelectionMethod}
+                vetoedMovies={session.vetoedMovies}
+                vetoesPerPerson={session.vetoesPerPerson}
+                onChangeVetoesPerPerson={session.setVetoesPerPerson}
+                fairnessStrength={session.fairnessStrength}
+                onChangeFairnessStrength={session.setFairnessStrength}
+                belowQuorumMovies={session.belowQuorumMovies}
+                quorumPercent={session.quorumPercent}
+                tieBreakers={session.tieBreakers}
+                onChangeResultRules={session.setResultRules}
+                tooLongMovies={session.tooLongMovies}
+                timeBudget={session.timeBudget}
+                budgetMinutes={session.budgetMinutes}
+                onChangeTimeBudget={session.setTimeBudget}
+              />
             </TabsContent>
           </Tabs>
         </div>
       )}
       
-      {session.currentView === 'watched' && (
+      {route.view === 'watched' && (
         <WatchedMovies
           sessionId={session.sessionId!}
-          onBack={() => session.setCurrentView('session')}
+          onBack={() => goTo({ view: 'session' })}
           selectedPersonId={session.selectedPersonId}
+          claimedPersonIds={session.claimedPersonIds}
+          isAdmin={session.isAdmin}
+          expandedMovieId={route.watchedMovieId}
+          onExpandedChange={watchedMovieId => goTo({ view: 'watched', watchedMovieId })}
         />
       )}
 
-      {session.currentView === 'stats' && (
+      {route.view === 'stats' && (
         <Stats
           sessionId={session.sessionId!}
-          onBack={() => session.setCurrentView('session')}
+          onBack={() => goTo({ view: 'session' })}
+          viewingPersonId={route.personId}
+          onViewPerson={personId => goTo({ view: 'stats', personId })}
+        />
+      )}
+
+      {route.view === 'trash' && (
+        <Trash
+          sessionId={session.sessionId!}
+          onBack={() => goTo({ view: 'session' })}
+          isAdmin={session.isAdmin}
+          claimedPersonIds={session.claimedPersonIds}
+          onRestore={session.restoreFromTrash}
+        />
+      )}
+
+      {route.view === 'activity' && (
+        <Activity
+          sessionId={session.sessionId!}
+          people={session.people}
+          onBack={() => goTo({ view: 'session' })}
         />
       )}
     </div>
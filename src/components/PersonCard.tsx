@@ -3,74 +3,54 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Trash2, Plus, Search } from "lucide-react";
+import { Trash2, Plus, Search, Archive, ArrowUpCircle } from "lucide-react";
 import { useState } from "react";
 import { cn } from "@/lib/utils";
-import { supabase } from "@/integrations/supabase/client";
-
-export interface Person {
-  id: string;
-  name: string;
-  movies: string[];
-  isPresent: boolean;
-}
+import { RSVP_RESPONSES } from "@/lib/movieNights";
+import { Person } from "@/types/session";
+import { useMovieSearch } from "@/hooks/useMovieSearch";
+import { MovieSearchPicker } from "./MovieSearchPicker";
+import { isMovieReference } from "../../supabase/functions/_shared/movieReferences.ts";
 
 interface PersonCardProps {
   person: Person;
   onUpdatePerson: (person: Person) => void;
   onDeletePerson: (id: string) => void;
+  // imdbId: the search result picked, when the title wasn't added by hand
+  onAddMovie: (personId: string, movieTitle: string, parked?: boolean, imdbId?: string | null) => void;
+  onRemoveMovie: (personId: string, proposalId: string) => void;
+  // move a proposal to the backlog and back
+  onParkMovie?: (proposalId: string) => void;
+  onPromoteMovie?: (proposalId: string) => void;
+  // active proposals a person can back at a time
+  maxActive?: number;
+  // removing people is admin-only; removing proposals needs an admin or the person's own device
+  canDelete?: boolean;
+  canRemoveMovies?: boolean;
 }
 
-export const PersonCard = ({ person, onUpdatePerson, onDeletePerson }: PersonCardProps) => {
+export const PersonCard = ({ person, onUpdatePerson, onDeletePerson, onAddMovie, onRemoveMovie, onParkMovie, onPromoteMovie, maxActive = 3, canDelete = true, canRemoveMovies = true }: PersonCardProps) => {
   const [newMovie, setNewMovie] = useState("");
-  const [searchResults, setSearchResults] = useState<any[]>([]);
-  const [isSearching, setIsSearching] = useState(false);
-  const [showSearchResults, setShowSearchResults] = useState(false);
+  const search = useMovieSearch();
 
-  const addMovie = (movieTitle?: string) => {
+  const backlog = person.backlog ?? [];
+  const atCap = person.movies.length >= maxActive;
+
+  // Once the active list is full, new titles go to the backlog
+  const addMovie = (movieTitle?: string, imdbId: string | null = null, parked = atCap) => {
+    // A pasted link isn't a title: it is resolved first and proposed once picked
+    if (!movieTitle && isMovieReference(newMovie)) {
+      search.search(newMovie);
+      return;
+    }
     const title = movieTitle || newMovie.trim();
-    if (title && person.movies.length < 3) {
-      onUpdatePerson({
-        ...person,
-        movies: [...person.movies, title]
-      });
+    if (title && (parked || !atCap)) {
+      onAddMovie(person.id, title, parked, imdbId);
       setNewMovie("");
-      setShowSearchResults(false);
-      setSearchResults([]);
+      search.reset();
     }
   };
 
-  const searchMovies = async () => {
-    if (!newMovie.trim()) return;
-    
-    setIsSearching(true);
-    setShowSearchResults(true);
-    
-    try {
-      const { data, error } = await supabase.functions.invoke('search-movie', {
-        body: { title: newMovie.trim() }
-      });
-      
-      if (error) throw error;
-      
-      setSearchResults([data]);
-    } catch (error) {
-      console.error('Error searching movies:', error);
-      setSearchResults([]);
-    } finally {
-      setIsSearching(false);
-    }
-  };
-
-  const removeMovie = (index: number) => {
-    const movieTitle = person.movies[index];
-    if (!window.confirm(`Are you sure you want to remove the proposal for "${movieTitle}"? This cannot be undone.`)) return;
-    onUpdatePerson({
-      ...person,
-      movies: person.movies.filter((_, i) => i !== index)
-    });
-  };
-
   const togglePresent = (checked: boolean) => {
     onUpdatePerson({
       ...person,
@@ -93,104 +73,130 @@ export const PersonCard = ({ person, onUpdatePerson, onDeletePerson }: PersonCar
             />
             <h3 className="font-semibold text-lg">{person.name}</h3>
             <Badge variant={person.isPresent ? "default" : "secondary"}>
-              {person.isPresent ? "Present" : "Absent"}
+              {person.rsvp !== undefined
+                ? (person.rsvp ? RSVP_RESPONSES[person.rsvp] : "No answer")
+                : (person.isPresent ? "Present" : "Absent")}
             </Badge>
           </div>
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => onDeletePerson(person.id)}
-            className="text-destructive hover:text-destructive hover:bg-destructive/10"
-          >
-            <Trash2 className="w-4 h-4" />
-          </Button>
+          <span title={canDelete ? undefined : "Only session admins can remove people"}>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onDeletePerson(person.id)}
+              disabled={!canDelete}
+              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </span>
         </div>
       </CardHeader>
       
       <CardContent className="space-y-3">
         <div className="space-y-2">
           <h4 className="text-sm font-medium text-muted-foreground">
-            Movie Suggestions ({person.movies.length}/3)
+            Movie Suggestions ({person.movies.length}/{maxActive})
           </h4>
           
-          {person.movies.map((movie, index) => (
-            <div key={index} className="flex items-center justify-between p-2 bg-secondary rounded-md">
-              <span className="text-sm">{movie}</span>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => removeMovie(index)}
-                className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
-              >
-                <Trash2 className="w-3 h-3" />
-              </Button>
+          {person.movies.map(movie => (
+            <div key={movie.proposalId} className="flex items-center justify-between p-2 bg-secondary rounded-md">
+              <span className="text-sm">{movie.title}</span>
+              <span className="flex" title={canRemoveMovies ? undefined : "Only session admins can remove other people's proposals"}>
+                {onParkMovie && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onParkMovie(movie.proposalId)}
+                    disabled={!canRemoveMovies}
+                    className="h-6 w-6 p-0 text-muted-foreground hover:text-foreground"
+                    title="Move to backlog"
+                  >
+                    <Archive className="w-3 h-3" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRemoveMovie(person.id, movie.proposalId)}
+                  disabled={!canRemoveMovies}
+                  className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </span>
             </div>
           ))}
         </div>
 
-        {person.movies.length < 3 && (
+        {backlog.length > 0 && (
           <div className="space-y-2">
-            <div className="flex gap-2">
-              <Input
-                placeholder="Search for a movie..."
-                value={newMovie}
-                onChange={(e) => {
-                  setNewMovie(e.target.value);
-                  if (!e.target.value.trim()) {
-                    setShowSearchResults(false);
-                    setSearchResults([]);
-                  }
-                }}
-                onKeyPress={(e) => e.key === "Enter" && searchMovies()}
-                className="flex-1"
-              />
-              <Button onClick={searchMovies} size="sm" disabled={!newMovie.trim() || isSearching}>
-                <Search className="w-4 h-4" />
-              </Button>
-              <Button onClick={() => addMovie()} size="sm" disabled={!newMovie.trim()} variant="outline">
-                <Plus className="w-4 h-4" />
-              </Button>
-            </div>
-            
-            {showSearchResults && (
-              <div className="space-y-2">
-                {isSearching && (
-                  <div className="text-sm text-muted-foreground p-2">Searching...</div>
-                )}
-                {searchResults.map((movie, index) => (
-                  <div
-                    key={index}
-                    className="p-3 border rounded-md cursor-pointer hover:bg-secondary transition-colors"
-                    onClick={() => addMovie(movie.title)}
+            <h4 className="text-sm font-medium text-muted-foreground">
+              Backlog ({backlog.length})
+            </h4>
+            {backlog.map(movie => (
+              <div key={movie.proposalId} className="flex items-center justify-between p-2 border border-dashed rounded-md">
+                <span className="text-sm text-muted-foreground">{movie.title}</span>
+                <span className="flex" title={canRemoveMovies ? (atCap ? `Already ${maxActive} active proposals; park one first` : undefined) : "Only session admins can move other people's proposals"}>
+                  {onPromoteMovie && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onPromoteMovie(movie.proposalId)}
+                      disabled={!canRemoveMovies || atCap}
+                      className="h-6 w-6 p-0 text-muted-foreground hover:text-primary"
+                      title="Propose for the next night"
+                    >
+                      <ArrowUpCircle className="w-3 h-3" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onRemoveMovie(person.id, movie.proposalId)}
+                    disabled={!canRemoveMovies}
+                    className="h-6 w-6 p-0 text-muted-foreground hover:text-destructive"
                   >
-                    <div className="flex items-start gap-3">
-                      {movie.poster && movie.poster !== 'N/A' && (
-                        <img 
-                          src={movie.poster} 
-                          alt={movie.title}
-                          className="w-12 h-16 object-cover rounded"
-                        />
-                      )}
-                      <div className="flex-1 min-w-0">
-                        <h5 className="font-medium text-sm truncate">{movie.title} ({movie.year})</h5>
-                        <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{movie.plot}</p>
-                        <div className="flex gap-2 mt-1">
-                          <Badge variant="secondary" className="text-xs">{movie.genre}</Badge>
-                          {movie.imdbRating && movie.imdbRating !== 'N/A' && (
-                            <Badge variant="outline" className="text-xs">IMDb: {movie.imdbRating}</Badge>
-                          )}
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                ))}
-                {!isSearching && searchResults.length === 0 && newMovie.trim() && showSearchResults && (
-                  <div className="text-sm text-muted-foreground p-2">No movies found. You can still add "{newMovie}" manually.</div>
-                )}
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </span>
               </div>
-            )}
+            ))}
           </div>
         )}
+
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <Input
+              placeholder={atCap ? "Add a movie to the backlog..." : "Search for a movie..."}
+              title="A title, or an IMDb, TMDB or Letterboxd link"
+              value={newMovie}
+              onChange={(e) => {
+                setNewMovie(e.target.value);
+                if (!e.target.value.trim()) search.reset();
+              }}
+              onKeyPress={(e) => e.key === "Enter" && search.search(newMovie)}
+              className="flex-1"
+            />
+            <Button onClick={() => search.search(newMovie)} size="sm" disabled={!newMovie.trim() || search.searching}>
+              <Search className="w-4 h-4" />
+            </Button>
+            <Button onClick={() => addMovie()} size="sm" disabled={!newMovie.trim()} variant="outline" title={atCap ? "Add to backlog" : "Propose"}>
+              {atCap ? <Archive className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+            </Button>
+          </div>
+          
+          {search.query && (
+            <MovieSearchPicker
+              results={search.results}
+              totalResults={search.totalResults}
+              searching={search.searching}
+              hasMore={search.hasMore}
+              onPick={movie => addMovie(movie.title, movie.imdbId)}
+              onLoadMore={search.loadMore}
+              emptyText={`No movies found. You can still add "${search.query}" manually.`}
+            />
+          )}
+        </div>
       </CardContent>
     </Card>
   );
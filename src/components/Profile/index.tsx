@@ -0,0 +1,98 @@
+import React from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ArrowLeft, Film, UserCircle } from "lucide-react";
+import { useProfileStatsData } from "@/components/Stats/hooks/useProfileStatsData";
+import { calculatePersonStats } from "@/components/Stats/utils";
+import { PersonStats } from "@/components/Stats/PersonStats";
+import { sessionPath } from "@/lib/sessionRoutes";
+
+// A friend's stats across every session their profile is linked into
+const ProfilePage = ({ profileId }: { profileId: string }) => {
+  const navigate = useNavigate();
+  const { displayName, sessions, watchedMovies, detailedRatings, proposals, proposalRatings, people, loading, notFound } =
+    useProfileStatsData(profileId);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background/95 to-primary/5 p-4 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading profile...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (notFound) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5 flex items-center justify-center">
+        <Card className="w-full max-w-md">
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl">Profile Not Found</CardTitle>
+            <p className="text-muted-foreground">This profile doesn't exist or has been deleted.</p>
+          </CardHeader>
+          <CardContent>
+            <Button variant="outline" onClick={() => navigate('/')} className="w-full">
+              Back to My Sessions
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const personStats = people.some(p => p.id === profileId)
+    ? calculatePersonStats(profileId, watchedMovies, detailedRatings, proposalRatings, proposals, people)
+    : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background/95 to-primary/5 p-4">
+      <div className="container mx-auto max-w-5xl">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+          <Button onClick={() => navigate('/')} variant="ghost" className="hover:bg-secondary/80 self-start">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            My Sessions
+          </Button>
+          <h1 className="text-xl sm:text-2xl font-bold flex items-center">
+            <UserCircle className="w-5 h-5 sm:w-6 sm:h-6 mr-2 text-primary" />
+            {displayName}
+          </h1>
+        </div>
+
+        <Card className="mb-6">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-md">Sessions ({sessions.length})</CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-wrap gap-2">
+            {sessions.length === 0 && (
+              <p className="text-sm text-muted-foreground">This profile isn't linked to anyone yet. Pick yourself in a session and link this profile there.</p>
+            )}
+            {sessions.map(s => (
+              <Link
+                key={s.personId}
+                to={sessionPath(s.sessionId, { view: 'stats', personId: s.personId })}
+                className="text-sm px-3 py-1 rounded-full bg-secondary hover:bg-secondary/80"
+              >
+                {s.sessionName} <span className="text-muted-foreground">as {s.personName}</span>
+              </Link>
+            ))}
+          </CardContent>
+        </Card>
+
+        {personStats ? (
+          <PersonStats name={displayName} stats={personStats} />
+        ) : (
+          <div className="text-center py-12 bg-card rounded-lg border border-border/50">
+            <Film className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <h2 className="text-lg font-semibold">No Data Yet</h2>
+            <p className="text-muted-foreground">Stats appear once sessions you can open have ratings.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProfilePage;
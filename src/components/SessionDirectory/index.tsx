@@ -0,0 +1,177 @@
+import React, { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import useMySessions, { SessionSummary } from "@/hooks/useMySessions";
+import useProfiles from "@/hooks/useProfiles";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Archive, ArchiveRestore, Award, Pencil, Users, ChevronDown, ChevronRight, UserCircle } from "lucide-react";
+
+const SessionRow = ({ session, onRename, onSetArchived }: {
+  session: SessionSummary;
+  onRename: (id: string, name: string) => Promise<void>;
+  onSetArchived: (id: string, archived: boolean) => Promise<void>;
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [draftName, setDraftName] = useState(session.name);
+  const adminOnly = session.isAdmin ? undefined : "Only session admins can change this session";
+
+  const saveName = () => onRename(session.id, draftName).then(() => setEditing(false));
+
+  return (
+    <Card className="transition-all duration-300 hover:shadow-glow">
+      <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="min-w-0 space-y-1">
+          {editing ? (
+            <div className="flex items-center gap-2">
+              <input
+                value={draftName}
+                onChange={e => setDraftName(e.target.value)}
+                onKeyPress={e => e.key === "Enter" && saveName()}
+                className="p-1 rounded bg-input border text-sm"
+                autoFocus
+              />
+              <Button size="sm" onClick={saveName} disabled={!draftName.trim()}>Save</Button>
+              <Button size="sm" variant="ghost" onClick={() => setEditing(false)}>Cancel</Button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <Link to={`/s/${session.id}`} className="font-semibold text-lg hover:text-primary hover:underline truncate">
+                {session.name}
+              </Link>
+              {session.isAdmin && <Badge variant="secondary">Admin</Badge>}
+            </div>
+          )}
+          <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+            <span>Active {formatDistanceToNow(new Date(session.lastActivityAt), { addSuffix: true })}</span>
+            <span className="inline-flex items-center gap-1" title={`${session.deviceCount} ${session.deviceCount === 1 ? "device has" : "devices have"} joined`}>
+              <Users className="w-3 h-3" />
+              {session.peopleCount} {session.peopleCount === 1 ? "person" : "people"}
+            </span>
+            <span className="inline-flex items-center gap-1">
+              <Award className="w-3 h-3" />
+              {session.watchedCount} watched
+            </span>
+          </div>
+        </div>
+        <div className="flex gap-2 flex-shrink-0">
+          <span title={adminOnly ?? "Rename session"}>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={!session.isAdmin || editing}
+              onClick={() => {
+                setDraftName(session.name);
+                setEditing(true);
+              }}
+            >
+              <Pencil className="w-4 h-4" />
+            </Button>
+          </span>
+          <span title={adminOnly ?? (session.archivedAt ? "Restore session" : "Archive session")}>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={!session.isAdmin}
+              onClick={() => onSetArchived(session.id, !session.archivedAt)}
+            >
+              {session.archivedAt ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+            </Button>
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+// Landing page: the sessions this device has joined, plus creating a new one
+const SessionDirectory = () => {
+  const navigate = useNavigate();
+  const { sessions, loading, createSession, renameSession, setArchived } = useMySessions();
+  const { profiles } = useProfiles();
+  const [newSessionName, setNewSessionName] = useState("");
+  const [showArchived, setShowArchived] = useState(false);
+
+  const activeSessions = sessions.filter(s => !s.archivedAt);
+  const archivedSessions = sessions.filter(s => s.archivedAt);
+
+  const handleCreate = async () => {
+    const id = await createSession(newSessionName);
+    if (id) navigate(`/s/${id}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5">
+      <div className="container mx-auto max-w-3xl py-8 px-4 space-y-6">
+        <h1 className="text-4xl font-bold bg-gradient-cinema bg-clip-text text-transparent text-center">CarciOscar</h1>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">Create New Session</CardTitle>
+            <p className="text-muted-foreground">Start a new movie selection session</p>
+          </CardHeader>
+          <CardContent className="flex flex-col sm:flex-row gap-2">
+            <input placeholder="Session name (e.g., Friday Movie Night)" value={newSessionName} onChange={e => setNewSessionName(e.target.value)} onKeyPress={e => e.key === "Enter" && handleCreate()} className="flex-1 p-2 rounded bg-input border" />
+            <Button onClick={handleCreate} disabled={!newSessionName.trim()}>
+              Create Session
+            </Button>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-3">
+          <h2 className="text-xl font-semibold">My Sessions</h2>
+          {loading ? (
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
+          ) : activeSessions.length === 0 ? (
+            <Card className="text-center py-8">
+              <CardContent>
+                <p className="text-muted-foreground">No sessions yet. Create one above or open an invite link.</p>
+              </CardContent>
+            </Card>
+          ) : (
+            activeSessions.map(session => (
+              <SessionRow key={session.id} session={session} onRename={renameSession} onSetArchived={setArchived} />
+            ))
+          )}
+        </div>
+
+        {profiles.length > 0 && (
+          <div className="space-y-3">
+            <h2 className="text-xl font-semibold">My Profiles</h2>
+            <div className="flex flex-wrap gap-2">
+              {profiles.map(profile => (
+                <Link
+                  key={profile.id}
+                  to={`/profile/${profile.id}`}
+                  className="inline-flex items-center gap-1 text-sm px-3 py-1 rounded-full bg-secondary hover:bg-secondary/80"
+                >
+                  <UserCircle className="w-4 h-4" />
+                  {profile.displayName}
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {archivedSessions.length > 0 && (
+          <div className="space-y-3">
+            <button
+              type="button"
+              onClick={() => setShowArchived(v => !v)}
+              className="flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+            >
+              {showArchived ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              Archived ({archivedSessions.length})
+            </button>
+            {showArchived && archivedSessions.map(session => (
+              <SessionRow key={session.id} session={session} onRename={renameSession} onSetArchived={setArchived} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionDirectory;
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { mergePeopleByProfile, calculatePersonStats, calculateAwards, calculateSynergyStats } from '../utils';
+import type { StatsData } from '../hooks/useStatsData';
+
+describe('Stats utils', () => {
+  const data: StatsData = {
+    watchedMovies: [
+      { id: 'w1', movie_title: 'Alien', proposed_by: 'Bob', genres: ['Horror', 'Sci-Fi'], runtime_minutes: 117, watched_at: '2025-01-01' },
+      { id: 'w2', movie_title: 'Heat', proposed_by: 'Bob', genres: ['Crime'], runtime_minutes: 170, watched_at: '2025-02-01' },
+    ],
+    people: [
+      { id: 'a-s1', name: 'Alice', session_id: 's1', profile_id: 'alice' },
+      { id: 'a-s2', name: 'Ali', session_id: 's2', profile_id: 'alice' },
+      { id: 'b-s1', name: 'Bob', session_id: 's1', profile_id: null },
+    ],
+    proposals: [{ id: 'pr1', movie_title: 'Tenet', person_id: 'a-s2' }],
+    proposalRatings: [{ proposal_id: 'pr1', watched_movie_id: null, person_id: 'a-s2', rating: 4 }],
+    detailedRatings: [
+      { id: 'd1', watched_movie_id: 'w1', person_id: 'a-s1', rating: 8, present: true },
+      { id: 'd2', watched_movie_id: 'w2', person_id: 'a-s2', rating: 6, present: true },
+      { id: 'd3', watched_movie_id: 'w1', person_id: 'b-s1', rating: 5, present: true },
+    ],
+  };
+
+  // Test that people linked to one profile become a single person keyed by the profile
+  it('mergePeopleByProfile merges linked people and rewrites their ratings', () => {
+    const merged = mergePeopleByProfile(data, { alice: 'Alice B.' });
+
+    expect(merged.people.map(p => [p.id, p.name])).toEqual([['alice', 'Alice B.'], ['b-s1', 'Bob']]);
+    expect(merged.detailedRatings.map(r => r.person_id)).toEqual(['alice', 'alice', 'b-s1']);
+    expect(merged.proposalRatings[0].person_id).toBe('alice');
+    expect(merged.proposals[0].person_id).toBe('alice');
+  });
+
+  // Test that person stats computed on merged data span every linked session
+  it('calculatePersonStats covers all sessions of a merged profile', () => {
+    const merged = mergePeopleByProfile(data);
+    const stats = calculatePersonStats('alice', merged.watchedMovies, merged.detailedRatings, merged.proposalRatings, merged.proposals, merged.people);
+
+    expect(stats.moviesWatched).toBe(2);
+    expect(stats.totalRatings).toBe(2);
+    expect(stats.avgRatingGiven).toBe('7.00');
+    expect(stats.totalWatchTime).toBe('4h 47m');
+  });
+
+  // Test that co-proposers share the Tastemaker credit for a movie
+  it('calculateAwards shares Tastemaker credit between co-proposers', () => {
+    const movies = [
+      { id: 'w1', movie_title: 'Alien', proposed_by: 'Bob', watched_at: '2025-01-01' },
+      { id: 'w2', movie_title: 'Heat', proposed_by: 'Alice, Bob', watched_at: '2025-02-01' },
+    ];
+    const ratings = [
+      { id: 'd1', watched_movie_id: 'w1', person_id: 'a', rating: 4, present: true },
+      { id: 'd2', watched_movie_id: 'w2', person_id: 'c', rating: 10, present: true },
+    ];
+    const people = [{ id: 'a', name: 'Alice' }, { id: 'b', name: 'Bob' }, { id: 'c', name: 'Cleo' }];
+
+    const { tastemaker } = calculateAwards(movies, ratings, people);
+    expect(tastemaker.map(t => [t.name, t.score])).toEqual([['Alice', 10], ['Bob', 6]]);
+    expect(tastemaker[1].value).toBe('6.00/10 avg group rating (2 proposals, 1 shared)');
+  });
+
+  // Test that hype for a co-proposed movie counts towards each of its proposers
+  it('calculateSynergyStats credits every co-proposer with Perfect Match hype', () => {
+    const movies = [
+      { id: 'w1', movie_title: 'Alien', proposed_by: 'Alice, Bob', watched_at: '2025-01-01' },
+      { id: 'w2', movie_title: 'Heat', proposed_by: 'Alice, Bob', watched_at: '2025-02-01' },
+    ];
+    const hype = [
+      { proposal_id: null, watched_movie_id: 'w1', person_id: 'c', rating: 5 },
+      { proposal_id: null, watched_movie_id: 'w2', person_id: 'c', rating: 3 },
+      { proposal_id: null, watched_movie_id: 'w2', person_id: 'a', rating: 5 },
+    ];
+    const people = [{ id: 'a', name: 'Alice' }, { id: 'b', name: 'Bob' }, { id: 'c', name: 'Cleo' }];
+
+    const { perfectMatch } = calculateSynergyStats(hype, [], people, movies, []);
+    expect(perfectMatch.map(m => [m.name, m.score])).toEqual([['Cleo ❤️ Alice', 4], ['Cleo ❤️ Bob', 4]]);
+  });
+});
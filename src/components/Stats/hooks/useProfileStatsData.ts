@@ -0,0 +1,88 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { fetchStatsData, EMPTY_STATS_DATA, StatsData } from "./useStatsData";
+import { mergePeopleByProfile } from "../utils";
+
+export interface ProfileSession {
+  sessionId: string;
+  sessionName: string;
+  // the profile's session_people row in that session
+  personId: string;
+  personName: string;
+}
+
+// Stats data for every session a profile is linked into, with linked people
+// merged so calculatePersonStats(profileId, ...) covers all of them. Sessions
+// this device cannot access are left out by row level security.
+export const useProfileStatsData = (profileId: string) => {
+  const [displayName, setDisplayName] = useState("");
+  const [sessions, setSessions] = useState<ProfileSession[]>([]);
+  const [data, setData] = useState<StatsData>(EMPTY_STATS_DATA);
+  const [loading, setLoading] = useState(true);
+  const [notFound, setNotFound] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+    const fetchProfileStats = async () => {
+      if (!profileId) return;
+
+      setLoading(true);
+      try {
+        const [profileRes, linkedRes] = await Promise.all([
+          supabase.from("profiles").select("display_name").eq("id", profileId).maybeSingle(),
+          supabase.from("session_people").select("id, name, session_id").eq("profile_id", profileId),
+        ]);
+        if (profileRes.error) throw profileRes.error;
+        if (linkedRes.error) throw linkedRes.error;
+        if (!mounted) return;
+
+        if (!profileRes.data) {
+          setNotFound(true);
+          return;
+        }
+        setDisplayName(profileRes.data.display_name);
+
+        const linked = linkedRes.data || [];
+        const sessionIds = Array.from(new Set(linked.map(p => p.session_id)));
+        if (sessionIds.length === 0) {
+          setSessions([]);
+          setData(EMPTY_STATS_DATA);
+          return;
+        }
+
+        const [sessionsRes, loaded] = await Promise.all([
+          supabase.from("movie_sessions").select("id, name").in("id", sessionIds),
+          fetchStatsData(sessionIds),
+        ]);
+        if (sessionsRes.error) throw sessionsRes.error;
+
+        // Other people may be linked to their own profiles too; use those names
+        const profileIds = Array.from(new Set(loaded.people.map(p => p.profile_id).filter(Boolean)));
+        const { data: profileRows, error: profilesError } = await supabase
+          .from("profiles")
+          .select("id, display_name")
+          .in("id", profileIds);
+        if (profilesError) throw profilesError;
+        if (!mounted) return;
+
+        const profileNames = Object.fromEntries((profileRows || []).map(p => [p.id, p.display_name]));
+        setSessions(linked.map(p => ({
+          sessionId: p.session_id,
+          sessionName: sessionsRes.data?.find(s => s.id === p.session_id)?.name ?? "Unknown session",
+          personId: p.id,
+          personName: p.name
+        })));
+        setData(mergePeopleByProfile(loaded, profileNames));
+      } catch (err) {
+        console.error("Failed to load profile stats", err);
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    };
+
+    fetchProfileStats();
+    return () => { mounted = false; };
+  }, [profileId]);
+
+  return { displayName, sessions, ...data, loading, notFound };
+};
@@ -6,11 +6,11 @@ export interface WatchedMovie {
   movie_title: string;
   proposed_by: string;
   poster?: string;
-  genre?: string;
-  runtime?: string;
-  year?: string;
+  genres?: string[];
+  runtime_minutes?: number;
+  year?: number;
   director?: string;
-  imdb_rating?: string;
+  imdb_rating?: number;
   watched_at: string;
 }
 
@@ -25,6 +25,9 @@ export interface DetailedRating {
 export interface Person {
   id: string;
   name: string;
+  session_id?: string;
+  // people linked to the same profile are one person across sessions
+  profile_id?: string | null;
 }
 
 export interface MovieProposal {
@@ -32,9 +35,9 @@ export interface MovieProposal {
   movie_title: string;
   person_id: string;
   poster?: string;
-  genre?: string;
-  year?: string;
-  imdb_rating?: string;
+  genres?: string[];
+  year?: number;
+  imdb_rating?: number;
 }
 
 export interface MovieRating {
@@ -44,12 +47,78 @@ export interface MovieRating {
   rating: number;
 }
 
+export interface StatsData {
+  watchedMovies: WatchedMovie[];
+  detailedRatings: DetailedRating[];
+  proposals: MovieProposal[];
+  proposalRatings: MovieRating[];
+  people: Person[];
+}
+
+// Loads everything the stats are computed from for one or more sessions
+export const fetchStatsData = async (sessionIds: string[]): Promise<StatsData> => {
+  // 1. Fetch basic session data
+  const [moviesRes, peopleRes, proposalsRes] = await Promise.all([
+    supabase.from("watched_movies").select("*").in("session_id", sessionIds),
+    supabase.from("session_people").select("*").in("session_id", sessionIds),
+    supabase.from("movie_proposals").select("*").in("session_id", sessionIds),
+  ]);
+
+  if (moviesRes.error) throw moviesRes.error;
+  if (peopleRes.error) throw peopleRes.error;
+  if (proposalsRes.error) throw proposalsRes.error;
+
+  const data: StatsData = {
+    watchedMovies: moviesRes.data || [],
+    people: peopleRes.data || [],
+    proposals: proposalsRes.data || [],
+    proposalRatings: [],
+    detailedRatings: [],
+  };
+
+  // 2. Fetch all ratings for these people in these sessions
+  const personIds = data.people.map(p => p.id);
+  if (personIds.length > 0) {
+    const { data: ratingsData, error: ratingsError } = await supabase
+      .from("movie_ratings")
+      .select("proposal_id, watched_movie_id, person_id, rating")
+      .in("person_id", personIds);
+
+    if (ratingsError) {
+      console.error("Error fetching movie ratings:", ratingsError);
+    } else {
+      data.proposalRatings = ratingsData || [];
+    }
+  }
+
+  if (data.watchedMovies.length > 0) {
+    // 3. Fetch detailed post-watch ratings for these specific movies
+    const movieIds = data.watchedMovies.map(m => m.id);
+    const { data: ratingsData, error: ratingsError } = await supabase
+      .from("detailed_ratings")
+      .select("*")
+      .in("watched_movie_id", movieIds);
+
+    if (ratingsError) {
+      console.error("Error fetching detailed ratings:", ratingsError);
+    } else {
+      data.detailedRatings = ratingsData || [];
+    }
+  }
+
+  return data;
+};
+
+export const EMPTY_STATS_DATA: StatsData = {
+  watchedMovies: [],
+  detailedRatings: [],
+  proposals: [],
+  proposalRatings: [],
+  people: [],
+};
+
 export const useStatsData = (sessionId: string) => {
-  const [watchedMovies, setWatchedMovies] = useState<WatchedMovie[]>([]);
-  const [detailedRatings, setDetailedRatings] = useState<DetailedRating[]>([]);
-  const [proposals, setProposals] = useState<MovieProposal[]>([]);
-  const [proposalRatings, setProposalRatings] = useState<MovieRating[]>([]);
-  const [people, setPeople] = useState<Person[]>([]);
+  const [data, setData] = useState<StatsData>(EMPTY_STATS_DATA);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -59,56 +128,8 @@ export const useStatsData = (sessionId: string) => {
       
       setLoading(true);
       try {
-        // 1. Fetch basic session data
-        const [moviesRes, peopleRes, proposalsRes] = await Promise.all([
-          supabase.from("watched_movies").select("*").eq("session_id", sessionId),
-          supabase.from("session_people").select("*").eq("session_id", sessionId),
-          supabase.from("movie_proposals").select("*").eq("session_id", sessionId),
-        ]);
-
-        if (!mounted) return;
-
-        if (moviesRes.error) throw moviesRes.error;
-        if (peopleRes.error) throw peopleRes.error;
-        if (proposalsRes.error) throw proposalsRes.error;
-
-        const movies = moviesRes.data || [];
-        const currentPeople = peopleRes.data || [];
-        const currentProposals = proposalsRes.data || [];
-
-        setWatchedMovies(movies);
-        setPeople(currentPeople);
-        setProposals(currentProposals);
-        
-        // 2. Fetch all ratings for these people in this session
-        const personIds = currentPeople.map(p => p.id);
-        if (personIds.length > 0) {
-          const { data: ratingsData, error: ratingsError } = await supabase
-            .from("movie_ratings")
-            .select("proposal_id, watched_movie_id, person_id, rating")
-            .in("person_id", personIds);
-
-          if (ratingsError) {
-            console.error("Error fetching movie ratings:", ratingsError);
-          } else if (mounted) {
-            setProposalRatings(ratingsData || []);
-          }
-        }
-
-        if (movies.length > 0) {
-          // 3. Fetch detailed post-watch ratings for these specific movies
-          const movieIds = movies.map(m => m.id);
-          const { data: ratingsData, error: ratingsError } = await supabase
-            .from("detailed_ratings")
-            .select("*")
-            .in("watched_movie_id", movieIds);
-
-          if (ratingsError) {
-            console.error("Error fetching detailed ratings:", ratingsError);
-          } else if (mounted) {
-            setDetailedRatings(ratingsData || []);
-          }
-        }
+        const loaded = await fetchStatsData([sessionId]);
+        if (mounted) setData(loaded);
       } catch (err) {
         console.error("Failed to load stats data", err);
       } finally {
@@ -120,5 +141,5 @@ export const useStatsData = (sessionId: string) => {
     return () => { mounted = false; };
   }, [sessionId]);
 
-  return { watchedMovies, detailedRatings, proposals, proposalRatings, people, loading };
+  return { ...data, loading };
 };
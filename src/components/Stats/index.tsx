@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ArrowLeft, Clock, Film, Star } from "lucide-react";
@@ -29,11 +30,13 @@ import { GenreRadarChart } from "./GenreRadarChart";
 interface StatsProps {
   sessionId: string;
   onBack: () => void;
+  // Person whose insights are shown; empty shows the group. Owned by the URL.
+  viewingPersonId?: string;
+  onViewPerson: (personId: string) => void;
 }
 
-export const Stats = ({ sessionId, onBack }: StatsProps) => {
+export const Stats = ({ sessionId, onBack, viewingPersonId = "", onViewPerson }: StatsProps) => {
   const { watchedMovies, detailedRatings, proposals, proposalRatings, people, loading } = useStatsData(sessionId);
-  const [viewingPersonId, setViewingPersonId] = useState<string>("");
   const [expandedRankingId, setExpandedRankingId] = useState<string | null>(null);
 
   if (loading) {
@@ -106,15 +109,20 @@ export const Stats = ({ sessionId, onBack }: StatsProps) => {
               Back
             </Button>
             {viewingPersonId && (
-              <Button onClick={() => setViewingPersonId("")} variant="outline" size="sm">
+              <Button onClick={() => onViewPerson("")} variant="outline" size="sm">
                 View Group Stats
               </Button>
             )}
+            {selectedPerson?.profile_id && (
+              <Button asChild variant="outline" size="sm">
+                <Link to={`/profile/${selectedPerson.profile_id}`}>All Sessions</Link>
+              </Button>
+            )}
           </div>
           <div className="flex flex-col sm:flex-row sm:items-center gap-4">
             <select
               value={viewingPersonId}
-              onChange={e => setViewingPersonId(e.target.value)}
+              onChange={e => onViewPerson(e.target.value)}
               className="p-2 rounded bg-card text-foreground border border-border focus:outline-none focus:ring-2 focus:ring-primary transition text-sm min-w-[200px]"
             >
               <option value="">Group Insights</option>
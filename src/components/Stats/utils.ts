@@ -1,13 +1,8 @@
-import { WatchedMovie, DetailedRating, Person, MovieRating, MovieProposal } from "./hooks/useStatsData";
-
-export const parseRuntime = (runtimeStr?: string | null): number => {
-  if (!runtimeStr) return 0;
-  const match = runtimeStr.match(/(\d+)/);
-  return match ? parseInt(match[1], 10) : 0;
-};
+import { WatchedMovie, DetailedRating, Person, MovieRating, MovieProposal, StatsData } from "./hooks/useStatsData";
+import { splitProposers } from "@/lib/sessionHelpers";
 
 export const calculateTotalRuntime = (movies: WatchedMovie[]): number => {
-  return movies.reduce((total, movie) => total + parseRuntime(movie.runtime), 0);
+  return movies.reduce((total, movie) => total + (movie.runtime_minutes ?? 0), 0);
 };
 
 export const formatRuntime = (minutes: number): string => {
@@ -43,9 +38,7 @@ export const calculateMovieAverages = (movies: WatchedMovie[], ratings: Detailed
 export const calculateGenreDistribution = (movies: WatchedMovie[]) => {
   const genreCounts: Record<string, number> = {};
   movies.forEach(movie => {
-    if (!movie.genre || movie.genre === "N/A") return;
-    const genres = movie.genre.split(",").map(g => g.trim());
-    genres.forEach(g => {
+    (movie.genres ?? []).forEach(g => {
       genreCounts[g] = (genreCounts[g] || 0) + 1;
     });
   });
@@ -67,8 +60,8 @@ export const calculateGenreRadarData = (
   const moviesToProcess = watchedMovies;
 
   moviesToProcess.forEach(movie => {
-    if (!movie.genre || movie.genre === "N/A") return;
-    const genres = movie.genre.split(",").map(g => g.trim());
+    const genres = movie.genres ?? [];
+    if (genres.length === 0) return;
 
     // Filter ratings if personId is provided
     const relevantDetailed = personId 
@@ -166,22 +159,30 @@ export const calculateAwards = (movies: WatchedMovie[], ratings: DetailedRating[
   awards.harshestCritic = [...criticRankings].sort((a, b) => a.score - b.score);
   awards.easyPleaser = [...criticRankings].sort((a, b) => b.score - a.score);
 
-  // Tastemaker: Proposer of highest rated movies (average rating of their proposed movies)
-  const proposerAverages: Record<string, { sum: number, count: number }> = {};
+  // Tastemaker: Proposer of highest rated movies (average rating of their proposed movies).
+  // Co-proposers share the credit: each one's share of a movie weighs 1/n in their average.
+  const proposerAverages: Record<string, { sum: number, weight: number, count: number, shared: number }> = {};
   const movieAverages = calculateMovieAverages(movies, ratings);
   
   movieAverages.forEach(movie => {
-    if (!proposerAverages[movie.proposed_by]) proposerAverages[movie.proposed_by] = { sum: 0, count: 0 };
-    proposerAverages[movie.proposed_by].sum += movie.averageRating;
-    proposerAverages[movie.proposed_by].count += 1;
+    const proposers = splitProposers(movie.proposed_by);
+    const share = 1 / proposers.length;
+    proposers.forEach(name => {
+      if (!proposerAverages[name]) proposerAverages[name] = { sum: 0, weight: 0, count: 0, shared: 0 };
+      proposerAverages[name].sum += movie.averageRating * share;
+      proposerAverages[name].weight += share;
+      proposerAverages[name].count += 1;
+      if (proposers.length > 1) proposerAverages[name].shared += 1;
+    });
   });
 
   awards.tastemaker = Object.entries(proposerAverages)
     .map(([proposerName, data]) => {
-      const avg = data.sum / data.count;
+      const avg = data.sum / data.weight;
+      const shared = data.shared > 0 ? `, ${data.shared} shared` : "";
       return {
         name: proposerName,
-        value: `${avg.toFixed(2)}/10 avg group rating (${data.count} proposals)`,
+        value: `${avg.toFixed(2)}/10 avg group rating (${data.count} proposals${shared})`,
         score: avg
       };
     })
@@ -294,23 +295,25 @@ export const calculateSynergyStats = (
   const synergyMap: Record<string, { sum: number, count: number }> = {}; // key: "proposerName|raterId"
   
   movieRatings.forEach(r => {
-    let proposerName = null;
+    // Co-proposed movies count towards each of their proposers
+    let proposerNames: string[] = [];
     if (r.watched_movie_id) {
-      proposerName = watchedMovies.find(m => m.id === r.watched_movie_id)?.proposed_by;
+      const proposedBy = watchedMovies.find(m => m.id === r.watched_movie_id)?.proposed_by;
+      if (proposedBy) proposerNames = splitProposers(proposedBy);
     } else if (r.proposal_id) {
       const proposerId = proposals.find(p => p.id === r.proposal_id)?.person_id;
-      if (proposerId) proposerName = people.find(p => p.id === proposerId)?.name;
+      const proposerName = proposerId && people.find(p => p.id === proposerId)?.name;
+      if (proposerName) proposerNames = [proposerName];
     }
     
-    if (proposerName && r.person_id) {
-      const rater = people.find(p => p.id === r.person_id);
-      if (rater && rater.name !== proposerName) {
-        const key = `${proposerName}|${rater.id}`;
-        if (!synergyMap[key]) synergyMap[key] = { sum: 0, count: 0 };
-        synergyMap[key].sum += r.rating;
-        synergyMap[key].count += 1;
-      }
-    }
+    const rater = r.person_id && people.find(p => p.id === r.person_id);
+    if (!rater || proposerNames.includes(rater.name)) return;
+    proposerNames.forEach(proposerName => {
+      const key = `${proposerName}|${rater.id}`;
+      if (!synergyMap[key]) synergyMap[key] = { sum: 0, count: 0 };
+      synergyMap[key].sum += r.rating;
+      synergyMap[key].count += 1;
+    });
   });
 
   stats.perfectMatch = Object.entries(synergyMap)
@@ -396,14 +399,11 @@ export const calculatePersonStats = (
   const genreScores: Record<string, { sum: number, count: number }> = {};
   personRatings.forEach(r => {
     const movie = watchedMovies.find(m => m.id === r.watched_movie_id);
-    if (movie?.genre && movie.genre !== "N/A") {
-      const genres = movie.genre.split(",").map(g => g.trim());
-      genres.forEach(g => {
-        if (!genreScores[g]) genreScores[g] = { sum: 0, count: 0 };
-        genreScores[g].sum += r.rating!;
-        genreScores[g].count += 1;
-      });
-    }
+    (movie?.genres ?? []).forEach(g => {
+      if (!genreScores[g]) genreScores[g] = { sum: 0, count: 0 };
+      genreScores[g].sum += r.rating!;
+      genreScores[g].count += 1;
+    });
   });
 
   const genreStats = Object.entries(genreScores)
@@ -417,21 +417,18 @@ export const calculatePersonStats = (
   // Pre-watch Hype Genre performance
   const hypeGenreScores: Record<string, { sum: number, count: number }> = {};
   personHype.forEach(r => {
-    let movieGenre = null;
+    let movieGenres: string[] | undefined;
     if (r.watched_movie_id) {
-      movieGenre = watchedMovies.find(m => m.id === r.watched_movie_id)?.genre;
+      movieGenres = watchedMovies.find(m => m.id === r.watched_movie_id)?.genres;
     } else if (r.proposal_id) {
-      movieGenre = proposals.find(p => p.id === r.proposal_id)?.genre;
+      movieGenres = proposals.find(p => p.id === r.proposal_id)?.genres;
     }
 
-    if (movieGenre && movieGenre !== "N/A") {
-      const genres = movieGenre.split(",").map(g => g.trim());
-      genres.forEach(g => {
-        if (!hypeGenreScores[g]) hypeGenreScores[g] = { sum: 0, count: 0 };
-        hypeGenreScores[g].sum += r.rating;
-        hypeGenreScores[g].count += 1;
-      });
-    }
+    (movieGenres ?? []).forEach(g => {
+      if (!hypeGenreScores[g]) hypeGenreScores[g] = { sum: 0, count: 0 };
+      hypeGenreScores[g].sum += r.rating;
+      hypeGenreScores[g].count += 1;
+    });
   });
 
   const hypeGenreStats = Object.entries(hypeGenreScores)
@@ -645,3 +642,26 @@ export const calculateGroupHighlights = (
 
   return { surprise: biggestSurprise, disappointment: biggestDisappointment };
 };
+
+// Collapses session_people rows linked to the same profile into one person
+// (keyed by the profile id), so the per-person calculations above work across
+// sessions. Unlinked people keep their own id.
+export const mergePeopleByProfile = (data: StatsData, profileNames: Record<string, string> = {}): StatsData => {
+  const keyByPersonId = new Map(data.people.map(p => [p.id, p.profile_id ?? p.id]));
+  const keyOf = (personId: string) => keyByPersonId.get(personId) ?? personId;
+
+  const people: Person[] = [];
+  data.people.forEach(p => {
+    const key = keyOf(p.id);
+    if (people.some(existing => existing.id === key)) return;
+    people.push({ ...p, id: key, name: profileNames[key] ?? p.name });
+  });
+
+  return {
+    watchedMovies: data.watchedMovies,
+    people,
+    proposals: data.proposals.map(p => ({ ...p, person_id: keyOf(p.person_id) })),
+    proposalRatings: data.proposalRatings.map(r => ({ ...r, person_id: keyOf(r.person_id) })),
+    detailedRatings: data.detailedRatings.map(r => ({ ...r, person_id: keyOf(r.person_id) })),
+  };
+};
@@ -0,0 +1,106 @@
+import React from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { ArrowLeft, Film, RotateCcw, Star, Trash2, User } from "lucide-react";
+import useSessionTrash, { TrashItem } from "@/hooks/useSessionTrash";
+import type { TrashKind } from "@/lib/sessionTrash";
+
+const KIND_LABELS: Record<TrashKind, string> = {
+  person: "Person",
+  proposal: "Proposal",
+  watched_movie: "Watched movie",
+};
+
+const KIND_ICONS: Record<TrashKind, React.ElementType> = {
+  person: User,
+  proposal: Film,
+  watched_movie: Star,
+};
+
+interface TrashProps {
+  sessionId: string;
+  onBack: () => void;
+  isAdmin: boolean;
+  claimedPersonIds: string[];
+  // restores through the session so people and proposals show up again
+  onRestore: (kind: TrashKind, ids: string[]) => Promise<boolean>;
+}
+
+// Items removed from the session, restorable until the purge deletes them
+export const Trash = ({ sessionId, onBack, isAdmin, claimedPersonIds, onRestore }: TrashProps) => {
+  const { items, loading, removeItem } = useSessionTrash(sessionId);
+
+  // Mirrors restore_item: proposals can also be restored by their proposer's device
+  const canRestore = (item: TrashItem) =>
+    isAdmin || (item.kind === "proposal" && !!item.personId && claimedPersonIds.includes(item.personId));
+
+  const restore = async (item: TrashItem) => {
+    if (await onRestore(item.kind, [item.id])) removeItem(item.kind, item.id);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background/95 to-primary/5 p-4">
+      <div className="container mx-auto max-w-4xl">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+          <Button onClick={onBack} variant="ghost" className="hover:bg-secondary/80 self-start">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Session
+          </Button>
+          <h1 className="text-xl sm:text-2xl font-bold flex items-center">
+            <Trash2 className="w-5 h-5 sm:w-6 sm:h-6 mr-2 text-primary" />
+            Trash
+          </h1>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+          </div>
+        ) : items.length === 0 ? (
+          <Card className="text-center py-12">
+            <CardContent>
+              <Trash2 className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">The trash is empty.</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-2">
+            {items.map(item => {
+              const Icon = KIND_ICONS[item.kind];
+              const allowed = canRestore(item);
+              return (
+                <Card key={`${item.kind}-${item.id}`}>
+                  <CardContent className="p-4 flex items-center justify-between gap-3">
+                    <div className="flex items-start gap-3 min-w-0">
+                      <Icon className="w-4 h-4 mt-1 text-muted-foreground flex-shrink-0" />
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium truncate">{item.label}</span>
+                          <Badge variant="outline" className="text-xs">{KIND_LABELS[item.kind]}</Badge>
+                        </div>
+                        <p className="text-xs text-muted-foreground">
+                          {item.detail} · removed {formatDistanceToNow(new Date(item.deletedAt), { addSuffix: true })} ·
+                          deleted for good {formatDistanceToNow(new Date(item.purgeAt), { addSuffix: true })}
+                        </p>
+                      </div>
+                    </div>
+                    <span title={allowed ? "Restore" : "Only session admins can restore this"}>
+                      <Button variant="outline" size="sm" disabled={!allowed} onClick={() => restore(item)}>
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        Restore
+                      </Button>
+                    </span>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Trash;
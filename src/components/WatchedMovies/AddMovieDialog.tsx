@@ -3,9 +3,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { X, Search, RefreshCw, Film } from "lucide-react";
+import { X, Search, RefreshCw } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { fetchCandidateDetails, useMovieSearch } from "@/hooks/useMovieSearch";
+import { MovieSearchPicker } from "@/components/MovieSearchPicker";
+import type { MovieCandidate } from "../../../supabase/functions/_shared/movieMetadata.ts";
+import { isMovieReference } from "../../../supabase/functions/_shared/movieReferences.ts";
+import { toLocalDateInput, withLocalDate } from "./utils";
 import type { Person, MovieSearchResult } from "./types";
 
 interface AddMovieDialogProps {
@@ -17,31 +22,23 @@ interface AddMovieDialogProps {
 
 export const AddMovieDialog = ({ sessionId, people, onClose, onMovieAdded }: AddMovieDialogProps) => {
   const [newMovieTitle, setNewMovieTitle] = useState("");
-  const [searchResults, setSearchResults] = useState<MovieSearchResult[]>([]);
+  const search = useMovieSearch();
   const [selectedMovie, setSelectedMovie] = useState<MovieSearchResult | null>(null);
-  const [isSearching, setIsSearching] = useState(false);
-  const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+  const [selectedDate, setSelectedDate] = useState(toLocalDateInput(new Date()));
   const [selectedProposer, setSelectedProposer] = useState("");
   const { toast } = useToast();
 
-  const searchMovies = async () => {
-    if (!newMovieTitle.trim()) return;
-    
-    setIsSearching(true);
-    try {
-      const { data, error } = await supabase.functions.invoke('search-movie', {
-        body: { title: newMovieTitle.trim() }
-      });
-      
-      if (error) throw error;
-      setSearchResults([data]);
-      setSelectedMovie(null);
-    } catch (error) {
-      console.error('Error searching movies:', error);
-      setSearchResults([]);
-      setSelectedMovie(null);
-    } finally {
-      setIsSearching(false);
+  const searchMovies = () => {
+    setSelectedMovie(null);
+    search.search(newMovieTitle);
+  };
+
+  // The candidate is shown as picked right away; the rest of its details follow
+  const pickMovie = async (candidate: MovieCandidate) => {
+    setSelectedMovie(candidate);
+    const details = await fetchCandidateDetails(candidate);
+    if (details) {
+      setSelectedMovie(current => current === candidate ? { ...details, imdbId: details.imdbId ?? candidate.imdbId } : current);
     }
   };
 
@@ -58,10 +55,10 @@ export const AddMovieDialog = ({ sessionId, people, onClose, onMovieAdded }: Add
           session_id: sessionId,
           movie_title: movieTitle,
           proposed_by: selectedProposer,
-          watched_at: selectedDate + 'T00:00:00Z',
+          watched_at: withLocalDate(selectedDate),
           poster: selectedMovie?.poster,
-          genre: selectedMovie?.genre,
-          runtime: selectedMovie?.runtime,
+          genres: selectedMovie?.genres,
+          runtime_minutes: selectedMovie?.runtimeMinutes,
           year: selectedMovie?.year,
           director: selectedMovie?.director,
           plot: selectedMovie?.plot,
@@ -90,7 +87,7 @@ export const AddMovieDialog = ({ sessionId, people, onClose, onMovieAdded }: Add
 
   const handleClose = () => {
     setNewMovieTitle("");
-    setSearchResults([]);
+    search.reset();
     setSelectedMovie(null);
     setSelectedProposer("");
     setSelectedDate(new Date().toISOString().split('T')[0]);
@@ -117,7 +114,7 @@ export const AddMovieDialog = ({ sessionId, people, onClose, onMovieAdded }: Add
             <div className="flex flex-col sm:flex-row gap-2">
               <Input
                 id="movie-title"
-                placeholder="Enter movie title..."
+                placeholder="Enter a title or paste an IMDb, TMDB or Letterboxd link..."
                 value={newMovieTitle}
                 onChange={e => setNewMovieTitle(e.target.value)}
                 onKeyPress={e => e.key === "Enter" && searchMovies()}
@@ -126,10 +123,10 @@ export const AddMovieDialog = ({ sessionId, people, onClose, onMovieAdded }: Add
               <Button
                 variant="outline"
                 onClick={searchMovies}
-                disabled={isSearching || !newMovieTitle.trim()}
+                disabled={search.searching || !newMovieTitle.trim()}
                 className="w-full sm:w-auto"
               >
-                {isSearching ? (
+                {search.searching ? (
                   <>
                     <RefreshCw className="w-4 h-4 animate-spin mr-2" />
                     Searching...
@@ -144,41 +141,21 @@ export const AddMovieDialog = ({ sessionId, people, onClose, onMovieAdded }: Add
             </div>
           </div>
 
-          {searchResults.length > 0 && (
+          {search.query && (
             <div className="space-y-2 mt-3">
               <Label className="text-sm font-medium">Search Results</Label>
-              {searchResults.map((result, index) => (
-                <Card 
-                  key={index} 
-                  className={`p-3 cursor-pointer transition-colors ${
-                    selectedMovie?.imdbId === result.imdbId 
-                      ? 'bg-primary/20 border-primary' 
-                      : 'hover:bg-accent/50'
-                  }`}
-                  onClick={() => setSelectedMovie(result)}
-                >
-                  <div className="flex gap-3">
-                    {result.poster && result.poster !== 'N/A' ? (
-                      <img
-                        src={result.poster}
-                        alt={`${result.title} poster`}
-                        className="w-10 h-15 sm:w-12 sm:h-18 object-cover rounded"
-                      />
-                    ) : (
-                      <div className="w-10 h-15 sm:w-12 sm:h-18 bg-primary/10 rounded flex items-center justify-center">
-                        <Film className="w-3 h-3 sm:w-4 sm:h-4 text-primary" />
-                      </div>
-                    )}
-                    <div className="flex-1 min-w-0">
-                      <h4 className="font-medium truncate text-sm sm:text-base">{result.title}</h4>
-                      <p className="text-xs sm:text-sm text-muted-foreground">{result.year}</p>
-                      {result.genre && (
-                        <p className="text-xs text-muted-foreground truncate">{result.genre}</p>
-                      )}
-                    </div>
-                  </div>
-                </Card>
-              ))}
+              <MovieSearchPicker
+                results={search.results}
+                totalResults={search.totalResults}
+                searching={search.searching}
+                hasMore={search.hasMore}
+                selectedImdbId={selectedMovie?.imdbId}
+                onPick={pickMovie}
+                onLoadMore={search.loadMore}
+              />
+              {selectedMovie?.genres?.length > 0 && (
+                <p className="text-xs text-muted-foreground">{selectedMovie.title}: {selectedMovie.genres.join(", ")}</p>
+              )}
             </div>
           )}
 
@@ -221,7 +198,8 @@ export const AddMovieDialog = ({ sessionId, people, onClose, onMovieAdded }: Add
               variant="outline"
               className="w-full"
               onClick={addWatchedMovie}
-              disabled={!newMovieTitle.trim() || !selectedProposer}
+              disabled={!newMovieTitle.trim() || !selectedProposer || isMovieReference(newMovieTitle)}
+              title={isMovieReference(newMovieTitle) ? "Search to look the link up first" : undefined}
             >
               Add Without Details
             </Button>
@@ -114,8 +114,8 @@ const MovieRankings = ({ watchedMovies, detailedRatings, people }: WatchedMovies
                     <p>Proposed by {movie.proposed_by}</p>
                     <p>Watched on {new Date(movie.watched_at).toLocaleDateString('it-IT')}</p>
                     {movie.year && <p>Year: {movie.year}</p>}
-                    {movie.runtime && <p>Runtime: {movie.runtime}</p>}
-                    {movie.genre && <p className="break-words">Genre: {movie.genre}</p>}
+                    {movie.runtime_minutes && <p>Runtime: {movie.runtime_minutes} min</p>}
+                    {movie.genres?.length > 0 && <p className="break-words">Genre: {movie.genres.join(", ")}</p>}
                   </div>
                 </div>
               </div>
@@ -11,22 +11,33 @@ import type { WatchedMoviesData, RateSortMode } from "./types";
 interface MovieRatingTabProps extends WatchedMoviesData {
   sessionId: string;
   selectedPersonId?: string;
+  claimedPersonIds: string[];
+  isAdmin: boolean;
+  expandedMovieId?: string;
+  onExpandedChange?: (watchedMovieId: string | null) => void;
 }
 
 const MovieRatingTab = ({ 
   sessionId, 
   selectedPersonId, 
+  claimedPersonIds,
+  isAdmin,
+  expandedMovieId,
+  onExpandedChange,
   watchedMovies, 
   detailedRatings, 
   people, 
-  setDetailedRatings 
+  setDetailedRatings,
+  updateWatchedDate,
+  trashWatchedMovie
 }: MovieRatingTabProps) => {
   const [rateSortMode, setRateSortMode] = useState<RateSortMode>("date-desc");
   const [rateSortAsc, setRateSortAsc] = useState(false);
   
   const { localPresentStates, setLocalPresentStates, updateDetailedRating } = useMovieRatings(
     detailedRatings,
-    setDetailedRatings
+    setDetailedRatings,
+    claimedPersonIds
   );
 
   const sortedMovies = getSortedFilteredMovies(
@@ -94,6 +105,12 @@ const MovieRatingTab = ({
             people={people}
             detailedRatings={detailedRatings}
             selectedPersonId={selectedPersonId}
+            claimedPersonIds={claimedPersonIds}
+            isAdmin={isAdmin}
+            updateWatchedDate={updateWatchedDate}
+            trashWatchedMovie={trashWatchedMovie}
+            expandedMovieId={expandedMovieId}
+            onExpandedChange={onExpandedChange}
             rateSortMode={rateSortMode}
             localPresentStates={localPresentStates}
             setLocalPresentStates={setLocalPresentStates}
@@ -1,14 +1,15 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ChevronDown, ChevronRight, Film } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, Film, Trash2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { 
   getAverageRating, 
   getRatingForPerson, 
   getPresentPersonIds, 
   getPresentPeopleWithoutRating,
-  formatWatchDate 
+  toLocalDateInput
 } from "./utils";
 import type { WatchedMovie, Person, DetailedRating, RateSortMode } from "./types";
 
@@ -17,6 +18,12 @@ interface WatchedMovieCardProps {
   people: Person[];
   detailedRatings: DetailedRating[];
   selectedPersonId?: string;
+  claimedPersonIds: string[];
+  isAdmin: boolean;
+  updateWatchedDate: (watchedMovieId: string, date: string) => Promise<void>;
+  trashWatchedMovie: (watchedMovieId: string) => Promise<void>;
+  expandedMovieId?: string;
+  onExpandedChange?: (watchedMovieId: string | null) => void;
   rateSortMode: RateSortMode;
   localPresentStates: Record<string, boolean>;
   setLocalPresentStates: React.Dispatch<React.SetStateAction<Record<string, boolean>>>;
@@ -33,6 +40,12 @@ const WatchedMovieCard = ({
   people,
   detailedRatings,
   selectedPersonId,
+  claimedPersonIds,
+  isAdmin,
+  updateWatchedDate,
+  trashWatchedMovie,
+  expandedMovieId,
+  onExpandedChange,
   rateSortMode,
   localPresentStates,
   setLocalPresentStates,
@@ -45,6 +58,27 @@ const WatchedMovieCard = ({
     setCollapsed(true);
   }, [movie.id]);
 
+  // Follow the URL: expand when it points at this card, collapse again when the
+  // URL drops back to the plain list (back/forward navigation)
+  const cardRef = useRef<HTMLDivElement>(null);
+  const routeExpanded = expandedMovieId === movie.id;
+  const wasRouteExpanded = useRef(false);
+  useEffect(() => {
+    if (routeExpanded) {
+      setCollapsed(false);
+      cardRef.current?.scrollIntoView({ block: "nearest" });
+    } else if (wasRouteExpanded.current && !expandedMovieId) {
+      setCollapsed(true);
+    }
+    wasRouteExpanded.current = routeExpanded;
+  }, [routeExpanded, expandedMovieId]);
+
+  const toggleCollapsed = () => {
+    setCollapsed(!collapsed);
+    if (collapsed) onExpandedChange?.(movie.id);
+    else if (routeExpanded) onExpandedChange?.(null);
+  };
+
   const missingPresentRaters = rateSortMode === "not-fully-rated" 
     ? getPresentPeopleWithoutRating(movie.id, people, detailedRatings, localPresentStates)
     : [];
@@ -101,12 +135,12 @@ const WatchedMovieCard = ({
   };
 
   return (
-    <Card className="transition-all duration-300 hover:shadow-glow relative">
+    <Card ref={cardRef} className="transition-all duration-300 hover:shadow-glow relative">
       <CardHeader className="pb-3 p-4">
         <div className="flex items-start justify-between gap-2">
           <div className="flex items-start gap-2 flex-1 min-w-0">
             <button
-              onClick={() => setCollapsed(!collapsed)}
+              onClick={toggleCollapsed}
               aria-label={collapsed ? "Expand" : "Collapse"}
               className="p-1 rounded hover:bg-accent/20 transition flex-shrink-0 mt-1"
               type="button"
@@ -177,11 +211,33 @@ const WatchedMovieCard = ({
             <div className="flex-1 min-w-0 space-y-2">
               <div className="space-y-1 text-xs text-muted-foreground">
                 <p>Proposed by {movie.proposed_by}</p>
-                <p>Watched on {formatWatchDate(movie.watched_at)}</p>
+                <label className="flex items-center gap-1">
+                  Watched on
+                  <input
+                    type="date"
+                    value={toLocalDateInput(movie.watched_at)}
+                    disabled={!isAdmin}
+                    title={isAdmin ? undefined : "Only session admins can edit watched dates"}
+                    onChange={e => e.target.value && updateWatchedDate(movie.id, e.target.value)}
+                    className="bg-transparent border border-border/50 rounded px-1 text-xs disabled:border-transparent disabled:cursor-not-allowed"
+                  />
+                </label>
                 {movie.year && <p>Year: {movie.year}</p>}
-                {movie.runtime && <p>Runtime: {movie.runtime}</p>}
-                {movie.genre && <p className="break-words">Genre: {movie.genre}</p>}
+                {movie.runtime_minutes && <p>Runtime: {movie.runtime_minutes} min</p>}
+                {movie.genres?.length > 0 && <p className="break-words">Genre: {movie.genres.join(", ")}</p>}
               </div>
+              <span title={isAdmin ? "Move to trash" : "Only session admins can remove watched movies"}>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs text-muted-foreground hover:text-destructive"
+                  disabled={!isAdmin}
+                  onClick={() => trashWatchedMovie(movie.id)}
+                >
+                  <Trash2 className="w-3 h-3 mr-1" />
+                  Remove
+                </Button>
+              </span>
             </div>
           </div>
           {/* Ratings UI */}
@@ -221,7 +277,9 @@ const WatchedMovieCard = ({
                       </label>
                     </div>
                     <select
-                      className="w-full p-2 rounded bg-card text-foreground border border-border focus:outline-none focus:ring-2 focus:ring-primary transition text-sm"
+                      className="w-full p-2 rounded bg-card text-foreground border border-border focus:outline-none focus:ring-2 focus:ring-primary transition text-sm disabled:opacity-60 disabled:cursor-not-allowed"
+                      disabled={!claimedPersonIds.includes(person.id)}
+                      title={claimedPersonIds.includes(person.id) ? undefined : "Only the device that claimed this person can rate for them"}
                       value={(() => {
                         const rating = getRatingForPerson(movie.id, person.id, detailedRatings);
                         return rating === null ? "" : rating;
@@ -5,7 +5,8 @@ import type { DetailedRating } from "../types";
 
 export const useMovieRatings = (
   detailedRatings: DetailedRating[],
-  setDetailedRatings: React.Dispatch<React.SetStateAction<DetailedRating[]>>
+  setDetailedRatings: React.Dispatch<React.SetStateAction<DetailedRating[]>>,
+  claimedPersonIds: string[]
 ) => {
   const [localPresentStates, setLocalPresentStates] = useState<Record<string, boolean>>({});
   const [isUpdating, setIsUpdating] = useState<Record<string, boolean>>({});
@@ -17,6 +18,15 @@ export const useMovieRatings = (
     rating: number | null,
     present?: boolean
   ) => {
+    if (!claimedPersonIds.includes(personId)) {
+      toast({
+        title: "Not allowed",
+        description: "You can only rate as a person you have claimed on this device.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     const key = `${watchedMovieId}-${personId}`;
     setIsUpdating(prev => ({ ...prev, [key]: true }));
 
@@ -1,6 +1,9 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useUndoToast } from "@/hooks/useUndoToast";
+import { trashItem, restoreItem } from "@/lib/sessionTrash";
+import { withLocalDate } from "../utils";
 import type { WatchedMovie, DetailedRating, Person, WatchedMoviesData } from "../types";
 
 export const useWatchedMoviesData = (sessionId: string): WatchedMoviesData & { 
@@ -14,6 +17,7 @@ export const useWatchedMoviesData = (sessionId: string): WatchedMoviesData & {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
+  const showUndo = useUndoToast();
 
   const loadData = useCallback(async () => {
     if (!sessionId) return;
@@ -69,6 +73,64 @@ export const useWatchedMoviesData = (sessionId: string): WatchedMoviesData & {
     }
   }, [sessionId, toast]);
 
+  // date is a yyyy-mm-dd string from a date input; only admins pass the RLS check
+  const updateWatchedDate = useCallback(async (watchedMovieId: string, date: string) => {
+    const previous = watchedMovies.find(m => m.id === watchedMovieId)?.watched_at;
+    const watchedAt = withLocalDate(date, previous);
+    setWatchedMovies(prev => prev.map(m => m.id === watchedMovieId ? { ...m, watched_at: watchedAt } : m));
+
+    try {
+      const { data, error } = await supabase
+        .from("watched_movies")
+        .update({ watched_at: watchedAt })
+        .eq("id", watchedMovieId)
+        .select("id");
+
+      if (error) throw error;
+      // RLS filters the update instead of failing when the caller isn't an admin
+      if (!data || data.length === 0) throw new Error("Only session admins can edit watched dates");
+    } catch (error) {
+      console.error("Error updating watched date:", error);
+      setWatchedMovies(prev => prev.map(m => m.id === watchedMovieId && previous ? { ...m, watched_at: previous } : m));
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update watched date",
+        variant: "destructive",
+      });
+    }
+  }, [watchedMovies, toast]);
+
+  // Admin-only; the movie and its ratings come back with Undo or from the trash
+  const trashWatchedMovie = useCallback(async (watchedMovieId: string) => {
+    const movie = watchedMovies.find(m => m.id === watchedMovieId);
+    if (!movie) return;
+
+    try {
+      await trashItem("watched_movie", watchedMovieId);
+      setWatchedMovies(prev => prev.filter(m => m.id !== watchedMovieId));
+      showUndo({
+        title: "Watched movie removed",
+        description: `"${movie.movie_title}" moved to the trash.`,
+        onUndo: async () => {
+          try {
+            await restoreItem("watched_movie", watchedMovieId);
+            await loadData();
+          } catch (error) {
+            console.error("Error restoring watched movie:", error);
+            toast({ title: "Error", description: "Failed to restore watched movie", variant: "destructive" });
+          }
+        }
+      });
+    } catch (error) {
+      console.error("Error removing watched movie:", error);
+      toast({
+        title: "Error",
+        description: "Failed to remove watched movie",
+        variant: "destructive",
+      });
+    }
+  }, [watchedMovies, loadData, showUndo, toast]);
+
   const retry = useCallback(() => {
     loadData();
   }, [loadData]);
@@ -83,6 +145,8 @@ export const useWatchedMoviesData = (sessionId: string): WatchedMoviesData & {
     people,
     setDetailedRatings,
     loadData,
+    updateWatchedDate,
+    trashWatchedMovie,
     loading,
     error,
     retry
@@ -8,7 +8,7 @@ import  MovieRankings from "./MovieRankings";
 import { useWatchedMoviesData } from "./hooks/useWatchedMoviesData";
 import type { WatchedMoviesProps } from "./types";
 
-export const WatchedMovies = ({ sessionId, onBack, selectedPersonId }: WatchedMoviesProps) => {
+export const WatchedMovies = ({ sessionId, onBack, selectedPersonId, claimedPersonIds = [], isAdmin = false, expandedMovieId, onExpandedChange }: WatchedMoviesProps) => {
   const [showAddMovie, setShowAddMovie] = useState(false);
   const { loading, ...data } = useWatchedMoviesData(sessionId);
 
@@ -44,15 +44,18 @@ export const WatchedMovies = ({ sessionId, onBack, selectedPersonId }: WatchedMo
               <Star className="w-5 h-5 sm:w-6 sm:h-6 mr-2 text-primary" />
               Watched Movies
             </h1>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setShowAddMovie(true)}
-              className="w-full sm:w-auto"
-            >
-              <Plus className="w-4 h-4 mr-2" />
-              Add Movie
-            </Button>
+            {/* Adding past movies by hand is for admins, like marking them as watched */}
+            {isAdmin && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowAddMovie(true)}
+                className="w-full sm:w-auto"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Movie
+              </Button>
+            )}
           </div>
         </div>
 
@@ -66,6 +69,10 @@ export const WatchedMovies = ({ sessionId, onBack, selectedPersonId }: WatchedMo
             <MovieRatingTab 
               sessionId={sessionId}
               selectedPersonId={selectedPersonId}
+              claimedPersonIds={claimedPersonIds}
+              isAdmin={isAdmin}
+              expandedMovieId={expandedMovieId}
+              onExpandedChange={onExpandedChange}
               {...data}
             />
           </TabsContent>
@@ -75,7 +82,7 @@ export const WatchedMovies = ({ sessionId, onBack, selectedPersonId }: WatchedMo
           </TabsContent>
         </Tabs>
 
-        {showAddMovie && (
+        {isAdmin && showAddMovie && (
           <AddMovieDialog
             sessionId={sessionId}
             people={data.people}
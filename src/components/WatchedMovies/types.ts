@@ -1,14 +1,16 @@
+import type { MovieMetadata } from "../../../supabase/functions/_shared/movieMetadata.ts";
+
 export interface WatchedMovie {
   id: string;
   movie_title: string;
   proposed_by: string;
   poster?: string;
-  genre?: string;
-  runtime?: string;
-  year?: string;
+  genres?: string[];
+  runtime_minutes?: number;
+  year?: number;
   director?: string;
   plot?: string;
-  imdb_rating?: string;
+  imdb_rating?: number;
   imdb_id?: string;
   watched_at: string;
 }
@@ -31,6 +33,11 @@ export interface WatchedMoviesProps {
   sessionId: string;
   onBack: () => void;
   selectedPersonId?: string;
+  claimedPersonIds?: string[];
+  isAdmin?: boolean;
+  // Card expanded from the URL, and callback to update the URL when cards are toggled
+  expandedMovieId?: string;
+  onExpandedChange?: (watchedMovieId: string | null) => void;
 }
 
 export interface WatchedMoviesData {
@@ -39,18 +46,11 @@ export interface WatchedMoviesData {
   people: Person[];
   setDetailedRatings: React.Dispatch<React.SetStateAction<DetailedRating[]>>;
   loadData: () => Promise<void>;
+  updateWatchedDate: (watchedMovieId: string, date: string) => Promise<void>;
+  trashWatchedMovie: (watchedMovieId: string) => Promise<void>;
 }
 
 export type RateSortMode = "date-desc" | "date-asc" | "voted" | "not-voted" | "absent" | "not-fully-rated" | "title";
 
-export interface MovieSearchResult {
-  title: string;
-  year?: string;
-  poster?: string;
-  genre?: string;
-  runtime?: string;
-  director?: string;
-  plot?: string;
-  imdbRating?: string;
-  imdbId?: string;
-}
+// The details search-movie returns for one movie
+export type MovieSearchResult = Pick<MovieMetadata, "title"> & Partial<Omit<MovieMetadata, "title">>;
@@ -1,6 +1,23 @@
 import type { WatchedMovie, DetailedRating, Person, RateSortMode } from "./types";
 import { normalizeTitle } from "@/lib/utils";
 
+// watched_at is a timestamp, shown and edited as a yyyy-mm-dd date in the
+// viewer's time zone
+export const toLocalDateInput = (timestamp: string | Date): string => {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Moves a watched_at timestamp to another date, keeping its time of day;
+// local midnight of that date when there is no timestamp yet
+export const withLocalDate = (date: string, timestamp?: string): string => {
+  const [year, month, day] = date.split("-").map(Number);
+  const moved = timestamp ? new Date(timestamp) : new Date(year, month - 1, day);
+  moved.setFullYear(year, month - 1, day);
+  return moved.toISOString();
+};
+
 export const getMovieRatings = (movieId: string, detailedRatings: DetailedRating[]) => {
   return detailedRatings.filter(r => r.watched_movie_id === movieId && r.rating !== null);
 };
@@ -17,12 +17,14 @@ const mockMovie: MovieRating = {
   proposedBy: 'Alice',
   ratings: { 'p1': 4 },
   proposerId: 'p2',
+  proposerIds: ['p2'],
+  vetoedBy: [],
   proposalId: 'prop-123',
   details: {
     poster: 'test-poster.jpg',
-    year: '2023',
+    year: 2023,
     director: 'John Doe',
-    genre: 'Action',
+    genres: ['Action', 'Thriller'],
     plot: 'A great movie',
     imdbId: 'tt1234567'
   }
@@ -50,6 +52,7 @@ describe('MovieCard', () => {
 
     expect(screen.getByText('Test Movie')).toBeInTheDocument();
     expect(screen.getByText('Year: 2023')).toBeInTheDocument();
+    expect(screen.getByText('Genre: Action, Thriller')).toBeInTheDocument();
     expect(screen.getByText('Proposed by Alice')).toBeInTheDocument();
     expect(screen.getByAltText('Test Movie poster')).toHaveAttribute('src', 'test-poster.jpg');
   });
@@ -98,11 +101,11 @@ describe('MovieCard', () => {
     // Find the star rating component associated with current user (p1 has rating 4)
     // Our mock simulates a click incrementing the rating passed to it.
     // So if we click, it should call with 4+1 = 5? Or just verify the call.
-    // In the component: onRatingChange?.(movie.movieTitle, currentPersonId, rating)
+    // In the component: onRatingChange?.(movie.proposalId, currentPersonId, rating)
     
     const ratingComponent = screen.getAllByTestId('star-rating')[1]; // 0 is avg, 1 is user
     fireEvent.click(ratingComponent);
     
-    expect(handleRatingChange).toHaveBeenCalledWith('Test Movie', 'p1', 5);
+    expect(handleRatingChange).toHaveBeenCalledWith('prop-123', 'p1', 5);
   });
 });
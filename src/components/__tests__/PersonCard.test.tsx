@@ -0,0 +1,112 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { PersonCard } from '../PersonCard';
+import { Person } from '@/types/session';
+import { supabase } from '@/integrations/supabase/client';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { functions: { invoke: vi.fn() } }
+}));
+
+const person: Person = {
+  id: 'p1',
+  name: 'Alice',
+  isPresent: true,
+  movies: [{ proposalId: 'a', title: 'Alien' }, { proposalId: 'b', title: 'Heat' }],
+  backlog: [{ proposalId: 'c', title: 'Ran' }],
+};
+
+const renderCard = (props: Partial<React.ComponentProps<typeof PersonCard>> = {}) => render(
+  <PersonCard
+    person={person}
+    onUpdatePerson={vi.fn()}
+    onDeletePerson={vi.fn()}
+    onAddMovie={vi.fn()}
+    onRemoveMovie={vi.fn()}
+    onParkMovie={vi.fn()}
+    onPromoteMovie={vi.fn()}
+    {...props}
+  />
+);
+
+describe('PersonCard', () => {
+  // Test that active proposals and the backlog are listed separately
+  it('shows the active list and the backlog', () => {
+    renderCard({ maxActive: 3 });
+
+    expect(screen.getByText('Movie Suggestions (2/3)')).toBeInTheDocument();
+    expect(screen.getByText('Backlog (1)')).toBeInTheDocument();
+    expect(screen.getByText('Ran')).toBeInTheDocument();
+  });
+
+  // Test that parking and promoting pass the proposal id
+  it('parks and promotes proposals', () => {
+    const onParkMovie = vi.fn();
+    const onPromoteMovie = vi.fn();
+    renderCard({ maxActive: 3, onParkMovie, onPromoteMovie });
+
+    fireEvent.click(screen.getAllByTitle('Move to backlog')[0]);
+    fireEvent.click(screen.getByTitle('Propose for the next night'));
+
+    expect(onParkMovie).toHaveBeenCalledWith('a');
+    expect(onPromoteMovie).toHaveBeenCalledWith('c');
+  });
+
+  // Test that a full active list sends new titles to the backlog and blocks promoting
+  it('adds to the backlog once the active list is full', () => {
+    const onAddMovie = vi.fn();
+    renderCard({ maxActive: 2, onAddMovie });
+
+    expect(screen.getByTitle('Propose for the next night')).toBeDisabled();
+
+    fireEvent.change(screen.getByPlaceholderText('Add a movie to the backlog...'), { target: { value: 'Ikiru' } });
+    fireEvent.click(screen.getByTitle('Add to backlog'));
+
+    expect(onAddMovie).toHaveBeenCalledWith('p1', 'Ikiru', true, null);
+  });
+
+  // Test that a search lists every candidate and the picked one is proposed by IMDb id
+  it('proposes the picked search result', async () => {
+    vi.mocked(supabase.functions.invoke).mockResolvedValue({
+      data: {
+        results: [
+          { title: 'Dune', year: 2021, type: 'movie', poster: null, imdbId: 'tt1160419' },
+          { title: 'Dune', year: 1984, type: 'movie', poster: null, imdbId: 'tt0087182' },
+        ],
+        page: 1,
+        totalResults: 2,
+      },
+      error: null,
+    });
+    const onAddMovie = vi.fn();
+    renderCard({ onAddMovie });
+
+    const input = screen.getByPlaceholderText('Search for a movie...');
+    fireEvent.change(input, { target: { value: 'Dune' } });
+    fireEvent.keyPress(input, { key: 'Enter', charCode: 13 });
+
+    fireEvent.click(await screen.findByText('1984'));
+
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('search-movie', { body: { query: 'Dune', page: 1 } });
+    expect(onAddMovie).toHaveBeenCalledWith('p1', 'Dune', false, 'tt0087182');
+  });
+
+  // Test that a pasted link is looked up instead of being proposed as a title
+  it('resolves a pasted link before proposing', async () => {
+    vi.mocked(supabase.functions.invoke).mockResolvedValue({
+      data: { title: 'The Matrix', year: 1999, poster: null, imdbId: 'tt0133093' },
+      error: null,
+    });
+    const onAddMovie = vi.fn();
+    renderCard({ onAddMovie });
+
+    fireEvent.change(screen.getByPlaceholderText('Search for a movie...'), { target: { value: 'https://www.imdb.com/title/tt0133093/' } });
+    fireEvent.click(screen.getByTitle('Propose'));
+
+    expect(onAddMovie).not.toHaveBeenCalled();
+    fireEvent.click(await screen.findByText('The Matrix'));
+
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('search-movie', { body: { reference: 'https://www.imdb.com/title/tt0133093/' } });
+    expect(onAddMovie).toHaveBeenCalledWith('p1', 'The Matrix', false, 'tt0133093');
+  });
+});
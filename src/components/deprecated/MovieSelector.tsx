@@ -178,10 +178,10 @@ export const MovieSelector = ({ onNavigateToWatched, onSessionLoad }: MovieSelec
           ratings[rating.person_id] = rating.rating;
         });
 
-        const details: MovieDetails | undefined = (proposal.poster || proposal.genre || proposal.runtime) ? {
+        const details: MovieDetails | undefined = (proposal.poster || proposal.genres.length || proposal.runtime_minutes) ? {
           poster: proposal.poster,
-          genre: proposal.genre,
-          runtime: proposal.runtime,
+          genres: proposal.genres,
+          runtimeMinutes: proposal.runtime_minutes,
           year: proposal.year,
           director: proposal.director,
           plot: proposal.plot,
@@ -216,8 +216,8 @@ export const MovieSelector = ({ onNavigateToWatched, onSessionLoad }: MovieSelec
 
       return {
         poster: data.poster,
-        genre: data.genre,
-        runtime: data.runtime,
+        genres: data.genres,
+        runtimeMinutes: data.runtimeMinutes,
         year: data.year,
         director: data.director,
         plot: data.plot,
@@ -239,8 +239,8 @@ export const MovieSelector = ({ onNavigateToWatched, onSessionLoad }: MovieSelec
         .from('movie_proposals')
         .update({
           poster: details.poster,
-          genre: details.genre,
-          runtime: details.runtime,
+          genres: details.genres,
+          runtime_minutes: details.runtimeMinutes,
           year: details.year,
           director: details.director,
           plot: details.plot,
@@ -420,8 +420,8 @@ export const MovieSelector = ({ onNavigateToWatched, onSessionLoad }: MovieSelec
               // Update UI with details returned by the function
               const details = {
                 poster: returnedProposal.poster,
-                genre: returnedProposal.genre,
-                runtime: returnedProposal.runtime,
+                genres: returnedProposal.genres,
+                runtimeMinutes: returnedProposal.runtime_minutes,
                 year: returnedProposal.year,
                 director: returnedProposal.director,
                 plot: returnedProposal.plot,
@@ -439,8 +439,8 @@ export const MovieSelector = ({ onNavigateToWatched, onSessionLoad }: MovieSelec
               if (!findErr && found) {
                 const details = {
                   poster: found.poster,
-                  genre: found.genre,
-                  runtime: found.runtime,
+                  genres: found.genres,
+                  runtimeMinutes: found.runtime_minutes,
                   year: found.year,
                   director: found.director,
                   plot: found.plot,
@@ -573,8 +573,8 @@ export const MovieSelector = ({ onNavigateToWatched, onSessionLoad }: MovieSelec
           movie_title: movieTitle,
           proposed_by: proposer?.name || 'Unknown',
           poster: proposal.poster,
-          genre: proposal.genre,
-          runtime: proposal.runtime,
+          genres: proposal.genres,
+          runtimeMinutes: proposal.runtime_minutes,
           year: proposal.year,
           director: proposal.director,
           plot: proposal.plot,
@@ -660,8 +660,8 @@ export const MovieSelector = ({ onNavigateToWatched, onSessionLoad }: MovieSelec
               .from('movie_proposals')
               .update({
                 poster: data.poster,
-                genre: data.genre,
-                runtime: data.runtime,
+                genres: data.genres,
+                runtimeMinutes: data.runtimeMinutes,
                 year: data.year,
                 director: data.director,
                 plot: data.plot,
@@ -676,8 +676,8 @@ export const MovieSelector = ({ onNavigateToWatched, onSessionLoad }: MovieSelec
                   ...movie,
                   details: {
                     poster: data.poster,
-                    genre: data.genre,
-                    runtime: data.runtime,
+                    genres: data.genres,
+                    runtimeMinutes: data.runtimeMinutes,
                     year: data.year,
                     director: data.director,
                     plot: data.plot,
@@ -976,8 +976,8 @@ export const MovieSelector = ({ onNavigateToWatched, onSessionLoad }: MovieSelec
                         <div className="space-y-1 text-xs text-muted-foreground flex-1">
                           {movie.details?.year && <p>Year: {movie.details.year}</p>}
                           {movie.details?.director && <p>Director: {movie.details.director}</p>}  {/* Add this line */}
-                          {movie.details?.runtime && <p>Runtime: {movie.details.runtime}</p>}
-                          {movie.details?.genre && <p className="break-words">Genre: {movie.details.genre}</p>}
+                          {movie.details?.runtimeMinutes && <p>Runtime: {movie.details.runtimeMinutes} min</p>}
+                          {movie.details?.genres?.length > 0 && <p className="break-words">Genre: {movie.details.genres.join(", ")}</p>}
                           <p>{movie.totalRatings}/{presentPeople.length} people rated</p>
 
                           {/* Show absent people who rated 1 */}
@@ -17,12 +17,12 @@ interface WatchedMovie {
   movie_title: string;
   proposed_by: string;
   poster?: string;
-  genre?: string;
-  runtime?: string;
-  year?: string;
+  genres?: string[];
+  runtime_minutes?: number;
+  year?: number;
   director?: string;
   plot?: string;
-  imdb_rating?: string;
+  imdb_rating?: number;
   imdb_id?: string;
   watched_at: string;
 }
@@ -228,8 +228,8 @@ export const WatchedMovies = ({ sessionId, onBack, selectedPersonId }: WatchedMo
           proposed_by: selectedProposer,
           watched_at: selectedDate + 'T00:00:00Z',
           poster: movieData?.poster,
-          genre: movieData?.genre,
-          runtime: movieData?.runtime,
+          genres: movieData?.genres,
+          runtime_minutes: movieData?.runtimeMinutes,
           year: movieData?.year,
           director: movieData?.director,
           plot: movieData?.plot,
@@ -635,8 +635,8 @@ export const WatchedMovies = ({ sessionId, onBack, selectedPersonId }: WatchedMo
                                 return `${day}/${month}/${year}`;
                               })()}</p>
                               {movie.year && <p>Year: {movie.year}</p>}
-                              {movie.runtime && <p>Runtime: {movie.runtime}</p>}
-                              {movie.genre && <p className="break-words">Genre: {movie.genre}</p>}
+                              {movie.runtime_minutes && <p>Runtime: {movie.runtime_minutes} min</p>}
+                              {movie.genres?.length > 0 && <p className="break-words">Genre: {movie.genres.join(", ")}</p>}
                             </div>
                           </div>
                         </div>
@@ -842,8 +842,8 @@ export const WatchedMovies = ({ sessionId, onBack, selectedPersonId }: WatchedMo
                               <p>Proposed by {movie.proposed_by}</p>
                               <p>Watched on {new Date(movie.watched_at).toLocaleDateString('it-IT')}</p>
                               {movie.year && <p>Year: {movie.year}</p>}
-                              {movie.runtime && <p>Runtime: {movie.runtime}</p>}
-                              {movie.genre && <p className="break-words">Genre: {movie.genre}</p>}
+                              {movie.runtime_minutes && <p>Runtime: {movie.runtime_minutes} min</p>}
+                              {movie.genres?.length > 0 && <p className="break-words">Genre: {movie.genres.join(", ")}</p>}
                             </div>
                           </div>
                         </div>
@@ -961,8 +961,8 @@ export const WatchedMovies = ({ sessionId, onBack, selectedPersonId }: WatchedMo
                           <div className="flex-1 min-w-0">
                             <h4 className="font-medium truncate text-sm sm:text-base">{result.title}</h4>
                             <p className="text-xs sm:text-sm text-muted-foreground">{result.year}</p>
-                            {result.genre && (
-                              <p className="text-xs text-muted-foreground truncate">{result.genre}</p>
+                            {result.genres?.length > 0 && (
+                              <p className="text-xs text-muted-foreground truncate">{result.genres.join(", ")}</p>
                             )}
                           </div>
                         </div>
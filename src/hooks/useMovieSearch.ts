@@ -0,0 +1,98 @@
+import { useCallback, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { MovieCandidate, MovieMetadata, MovieSearchPage } from "../../supabase/functions/_shared/movieMetadata.ts";
+import { isMovieReference } from "../../supabase/functions/_shared/movieReferences.ts";
+
+// A single movie as the only candidate of a one-page search
+const asSearchPage = (movie: MovieMetadata): MovieSearchPage => ({
+  results: [{ title: movie.title, year: movie.year, type: "movie", poster: movie.poster, imdbId: movie.imdbId }],
+  page: 1,
+  totalResults: 1,
+});
+
+// Paged search-movie results for a title, so the user can pick the right
+// "Dune" instead of taking whatever the provider ranks first. A pasted IMDb,
+// TMDB or Letterboxd link or IMDb id finds exactly that movie instead.
+export const useMovieSearch = () => {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<MovieCandidate[]>([]);
+  const [page, setPage] = useState(0);
+  const [totalResults, setTotalResults] = useState(0);
+  const [searching, setSearching] = useState(false);
+  // the query the latest request was for; answers to older queries are dropped
+  const latestQuery = useRef("");
+
+  const fetchPage = useCallback(async (searchQuery: string, pageNumber: number) => {
+    latestQuery.current = searchQuery;
+    setSearching(true);
+    try {
+      const byReference = isMovieReference(searchQuery);
+      const { data, error } = await supabase.functions.invoke('search-movie', {
+        body: byReference ? { reference: searchQuery } : { query: searchQuery, page: pageNumber }
+      });
+      if (error) throw error;
+      if (latestQuery.current !== searchQuery) return;
+
+      const found = byReference ? asSearchPage(data as MovieMetadata) : data as MovieSearchPage;
+      setResults(prev => pageNumber === 1 ? found.results : [...prev, ...found.results]);
+      setPage(pageNumber);
+      setTotalResults(found.totalResults);
+    } catch (err) {
+      console.error('Error searching movies:', err);
+      if (latestQuery.current === searchQuery && pageNumber === 1) {
+        setResults([]);
+        setTotalResults(0);
+      }
+    } finally {
+      if (latestQuery.current === searchQuery) setSearching(false);
+    }
+  }, []);
+
+  const search = useCallback((title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    setQuery(trimmed);
+    setResults([]);
+    setTotalResults(0);
+    return fetchPage(trimmed, 1);
+  }, [fetchPage]);
+
+  const loadMore = useCallback(() => {
+    if (!query || searching) return;
+    return fetchPage(query, page + 1);
+  }, [fetchPage, query, page, searching]);
+
+  const reset = useCallback(() => {
+    latestQuery.current = "";
+    setQuery("");
+    setResults([]);
+    setPage(0);
+    setTotalResults(0);
+    setSearching(false);
+  }, []);
+
+  return {
+    query,
+    results,
+    totalResults,
+    searching,
+    hasMore: results.length < totalResults,
+    search,
+    loadMore,
+    reset,
+  };
+};
+
+// Full details of a picked candidate; by IMDb id when it has one
+export const fetchCandidateDetails = async (candidate: MovieCandidate): Promise<MovieMetadata | null> => {
+  try {
+    const { data, error } = await supabase.functions.invoke('search-movie', {
+      body: candidate.imdbId ? { imdbId: candidate.imdbId } : { title: candidate.title }
+    });
+    if (error) throw error;
+    return data as MovieMetadata;
+  } catch (err) {
+    console.error('Error fetching movie details:', err);
+    return null;
+  }
+};
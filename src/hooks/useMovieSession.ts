@@ -1,10 +1,19 @@
 import { useEffect, useState, useCallback, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { useUndoToast } from "@/hooks/useUndoToast";
 import { getSelectedPersonForSession, setSelectedPersonForSession } from "@/lib/sessionCookies";
+import { ensureDeviceIdentity } from "@/lib/deviceIdentity";
+import { setActiveSessionToken } from "@/lib/sessionAccess";
 import { Person, MovieRating, MovieDetails, MovieWithStats } from "@/types/session";
-import { transformPeopleData, transformRatingsData } from "@/lib/sessionHelpers";
+import { transformPeopleData, transformRatingsData, pendingProposalId, isPendingProposal, edgeFunctionErrorMessage } from "@/lib/sessionHelpers";
+import { trashItem, restoreItem, TrashKind } from "@/lib/sessionTrash";
 import { normalizeTitle } from "@/lib/utils";
+import { rankByMethod, isSelectionMethod, SelectionMethod, DEFAULT_APPROVAL_THRESHOLD } from "@/lib/votingMethods";
+import { proposerNeeds, fairnessBoost, WatchedCredit } from "@/lib/fairness";
+import { compareByTieBreakers, meetsQuorum, isTieBreaker, TieBreaker } from "@/lib/resultRules";
+import { availableMinutes, runtimeFit, TimeBudget } from "@/lib/timeBudget";
+import { isAttending, startedNight, toMovieNight, upcomingNight, MovieNight, RsvpResponse } from "@/lib/movieNights";
 
 // Internal sorting helper moved from sessionHelpers
 const sortRatings = (ratings: MovieRating[], personId: string): MovieRating[] => {
@@ -20,23 +29,72 @@ const sortRatings = (ratings: MovieRating[], personId: string): MovieRating[] =>
   });
 };
 
+// Sets the people backing a proposal and the display names derived from them
+const withProposers = (movie: MovieRating, proposerIds: string[], people: Person[]): MovieRating => ({
+  ...movie,
+  proposerIds,
+  proposedBy: proposerIds.map(id => people.find(p => p.id === id)?.name).filter(Boolean).join(', ') || 'Unknown'
+});
+
 // Hook responsibilities:
-// - Owns sessionId, people, movieRatings, selectedPersonId, loading, fetchingDetails, collapsedMovies
-// - Implements: loadExistingSession, createNewSession, loadSessionData,
-//   addPerson, updatePerson, deletePerson, updateRating, fetchAllMovieDetails,
-//   searchMovieAgain, markMovieAsWatched, fetchMovieDetails, saveMovieDetailsToDatabase
-// - Exposes computed values: presentPeople, rankedMovies, getSortedMovies()
-export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void }) => {
+// - Owns sessionId, people, movieRatings, selectedPersonId, deviceUserId, loading, fetchingDetails, collapsedMovies
+// - Implements: loadExistingSession, loadSessionData,
+//   addPerson, updatePerson, proposeMovie, secondProposal, removeProposal, deletePerson, updateRating, fetchAllMovieDetails,
+//   searchMovieAgain, markMovieAsWatched, fetchMovieDetails, saveMovieDetailsToDatabase,
+//   claimPerson, requestReclaim, joinAsNewPerson, linkPersonToProfile, renameSession, refreshAdminRole,
+//   restoreFromTrash, setSelectionMethod, vetoProposal, revokeVeto, setVetoesPerPerson, setFairnessStrength,
+//   setResultRules, setTimeBudget, scheduleMovieNight, cancelMovieNight, setRsvp, selectMovieForNight,
+//   parkProposal, promoteProposal, setMaxActiveProposals
+// - Exposes computed values: presentPeople, claimedPersonIds, nextNight, rankedMovies, selection, vetoedMovies,
+//   belowQuorumMovies, tooLongMovies, vetoesLeft(), getSortedMovies()
+// While a movie night is coming up, people's presence comes from its RSVPs.
+// Parked proposals stay in state (with their ratings) but only show up in
+// people's backlogs; everything else works from the active ones.
+// Proposals are keyed by proposalId throughout; titles are for display only.
+export const useMovieSession = (opts: {
+  sessionId: string;
+  // join secret from an invite link, remembered for this session once loaded
+  inviteKey?: string | null;
+  onSessionLoad?: (id: string) => void;
+}) => {
   const { toast } = useToast();
+  const showUndo = useUndoToast();
   const [people, setPeople] = useState<Person[]>([]);
   const [movieRatings, setMovieRatings] = useState<MovieRating[]>([]);
   const [sessionId, setSessionId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
-  const [showNewSession, setShowNewSession] = useState(false);
+  const [sessionNotFound, setSessionNotFound] = useState(false);
+  // the session exists but this device holds no valid access token for it
+  const [accessDenied, setAccessDenied] = useState(false);
+  const [sessionName, setSessionName] = useState("");
+  // admins can remove people and others' proposals, mark movies watched and rename the session
+  const [isAdmin, setIsAdmin] = useState(false);
+  // how rankedMovies picks the winner; admins choose it for the whole session
+  const [selectionMethod, setSelectionMethodState] = useState<SelectionMethod>("mean");
+  const [approvalThreshold, setApprovalThreshold] = useState(DEFAULT_APPROVAL_THRESHOLD);
+  // how many active proposals each person can back; the rest wait in the backlog
+  const [maxActiveProposals, setMaxActiveProposalsState] = useState(3);
+  // vetoes each person can spend per movie night
+  const [vetoesPerPerson, setVetoesPerPersonState] = useState(1);
+  // 0-100; how strongly proposals from people who rarely get picks watched are boosted
+  const [fairnessStrength, setFairnessStrengthState] = useState(0);
+  // share of present people (0-100) who must have rated a movie before it can win
+  const [quorumPercent, setQuorumPercent] = useState(0);
+  // applied in order when movies score the same; the title decides last
+  const [tieBreakers, setTieBreakers] = useState<TieBreaker[]>([]);
+  const [tieBreakSeed, setTieBreakSeed] = useState(0);
+  // tonight's time budget on this device; not stored with the session
+  const [timeBudget, setTimeBudget] = useState<TimeBudget | null>(null);
+  // scheduled movie nights with their RSVPs, including past ones
+  const [movieNights, setMovieNights] = useState<MovieNight[]>([]);
+  // who proposed the session's watched movies and when, for fairness weighting
+  const [watchedCredits, setWatchedCredits] = useState<WatchedCredit[]>([]);
   const [fetchingDetails, setFetchingDetails] = useState(false);
+  // keyed by proposalId
   const [collapsedMovies, setCollapsedMovies] = useState<Record<string, boolean>>({});
   const [selectedPersonId, setSelectedPersonIdState] = useState<string>("");
-  const [currentView, setCurrentView] = useState<'session' | 'watched' | 'stats'>('session');
+  // auth user id of this device; person claims are bound to it
+  const [deviceUserId, setDeviceUserId] = useState<string | null>(null);
   // control whether getSortedMovies should re-order the list
   const [shouldSort, setShouldSort] = useState<boolean>(true);
 
@@ -46,27 +104,49 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
     peopleRef.current = people;
   }, [people]);
 
+  const movieRatingsRef = useRef<MovieRating[]>(movieRatings);
   useEffect(() => {
-    const urlParams = new URLSearchParams(window.location.search);
-    const sessionIdFromUrl = urlParams.get('session');
-    
-    if (sessionIdFromUrl) {
-      loadExistingSession(sessionIdFromUrl);
-    } else {
-      setShowNewSession(true);
-      setLoading(false);
-    }
-  }, []); // Keep empty deps - only run on mount
+    movieRatingsRef.current = movieRatings;
+  }, [movieRatings]);
 
-  // validate selected person exists in people list (after people are loaded)
+  useEffect(() => {
+    loadExistingSession(opts.sessionId);
+  }, []); // Keep empty deps - only run on mount; the route remounts the hook per session
+
+  const nextNight = upcomingNight(movieNights);
+
+  // A veto counts on the night it was spent for, or until a movie is watched
+  // if no night was scheduled; vetoes left over from a night that passed
+  // without a movie, or from another night, are handed back
+  const vetoCountsTonight = (nightId: string | null | undefined) => !nightId || nightId === nextNight?.id;
+  const activeRatings = movieRatings
+    .filter(m => !m.parkedAt)
+    .map(m => ({ ...m, vetoedBy: m.vetoedBy.filter(id => vetoCountsTonight(m.vetoNights?.[id])) }));
+  const parkedIds = new Set(movieRatings.filter(m => m.parkedAt).map(m => m.proposalId));
+
+  // While a night is coming up, presence is whether someone said yes to it
+  const peopleTonight: Person[] = people.map(p => ({
+    ...p,
+    movies: p.movies.filter(m => !parkedIds.has(m.proposalId)),
+    backlog: p.movies.filter(m => parkedIds.has(m.proposalId)),
+    ...(nextNight ? { isPresent: isAttending(nextNight, p.id), rsvp: nextNight.rsvps[p.id] ?? null } : {}),
+  }));
+
+  // People this device has claimed; only these can be selected and rated as
+  const claimedPersonIds = deviceUserId
+    ? people.filter(p => p.claimedBy === deviceUserId).map(p => p.id)
+    : [];
+
+  // validate selected person exists in people list and is still claimed by this device (after people are loaded)
   useEffect(() => {
     if (sessionId && selectedPersonId && people.length > 0) {
-      // if selected person doesn't exist in people list, reset it
-      if (!people.some(p => p.id === selectedPersonId)) {
+      const selected = people.find(p => p.id === selectedPersonId);
+      if (!selected || selected.claimedBy !== deviceUserId) {
         setSelectedPersonIdState("");
+        setSelectedPersonForSession(sessionId, "");
       }
     }
-  }, [sessionId, selectedPersonId, people]);
+  }, [sessionId, selectedPersonId, people, deviceUserId]);
 
   const setSelectedPersonId = (id: string) => {
     // selecting a different person should allow sorting logic to run
@@ -82,64 +162,256 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
 
   const loadExistingSession = async (id: string) => {
     try {
-      const { data: session, error } = await supabase.from('movie_sessions').select().eq('id', id).maybeSingle();
-      if (error) throw error;
-      if (session) {
-        setSessionId(session.id);
-        opts?.onSessionLoad?.(session.id);
-        
-        // Load selected person BEFORE loading session data so initial sort works correctly
-        const savedPersonId = getSelectedPersonForSession(session.id);
-        console.log("Saved person ID from cookies:", savedPersonId);
-        if (savedPersonId) {
-          setSelectedPersonIdState(savedPersonId);
-          console.log("Set selectedPersonId to:", savedPersonId);
+      const token = opts.inviteKey ?? null;
+      setActiveSessionToken(token);
+
+      const userId = await ensureDeviceIdentity();
+      setDeviceUserId(userId);
+      const { data: session, error } = await supabase.rpc('join_session', { p_session_id: id, p_token: token });
+      if (error) {
+        // 42501: the session exists but this device isn't a member and has no valid invite
+        if (error.code === '42501') {
+          setActiveSessionToken(null);
+          setAccessDenied(true);
+          return;
         }
-        
-        await loadSessionData(session.id, savedPersonId || "");
-      } else {
-        setShowNewSession(true);
+        if (error.code === 'P0002') {
+          setSessionNotFound(true);
+          return;
+        }
+        throw error;
+      }
+
+      setAccessDenied(false);
+      setSessionId(session.id);
+      setSessionName(session.name);
+      if (isSelectionMethod(session.selection_method)) setSelectionMethodState(session.selection_method);
+      setApprovalThreshold(session.approval_threshold ?? DEFAULT_APPROVAL_THRESHOLD);
+      setVetoesPerPersonState(session.vetoes_per_person ?? 1);
+      setMaxActiveProposalsState(session.max_active_proposals ?? 3);
+      setFairnessStrengthState(session.fairness_strength ?? 0);
+      setQuorumPercent(session.quorum_percent ?? 0);
+      setTieBreakers((session.tie_breakers ?? []).filter(isTieBreaker));
+      setTieBreakSeed(session.tie_break_seed ?? 0);
+      opts.onSessionLoad?.(session.id);
+      await refreshAdminRole(session.id, userId);
+
+      // Load selected person BEFORE loading session data so initial sort works correctly
+      const savedPersonId = getSelectedPersonForSession(session.id);
+      console.log("Saved person ID from cookies:", savedPersonId);
+      if (savedPersonId) {
+        setSelectedPersonIdState(savedPersonId);
+        console.log("Set selectedPersonId to:", savedPersonId);
       }
+
+      await loadSessionData(session.id, savedPersonId || "");
     } catch (err) {
       console.error('Error loading session:', err);
-      setShowNewSession(true);
+      setSessionNotFound(true);
     } finally {
       setLoading(false);
     }
   };
 
-  const createNewSession = async (name: string) => {
-    if (!name.trim()) return;
-    
+  const refreshAdminRole = async (sid: string, userId: string) => {
+    const { data: member, error } = await supabase
+      .from('session_members')
+      .select('role')
+      .eq('session_id', sid)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) {
+      console.error('Error loading session role:', error);
+      return;
+    }
+    setIsAdmin(member?.role === 'admin');
+  };
+
+  const renameSession = async (name: string) => {
+    if (!sessionId || !name.trim()) return;
+    if (!isAdmin) {
+      toast({ title: "Not allowed", description: "Only session admins can rename the session.", variant: "destructive" });
+      return;
+    }
     try {
-      setLoading(true);
-      const { data: session, error } = await supabase
+      const { error } = await supabase.from('movie_sessions').update({ name: name.trim() }).eq('id', sessionId);
+      if (error) throw error;
+      setSessionName(name.trim());
+    } catch (err) {
+      console.error('Error renaming session:', err);
+      toast({ title: "Error", description: "Failed to rename session", variant: "destructive" });
+    }
+  };
+
+  const setSelectionMethod = async (method: SelectionMethod, threshold: number = approvalThreshold) => {
+    if (!sessionId) return;
+    if (!isAdmin) {
+      toast({ title: "Not allowed", description: "Only session admins can change how the winner is picked.", variant: "destructive" });
+      return;
+    }
+    try {
+      const { error } = await supabase
         .from('movie_sessions')
-        .insert([{ name: name.trim() }])
+        .update({ selection_method: method, approval_threshold: threshold })
+        .eq('id', sessionId);
+      if (error) throw error;
+      setSelectionMethodState(method);
+      setApprovalThreshold(threshold);
+    } catch (err) {
+      console.error('Error changing selection method:', err);
+      toast({ title: "Error", description: "Failed to change the selection method", variant: "destructive" });
+    }
+  };
+
+  const setVetoesPerPerson = async (count: number) => {
+    if (!sessionId) return;
+    if (!isAdmin) {
+      toast({ title: "Not allowed", description: "Only session admins can change the number of vetoes.", variant: "destructive" });
+      return;
+    }
+    try {
+      const { error } = await supabase.from('movie_sessions').update({ vetoes_per_person: count }).eq('id', sessionId);
+      if (error) throw error;
+      setVetoesPerPersonState(count);
+    } catch (err) {
+      console.error('Error changing vetoes per person:', err);
+      toast({ title: "Error", description: "Failed to change the number of vetoes", variant: "destructive" });
+    }
+  };
+
+  const setMaxActiveProposals = async (count: number) => {
+    if (!sessionId) return;
+    if (!isAdmin) {
+      toast({ title: "Not allowed", description: "Only session admins can change the proposal limit.", variant: "destructive" });
+      return;
+    }
+    try {
+      const { error } = await supabase.from('movie_sessions').update({ max_active_proposals: count }).eq('id', sessionId);
+      if (error) throw error;
+      setMaxActiveProposalsState(count);
+    } catch (err) {
+      console.error('Error changing the proposal limit:', err);
+      toast({ title: "Error", description: "Failed to change the proposal limit", variant: "destructive" });
+    }
+  };
+
+  const setFairnessStrength = async (strength: number) => {
+    if (!sessionId) return;
+    if (!isAdmin) {
+      toast({ title: "Not allowed", description: "Only session admins can change fairness weighting.", variant: "destructive" });
+      return;
+    }
+    try {
+      const { error } = await supabase.from('movie_sessions').update({ fairness_strength: strength }).eq('id', sessionId);
+      if (error) throw error;
+      setFairnessStrengthState(strength);
+    } catch (err) {
+      console.error('Error changing fairness weighting:', err);
+      toast({ title: "Error", description: "Failed to change fairness weighting", variant: "destructive" });
+    }
+  };
+
+  const setResultRules = async (rules: { quorumPercent?: number; tieBreakers?: TieBreaker[]; tieBreakSeed?: number }) => {
+    if (!sessionId) return;
+    if (!isAdmin) {
+      toast({ title: "Not allowed", description: "Only session admins can change the results rules.", variant: "destructive" });
+      return;
+    }
+    try {
+      const { error } = await supabase.from('movie_sessions').update({
+        quorum_percent: rules.quorumPercent,
+        tie_breakers: rules.tieBreakers,
+        tie_break_seed: rules.tieBreakSeed,
+      }).eq('id', sessionId);
+      if (error) throw error;
+      if (rules.quorumPercent !== undefined) setQuorumPercent(rules.quorumPercent);
+      if (rules.tieBreakers !== undefined) setTieBreakers(rules.tieBreakers);
+      if (rules.tieBreakSeed !== undefined) setTieBreakSeed(rules.tieBreakSeed);
+    } catch (err) {
+      console.error('Error changing results rules:', err);
+      toast({ title: "Error", description: "Failed to change the results rules", variant: "destructive" });
+    }
+  };
+
+  const scheduleMovieNight = async (scheduledFor: string, note?: string) => {
+    if (!sessionId) return;
+    if (!isAdmin) {
+      toast({ title: "Not allowed", description: "Only session admins can schedule movie nights.", variant: "destructive" });
+      return;
+    }
+    try {
+      const { data, error } = await supabase
+        .from('movie_nights')
+        .insert({ session_id: sessionId, scheduled_for: scheduledFor, note: note?.trim() || null })
         .select()
         .single();
-        
       if (error) throw error;
-      
-      setSessionId(session.id);
-      opts?.onSessionLoad?.(session.id);
-      setShowNewSession(false);
-      
-      // Cleaner URL update - preserve other params if any
-      const url = new URL(window.location.href);
-      url.searchParams.set('session', session.id);
-      window.history.replaceState({}, '', url); // Use replaceState for same-page navigation
-      
-      await loadSessionData(session.id);
+      setMovieNights(prev => prev.some(n => n.id === data.id) ? prev : [...prev, toMovieNight(data)]);
     } catch (err) {
-      console.error('Error creating session:', err);
-      toast({
-        title: "Error",
-        description: "Failed to create session. Please try again.",
-        variant: "destructive"
-      });
-    } finally {
-      setLoading(false);
+      console.error('Error scheduling movie night:', err);
+      toast({ title: "Error", description: "Failed to schedule the movie night", variant: "destructive" });
+    }
+  };
+
+  const cancelMovieNight = async (nightId: string) => {
+    if (!isAdmin) {
+      toast({ title: "Not allowed", description: "Only session admins can cancel movie nights.", variant: "destructive" });
+      return;
+    }
+    if (!window.confirm("Cancel this movie night? Everyone's RSVPs for it will be lost.")) return;
+    try {
+      const { error } = await supabase.from('movie_nights').delete().eq('id', nightId);
+      if (error) throw error;
+      setMovieNights(prev => prev.filter(n => n.id !== nightId));
+    } catch (err) {
+      console.error('Error cancelling movie night:', err);
+      toast({ title: "Error", description: "Failed to cancel the movie night", variant: "destructive" });
+    }
+  };
+
+  // People answer for themselves; admins can take attendance for anyone
+  const setRsvp = async (personId: string, response: RsvpResponse) => {
+    if (!nextNight) return;
+    if (!isAdmin && !claimedPersonIds.includes(personId)) {
+      toast({ title: "Not allowed", description: "You can only RSVP for people claimed on this device.", variant: "destructive" });
+      return;
+    }
+    const nightId = nextNight.id;
+    const previous = nextNight.rsvps[personId];
+    const setResponse = (value: RsvpResponse | undefined) => setMovieNights(prev => prev.map(n => {
+      if (n.id !== nightId) return n;
+      const rsvps = { ...n.rsvps };
+      if (value) rsvps[personId] = value;
+      else delete rsvps[personId];
+      return { ...n, rsvps };
+    }));
+
+    setResponse(response);
+    try {
+      const { error } = await supabase
+        .from('movie_night_rsvps')
+        .upsert({ night_id: nightId, person_id: personId, response }, { onConflict: 'night_id,person_id' });
+      if (error) throw error;
+    } catch (err) {
+      console.error('Error saving RSVP:', err);
+      setResponse(previous);
+      toast({ title: "Error", description: "Failed to save the RSVP. Please try again.", variant: "destructive" });
+    }
+  };
+
+  const selectMovieForNight = async (proposalId: string | null) => {
+    if (!nextNight) return;
+    if (!isAdmin) {
+      toast({ title: "Not allowed", description: "Only session admins can pick the movie for the night.", variant: "destructive" });
+      return;
+    }
+    try {
+      const { error } = await supabase.from('movie_nights').update({ selected_proposal_id: proposalId }).eq('id', nextNight.id);
+      if (error) throw error;
+      setMovieNights(prev => prev.map(n => n.id === nextNight.id ? { ...n, selectedProposalId: proposalId } : n));
+    } catch (err) {
+      console.error('Error picking the movie for the night:', err);
+      toast({ title: "Error", description: "Failed to pick the movie for the night", variant: "destructive" });
     }
   };
 
@@ -147,15 +419,19 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
   const loadSessionData = async (sid: string, savedPersonId?: string) => {
     try {
       // Parallel fetch for better performance
-      const [peopleData, proposalsWithDetails] = await Promise.all([
+      const [peopleData, proposalsWithDetails, credits, nights] = await Promise.all([
         fetchSessionPeople(sid),
-        fetchProposalsWithRatingsAndComments(sid)
+        fetchProposalsWithRatingsAndComments(sid),
+        fetchWatchedCredits(sid),
+        fetchMovieNights(sid)
       ]);
 
       const transformedPeople = transformPeopleData(peopleData, proposalsWithDetails.proposals);
       const transformedRatings = transformRatingsData(proposalsWithDetails, peopleData);
 
       setPeople(transformedPeople);
+      setWatchedCredits(credits);
+      setMovieNights(nights);
       
       // Initial sort based on selected person (if any)
       const sorted = sortRatings(transformedRatings, savedPersonId || selectedPersonId);
@@ -175,20 +451,42 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
   const fetchSessionPeople = async (sid: string) => {
     const { data, error } = await supabase
       .from('session_people')
-      .select('*')
+      .select('*, person_claims(user_id)')
       .eq('session_id', sid);
     
     if (error) throw error;
     return data || [];
   };
 
+  const fetchWatchedCredits = async (sid: string): Promise<WatchedCredit[]> => {
+    const { data, error } = await supabase
+      .from('watched_movies')
+      .select('proposed_by, watched_at')
+      .eq('session_id', sid);
+
+    if (error) throw error;
+    return (data || []).map(w => ({ proposedBy: w.proposed_by, watchedAt: w.watched_at }));
+  };
+
+  const fetchMovieNights = async (sid: string): Promise<MovieNight[]> => {
+    const { data, error } = await supabase
+      .from('movie_nights')
+      .select('*, movie_night_rsvps(person_id, response)')
+      .eq('session_id', sid);
+
+    if (error) throw error;
+    return (data || []).map(toMovieNight);
+  };
+
   const fetchProposalsWithRatingsAndComments = async (sid: string) => {
     const { data: proposals, error: proposalsError } = await supabase
       .from('movie_proposals')
       .select(`
         *,
         movie_ratings(*),
-        proposal_comments(*)
+        proposal_comments(*),
+        proposal_proposers(person_id, created_at),
+        proposal_vetoes(person_id, night_id)
       `)
       .eq('session_id', sid);
 
@@ -199,17 +497,18 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
     };
   };
 
-  const fetchMovieDetails = async (movieTitle: string): Promise<MovieDetails | undefined> => {
+  // By IMDb id when the movie was picked from the search results, else the best title match
+  const fetchMovieDetails = async (movieTitle: string, imdbId?: string | null): Promise<MovieDetails | undefined> => {
     try {
-      const { data, error } = await supabase.functions.invoke('search-movie', { body: { title: movieTitle } });
+      const { data, error } = await supabase.functions.invoke('search-movie', { body: imdbId ? { imdbId } : { title: movieTitle } });
       if (error) {
         console.error('Error fetching movie details:', error);
         return undefined;
       }
       return {
         poster: data.poster,
-        genre: data.genre,
-        runtime: data.runtime,
+        genres: data.genres,
+        runtimeMinutes: data.runtimeMinutes,
         year: data.year,
         director: data.director,
         plot: data.plot,
@@ -222,19 +521,18 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
     }
   };
 
-  const saveMovieDetailsToDatabase = async (movieTitle: string, details: MovieDetails) => {
-    if (!sessionId) return;
+  const saveMovieDetailsToDatabase = async (proposalId: string, details: MovieDetails) => {
     try {
       await supabase.from('movie_proposals').update({
         poster: details.poster,
-        genre: details.genre,
-        runtime: details.runtime,
+        genres: details.genres,
+        runtime_minutes: details.runtimeMinutes,
         year: details.year,
         director: details.director,
         plot: details.plot,
-        imdb_rating: String(details.imdbRating), // Ensure it's a string i DONT KNOW WHY
+        imdb_rating: details.imdbRating,
         imdb_id: details.imdbId
-      }).eq('session_id', sessionId).eq('movie_title', movieTitle);
+      }).eq('id', proposalId);
     } catch (err) {
       console.error('Error saving movie details to database:', err);
     }
@@ -246,8 +544,10 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
     try {
       const updated = await Promise.all(movieRatings.map(async (movie) => {
         if (movie.details && movie.details.poster && movie.details.poster !== 'N/A') return movie;
-        const details = await fetchMovieDetails(movie.movieTitle);
-        if (details) await saveMovieDetailsToDatabase(movie.movieTitle, details);
+        // Only backers and admins can save a proposal's details
+        if (!canManageProposal(movie)) return movie;
+        const details = await fetchMovieDetails(movie.movieTitle, movie.details?.imdbId);
+        if (details) await saveMovieDetailsToDatabase(movie.proposalId, details);
         return { ...movie, details };
       }));
       setMovieRatings(updated);
@@ -260,13 +560,20 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
     }
   };
 
-  const searchMovieAgain = async (movieTitle: string) => {
+  // Looks up details for a proposal under a different search title, or for the
+  // search result picked for it, whose IMDb id then identifies the proposal
+  const searchMovieAgain = async (proposalId: string, movieTitle: string, imdbId?: string | null) => {
+    const movie = movieRatings.find(m => m.proposalId === proposalId);
+    if (movie && !canManageProposal(movie)) {
+      toast({ title: "Not allowed", description: "Only a backer or an admin can change this proposal's details.", variant: "destructive" });
+      return;
+    }
     setFetchingDetails(true);
     try {
-      const details = await fetchMovieDetails(movieTitle);
+      const details = await fetchMovieDetails(movieTitle, imdbId);
       if (details) {
-        await saveMovieDetailsToDatabase(movieTitle, details);
-        setMovieRatings(prev => prev.map(m => m.movieTitle === movieTitle ? { ...m, details } : m));
+        await saveMovieDetailsToDatabase(proposalId, details);
+        setMovieRatings(prev => prev.map(m => m.proposalId === proposalId ? { ...m, details } : m));
         toast({ title: "Success", description: `Updated details for "${movieTitle}"` });
       } else {
         toast({ title: "Not Found", description: `Could not find details for "${movieTitle}"`, variant: "destructive" });
@@ -299,7 +606,8 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
         id: person.id,
         name: person.name,
         movies: [],
-        isPresent: person.is_present
+        isPresent: person.is_present,
+        claimedBy: null
       }]);
     } catch (err) {
       console.error('Error adding person:', err);
@@ -313,6 +621,11 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
 
   const updatePerson = async (updatedPerson: Person) => {
     if (!sessionId) return;
+    // Presence for an upcoming night is an RSVP, not the session-wide flag
+    if (nextNight) {
+      await setRsvp(updatedPerson.id, updatedPerson.isPresent ? "yes" : "no");
+      return;
+    }
 
     const originalPerson = people.find(p => p.id === updatedPerson.id);
 
@@ -327,10 +640,6 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
         .eq('id', updatedPerson.id);
 
       if (error) throw error;
-
-      // Handle movie proposals separately
-      await updatePersonMovies(updatedPerson);
-
     } catch (err) {
       console.error('Error updating person:', err);
       // Rollback optimistic update
@@ -347,120 +656,270 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
     }
   };
 
-  const updatePersonMovies = async (person: Person) => {
-    if (!sessionId) return;
-    
-    // Get current proposals for this person
-    const { data: currentProposals } = await supabase
-      .from('movie_proposals')
-      .select('movie_title, id')
-      .eq('person_id', person.id);
-      
-    const currentMovies = currentProposals?.map(p => p.movie_title) || [];
-    const moviesToAdd = person.movies.filter(m => !currentMovies.includes(m));
-    const moviesToRemove = currentMovies.filter(m => !person.movies.includes(m));
-
-    // Remove proposals
-    if (moviesToRemove.length > 0) {
-      const proposalIds = currentProposals!
-        .filter(p => moviesToRemove.includes(p.movie_title))
-        .map(p => p.id);
-
-      await supabase.from('movie_proposals').delete().in('id', proposalIds);
-      setMovieRatings(prev => prev.filter(m => !moviesToRemove.includes(m.movieTitle)));
-    }
-
-    // Add new proposals
-    if (moviesToAdd.length > 0) {
-      // Optimistic UI update — proposer gets a default rating of 5
-      const optimisticMovies = moviesToAdd.map(movieTitle => ({
-        movieTitle,
-        proposedBy: person.name,
-        ratings: { [person.id]: 5 },
-        proposerId: person.id
+  // parked: straight into the person's backlog instead of tonight's pool
+  // imdbId: the search result picked for the title, which identifies the movie
+  const proposeMovie = async (personId: string, movieTitle: string, parked = false, imdbId: string | null = null) => {
+    const person = people.find(p => p.id === personId);
+    const title = movieTitle.trim();
+    if (!sessionId || !person || !title) return;
+
+    // Proposer gets a default rating of 5
+    const pendingId = pendingProposalId();
+    setMovieRatings(prev => [...prev, {
+      proposalId: pendingId,
+      movieTitle: title,
+      proposedBy: person.name,
+      ratings: { [person.id]: 5 },
+      proposerId: person.id,
+      proposerIds: [person.id],
+      vetoedBy: [],
+      parkedAt: parked ? new Date().toISOString() : null
+    }]);
+    setPeople(prev => prev.map(p => p.id === person.id ? { ...p, movies: [...p.movies, { proposalId: pendingId, title }] } : p));
+
+    try {
+      const { data, error } = await supabase.functions.invoke('propose-movie-with-details', {
+        body: { sessionId, personId: person.id, movieTitle: title, parked, imdbId }
+      });
+      if (error) throw error;
+
+      const proposal = data?.proposal;
+      const proposalId: string = proposal?.id || data?.proposalId;
+      if (!proposalId) throw new Error(`No proposal returned for "${title}"`);
+
+      // The title was already up, so this person now backs that proposal instead.
+      // The realtime INSERT may also have added a new proposal before we got here.
+      const existing = movieRatingsRef.current.find(m => m.proposalId === proposalId);
+      if (existing) {
+        setMovieRatings(prev => prev.filter(m => m.proposalId !== pendingId));
+        setPeople(prev => prev.map(p => p.id === person.id ? { ...p, movies: p.movies.filter(m => m.proposalId !== pendingId) } : p));
+        addProposer(proposalId, person.id, existing.movieTitle);
+        if (data?.merged) {
+          toast({ title: "Proposal seconded", description: `"${existing.movieTitle}" was already proposed, so ${person.name} now backs it too.` });
+        }
+        return;
+      }
+
+      const details = proposal ? {
+        poster: proposal.poster,
+        genres: proposal.genres,
+        runtimeMinutes: proposal.runtime_minutes,
+        year: proposal.year,
+        director: proposal.director,
+        plot: proposal.plot,
+        imdbRating: proposal.imdb_rating,
+        imdbId: proposal.imdb_id
+      } : await fetchExistingProposalDetails(proposalId);
+
+      setMovieRatings(prev => prev.some(m => m.proposalId === proposalId)
+        ? prev.filter(m => m.proposalId !== pendingId)
+        : prev.map(m => m.proposalId === pendingId ? { ...m, proposalId, details, createdAt: proposal?.created_at ?? new Date().toISOString(), parkedAt: proposal?.parked_at ?? m.parkedAt } : m)
+      );
+      setPeople(prev => prev.map(p => {
+        if (p.id !== person.id) return p;
+        const movies = p.movies.some(m => m.proposalId === proposalId)
+          ? p.movies.filter(m => m.proposalId !== pendingId)
+          : p.movies.map(m => m.proposalId === pendingId ? { ...m, proposalId } : m);
+        return { ...p, movies };
       }));
-      setMovieRatings(prev => [...prev, ...optimisticMovies]);
-
-      // Fetch details in background using edge function
-      const results = await Promise.allSettled(
-        moviesToAdd.map(async (movieTitle) => {
-          try {
-            const { data, error } = await supabase.functions.invoke('propose-movie-with-details', {
-              body: { sessionId, personId: person.id, movieTitle }
-            });
-
-            if (error) {
-              console.error(`Edge function error for "${movieTitle}":`, error);
-              throw new Error(`Edge function failed for "${movieTitle}"`); // Propagate error for Promise.allSettled
-            }
+    } catch (err) {
+      console.error(`Failed to propose "${title}":`, err);
+      setMovieRatings(prev => prev.filter(m => m.proposalId !== pendingId));
+      setPeople(prev => prev.map(p => p.id === person.id ? { ...p, movies: p.movies.filter(m => m.proposalId !== pendingId) } : p));
+      // Refusals like a full cap or a parked duplicate say what to do instead
+      const reason = await edgeFunctionErrorMessage(err);
+      toast({
+        title: reason ? `Couldn't add "${title}"` : "Error",
+        description: reason ?? `Failed to add "${title}". Please try again.`,
+        variant: "destructive"
+      });
+    }
+  };
 
-            const proposal = data?.proposal;
-            const existingId = data?.proposalId;
-
-            let details = undefined;
-            if (proposal) {
-              details = {
-                poster: proposal.poster,
-                genre: proposal.genre,
-                runtime: proposal.runtime,
-                year: proposal.year,
-                director: proposal.director,
-                plot: proposal.plot,
-                imdbRating: proposal.imdb_rating,
-                imdbId: proposal.imdb_id
-              };
-            } else if (existingId) {
-              details = await fetchExistingProposalDetails(existingId);
-            }
+  // Backs someone else's proposal as a person claimed on this device
+  const secondProposal = async (proposalId: string, personId: string) => {
+    if (!claimedPersonIds.includes(personId)) {
+      toast({ title: "Not allowed", description: "You can only second as a person you have claimed on this device.", variant: "destructive" });
+      return;
+    }
+    const movie = movieRatings.find(m => m.proposalId === proposalId);
+    if (!movie || isPendingProposal(proposalId) || movie.proposerIds.includes(personId)) return;
+    // Backing an active proposal makes it one of the person's active picks
+    if (!movie.parkedAt && activeProposalCount(personId) >= maxActiveProposals) {
+      const name = people.find(p => p.id === personId)?.name ?? "Someone";
+      toast({ title: "Too many proposals", description: `${name} already has ${maxActiveProposals} active proposals. Park one first.`, variant: "destructive" });
+      return;
+    }
 
-            const proposalId = proposal?.id || existingId;
+    try {
+      const { error } = await supabase.rpc('second_proposal', { p_proposal_id: proposalId, p_person_id: personId });
+      if (error) throw error;
+      addProposer(proposalId, personId, movie.movieTitle);
+      setShouldSort(false);
+    } catch (err) {
+      console.error('Error seconding proposal:', err);
+      // 22023: the person reached the cap on another device in the meantime
+      if (err?.code === '22023') {
+        toast({ title: "Too many proposals", description: err.message, variant: "destructive" });
+        return;
+      }
+      toast({ title: "Error", description: "Failed to second the proposal. Please try again.", variant: "destructive" });
+    }
+  };
 
-            // Persist default rating of 5 for the proposer on new proposals
-            if (proposal?.id) {
-              await supabase.from('movie_ratings').upsert({
-                proposal_id: proposal.id,
-                person_id: person.id,
-                rating: 5,
-              }, { onConflict: 'proposal_id,person_id' });
-            }
+  // Backers (from a device that claimed them) and admins move proposals between the pool and the backlog
+  const canManageProposal = (movie: MovieRating) => isAdmin || movie.proposerIds.some(id => claimedPersonIds.includes(id));
 
-            return { movieTitle, details, proposalId };
+  const activeProposalCount = (personId: string) =>
+    people.find(p => p.id === personId)?.movies.filter(m => !parkedIds.has(m.proposalId)).length ?? 0;
 
-          } catch (err) {
-            console.error(`Failed to fetch details for "${movieTitle}":`, err);
-            throw err; // Propagate error
-          }
-        })
-      );
+  const setParked = (proposalId: string, parkedAt: string | null) => {
+    setMovieRatings(prev => prev.map(m => m.proposalId === proposalId
+      ? { ...m, parkedAt, vetoedBy: parkedAt ? [] : m.vetoedBy }
+      : m));
+  };
 
-      setMovieRatings(prev => {
-        let updatedRatings = [...prev];
-        results.forEach(result => {
-          if (result.status === 'fulfilled') {
-            const { movieTitle, details, proposalId } = result.value;
-            updatedRatings = updatedRatings.map(m => 
-              m.movieTitle === movieTitle 
-                ? { 
-                    ...m, 
-                    details,
-                    proposalId,
-                    proposerId: person.id // Ensure proposerId is set here too
-                  }
-                : m
-            );
-          } else {
-            // Handle rejected promises (e.g., remove from optimistic update or mark as failed)
-            // For now, if it failed, it means the proposal wasn't created, so we remove the optimistic entry.
-            const failedMovieTitle = (result.reason.message || '').replace('Edge function failed for "', '').replace('"', '');
-            updatedRatings = updatedRatings.filter(m => m.movieTitle !== failedMovieTitle);
-            toast({
-              title: "Error",
-              description: `Failed to add "${failedMovieTitle}". Please try again.`,
-              variant: "destructive"
-            });
-          }
-        });
-        return updatedRatings;
+  // Parks a proposal in its backers' backlogs; its ratings are kept for later
+  const parkProposal = async (proposalId: string) => {
+    const movie = movieRatings.find(m => m.proposalId === proposalId);
+    if (!movie || isPendingProposal(proposalId) || movie.parkedAt) return;
+    if (!canManageProposal(movie)) {
+      toast({ title: "Not allowed", description: "Only a backer or an admin can park this proposal.", variant: "destructive" });
+      return;
+    }
+
+    setParked(proposalId, new Date().toISOString());
+    try {
+      const { error } = await supabase.rpc('park_proposal', { p_proposal_id: proposalId });
+      if (error) throw error;
+      setMovieNights(prev => prev.map(n => n.selectedProposalId === proposalId && !n.watchedMovieId ? { ...n, selectedProposalId: null } : n));
+    } catch (err) {
+      console.error('Error parking proposal:', err);
+      setParked(proposalId, null);
+      toast({ title: "Error", description: "Failed to move the proposal to the backlog. Please try again.", variant: "destructive" });
+    }
+  };
+
+  // Brings a parked proposal back into the pool, within every backer's cap
+  const promoteProposal = async (proposalId: string) => {
+    const movie = movieRatings.find(m => m.proposalId === proposalId);
+    if (!movie || !movie.parkedAt) return;
+    if (!canManageProposal(movie)) {
+      toast({ title: "Not allowed", description: "Only a backer or an admin can promote this proposal.", variant: "destructive" });
+      return;
+    }
+    const full = movie.proposerIds.filter(id => activeProposalCount(id) >= maxActiveProposals);
+    if (full.length > 0) {
+      const names = full.map(id => people.find(p => p.id === id)?.name ?? "Someone").join(", ");
+      toast({ title: "Too many proposals", description: `${names} already ${full.length === 1 ? "has" : "have"} ${maxActiveProposals} active proposals. Park one first.`, variant: "destructive" });
+      return;
+    }
+
+    const parkedAt = movie.parkedAt;
+    setParked(proposalId, null);
+    try {
+      const { error } = await supabase.rpc('promote_proposal', { p_proposal_id: proposalId });
+      if (error) throw error;
+      setShouldSort(false);
+    } catch (err) {
+      console.error('Error promoting proposal:', err);
+      setParked(proposalId, parkedAt);
+      toast({ title: "Error", description: "Failed to bring the proposal back. Please try again.", variant: "destructive" });
+    }
+  };
+
+  const setVetoed = (proposalId: string, personId: string, vetoed: boolean, nightId: string | null = null) => {
+    setMovieRatings(prev => prev.map(m => {
+      if (m.proposalId !== proposalId) return m;
+      const vetoedBy = m.vetoedBy.filter(id => id !== personId);
+      return vetoed
+        ? { ...m, vetoedBy: [...vetoedBy, personId], vetoNights: { ...m.vetoNights, [personId]: nightId } }
+        : { ...m, vetoedBy };
+    }));
+  };
+
+  // Vetoes spent tonight come back when a movie is marked as watched or the night passes
+  const vetoesLeft = (personId: string) =>
+    Math.max(0, vetoesPerPerson - activeRatings.filter(m => m.vetoedBy.includes(personId)).length);
+
+  // Spends one of a claimed person's vetoes on a proposal they don't back
+  const vetoProposal = async (proposalId: string, personId: string) => {
+    if (!claimedPersonIds.includes(personId)) {
+      toast({ title: "Not allowed", description: "You can only veto as a person you have claimed on this device.", variant: "destructive" });
+      return;
+    }
+    const movie = activeRatings.find(m => m.proposalId === proposalId);
+    if (!movie || isPendingProposal(proposalId) || movie.proposerIds.includes(personId) || movie.vetoedBy.includes(personId)) return;
+    if (vetoesLeft(personId) === 0) {
+      toast({ title: "No vetoes left", description: "Revoke a veto or wait until the next movie night.", variant: "destructive" });
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc('veto_proposal', { p_proposal_id: proposalId, p_person_id: personId });
+      if (error) throw error;
+      // veto_proposal spends it for the same upcoming night
+      setVetoed(proposalId, personId, true, nextNight?.id ?? null);
+      setShouldSort(false);
+    } catch (err) {
+      console.error('Error vetoing proposal:', err);
+      toast({ title: "Error", description: "Failed to veto the proposal. Please try again.", variant: "destructive" });
+    }
+  };
+
+  // Only the vetoer can take a veto back
+  const revokeVeto = async (proposalId: string, personId: string) => {
+    if (!claimedPersonIds.includes(personId)) {
+      toast({ title: "Not allowed", description: "Only the person who vetoed a movie can revoke the veto.", variant: "destructive" });
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc('revoke_veto', { p_proposal_id: proposalId, p_person_id: personId });
+      if (error) throw error;
+      setVetoed(proposalId, personId, false);
+      setShouldSort(false);
+    } catch (err) {
+      console.error('Error revoking veto:', err);
+      toast({ title: "Error", description: "Failed to revoke the veto. Please try again.", variant: "destructive" });
+    }
+  };
+
+  // Only admins may remove someone else's proposal. While others still back
+  // it, the person just withdraws; otherwise it goes to the trash.
+  const removeProposal = async (personId: string, proposalId: string) => {
+    if (!isAdmin && !claimedPersonIds.includes(personId)) {
+      toast({ title: "Not allowed", description: "Only session admins can remove other people's proposals.", variant: "destructive" });
+      return;
+    }
+    const movie = movieRatings.find(m => m.proposalId === proposalId);
+    if (!movie) return;
+
+    try {
+      if (movie.proposerIds.some(id => id !== personId)) {
+        const { error } = await supabase.rpc('withdraw_proposal', { p_proposal_id: proposalId, p_person_id: personId });
+        if (error) throw error;
+        removeProposer(personId, proposalId);
+        setPeople(prev => prev.map(p => p.id === personId ? { ...p, movies: p.movies.filter(m => m.proposalId !== proposalId) } : p));
+        const name = people.find(p => p.id === personId)?.name ?? "They";
+        toast({ title: "Proposal withdrawn", description: `${name} no longer backs "${movie.movieTitle}".` });
+        return;
+      }
+
+      await trashItem('proposal', proposalId);
+      setMovieRatings(prev => prev.filter(m => m.proposalId !== proposalId));
+      setPeople(prev => prev.map(p => ({ ...p, movies: p.movies.filter(m => m.proposalId !== proposalId) })));
+      showUndo({
+        title: "Proposal removed",
+        description: `"${movie.movieTitle}" moved to the trash.`,
+        onUndo: () => restoreFromTrash('proposal', [proposalId])
+      });
+    } catch (err) {
+      console.error('Error removing proposal:', err);
+      toast({
+        title: "Error",
+        description: "Failed to remove proposal. Please try again.",
+        variant: "destructive"
       });
     }
   };
@@ -476,8 +935,8 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
 
     return {
       poster: data.poster,
-      genre: data.genre,
-      runtime: data.runtime,
+      genres: data.genres,
+      runtimeMinutes: data.runtime_minutes,
       year: data.year,
       director: data.director,
       plot: data.plot,
@@ -489,24 +948,23 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
   const deletePerson = async (id: string) => {
     const person = people.find(p => p.id === id);
     if (!person) return;
-    
-    if (!window.confirm(`Are you sure you want to remove ${person.name}? This will also remove all their movie proposals and cannot be undone.`)) {
+    if (!isAdmin) {
+      toast({ title: "Not allowed", description: "Only session admins can remove people.", variant: "destructive" });
       return;
     }
     
     try {
-      // Cascade delete is handled by DB foreign keys
-      const { error } = await supabase
-        .from('session_people')
-        .delete()
-        .eq('id', id);
-        
-      if (error) throw error;
-      
+      // Their proposals go to the trash with them; ratings and favourites stay hidden until restored
+      await trashItem('person', id);
+
       // Remove from local state
       setPeople(prev => prev.filter(p => p.id !== id));
-      setMovieRatings(prev => prev.filter(m => m.proposerId !== id));
-      
+      removeProposer(id);
+      showUndo({
+        title: "Person removed",
+        description: `${person.name} and the proposals only they backed moved to the trash.`,
+        onUndo: () => restoreFromTrash('person', [id])
+      });
     } catch (err) {
       console.error('Error deleting person:', err);
       toast({
@@ -517,15 +975,64 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
     }
   };
 
-  const updateRating = async (movieTitle: string, personId: string, rating: number) => {
+  // Adds a backer locally; like the server, they start at 5 unless they already rated it
+  const addProposer = (proposalId: string, personId: string, title: string) => {
+    setMovieRatings(prev => prev.map(m => m.proposalId === proposalId && !m.proposerIds.includes(personId)
+      ? { ...withProposers(m, [...m.proposerIds, personId], peopleRef.current), ratings: { [personId]: 5, ...m.ratings } }
+      : m
+    ));
+    setPeople(prev => prev.map(p => p.id === personId && !p.movies.some(m => m.proposalId === proposalId)
+      ? { ...p, movies: [...p.movies, { proposalId, title }] }
+      : p
+    ));
+  };
+
+  // Takes a person off the proposals they back (or just one of them). Proposals
+  // nobody else backs are dropped, as the server trashed them; the rest pass
+  // to their next backer.
+  const removeProposer = (personId: string, proposalId?: string) => {
+    setMovieRatings(prev => prev.flatMap(m => {
+      if (!m.proposerIds.includes(personId) || (proposalId && m.proposalId !== proposalId)) return [m];
+      const proposerIds = m.proposerIds.filter(id => id !== personId);
+      if (proposerIds.length === 0) return [];
+      return [{
+        ...withProposers(m, proposerIds, peopleRef.current),
+        proposerId: m.proposerId === personId ? proposerIds[0] : m.proposerId
+      }];
+    }));
+  };
+
+  // Brings items back from the trash and reloads the session so they show up again
+  const restoreFromTrash = async (kind: TrashKind, ids: string[]): Promise<boolean> => {
+    if (!sessionId) return false;
+    try {
+      await Promise.all(ids.map(id => restoreItem(kind, id)));
+      await loadSessionData(sessionId);
+      return true;
+    } catch (err) {
+      console.error('Error restoring from trash:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to restore. Please try again.",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const updateRating = async (proposalId: string, personId: string, rating: number) => {
+    if (!claimedPersonIds.includes(personId)) {
+      toast({ title: "Not allowed", description: "You can only rate as a person you have claimed on this device.", variant: "destructive" });
+      return;
+    }
+    // The proposal is still being saved
+    if (isPendingProposal(proposalId)) return;
     try {
-      const { data: proposals } = await supabase.from('movie_proposals').select('id').eq('movie_title', movieTitle).eq('session_id', sessionId);
-      if (!proposals || proposals.length === 0) return;
-      const proposalId = proposals[0].id;
       if (rating === 0) {
-        await supabase.from('movie_ratings').delete().eq('proposal_id', proposalId).eq('person_id', personId);
+        const { error } = await supabase.from('movie_ratings').delete().eq('proposal_id', proposalId).eq('person_id', personId);
+        if (error) throw error;
         setMovieRatings(prev => prev.map(movie => {
-          if (movie.movieTitle === movieTitle) {
+          if (movie.proposalId === proposalId) {
             const newRatings = { ...movie.ratings };
             delete newRatings[personId];
             return { ...movie, ratings: newRatings };
@@ -535,13 +1042,14 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
         // after a rating change we don't want automatic resorting
         setShouldSort(false);
       } else {
-        await supabase.from("movie_ratings").upsert({
+        const { error } = await supabase.from("movie_ratings").upsert({
           proposal_id: proposalId,
           person_id: personId,
           rating,
         }, { onConflict: "proposal_id,person_id" });
+        if (error) throw error;
 
-        setMovieRatings(prev => prev.map(movie => movie.movieTitle === movieTitle ? {
+        setMovieRatings(prev => prev.map(movie => movie.proposalId === proposalId ? {
           ...movie,
           ratings: { ...movie.ratings, [personId]: rating }
         } : movie));
@@ -554,127 +1062,221 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
     }
   };
 
-  const markMovieAsWatched = async (movieTitle: string) => {
+  const markMovieAsWatched = async (proposalId: string) => {
     if (!sessionId) return;
-    if (!window.confirm(`Are you sure you want to mark "${movieTitle}" as watched? This will move it to the watched movies section.`)) return;
+    if (!isAdmin) {
+      toast({ title: "Not allowed", description: "Only session admins can mark movies as watched.", variant: "destructive" });
+      return;
+    }
+    const movie = movieRatings.find(m => m.proposalId === proposalId);
+    if (!movie) return;
+    if (!window.confirm(`Are you sure you want to mark "${movie.movieTitle}" as watched? This will move it to the watched movies section.`)) return;
+    // Only a night that has started is the one this movie was watched on
+    const night = startedNight(movieNights);
     try {
-      const { data: proposal, error: proposalError } = await supabase.from('movie_proposals').select('*').eq('session_id', sessionId).eq('movie_title', movieTitle).single();
-      if (proposalError) throw proposalError;
-      if (!proposal) return;
+      // Moves the proposal, its ratings and comments in one transaction,
+      // and attaches it to tonight's night, which dates it and closes the night
+      const { data: watchedId, error: watchedError } = await supabase.rpc('mark_proposal_watched', {
+        p_proposal_id: proposalId,
+        p_night_id: night?.id,
+      });
+      if (watchedError) throw watchedError;
 
-      const { data: proposer } = await supabase.from('session_people').select('name').eq('id', proposal.person_id).single();
-      const { data: insertedWatched, error: insertError } = await supabase.from('watched_movies').insert({
-        session_id: sessionId,
-        movie_title: movieTitle,
-        proposed_by: proposer?.name || 'Unknown',
-        poster: proposal.poster,
-        genre: proposal.genre,
-        runtime: proposal.runtime,
-        year: proposal.year,
-        director: proposal.director,
-        plot: proposal.plot,
-        imdb_rating: proposal.imdb_rating,
-        imdb_id: proposal.imdb_id,
-        watched_at: new Date().toISOString()
-      }).select('id').single();
+      // The night is over, so everyone's vetoes are handed back
+      setMovieRatings(prev => prev.filter(m => m.proposalId !== proposalId).map(m => ({ ...m, vetoedBy: [], vetoNights: {} })));
+      setWatchedCredits(prev => [...prev, { proposedBy: movie.proposedBy, watchedAt: night?.scheduledFor ?? new Date().toISOString() }]);
+      if (night) {
+        setMovieNights(prev => prev.map(n => n.id === night.id ? { ...n, watchedMovieId: watchedId, selectedProposalId: null } : n));
+      }
+      setPeople(prev => prev.map(person => ({ ...person, movies: person.movies.filter(m => m.proposalId !== proposalId) })));
 
-      if (insertError) throw insertError;
-      const watchedId = insertedWatched.id;
+      // The server also records everyone present as attending, ready to score
+      // it: the night's yes RSVPs, or without one, the people marked present
+      const attending = night ? presentPeople.length : people.filter(p => p.isPresent).length;
+      toast({
+        title: "Movie marked as watched",
+        description: `"${movie.movieTitle}" has been moved to watched movies section` + (attending > 0 ? ` with ${attending} ${attending === 1 ? "person" : "people"} marked present` : ""),
+      });
+    } catch (err) {
+      console.error('Error marking movie as watched:', err);
+      toast({ title: "Error", description: "Failed to mark movie as watched", variant: "destructive" });
+    }
+  };
+
+  const claimPerson = async (personId: string) => {
+    const person = people.find(p => p.id === personId);
+    if (!person) return;
 
-      await supabase.from('movie_ratings').update({ watched_movie_id: watchedId }).eq('proposal_id', proposal.id);
-      await supabase.from('proposal_comments').delete().eq('proposal_id', proposal.id);
-      await supabase.from('movie_proposals').delete().eq('id', proposal.id);
+    try {
+      const { data: claim, error } = await supabase.rpc('claim_person', { p_person_id: personId });
+      if (error) throw error;
 
-      setMovieRatings(prev => prev.filter(movie => movie.movieTitle !== movieTitle));
-      setPeople(prev => prev.map(person => ({ ...person, movies: person.movies.filter(m => m !== movieTitle) })));
+      setPeople(prev => prev.map(p => p.id === personId ? { ...p, claimedBy: claim.user_id } : p));
+      // Claiming implies you want to act as that person right away
+      setShouldSort(true);
+      setSelectedPersonIdState(personId);
+      setMovieRatings(prev => sortRatings(prev, personId));
+      if (sessionId) setSelectedPersonForSession(sessionId, personId);
 
-      toast({ title: "Movie marked as watched", description: `"${movieTitle}" has been moved to watched movies section` });
+      toast({ title: "Person claimed", description: `You are now rating as ${person.name} on this device.` });
     } catch (err) {
-      console.error('Error marking movie as watched:', err);
-      toast({ title: "Error", description: "Failed to mark movie as watched", variant: "destructive" });
+      console.error('Error claiming person:', err);
+      toast({
+        title: "Error",
+        description: `Could not claim ${person.name}. They may already be claimed on another device.`,
+        variant: "destructive"
+      });
     }
   };
 
-  const toggleCollapse = (movieTitle: string) => {
-    setCollapsedMovies(prev => ({ ...prev, [movieTitle]: !(prev[movieTitle] ?? true) }));
+  const requestReclaim = async (personId: string) => {
+    const person = people.find(p => p.id === personId);
+    if (!person) return;
+
+    try {
+      const { error } = await supabase.rpc('request_person_reclaim', { p_person_id: personId });
+      if (error) throw error;
+      toast({ title: "Request sent", description: `An admin must approve moving ${person.name} to this device.` });
+    } catch (err) {
+      console.error('Error requesting re-claim:', err);
+      toast({ title: "Error", description: "Failed to send re-claim request. Please try again.", variant: "destructive" });
+    }
+  };
+
+  // Join screen: adds this device's user as a new person and claims them
+  const joinAsNewPerson = async (name: string): Promise<boolean> => {
+    if (!name.trim() || !sessionId) return false;
+
+    try {
+      const { data: person, error } = await supabase.rpc('join_as_new_person', { p_session_id: sessionId, p_name: name.trim() });
+      if (error) throw error;
+
+      // The realtime INSERT may already have added them unclaimed
+      setPeople(prev => prev.some(p => p.id === person.id)
+        ? prev.map(p => p.id === person.id ? { ...p, claimedBy: deviceUserId } : p)
+        : [...prev, { id: person.id, name: person.name, movies: [], isPresent: person.is_present, claimedBy: deviceUserId }]
+      );
+      setShouldSort(true);
+      setSelectedPersonIdState(person.id);
+      setMovieRatings(prev => sortRatings(prev, person.id));
+      setSelectedPersonForSession(sessionId, person.id);
+
+      toast({ title: `Welcome, ${person.name}!`, description: "You have joined the session on this device." });
+      return true;
+    } catch (err) {
+      console.error('Error joining as new person:', err);
+      toast({ title: "Error", description: "Failed to join the session. Please try again.", variant: "destructive" });
+      return false;
+    }
+  };
+
+  // Links (or with null, unlinks) a person claimed on this device to one of its profiles
+  const linkPersonToProfile = async (personId: string, profileId: string | null) => {
+    if (!claimedPersonIds.includes(personId)) {
+      toast({ title: "Not allowed", description: "Only the device that claimed this person can link their profile.", variant: "destructive" });
+      return;
+    }
+
+    const originalProfileId = people.find(p => p.id === personId)?.profileId ?? null;
+    setPeople(prev => prev.map(p => p.id === personId ? { ...p, profileId } : p));
+    try {
+      const { error } = await supabase.rpc('link_person_profile', { p_person_id: personId, p_profile_id: profileId });
+      if (error) throw error;
+    } catch (err) {
+      console.error('Error linking profile:', err);
+      setPeople(prev => prev.map(p => p.id === personId ? { ...p, profileId: originalProfileId } : p));
+      toast({ title: "Error", description: "Failed to update the profile link", variant: "destructive" });
+    }
+  };
+
+  const toggleCollapse = (proposalId: string) => {
+    setCollapsedMovies(prev => ({ ...prev, [proposalId]: !(prev[proposalId] ?? true) }));
   };
 
   const getSortedMovies = () => {
     // If sorting has been suppressed (e.g. user just rated a movie), return current order
-    if (!shouldSort) return movieRatings;
-    return sortRatings(movieRatings, selectedPersonId);
+    if (!shouldSort) return activeRatings;
+    return sortRatings(activeRatings, selectedPersonId);
   };
 
-  const presentPeople = people.filter(p => p.isPresent);
+  const presentPeople = peopleTonight.filter(p => p.isPresent);
+
+  // A veto from anyone present keeps a movie out of tonight's results
+  const isVetoedTonight = (movie: MovieRating) => presentPeople.some(p => movie.vetoedBy.includes(p.id));
+  const vetoedMovies = activeRatings.filter(isVetoedTonight);
 
-  const rankedMovies: MovieWithStats[] = movieRatings.map(movie => {
+  const breakTies = compareByTieBreakers(tieBreakers, tieBreakSeed);
+  const tieBreakStats = (movie: MovieWithStats) => ({
+    proposalId: movie.proposalId,
+    totalRatings: movie.totalRatings,
+    oneStarVotes: presentPeople.filter(p => movie.ratings[p.id] === 1).length,
+    createdAt: movie.createdAt,
+    runtimeMinutes: movie.details?.runtimeMinutes ?? 0,
+  });
+
+  // Average first so the selection methods break ties by hype, then by the
+  // session's tie-breakers and finally by title
+  const contenders: MovieWithStats[] = activeRatings.filter(movie => !isVetoedTonight(movie)).map(movie => {
     const validRatings = presentPeople.map(p => movie.ratings[p.id]).filter(r => typeof r === "number" && r > 0);
     const averageRating = validRatings.length > 0 ? validRatings.reduce((s, r) => s + r, 0) / validRatings.length : 0;
     return { ...movie, averageRating, totalRatings: validRatings.length };
   }).filter(movie => {
-    // Only show movies proposed by a present person
-    const proposerId = (movie as any).proposerId || (movie as any).proposer_id;
-    if (!proposerId || !presentPeople.some(p => p.id === proposerId)) return false;
+    // Only show movies backed by at least one present person
+    if (!presentPeople.some(p => movie.proposerIds.includes(p.id))) return false;
 
-    // Require at least one vote from a present non-proposer so a lone default-5
-    // from the proposer doesn't inflate the ranking before anyone else has weighed in
-    return presentPeople.some(p => p.id !== proposerId && typeof movie.ratings[p.id] === "number" && movie.ratings[p.id] > 0);
+    // Require at least one vote from a present non-proposer so the proposers'
+    // default 5s don't inflate the ranking before anyone else has weighed in
+    return presentPeople.some(p => !movie.proposerIds.includes(p.id) && typeof movie.ratings[p.id] === "number" && movie.ratings[p.id] > 0);
   }).sort((a, b) => {
     if (b.averageRating !== a.averageRating) {
       return b.averageRating - a.averageRating;
     }
-    return normalizeTitle(a.movieTitle).localeCompare(normalizeTitle(b.movieTitle));
+    return breakTies(tieBreakStats(a), tieBreakStats(b))
+      || normalizeTitle(a.movieTitle).localeCompare(normalizeTitle(b.movieTitle))
+      || a.proposalId.localeCompare(b.proposalId);
   });
 
-  // Attach proposalId / proposerId to movieRatings so UI can use stable identifiers
-  useEffect(() => {
-    let mounted = true;
-
-    // only run when we have movies and some items don't already have proposalId
-    const needsAttach = movieRatings.length > 0 && movieRatings.some(m => !((m as any).proposalId || (m as any).proposal_id));
-    if (!needsAttach) return;
-
-    (async () => {
-      try {
-        const titles = Array.from(new Set(movieRatings.map(m => m.movieTitle)));
-        if (titles.length === 0) return;
-
-        const { data: proposals, error } = await supabase
-          .from("movie_proposals" as any)
-          .select("id, movie_title, person_id")
-          .in("movie_title", titles);
-
-        if (error) throw error;
-        if (!mounted) return;
-
-        const proposalsByTitle: Record<string, any[]> = {};
-        (proposals || []).forEach((p: any) => {
-          proposalsByTitle[p.movie_title] = proposalsByTitle[p.movie_title] || [];
-          proposalsByTitle[p.movie_title].push(p);
-        });
-
-        setMovieRatings(prev =>
-          prev.map(m => {
-            // preserve existing proposalId if present
-            const existing = (m as any).proposalId ?? (m as any).proposal_id;
-            if (existing) return m;
-
-            const list = proposalsByTitle[m.movieTitle] || [];
-            const first = list[0];
-            return {
-              ...m,
-              proposalId: first?.id ?? undefined,
-              proposerId: first?.person_id ?? undefined,
-            };
-          })
-        );
-      } catch (err) {
-        console.error("Failed to attach proposal ids to movieRatings:", err);
-      }
-    })();
-
-    return () => { mounted = false; };
-  }, [movieRatings]);
+  // With a time budget, movies that don't fit drop out; unknown runtimes stay in but are flagged
+  const budgetMinutes = timeBudget ? availableMinutes(timeBudget) : null;
+  const withRuntimeFit = contenders.map(movie => budgetMinutes === null
+    ? movie
+    : { ...movie, runtimeFit: runtimeFit(movie.details?.runtimeMinutes, budgetMinutes) });
+  const tooLongMovies = withRuntimeFit.filter(movie => movie.runtimeFit === "too_long");
+  const fittingMovies = withRuntimeFit.filter(movie => movie.runtimeFit !== "too_long");
+
+  // Movies short of the quorum are still shown in the results, but can't win
+  const hasQuorum = (movie: MovieWithStats) => meetsQuorum(movie.totalRatings, presentPeople.length, quorumPercent);
+  const eligibleMovies = fittingMovies.filter(hasQuorum);
+  const belowQuorumMovies = fittingMovies.filter(movie => !hasQuorum(movie));
+
+  // Ballots come from each present person's stars. With fairness weighting on,
+  // the winner is picked from stars scaled by each proposal's boost, and the
+  // unweighted ranking is kept alongside for comparison.
+  const needs = proposerNeeds(people, watchedCredits);
+  const boosts: Record<string, number> = Object.fromEntries(
+    eligibleMovies.map(m => [m.proposalId, fairnessBoost(m.proposerIds ?? [], needs, fairnessStrength)])
+  );
+  const candidates = eligibleMovies.map(m => ({ proposalId: m.proposalId, title: m.movieTitle }));
+  const ballotsFor = (boosted: boolean) => presentPeople.map(p => ({
+    personId: p.id,
+    ratings: Object.fromEntries(eligibleMovies.map(m => {
+      const stars = m.ratings[p.id];
+      return [m.proposalId, boosted && typeof stars === "number" ? stars * boosts[m.proposalId] : stars];
+    })),
+  }));
+
+  const selection = rankByMethod(selectionMethod, candidates, ballotsFor(fairnessStrength > 0), approvalThreshold);
+  const rawSelection = fairnessStrength > 0
+    ? rankByMethod(selectionMethod, candidates, ballotsFor(false), approvalThreshold)
+    : selection;
+
+  const rankedMovies: MovieWithStats[] = selection.ranking.map(({ proposalId, score, scoreLabel }) => ({
+    ...eligibleMovies.find(m => m.proposalId === proposalId)!,
+    score,
+    scoreLabel,
+    rawScoreLabel: rawSelection.ranking.find(r => r.proposalId === proposalId)?.scoreLabel,
+    fairnessBoost: boosts[proposalId],
+  }));
 
   // Detailed Realtime Subscriptions
   useEffect(() => {
@@ -697,6 +1299,21 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
       }
     };
 
+    // A person leaves with the proposals nobody else backs; trashing them
+    // on the server does the same
+    const dropPerson = (personId: string) => {
+      setPeople(prev => prev.filter(p => p.id !== personId));
+      removeProposer(personId);
+    };
+
+    const dropProposal = (proposalId: string) => {
+      setMovieRatings(prev => prev.filter(m => m.proposalId !== proposalId));
+      setPeople(prev => prev.map(p => ({
+        ...p,
+        movies: p.movies.filter(m => m.proposalId !== proposalId)
+      })));
+    };
+
     const ratingsChannel = supabase
       .channel(`ratings-${sessionId}`)
       .on('postgres_changes', { event: '*', schema: 'public', table: 'movie_ratings' }, (payload) => {
@@ -707,11 +1324,11 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
         const proposalId = data.proposal_id;
 
         setMovieRatings(currentRatings => {
-          const isRelevant = currentRatings.some(m => (m as any).proposalId === proposalId);
+          const isRelevant = currentRatings.some(m => m.proposalId === proposalId);
           if (!isRelevant) return currentRatings;
 
           return currentRatings.map(movie => {
-            if ((movie as any).proposalId === proposalId) {
+            if (movie.proposalId === proposalId) {
               const newRatings = { ...movie.ratings };
               if (payload.eventType === 'DELETE') {
                 const personId = payload.old.person_id;
@@ -741,15 +1358,21 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
         if (payload.eventType === 'INSERT') {
           setPeople(prev => {
             if (prev.some(p => p.id === data.id)) return prev;
-            return [...prev, { id: data.id, name: data.name, movies: [], isPresent: data.is_present }];
+            return [...prev, { id: data.id, name: data.name, movies: [], isPresent: data.is_present, claimedBy: null }];
           });
         } else if (payload.eventType === 'UPDATE') {
-          setPeople(prev => prev.map(p => 
-            p.id === data.id ? { ...p, name: data.name, isPresent: data.is_present } : p
-          ));
+          if (payload.new.deleted_at) {
+            dropPerson(payload.new.id);
+          } else if (!peopleRef.current.some(p => p.id === payload.new.id)) {
+            // Restored from the trash, along with proposals and ratings we no longer have
+            loadSessionData(sessionId);
+          } else {
+            setPeople(prev => prev.map(p => 
+              p.id === data.id ? { ...p, name: data.name, isPresent: data.is_present, profileId: payload.new.profile_id ?? null } : p
+            ));
+          }
         } else if (payload.eventType === 'DELETE') {
-          setPeople(prev => prev.filter(p => p.id !== data.id));
-          setMovieRatings(prev => prev.filter(m => (m as any).proposerId !== data.id));
+          dropPerson(data.id);
         }
       })
       .subscribe(handleStatus('People'));
@@ -764,101 +1387,282 @@ export const useMovieSession = (opts?: { onSessionLoad?: (id: string) => void })
         if (data.session_id && data.session_id !== sessionId) return;
 
         if (payload.eventType === 'INSERT') {
+          const title = payload.new.movie_title;
           setMovieRatings(prev => {
-            if (prev.some(m => (m as any).proposalId === data.id)) return prev;
-            const proposer = peopleRef.current.find(p => p.id === data.person_id);
-            const newMovie: MovieRating = {
-              movieTitle: data.movie_title,
-              proposedBy: proposer?.name || 'Unknown',
+            if (prev.some(m => m.proposalId === payload.new.id)) return prev;
+            const newMovie: MovieRating = withProposers({
+              proposalId: payload.new.id,
+              movieTitle: title,
+              proposedBy: '',
               ratings: {},
-              proposalId: data.id,
-              proposerId: data.person_id,
-              details: data.poster ? {
-                poster: data.poster, genre: data.genre, runtime: data.runtime, 
-                year: data.year, director: data.director, plot: data.plot, 
-                imdbRating: data.imdb_rating, imdbId: data.imdb_id
+              proposerId: payload.new.person_id,
+              proposerIds: [],
+              vetoedBy: [],
+              createdAt: payload.new.created_at,
+              parkedAt: payload.new.parked_at ?? null,
+              details: payload.new.poster ? {
+                poster: payload.new.poster, genres: payload.new.genres, runtimeMinutes: payload.new.runtime_minutes,
+                year: payload.new.year, director: payload.new.director, plot: payload.new.plot,
+                imdbRating: payload.new.imdb_rating, imdbId: payload.new.imdb_id
               } : undefined
-            };
+            }, [payload.new.person_id], peopleRef.current);
             return [...prev, newMovie];
           });
-          setPeople(prev => prev.map(p => 
-            p.id === data.person_id 
-              ? { ...p, movies: Array.from(new Set([...p.movies, data.movie_title])) }
+          setPeople(prev => prev.map(p =>
+            p.id === payload.new.person_id && !p.movies.some(m => m.proposalId === payload.new.id)
+              ? { ...p, movies: [...p.movies, { proposalId: payload.new.id, title }] }
               : p
           ));
         } else if (payload.eventType === 'UPDATE') {
-          setMovieRatings(prev => prev.map(m => 
-            (m as any).proposalId === data.id 
-              ? { 
-                  ...m, 
-                  movieTitle: data.movie_title,
-                  details: data.poster ? {
-                    poster: data.poster, genre: data.genre, runtime: data.runtime, 
-                    year: data.year, director: data.director, plot: data.plot, 
-                    imdbRating: data.imdb_rating, imdbId: data.imdb_id
+          const proposalId = payload.new.id;
+          const title = payload.new.movie_title;
+          if (payload.new.deleted_at) {
+            dropProposal(proposalId);
+            return;
+          }
+          if (!movieRatingsRef.current.some(m => m.proposalId === proposalId)) {
+            // Restored from the trash, along with its backers and ratings
+            loadSessionData(sessionId);
+            return;
+          }
+          setMovieRatings(prev => prev.map(m =>
+            m.proposalId === proposalId
+              ? {
+                  ...m,
+                  movieTitle: title,
+                  // the next backer takes over when the original proposer withdraws
+                  proposerId: payload.new.person_id,
+                  parkedAt: payload.new.parked_at ?? null,
+                  // parking hands back the vetoes spent on it
+                  vetoedBy: payload.new.parked_at ? [] : m.vetoedBy,
+                  details: payload.new.poster ? {
+                    poster: payload.new.poster, genres: payload.new.genres, runtimeMinutes: payload.new.runtime_minutes,
+                    year: payload.new.year, director: payload.new.director, plot: payload.new.plot,
+                    imdbRating: payload.new.imdb_rating, imdbId: payload.new.imdb_id
                   } : m.details
                 } : m
           ));
+          setPeople(prev => prev.map(p => ({
+            ...p,
+            movies: p.movies.map(m => m.proposalId === proposalId ? { ...m, title } : m)
+          })));
         } else if (payload.eventType === 'DELETE') {
-          const deletedId = payload.old.id;
-          
-          setMovieRatings(prev => {
-            const movieToDelete = prev.find(m => (m as any).proposalId === deletedId);
-            if (movieToDelete) {
-              const title = movieToDelete.movieTitle;
-              // Also clean up the people state's movies array
-              setPeople(peoplePrev => peoplePrev.map(p => ({
-                ...p,
-                movies: p.movies.filter(m => m !== title)
-              })));
-            }
-            return prev.filter(m => (m as any).proposalId !== deletedId);
-          });
+          dropProposal(payload.old.id);
         }
       })
       .subscribe(handleStatus('Proposals'));
 
+    // Row level security hides trashed rows, so the UPDATE that trashes a person
+    // or proposal never reaches other clients; the activity log entry does
+    const trashChannel = supabase
+      .channel(`trash-${sessionId}`)
+      .on<{ session_id: string; entity: string; action: string; row_id: string | null }>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'session_activity', filter: `session_id=eq.${sessionId}` }, (payload) => {
+        console.log("Real-time [Trash] event:", payload.eventType, payload);
+        const { entity, action, row_id: rowId } = payload.new;
+        if (!rowId || (entity !== 'person' && entity !== 'proposal')) return;
+        if (action === 'trash') {
+          if (entity === 'person') dropPerson(rowId);
+          else dropProposal(rowId);
+        } else if (action === 'restore') {
+          const known = entity === 'person'
+            ? peopleRef.current.some(p => p.id === rowId)
+            : movieRatingsRef.current.some(m => m.proposalId === rowId);
+          if (!known) loadSessionData(sessionId);
+        }
+      })
+      .subscribe(handleStatus('Trash'));
+
+    // Backers joining or leaving a proposal; proposal_id is session-specific
+    // Vetoes spent, respent for a later night and revoked; both ids are in the
+    // primary key, so DELETEs carry them
+    const vetoesChannel = supabase
+      .channel(`vetoes-${sessionId}`)
+      .on<{ proposal_id: string; person_id: string; night_id: string | null }>('postgres_changes', { event: '*', schema: 'public', table: 'proposal_vetoes' }, (payload) => {
+        console.log("Real-time [Vetoes] event:", payload.eventType, payload);
+        const row = payload.eventType === 'DELETE' ? payload.old : payload.new;
+        if (!row.proposal_id || !row.person_id) return;
+        setVetoed(row.proposal_id, row.person_id, payload.eventType !== 'DELETE', row.night_id ?? null);
+      })
+      .subscribe(handleStatus('Vetoes'));
+
+    const proposersChannel = supabase
+      .channel(`proposers-${sessionId}`)
+      .on<{ proposal_id: string; person_id: string }>('postgres_changes', { event: '*', schema: 'public', table: 'proposal_proposers' }, (payload) => {
+        console.log("Real-time [Proposers] event:", payload.eventType, payload);
+        const row = payload.eventType === 'DELETE' ? payload.old : payload.new;
+        if (!row.proposal_id || !row.person_id) return;
+        const joined = payload.eventType === 'INSERT';
+
+        setMovieRatings(prev => prev.map(m => {
+          if (m.proposalId !== row.proposal_id) return m;
+          if (joined === m.proposerIds.includes(row.person_id)) return m;
+          const proposerIds = joined
+            ? [...m.proposerIds, row.person_id]
+            : m.proposerIds.filter(id => id !== row.person_id);
+          return withProposers(m, proposerIds, peopleRef.current);
+        }));
+        setPeople(prev => prev.map(p => {
+          if (p.id !== row.person_id) return p;
+          if (!joined) return { ...p, movies: p.movies.filter(m => m.proposalId !== row.proposal_id) };
+          if (p.movies.some(m => m.proposalId === row.proposal_id)) return p;
+          const title = movieRatingsRef.current.find(m => m.proposalId === row.proposal_id)?.movieTitle;
+          return title ? { ...p, movies: [...p.movies, { proposalId: row.proposal_id, title }] } : p;
+        }));
+      })
+      .subscribe(handleStatus('Proposers'));
+
+    // Nights scheduled, changed, closed or cancelled in this session
+    const nightsChannel = supabase
+      .channel(`nights-${sessionId}`)
+      .on<{ id: string; session_id: string; scheduled_for: string; note: string | null; selected_proposal_id: string | null; watched_movie_id: string | null }>('postgres_changes', { event: '*', schema: 'public', table: 'movie_nights' }, (payload) => {
+        console.log("Real-time [Nights] event:", payload.eventType, payload);
+        if (payload.eventType === 'DELETE') {
+          setMovieNights(prev => prev.filter(n => n.id !== payload.old.id));
+          return;
+        }
+        if (payload.new.session_id !== sessionId) return;
+        const row = payload.new;
+        setMovieNights(prev => {
+          const existing = prev.find(n => n.id === row.id);
+          const night = { ...toMovieNight(row), rsvps: existing?.rsvps ?? {} };
+          return existing ? prev.map(n => n.id === row.id ? night : n) : [...prev, night];
+        });
+      })
+      .subscribe(handleStatus('Nights'));
+
+    // RSVPs; night_id is session-specific, so answers for unknown nights are ignored
+    const rsvpsChannel = supabase
+      .channel(`rsvps-${sessionId}`)
+      .on<{ night_id: string; person_id: string; response: string }>('postgres_changes', { event: '*', schema: 'public', table: 'movie_night_rsvps' }, (payload) => {
+        console.log("Real-time [RSVPs] event:", payload.eventType, payload);
+        const row = payload.eventType === 'DELETE' ? payload.old : payload.new;
+        if (!row.night_id || !row.person_id) return;
+        setMovieNights(prev => prev.map(n => {
+          if (n.id !== row.night_id) return n;
+          const rsvps = { ...n.rsvps };
+          if (payload.eventType === 'DELETE') delete rsvps[row.person_id];
+          else rsvps[row.person_id] = payload.new.response as RsvpResponse;
+          return { ...n, rsvps };
+        }));
+      })
+      .subscribe(handleStatus('RSVPs'));
+
+    const claimsChannel = supabase
+      .channel(`claims-${sessionId}`)
+      .on<{ person_id: string; user_id: string }>('postgres_changes', { event: '*', schema: 'public', table: 'person_claims' }, (payload) => {
+        console.log("Real-time [Claims] event:", payload.eventType, payload);
+        const personId = payload.eventType === 'DELETE' ? payload.old.person_id : payload.new.person_id;
+        if (!personId) return;
+
+        // person_id is session-specific, so unknown people are simply ignored
+        setPeople(prev => prev.map(p => {
+          if (p.id !== personId) return p;
+          return { ...p, claimedBy: payload.eventType === 'DELETE' ? null : payload.new.user_id };
+        }));
+      })
+      .subscribe(handleStatus('Claims'));
+
+    const membersChannel = supabase
+      .channel(`members-${sessionId}`)
+      .on<{ session_id: string; user_id: string; role: string }>('postgres_changes', { event: '*', schema: 'public', table: 'session_members' }, async (payload) => {
+        console.log("Real-time [Members] event:", payload.eventType, payload);
+        if (payload.eventType === 'DELETE' || payload.new.session_id !== sessionId) return;
+
+        // Promotions and demotions of this device take effect without a reload
+        const userId = await ensureDeviceIdentity();
+        if (payload.new.user_id === userId) setIsAdmin(payload.new.role === 'admin');
+      })
+      .subscribe(handleStatus('Members'));
+
     return () => {
       console.log("Real-time: Cleaning up subscriptions for", sessionId);
       supabase.removeChannel(ratingsChannel);
       supabase.removeChannel(peopleChannel);
       supabase.removeChannel(proposalsChannel);
+      supabase.removeChannel(trashChannel);
+      supabase.removeChannel(proposersChannel);
+      supabase.removeChannel(vetoesChannel);
+      supabase.removeChannel(nightsChannel);
+      supabase.removeChannel(rsvpsChannel);
+      supabase.removeChannel(claimsChannel);
+      supabase.removeChannel(membersChannel);
     };
   }, [sessionId]);
 
   return {
     // state
-    people,
-    movieRatings,
+    people: peopleTonight,
+    movieRatings: activeRatings,
     sessionId,
     loading,
-    showNewSession,
+    sessionNotFound,
+    accessDenied,
+    sessionName,
+    isAdmin,
+    selectionMethod,
+    approvalThreshold,
+    vetoesPerPerson,
+    maxActiveProposals,
+    fairnessStrength,
+    quorumPercent,
+    tieBreakers,
+    tieBreakSeed,
+    timeBudget,
+    budgetMinutes,
     fetchingDetails,
     collapsedMovies,
     selectedPersonId,
-    currentView,
+    deviceUserId,
     // computed/actions
     presentPeople,
+    claimedPersonIds,
+    nextNight,
     rankedMovies,
+    selection,
+    vetoedMovies,
+    belowQuorumMovies,
+    tooLongMovies,
+    vetoesLeft,
     getSortedMovies,
     // setters that may be used by root
-    setShowNewSession,
     setSessionId,
-    setCurrentView,
     setSelectedPersonId,
     setCollapsedMovies,
     setShouldSort,
     // methods
     loadExistingSession,
-    createNewSession,
     loadSessionData,
     fetchAllMovieDetails,
     searchMovieAgain,
     addPerson,
     updatePerson,
+    proposeMovie,
+    secondProposal,
+    parkProposal,
+    promoteProposal,
+    vetoProposal,
+    revokeVeto,
+    removeProposal,
     deletePerson,
     updateRating,
     markMovieAsWatched,
+    claimPerson,
+    requestReclaim,
+    joinAsNewPerson,
+    linkPersonToProfile,
+    restoreFromTrash,
+    renameSession,
+    setSelectionMethod,
+    setVetoesPerPerson,
+    setMaxActiveProposals,
+    setFairnessStrength,
+    setResultRules,
+    setTimeBudget,
+    scheduleMovieNight,
+    cancelMovieNight,
+    setRsvp,
+    selectMovieForNight,
+    refreshAdminRole,
     toggleCollapse
   };
 };
@@ -0,0 +1,115 @@
+import { useEffect, useState, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ensureDeviceIdentity } from "@/lib/deviceIdentity";
+
+export interface SessionSummary {
+  id: string;
+  name: string;
+  createdAt: string;
+  archivedAt: string | null;
+  isAdmin: boolean;
+  // people in the session, and the devices that have joined it
+  peopleCount: number;
+  deviceCount: number;
+  watchedCount: number;
+  lastActivityAt: string;
+}
+
+// Sessions this device has joined, most recently active first
+export const useMySessions = () => {
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      await ensureDeviceIdentity();
+      const { data, error } = await supabase.rpc("list_my_sessions");
+      if (error) throw error;
+      setSessions((data || []).map(s => ({
+        id: s.id,
+        name: s.name,
+        createdAt: s.created_at,
+        archivedAt: s.archived_at,
+        isAdmin: s.role === "admin",
+        peopleCount: s.people_count,
+        deviceCount: s.device_count,
+        watchedCount: s.watched_count,
+        lastActivityAt: s.last_activity_at
+      })));
+    } catch (err) {
+      console.error("Failed to load sessions:", err);
+      toast({ title: "Error", description: "Failed to load your sessions", variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Returns the new session id so the caller can navigate to it
+  const createSession = useCallback(async (name: string): Promise<string | null> => {
+    if (!name.trim()) return null;
+    try {
+      await ensureDeviceIdentity();
+      const { data: session, error } = await supabase.rpc("create_session", { p_name: name.trim() });
+      if (error) throw error;
+      return session.id;
+    } catch (err) {
+      console.error("Error creating session:", err);
+      toast({
+        title: "Error",
+        description: "Failed to create session. Please try again.",
+        variant: "destructive"
+      });
+      return null;
+    }
+  }, [toast]);
+
+  const updateSession = useCallback(async (id: string, changes: { name?: string; archived_at?: string | null }) => {
+    const { data, error } = await supabase
+      .from("movie_sessions")
+      .update(changes)
+      .eq("id", id)
+      .select("id");
+    if (error) throw error;
+    // RLS filters the update instead of failing when the caller isn't an admin
+    if (!data || data.length === 0) throw new Error("Only session admins can change this session");
+  }, []);
+
+  const renameSession = useCallback(async (id: string, name: string) => {
+    if (!name.trim()) return;
+    try {
+      await updateSession(id, { name: name.trim() });
+      setSessions(prev => prev.map(s => s.id === id ? { ...s, name: name.trim() } : s));
+    } catch (err) {
+      console.error("Error renaming session:", err);
+      toast({ title: "Error", description: "Failed to rename session", variant: "destructive" });
+    }
+  }, [updateSession, toast]);
+
+  const setArchived = useCallback(async (id: string, archived: boolean) => {
+    const archivedAt = archived ? new Date().toISOString() : null;
+    try {
+      await updateSession(id, { archived_at: archivedAt });
+      setSessions(prev => prev.map(s => s.id === id ? { ...s, archivedAt } : s));
+    } catch (err) {
+      console.error("Error archiving session:", err);
+      toast({ title: "Error", description: archived ? "Failed to archive session" : "Failed to restore session", variant: "destructive" });
+    }
+  }, [updateSession, toast]);
+
+  return {
+    sessions,
+    loading,
+    reload: load,
+    createSession,
+    renameSession,
+    setArchived,
+  };
+};
+
+export default useMySessions;
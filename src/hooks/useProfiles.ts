@@ -0,0 +1,68 @@
+import { useEffect, useState, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { ensureDeviceIdentity } from "@/lib/deviceIdentity";
+
+export interface Profile {
+  id: string;
+  displayName: string;
+  createdAt: string;
+}
+
+// Profiles owned by this device. A profile links one friend's session_people
+// rows across sessions; linking happens in useMovieSession (linkPersonToProfile).
+export const useProfiles = () => {
+  const { toast } = useToast();
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      const userId = await ensureDeviceIdentity();
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, display_name, created_at")
+        .eq("owner_id", userId)
+        .order("display_name", { ascending: true });
+      if (error) throw error;
+      setProfiles((data || []).map(p => ({ id: p.id, displayName: p.display_name, createdAt: p.created_at })));
+    } catch (err) {
+      console.error("Failed to load profiles:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const createProfile = useCallback(async (displayName: string): Promise<Profile | null> => {
+    if (!displayName.trim()) return null;
+    try {
+      await ensureDeviceIdentity();
+      const { data, error } = await supabase
+        .from("profiles")
+        .insert({ display_name: displayName.trim() })
+        .select("id, display_name, created_at")
+        .single();
+      if (error) throw error;
+      const profile = { id: data.id, displayName: data.display_name, createdAt: data.created_at };
+      setProfiles(prev => [...prev, profile].sort((a, b) => a.displayName.localeCompare(b.displayName)));
+      return profile;
+    } catch (err) {
+      console.error("Failed to create profile:", err);
+      toast({ title: "Error", description: "Failed to create profile", variant: "destructive" });
+      return null;
+    }
+  }, [toast]);
+
+  return {
+    profiles,
+    loading,
+    createProfile,
+    reload: load,
+  };
+};
+
+export default useProfiles;
@@ -0,0 +1,131 @@
+import { useEffect, useState, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export type ActivityEntity = "rating" | "score" | "person" | "proposal" | "comment" | "favourite" | "watched_movie" | "movie_night" | "rsvp";
+export type ActivityAction = "insert" | "update" | "delete" | "trash" | "restore";
+
+export interface ActivityEntry {
+  id: string;
+  occurredAt: string;
+  // auth user id of the acting device; null for server-side changes
+  actorId: string | null;
+  entity: ActivityEntity;
+  action: ActivityAction;
+  rowId: string | null;
+  // the person the change is about (rater, proposer, the person themselves)
+  personId: string | null;
+  // movie title or person name at the time of the change; for nights and
+  // RSVPs, when the night is scheduled
+  subject: string | null;
+  // full row for inserts and deletes, only the changed columns for updates
+  oldValues: Record<string, unknown> | null;
+  newValues: Record<string, unknown> | null;
+}
+
+const PAGE_SIZE = 100;
+
+type ActivityRow = {
+  id: string;
+  occurred_at: string;
+  actor_id: string | null;
+  entity: string;
+  action: string;
+  row_id: string | null;
+  person_id: string | null;
+  subject: string | null;
+  old_values: unknown;
+  new_values: unknown;
+};
+
+const toEntry = (row: ActivityRow): ActivityEntry => ({
+  id: row.id,
+  occurredAt: row.occurred_at,
+  actorId: row.actor_id,
+  entity: row.entity as ActivityEntity,
+  action: row.action as ActivityAction,
+  rowId: row.row_id,
+  personId: row.person_id,
+  subject: row.subject,
+  oldValues: (row.old_values as Record<string, unknown> | null) ?? null,
+  newValues: (row.new_values as Record<string, unknown> | null) ?? null,
+});
+
+// The session's activity log, newest first, paged and kept live via realtime.
+// Entries are written by database triggers; clients only read them.
+export const useSessionActivity = (sessionId: string | null) => {
+  const [entries, setEntries] = useState<ActivityEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+
+  const fetchPage = useCallback(async (before?: string) => {
+    let query = supabase
+      .from("session_activity")
+      .select("*")
+      .eq("session_id", sessionId)
+      .order("occurred_at", { ascending: false })
+      .limit(PAGE_SIZE);
+    if (before) query = query.lt("occurred_at", before);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    setHasMore((data || []).length === PAGE_SIZE);
+    return (data || []).map(toEntry);
+  }, [sessionId]);
+
+  const load = useCallback(async () => {
+    if (!sessionId) {
+      setEntries([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      setEntries(await fetchPage());
+    } catch (err) {
+      console.error("Failed to load activity:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId, fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    const oldest = entries[entries.length - 1];
+    if (!oldest) return;
+    try {
+      const older = await fetchPage(oldest.occurredAt);
+      setEntries(prev => [...prev, ...older.filter(e => !prev.some(p => p.id === e.id))]);
+    } catch (err) {
+      console.error("Failed to load older activity:", err);
+    }
+  }, [entries, fetchPage]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const channel = supabase
+      .channel(`activity-${sessionId}`)
+      .on<ActivityRow & { session_id: string }>('postgres_changes', { event: 'INSERT', schema: 'public', table: 'session_activity' }, (payload) => {
+        if (payload.new.session_id !== sessionId) return;
+        const entry = toEntry(payload.new);
+        setEntries(prev => prev.some(e => e.id === entry.id) ? prev : [entry, ...prev]);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId]);
+
+  return {
+    entries,
+    loading,
+    hasMore,
+    loadMore,
+    reload: load,
+  };
+};
+
+export default useSessionActivity;
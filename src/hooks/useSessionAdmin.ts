@@ -0,0 +1,126 @@
+import { useEffect, useState, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Person } from "@/types/session";
+
+export interface SessionMember {
+  userId: string;
+  role: "member" | "admin";
+  joinedAt: string;
+}
+
+export interface ReclaimRequest {
+  id: string;
+  personId: string;
+  userId: string;
+  createdAt: string;
+}
+
+// Admin-side data for a session: device memberships with their roles and the
+// pending re-claim requests for the session's people.
+export const useSessionAdmin = (sessionId: string | null, isAdmin: boolean, people: Person[]) => {
+  const { toast } = useToast();
+  const [members, setMembers] = useState<SessionMember[]>([]);
+  const [reclaimRequests, setReclaimRequests] = useState<ReclaimRequest[]>([]);
+
+  const personIdsKey = people.map(p => p.id).sort().join(",");
+
+  const load = useCallback(async () => {
+    if (!sessionId || !isAdmin) {
+      setMembers([]);
+      setReclaimRequests([]);
+      return;
+    }
+    try {
+      const { data: memberRows, error: membersError } = await supabase
+        .from("session_members")
+        .select("user_id, role, joined_at")
+        .eq("session_id", sessionId)
+        .order("joined_at", { ascending: true });
+      if (membersError) throw membersError;
+      setMembers((memberRows || []).map(m => ({
+        userId: m.user_id,
+        role: m.role === "admin" ? "admin" : "member",
+        joinedAt: m.joined_at
+      })));
+
+      const personIds = personIdsKey ? personIdsKey.split(",") : [];
+      if (personIds.length === 0) {
+        setReclaimRequests([]);
+        return;
+      }
+      const { data: requestRows, error: requestsError } = await supabase
+        .from("person_reclaim_requests")
+        .select("id, person_id, user_id, created_at")
+        .eq("status", "pending")
+        .in("person_id", personIds)
+        .order("created_at", { ascending: true });
+      if (requestsError) throw requestsError;
+      setReclaimRequests((requestRows || []).map(r => ({
+        id: r.id,
+        personId: r.person_id,
+        userId: r.user_id,
+        createdAt: r.created_at
+      })));
+    } catch (err) {
+      console.error("Failed to load session admin data:", err);
+    }
+  }, [sessionId, isAdmin, personIdsKey]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!sessionId || !isAdmin) return;
+
+    const channel = supabase
+      .channel(`admin-${sessionId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'session_members' }, () => load())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'person_reclaim_requests' }, () => load())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, isAdmin, load]);
+
+  const setMemberRole = useCallback(async (userId: string, role: "member" | "admin") => {
+    if (!sessionId) return;
+    try {
+      const { error } = await supabase.rpc("set_member_role", { p_session_id: sessionId, p_user_id: userId, p_role: role });
+      if (error) throw error;
+      setMembers(prev => prev.map(m => m.userId === userId ? { ...m, role } : m));
+    } catch (err) {
+      console.error("Failed to change member role:", err);
+      toast({
+        title: "Error",
+        description: "Failed to change member role",
+        variant: "destructive"
+      });
+    }
+  }, [sessionId, toast]);
+
+  const resolveReclaim = useCallback(async (requestId: string, approve: boolean) => {
+    try {
+      const { error } = approve
+        ? await supabase.rpc("approve_person_reclaim", { p_request_id: requestId })
+        : await supabase.rpc("reject_person_reclaim", { p_request_id: requestId });
+      if (error) throw error;
+      await load();
+    } catch (err) {
+      console.error("Failed to resolve re-claim request:", err);
+      toast({ title: "Error", description: "Failed to resolve re-claim request", variant: "destructive" });
+    }
+  }, [load, toast]);
+
+  return {
+    members,
+    reclaimRequests,
+    setMemberRole,
+    resolveReclaim,
+    reload: load,
+  };
+};
+
+export default useSessionAdmin;
@@ -0,0 +1,125 @@
+import { useEffect, useState, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+
+export interface SessionInvite {
+  id: string;
+  token: string;
+  createdBy: string | null;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  // devices that joined the session through this invite
+  joinedUserIds: string[];
+}
+
+export const isInviteActive = (invite: SessionInvite, now = new Date()) =>
+  !invite.revokedAt && new Date(invite.expiresAt) > now;
+
+// Expiring invite links for a session and the devices that joined through each.
+export const useSessionInvites = (sessionId: string | null) => {
+  const { toast } = useToast();
+  const [invites, setInvites] = useState<SessionInvite[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!sessionId) {
+      setInvites([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      const [{ data: inviteRows, error: invitesError }, { data: memberRows, error: membersError }] = await Promise.all([
+        supabase
+          .from("session_invites")
+          .select("*")
+          .eq("session_id", sessionId)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("session_members")
+          .select("user_id, invite_id")
+          .eq("session_id", sessionId)
+          .not("invite_id", "is", null)
+      ]);
+      if (invitesError) throw invitesError;
+      if (membersError) throw membersError;
+
+      setInvites((inviteRows || []).map(i => ({
+        id: i.id,
+        token: i.token,
+        createdBy: i.created_by,
+        createdAt: i.created_at,
+        expiresAt: i.expires_at,
+        revokedAt: i.revoked_at,
+        joinedUserIds: (memberRows || []).filter(m => m.invite_id === i.id).map(m => m.user_id)
+      })));
+    } catch (err) {
+      console.error("Failed to load session invites:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // New members show up under the invite they used
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const channel = supabase
+      .channel(`invites-${sessionId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'session_members' }, () => load())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId, load]);
+
+  // expiresIn is a Postgres interval, e.g. "1 day"
+  const createInvite = useCallback(async (expiresIn: string): Promise<SessionInvite | null> => {
+    if (!sessionId) return null;
+    try {
+      const { data, error } = await supabase.rpc("create_session_invite", { p_session_id: sessionId, p_expires_in: expiresIn });
+      if (error) throw error;
+      const invite: SessionInvite = {
+        id: data.id,
+        token: data.token,
+        createdBy: data.created_by,
+        createdAt: data.created_at,
+        expiresAt: data.expires_at,
+        revokedAt: data.revoked_at,
+        joinedUserIds: []
+      };
+      setInvites(prev => [invite, ...prev]);
+      return invite;
+    } catch (err) {
+      console.error("Failed to create invite:", err);
+      toast({ title: "Error", description: "Failed to create invite link", variant: "destructive" });
+      return null;
+    }
+  }, [sessionId, toast]);
+
+  const revokeInvite = useCallback(async (inviteId: string) => {
+    try {
+      const { data, error } = await supabase.rpc("revoke_session_invite", { p_invite_id: inviteId });
+      if (error) throw error;
+      setInvites(prev => prev.map(i => i.id === inviteId ? { ...i, revokedAt: data.revoked_at } : i));
+    } catch (err) {
+      console.error("Failed to revoke invite:", err);
+      toast({ title: "Error", description: "Failed to revoke invite", variant: "destructive" });
+    }
+  }, [toast]);
+
+  return {
+    invites,
+    loading,
+    createInvite,
+    revokeInvite,
+    reload: load,
+  };
+};
+
+export default useSessionInvites;
@@ -0,0 +1,64 @@
+import { useEffect, useState, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { TrashKind } from "@/lib/sessionTrash";
+
+export interface TrashItem {
+  kind: TrashKind;
+  id: string;
+  label: string;
+  detail: string;
+  // the person for people, the proposer for proposals
+  personId: string | null;
+  deletedAt: string;
+  // when the purge deletes the item for good
+  purgeAt: string;
+}
+
+// Everything in a session's trash, newest first
+export const useSessionTrash = (sessionId: string | null) => {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!sessionId) {
+      setItems([]);
+      return;
+    }
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("list_session_trash", { p_session_id: sessionId });
+      if (error) throw error;
+      setItems((data || []).map(i => ({
+        kind: i.kind as TrashKind,
+        id: i.id,
+        label: i.label,
+        detail: i.detail,
+        personId: i.person_id,
+        deletedAt: i.deleted_at,
+        purgeAt: i.purge_at
+      })));
+    } catch (err) {
+      console.error("Failed to load trash:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // drop an item locally once it has been restored elsewhere
+  const removeItem = useCallback((kind: TrashKind, id: string) => {
+    setItems(prev => prev.filter(i => !(i.kind === kind && i.id === id)));
+  }, []);
+
+  return {
+    items,
+    loading,
+    removeItem,
+    reload: load,
+  };
+};
+
+export default useSessionTrash;
@@ -0,0 +1,22 @@
+import { useCallback } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { ToastAction } from "@/components/ui/toast";
+
+// Toast shown after moving something to the trash, with an Undo button
+export const useUndoToast = () => {
+  const { toast } = useToast();
+
+  return useCallback((opts: { title: string; description: string; onUndo: () => void }) => {
+    toast({
+      title: opts.title,
+      description: opts.description,
+      action: (
+        <ToastAction altText="Undo" onClick={opts.onUndo}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  }, [toast]);
+};
+
+export default useUndoToast;
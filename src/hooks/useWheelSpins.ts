@@ -0,0 +1,141 @@
+import { useEffect, useState, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Json } from "@/integrations/supabase/types";
+import { drawWheel, newSeed, WheelSlice, WheelWeighting } from "@/lib/wheel";
+
+export interface WheelSpin {
+  id: string;
+  seed: number;
+  weighting: WheelWeighting;
+  slices: WheelSlice[];
+  // null once the picked proposal has been removed
+  pickedProposalId: string | null;
+  pickedTitle: string;
+  spunBy: string;
+  createdAt: string;
+}
+
+type WheelSpinRow = {
+  id: string;
+  seed: number;
+  weighting: string;
+  slices: Json;
+  picked_proposal_id: string | null;
+  picked_title: string;
+  spun_by: string;
+  created_at: string;
+};
+
+type SliceRow = { proposal_id: string; title: string; weight: number };
+
+const toSpin = (row: WheelSpinRow): WheelSpin => ({
+  id: row.id,
+  seed: row.seed,
+  weighting: row.weighting === "score" ? "score" : "average",
+  slices: ((row.slices as SliceRow[] | null) ?? []).map(s => ({ proposalId: s.proposal_id, title: s.title, weight: s.weight })),
+  pickedProposalId: row.picked_proposal_id,
+  pickedTitle: row.picked_title,
+  spunBy: row.spun_by,
+  createdAt: row.created_at,
+});
+
+// The session's latest wheel spin, kept live via realtime so every device
+// replays the same spin. Only admins can spin.
+export const useWheelSpins = (sessionId: string | null, isAdmin: boolean) => {
+  const { toast } = useToast();
+  const [latestSpin, setLatestSpin] = useState<WheelSpin | null>(null);
+  const [spinning, setSpinning] = useState(false);
+  const [loaded, setLoaded] = useState(false);
+
+  const load = useCallback(async () => {
+    if (!sessionId) {
+      setLatestSpin(null);
+      setLoaded(true);
+      return;
+    }
+    try {
+      const { data, error } = await supabase
+        .from("wheel_spins")
+        .select("*")
+        .eq("session_id", sessionId)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      setLatestSpin(data ? toSpin(data) : null);
+    } catch (err) {
+      console.error("Failed to load wheel spins:", err);
+    } finally {
+      setLoaded(true);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    const channel = supabase
+      .channel(`wheel-spins-${sessionId}`)
+      .on<WheelSpinRow & { session_id: string }>('postgres_changes', { event: '*', schema: 'public', table: 'wheel_spins' }, (payload) => {
+        if (payload.eventType === 'DELETE' || payload.new.session_id !== sessionId) return;
+        const spin = toSpin(payload.new);
+        setLatestSpin(prev => {
+          if (payload.eventType === 'UPDATE') return prev?.id === spin.id ? spin : prev;
+          return !prev || spin.createdAt >= prev.createdAt ? spin : prev;
+        });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [sessionId]);
+
+  const spin = async (slices: WheelSlice[], weighting: WheelWeighting) => {
+    if (!sessionId || slices.length < 2) return;
+    if (!isAdmin) {
+      toast({ title: "Not allowed", description: "Only session admins can spin the wheel.", variant: "destructive" });
+      return;
+    }
+    const seed = newSeed();
+    const draw = drawWheel(slices, seed);
+    if (!draw) return;
+    const picked = slices[draw.pickedIndex];
+
+    setSpinning(true);
+    try {
+      const { data, error } = await supabase
+        .from("wheel_spins")
+        .insert({
+          session_id: sessionId,
+          seed,
+          weighting,
+          slices: slices.map(s => ({ proposal_id: s.proposalId, title: s.title, weight: s.weight })),
+          picked_proposal_id: picked.proposalId,
+          picked_title: picked.title,
+        })
+        .select()
+        .single();
+      if (error) throw error;
+      setLatestSpin(toSpin(data));
+    } catch (err) {
+      console.error("Failed to spin the wheel:", err);
+      toast({ title: "Error", description: "Failed to spin the wheel. Please try again.", variant: "destructive" });
+    } finally {
+      setSpinning(false);
+    }
+  };
+
+  return {
+    latestSpin,
+    loaded,
+    spinning,
+    spin,
+  };
+};
+
+export default useWheelSpins;
@@ -83,53 +83,217 @@ export type Database = {
           },
         ]
       }
+      genres: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      movie_genres: {
+        Row: {
+          genre_id: string
+          movie_id: string
+          position: number
+        }
+        Insert: {
+          genre_id: string
+          movie_id: string
+          position: number
+        }
+        Update: {
+          genre_id?: string
+          movie_id?: string
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "movie_genres_genre_id_fkey"
+            columns: ["genre_id"]
+            isOneToOne: false
+            referencedRelation: "genres"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movie_genres_movie_id_fkey"
+            columns: ["movie_id"]
+            isOneToOne: false
+            referencedRelation: "movies"
+            referencedColumns: ["imdb_id"]
+          },
+        ]
+      }
+      movie_night_rsvps: {
+        Row: {
+          night_id: string
+          person_id: string
+          response: string
+          updated_at: string
+        }
+        Insert: {
+          night_id: string
+          person_id: string
+          response: string
+          updated_at?: string
+        }
+        Update: {
+          night_id?: string
+          person_id?: string
+          response?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "movie_night_rsvps_night_id_fkey"
+            columns: ["night_id"]
+            isOneToOne: false
+            referencedRelation: "movie_nights"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movie_night_rsvps_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "session_people"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      movie_nights: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          note: string | null
+          scheduled_for: string
+          selected_proposal_id: string | null
+          session_id: string
+          updated_at: string
+          watched_movie_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          note?: string | null
+          scheduled_for: string
+          selected_proposal_id?: string | null
+          session_id: string
+          updated_at?: string
+          watched_movie_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          note?: string | null
+          scheduled_for?: string
+          selected_proposal_id?: string | null
+          session_id?: string
+          updated_at?: string
+          watched_movie_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "movie_nights_selected_proposal_id_fkey"
+            columns: ["selected_proposal_id"]
+            isOneToOne: false
+            referencedRelation: "movie_proposals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movie_nights_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "movie_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "movie_nights_watched_movie_id_fkey"
+            columns: ["watched_movie_id"]
+            isOneToOne: false
+            referencedRelation: "watched_movies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       movie_proposals: {
         Row: {
           created_at: string
+          created_by: string | null
+          deleted_at: string | null
           director: string | null
-          genre: string | null
+          genres: string[]
           id: string
           imdb_id: string | null
-          imdb_rating: string | null
+          imdb_rating: number | null
+          movie_id: string | null
           movie_title: string
+          parked_at: string | null
           person_id: string
           plot: string | null
           poster: string | null
-          runtime: string | null
+          runtime_minutes: number | null
           session_id: string
-          year: string | null
+          year: number | null
         }
         Insert: {
           created_at?: string
+          created_by?: string | null
+          deleted_at?: string | null
           director?: string | null
-          genre?: string | null
+          genres?: string[]
           id?: string
           imdb_id?: string | null
-          imdb_rating?: string | null
+          imdb_rating?: number | null
+          movie_id?: string | null
           movie_title: string
+          parked_at?: string | null
           person_id: string
           plot?: string | null
           poster?: string | null
-          runtime?: string | null
+          runtime_minutes?: number | null
           session_id: string
-          year?: string | null
+          year?: number | null
         }
         Update: {
           created_at?: string
+          created_by?: string | null
+          deleted_at?: string | null
           director?: string | null
-          genre?: string | null
+          genres?: string[]
           id?: string
           imdb_id?: string | null
-          imdb_rating?: string | null
+          imdb_rating?: number | null
+          movie_id?: string | null
           movie_title?: string
+          parked_at?: string | null
           person_id?: string
           plot?: string | null
           poster?: string | null
-          runtime?: string | null
+          runtime_minutes?: number | null
           session_id?: string
-          year?: string | null
+          year?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "movie_proposals_movie_id_fkey"
+            columns: ["movie_id"]
+            isOneToOne: false
+            referencedRelation: "movies"
+            referencedColumns: ["imdb_id"]
+          },
           {
             foreignKeyName: "movie_proposals_person_id_fkey"
             columns: ["person_id"]
@@ -200,21 +364,181 @@ export type Database = {
       }
       movie_sessions: {
         Row: {
+          approval_threshold: number
+          archived_at: string | null
           created_at: string
+          fairness_strength: number
           id: string
+          join_secret: string | null
+          max_active_proposals: number
           name: string
+          quorum_percent: number
+          selection_method: string
+          tie_break_seed: number
+          tie_breakers: string[]
           updated_at: string
+          vetoes_per_person: number
         }
         Insert: {
+          approval_threshold?: number
+          archived_at?: string | null
           created_at?: string
+          fairness_strength?: number
           id?: string
+          join_secret?: string | null
+          max_active_proposals?: number
           name: string
+          quorum_percent?: number
+          selection_method?: string
+          tie_break_seed?: number
+          tie_breakers?: string[]
           updated_at?: string
+          vetoes_per_person?: number
         }
         Update: {
+          approval_threshold?: number
+          archived_at?: string | null
           created_at?: string
+          fairness_strength?: number
           id?: string
+          join_secret?: string | null
+          max_active_proposals?: number
           name?: string
+          quorum_percent?: number
+          selection_method?: string
+          tie_break_seed?: number
+          tie_breakers?: string[]
+          updated_at?: string
+          vetoes_per_person?: number
+        }
+        Relationships: []
+      }
+      movies: {
+        Row: {
+          actors: string | null
+          created_at: string
+          director: string | null
+          fetched_at: string
+          imdb_id: string
+          imdb_rating: number | null
+          plot: string | null
+          poster: string | null
+          runtime_minutes: number | null
+          title: string
+          updated_at: string
+          year: number | null
+        }
+        Insert: {
+          actors?: string | null
+          created_at?: string
+          director?: string | null
+          fetched_at?: string
+          imdb_id: string
+          imdb_rating?: number | null
+          plot?: string | null
+          poster?: string | null
+          runtime_minutes?: number | null
+          title: string
+          updated_at?: string
+          year?: number | null
+        }
+        Update: {
+          actors?: string | null
+          created_at?: string
+          director?: string | null
+          fetched_at?: string
+          imdb_id?: string
+          imdb_rating?: number | null
+          plot?: string | null
+          poster?: string | null
+          runtime_minutes?: number | null
+          title?: string
+          updated_at?: string
+          year?: number | null
+        }
+        Relationships: []
+      }
+      person_claims: {
+        Row: {
+          claimed_at: string
+          person_id: string
+          user_id: string
+        }
+        Insert: {
+          claimed_at?: string
+          person_id: string
+          user_id: string
+        }
+        Update: {
+          claimed_at?: string
+          person_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "person_claims_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: true
+            referencedRelation: "session_people"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      person_reclaim_requests: {
+        Row: {
+          created_at: string
+          id: string
+          person_id: string
+          resolved_at: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          person_id: string
+          resolved_at?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          person_id?: string
+          resolved_at?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "person_reclaim_requests_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "session_people"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          display_name: string
+          id: string
+          owner_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          display_name: string
+          id?: string
+          owner_id?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          display_name?: string
+          id?: string
+          owner_id?: string
           updated_at?: string
         }
         Relationships: []
@@ -254,29 +578,245 @@ export type Database = {
           },
         ]
       }
+      proposal_proposers: {
+        Row: {
+          created_at: string
+          person_id: string
+          proposal_id: string
+        }
+        Insert: {
+          created_at?: string
+          person_id: string
+          proposal_id: string
+        }
+        Update: {
+          created_at?: string
+          person_id?: string
+          proposal_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proposal_proposers_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "session_people"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proposal_proposers_proposal_id_fkey"
+            columns: ["proposal_id"]
+            isOneToOne: false
+            referencedRelation: "movie_proposals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      proposal_vetoes: {
+        Row: {
+          created_at: string
+          night_id: string | null
+          person_id: string
+          proposal_id: string
+        }
+        Insert: {
+          created_at?: string
+          night_id?: string | null
+          person_id: string
+          proposal_id: string
+        }
+        Update: {
+          created_at?: string
+          night_id?: string | null
+          person_id?: string
+          proposal_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "proposal_vetoes_night_id_fkey"
+            columns: ["night_id"]
+            isOneToOne: false
+            referencedRelation: "movie_nights"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proposal_vetoes_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "session_people"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "proposal_vetoes_proposal_id_fkey"
+            columns: ["proposal_id"]
+            isOneToOne: false
+            referencedRelation: "movie_proposals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_activity: {
+        Row: {
+          action: string
+          actor_id: string | null
+          entity: string
+          id: string
+          new_values: Json | null
+          occurred_at: string
+          old_values: Json | null
+          person_id: string | null
+          row_id: string | null
+          session_id: string
+          subject: string | null
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          entity: string
+          id?: string
+          new_values?: Json | null
+          occurred_at?: string
+          old_values?: Json | null
+          person_id?: string | null
+          row_id?: string | null
+          session_id: string
+          subject?: string | null
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          entity?: string
+          id?: string
+          new_values?: Json | null
+          occurred_at?: string
+          old_values?: Json | null
+          person_id?: string | null
+          row_id?: string | null
+          session_id?: string
+          subject?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_activity_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "movie_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_invites: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          id: string
+          revoked_at: string | null
+          session_id: string
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expires_at: string
+          id?: string
+          revoked_at?: string | null
+          session_id: string
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          id?: string
+          revoked_at?: string | null
+          session_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_invites_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "movie_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_members: {
+        Row: {
+          invite_id: string | null
+          joined_at: string
+          role: string
+          session_id: string
+          user_id: string
+        }
+        Insert: {
+          invite_id?: string | null
+          joined_at?: string
+          role?: string
+          session_id: string
+          user_id: string
+        }
+        Update: {
+          invite_id?: string | null
+          joined_at?: string
+          role?: string
+          session_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_members_invite_id_fkey"
+            columns: ["invite_id"]
+            isOneToOne: false
+            referencedRelation: "session_invites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_members_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "movie_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       session_people: {
         Row: {
           created_at: string
+          deleted_at: string | null
           id: string
           is_present: boolean
           name: string
+          profile_id: string | null
           session_id: string
         }
         Insert: {
           created_at?: string
+          deleted_at?: string | null
           id?: string
           is_present?: boolean
           name: string
+          profile_id?: string | null
           session_id: string
         }
         Update: {
           created_at?: string
+          deleted_at?: string | null
           id?: string
           is_present?: boolean
           name?: string
+          profile_id?: string | null
           session_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "session_people_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "session_people_session_id_fkey"
             columns: ["session_id"]
@@ -289,63 +829,386 @@ export type Database = {
       watched_movies: {
         Row: {
           created_at: string
+          deleted_at: string | null
           director: string | null
-          genre: string | null
+          genres: string[]
           id: string
           imdb_id: string | null
-          imdb_rating: string | null
+          imdb_rating: number | null
+          movie_id: string | null
+          movie_night_id: string | null
           movie_title: string
           plot: string | null
           poster: string | null
           proposed_by: string
-          runtime: string | null
+          runtime_minutes: number | null
           session_id: string
           updated_at: string
           watched_at: string
-          year: string | null
+          year: number | null
         }
         Insert: {
           created_at?: string
+          deleted_at?: string | null
           director?: string | null
-          genre?: string | null
+          genres?: string[]
           id?: string
           imdb_id?: string | null
-          imdb_rating?: string | null
+          imdb_rating?: number | null
+          movie_id?: string | null
+          movie_night_id?: string | null
           movie_title: string
           plot?: string | null
           poster?: string | null
           proposed_by: string
-          runtime?: string | null
+          runtime_minutes?: number | null
           session_id: string
           updated_at?: string
           watched_at?: string
-          year?: string | null
+          year?: number | null
         }
         Update: {
           created_at?: string
+          deleted_at?: string | null
           director?: string | null
-          genre?: string | null
+          genres?: string[]
           id?: string
           imdb_id?: string | null
-          imdb_rating?: string | null
+          imdb_rating?: number | null
+          movie_id?: string | null
+          movie_night_id?: string | null
           movie_title?: string
           plot?: string | null
           poster?: string | null
           proposed_by?: string
-          runtime?: string | null
+          runtime_minutes?: number | null
           session_id?: string
           updated_at?: string
           watched_at?: string
-          year?: string | null
+          year?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "watched_movies_movie_id_fkey"
+            columns: ["movie_id"]
+            isOneToOne: false
+            referencedRelation: "movies"
+            referencedColumns: ["imdb_id"]
+          },
+          {
+            foreignKeyName: "watched_movies_movie_night_id_fkey"
+            columns: ["movie_night_id"]
+            isOneToOne: false
+            referencedRelation: "movie_nights"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wheel_spins: {
+        Row: {
+          created_at: string
+          id: string
+          picked_proposal_id: string | null
+          picked_title: string
+          seed: number
+          session_id: string
+          slices: Json
+          spun_by: string
+          weighting: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          picked_proposal_id?: string | null
+          picked_title: string
+          seed: number
+          session_id: string
+          slices: Json
+          spun_by?: string
+          weighting: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          picked_proposal_id?: string | null
+          picked_title?: string
+          seed?: number
+          session_id?: string
+          slices?: Json
+          spun_by?: string
+          weighting?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wheel_spins_picked_proposal_id_fkey"
+            columns: ["picked_proposal_id"]
+            isOneToOne: false
+            referencedRelation: "movie_proposals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wheel_spins_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "movie_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      active_proposal_count: {
+        Args: { p_person_id: string }
+        Returns: number
+      }
+      approve_person_reclaim: {
+        Args: { p_request_id: string }
+        Returns: {
+          claimed_at: string
+          person_id: string
+          user_id: string
+        }
+      }
+      can_act_as: {
+        Args: { p_person_id: string }
+        Returns: boolean
+      }
+      can_manage_proposal: {
+        Args: { p_proposal_id: string }
+        Returns: boolean
+      }
+      catalogue_movie: {
+        Args: {
+          p_actors: string
+          p_director: string
+          p_genres: string[]
+          p_imdb_id: string
+          p_imdb_rating: number
+          p_plot: string
+          p_poster: string
+          p_runtime_minutes: number
+          p_title: string
+          p_year: number
+        }
+        Returns: undefined
+      }
+      claim_person: {
+        Args: { p_person_id: string }
+        Returns: {
+          claimed_at: string
+          person_id: string
+          user_id: string
+        }
+      }
+      create_session: {
+        Args: { p_name: string }
+        Returns: {
+          approval_threshold: number
+          archived_at: string | null
+          created_at: string
+          fairness_strength: number
+          id: string
+          join_secret: string | null
+          max_active_proposals: number
+          name: string
+          quorum_percent: number
+          selection_method: string
+          tie_break_seed: number
+          tie_breakers: string[]
+          updated_at: string
+          vetoes_per_person: number
+        }
+      }
+      create_session_invite: {
+        Args: { p_expires_in?: unknown; p_session_id: string }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          id: string
+          revoked_at: string | null
+          session_id: string
+          token: string
+        }
+      }
+      generate_join_secret: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      has_session_access: {
+        Args: { p_session_id: string }
+        Returns: boolean
+      }
+      is_session_admin: {
+        Args: { p_session_id: string }
+        Returns: boolean
+      }
+      join_as_new_person: {
+        Args: { p_name: string; p_session_id: string }
+        Returns: {
+          created_at: string
+          id: string
+          is_present: boolean
+          name: string
+          deleted_at: string | null
+          profile_id: string | null
+          session_id: string
+        }
+      }
+      join_session: {
+        Args: { p_session_id: string; p_token?: string }
+        Returns: {
+          approval_threshold: number
+          archived_at: string | null
+          created_at: string
+          fairness_strength: number
+          id: string
+          join_secret: string | null
+          max_active_proposals: number
+          name: string
+          quorum_percent: number
+          selection_method: string
+          tie_break_seed: number
+          tie_breakers: string[]
+          updated_at: string
+          vetoes_per_person: number
+        }
+      }
+      link_person_profile: {
+        Args: { p_person_id: string; p_profile_id: string }
+        Returns: undefined
+      }
+      list_my_sessions: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          archived_at: string | null
+          created_at: string
+          device_count: number
+          id: string
+          last_activity_at: string
+          name: string
+          people_count: number
+          role: string
+          watched_count: number
+        }[]
+      }
+      list_session_trash: {
+        Args: { p_session_id: string }
+        Returns: {
+          deleted_at: string
+          detail: string
+          id: string
+          kind: string
+          label: string
+          person_id: string
+          purge_at: string
+        }[]
+      }
+      mark_proposal_watched: {
+        Args: { p_night_id?: string; p_proposal_id: string }
+        Returns: string
+      }
+      merge_proposal_into: {
+        Args: { p_duplicate_id: string; p_keeper_id: string }
+        Returns: undefined
+      }
+      movie_genre_names: {
+        Args: { p_imdb_id: string }
+        Returns: string[]
+      }
+      night_session_id: {
+        Args: { p_night_id: string }
+        Returns: string
+      }
+      park_proposal: {
+        Args: { p_proposal_id: string }
+        Returns: undefined
+      }
+      person_session_id: {
+        Args: { p_person_id: string }
+        Returns: string
+      }
+      promote_proposal: {
+        Args: { p_proposal_id: string }
+        Returns: undefined
+      }
+      proposal_session_id: {
+        Args: { p_proposal_id: string }
+        Returns: string
+      }
+      purge_session_trash: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      reject_person_reclaim: {
+        Args: { p_request_id: string }
+        Returns: undefined
+      }
+      request_person_reclaim: {
+        Args: { p_person_id: string }
+        Returns: string
+      }
+      request_session_token: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      restore_item: {
+        Args: { p_id: string; p_kind: string }
+        Returns: undefined
+      }
+      revoke_session_invite: {
+        Args: { p_invite_id: string }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          id: string
+          revoked_at: string | null
+          session_id: string
+          token: string
+        }
+      }
+      revoke_veto: {
+        Args: { p_person_id: string; p_proposal_id: string }
+        Returns: undefined
+      }
+      second_proposal: {
+        Args: { p_person_id: string; p_proposal_id: string }
+        Returns: undefined
+      }
+      set_member_role: {
+        Args: { p_role: string; p_session_id: string; p_user_id: string }
+        Returns: {
+          invite_id: string | null
+          joined_at: string
+          role: string
+          session_id: string
+          user_id: string
+        }
+      }
+      trash_item: {
+        Args: { p_id: string; p_kind: string }
+        Returns: string
+      }
+      trash_retention: {
+        Args: Record<PropertyKey, never>
+        Returns: unknown
+      }
+      upcoming_night_id: {
+        Args: { p_session_id: string }
+        Returns: string
+      }
+      veto_proposal: {
+        Args: { p_person_id: string; p_proposal_id: string }
+        Returns: undefined
+      }
+      withdraw_proposal: {
+        Args: { p_person_id: string; p_proposal_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { proposerNeeds, fairnessBoost } from '../fairness';
+
+const day = (n: number) => new Date(Date.UTC(2026, 9, n)).getTime();
+
+const people = [
+  { id: 'p1', name: 'Alice' },
+  { id: 'p2', name: 'Bob' },
+  { id: 'p3', name: 'Cleo' },
+];
+
+const watched = [
+  { proposedBy: 'Alice', watchedAt: new Date(day(1)).toISOString() },
+  { proposedBy: 'Alice, Bob', watchedAt: new Date(day(11)).toISOString() },
+];
+
+describe('fairness', () => {
+  // Test that need grows with how rarely and how long ago a person's picks were watched
+  it('proposerNeeds weighs frequency and recency', () => {
+    expect(proposerNeeds(people, watched, day(21))).toEqual({ p1: 0.25, p2: 0.5, p3: 1 });
+  });
+
+  // Test that a session without history owes nobody a boost
+  it('proposerNeeds is zero without history', () => {
+    expect(proposerNeeds(people, [], day(21))).toEqual({ p1: 0, p2: 0, p3: 0 });
+  });
+
+  // Test that the boost averages the backers' needs and scales with strength
+  it('fairnessBoost scales the backers\' average need', () => {
+    const needs = { p1: 0.25, p2: 0.5, p3: 1 };
+
+    expect(fairnessBoost(['p3'], needs, 50)).toBe(1.5);
+    expect(fairnessBoost(['p1', 'p3'], needs, 100)).toBe(1.625);
+    expect(fairnessBoost(['p3'], needs, 0)).toBe(1);
+  });
+});
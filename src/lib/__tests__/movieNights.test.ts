@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { isAttending, startedNight, upcomingNight, MovieNight } from '../movieNights';
+
+const night = (id: string, scheduledFor: string, extra: Partial<MovieNight> = {}): MovieNight => ({
+  id,
+  scheduledFor,
+  note: null,
+  selectedProposalId: null,
+  watchedMovieId: null,
+  rsvps: {},
+  ...extra,
+});
+
+describe('movieNights', () => {
+  // Test that the upcoming night is the earliest one nothing was watched on yet
+  it('upcomingNight skips nights that are over', () => {
+    const nights = [
+      night('later', '2026-10-24T19:00:00+00:00'),
+      night('done', '2026-10-10T19:00:00+00:00', { watchedMovieId: 'w1' }),
+      night('next', '2026-10-17T19:00:00+00:00'),
+    ];
+
+    const now = new Date('2026-10-12T12:00:00+00:00');
+
+    expect(upcomingNight(nights, now)?.id).toBe('next');
+    expect(upcomingNight([nights[1]], now)).toBeNull();
+  });
+
+  // Test that a night stays upcoming during the evening but not once the grace period is over
+  it('upcomingNight forgets nights nobody closed after the grace period', () => {
+    const nights = [
+      night('stale', '2026-10-10T19:00:00+00:00'),
+      night('next', '2026-10-17T19:00:00+00:00'),
+    ];
+
+    expect(upcomingNight(nights, new Date('2026-10-10T23:00:00+00:00'))?.id).toBe('stale');
+    expect(upcomingNight(nights, new Date('2026-10-11T12:00:00+00:00'))?.id).toBe('next');
+    expect(upcomingNight([nights[0]], new Date('2026-10-11T12:00:00+00:00'))).toBeNull();
+  });
+
+  // Test that only a night that has started, and is within its grace period, is being held
+  it('startedNight is the upcoming night once it has started', () => {
+    const nights = [night('friday', '2026-10-23T19:00:00+00:00')];
+
+    expect(startedNight(nights, new Date('2026-10-19T20:00:00+00:00'))).toBeNull();
+    expect(startedNight(nights, new Date('2026-10-23T21:00:00+00:00'))?.id).toBe('friday');
+    expect(startedNight(nights, new Date('2026-10-24T12:00:00+00:00'))).toBeNull();
+  });
+
+  // Test that only a yes counts as attending
+  it('isAttending counts yes only', () => {
+    const n = night('n', '2026-10-17T19:00:00+00:00', { rsvps: { bob: 'yes', alice: 'maybe', carol: 'no' } });
+
+    expect(isAttending(n, 'bob')).toBe(true);
+    expect(isAttending(n, 'alice')).toBe(false);
+    expect(isAttending(n, 'carol')).toBe(false);
+    expect(isAttending(n, 'dave')).toBe(false);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { compareByTieBreakers, meetsQuorum, seededDraw, TieBreakStats } from '../resultRules';
+
+const movie = (proposalId: string, overrides: Partial<TieBreakStats> = {}): TieBreakStats => ({
+  proposalId,
+  totalRatings: 3,
+  oneStarVotes: 0,
+  createdAt: '2026-10-19T20:00:00Z',
+  runtimeMinutes: 120,
+  ...overrides,
+});
+
+describe('resultRules', () => {
+  // Test that tie-breakers apply in order and later ones only decide remaining ties
+  it('compareByTieBreakers applies tie-breakers in order', () => {
+    const a = movie('a', { totalRatings: 4, oneStarVotes: 1 });
+    const b = movie('b', { totalRatings: 3, oneStarVotes: 0 });
+
+    expect(compareByTieBreakers(['more_voters', 'fewer_one_stars'], 0)(a, b)).toBeLessThan(0);
+    expect(compareByTieBreakers(['fewer_one_stars', 'more_voters'], 0)(a, b)).toBeGreaterThan(0);
+    expect(compareByTieBreakers([], 0)(a, b)).toBe(0);
+  });
+
+  // Test that unknown runtimes and unsaved proposals lose their tie-breaks
+  it('puts unknown runtimes and timestamps last', () => {
+    const known = movie('a', { runtimeMinutes: 150 });
+    const unknown = movie('b', { runtimeMinutes: 0, createdAt: undefined });
+
+    expect(compareByTieBreakers(['shorter_runtime'], 0)(known, unknown)).toBeLessThan(0);
+    expect(compareByTieBreakers(['older_proposal'], 0)(known, unknown)).toBeLessThan(0);
+    expect(compareByTieBreakers(['older_proposal'], 0)(movie('c', { createdAt: '2026-10-18T20:00:00Z' }), known)).toBeLessThan(0);
+  });
+
+  // Test that the random draw is stable for a seed and changes with it
+  it('draws the same order for the same seed', () => {
+    const ids = ['m1', 'm2', 'm3', 'm4', 'm5'];
+    const order = (seed: number) => [...ids].sort((x, y) => compareByTieBreakers(['random'], seed)(movie(x), movie(y)));
+
+    expect(order(42)).toEqual(order(42));
+    expect(seededDraw(42, 'm1')).toBe(seededDraw(42, 'm1'));
+    expect([1, 2, 3, 4, 5].some(seed => order(seed).join() !== order(42).join())).toBe(true);
+  });
+
+  // Test that the quorum is a share of present people and 0 disables it
+  it('meetsQuorum compares rated people to present people', () => {
+    expect(meetsQuorum(2, 4, 50)).toBe(true);
+    expect(meetsQuorum(1, 4, 50)).toBe(false);
+    expect(meetsQuorum(1, 3, 34)).toBe(false);
+    expect(meetsQuorum(0, 0, 0)).toBe(true);
+  });
+});
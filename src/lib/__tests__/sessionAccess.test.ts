@@ -0,0 +1,33 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  buildInviteLink,
+  sessionTokenFetch,
+  setActiveSessionToken,
+} from '../sessionAccess';
+
+describe('sessionAccess', () => {
+  afterEach(() => {
+    setActiveSessionToken(null);
+    vi.unstubAllGlobals();
+  });
+
+  // Test that invite links point at the session's join screen and carry the key
+  it('buildInviteLink builds a join link with the key', () => {
+    expect(buildInviteLink('sess-1', 'secret-1', 'https://example.com')).toBe('https://example.com/s/sess-1/join?key=secret-1');
+  });
+
+  // Test that the active token is attached as a header on requests
+  it('sessionTokenFetch adds the x-session-token header when a token is active', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await sessionTokenFetch('https://example.com', { headers: { apikey: 'anon' } });
+    expect(fetchMock).toHaveBeenLastCalledWith('https://example.com', { headers: { apikey: 'anon' } });
+
+    setActiveSessionToken('secret-1');
+    await sessionTokenFetch('https://example.com', { headers: { apikey: 'anon' } });
+    const headers = fetchMock.mock.calls[1][1].headers as Headers;
+    expect(headers.get('x-session-token')).toBe('secret-1');
+    expect(headers.get('apikey')).toBe('anon');
+  });
+});
@@ -1,5 +1,76 @@
 import { describe, it, expect } from 'vitest';
-import { MovieRating } from '@/types/session';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { transformPeopleData, transformRatingsData, extractClaimUserId, proposerIdsOf, edgeFunctionErrorMessage } from '../sessionHelpers';
 
 describe('sessionHelpers', () => {
+  // Test that proposals are grouped under their proposer and claims and profiles are exposed
+  it('transformPeopleData maps people with their movies, claim and profile', () => {
+    const people = [
+      { id: 'p1', name: 'Alice', is_present: true, person_claims: { user_id: 'device-1' }, profile_id: 'profile-1' },
+      { id: 'p2', name: 'Bob', is_present: false, person_claims: null },
+    ];
+    const proposals = [
+      { id: 'm1', person_id: 'p1', movie_title: 'Alien' },
+      { id: 'm2', person_id: 'p1', movie_title: 'Heat' },
+      { id: 'm3', person_id: 'p2', movie_title: 'Tenet' },
+    ];
+
+    expect(transformPeopleData(people, proposals)).toEqual([
+      {
+        id: 'p1', name: 'Alice', isPresent: true, claimedBy: 'device-1', profileId: 'profile-1',
+        movies: [{ proposalId: 'm1', title: 'Alien' }, { proposalId: 'm2', title: 'Heat' }],
+      },
+      { id: 'p2', name: 'Bob', isPresent: false, movies: [{ proposalId: 'm3', title: 'Tenet' }], claimedBy: null, profileId: null },
+    ]);
+  });
+
+  // Test that proposals with the same title stay separate and list every proposer
+  it('transformRatingsData keys proposals by id and lists all proposers', () => {
+    const people = [
+      { id: 'p1', name: 'Alice' },
+      { id: 'p2', name: 'Bob' },
+      { id: 'p3', name: 'Cleo' },
+    ];
+    const proposals = [
+      {
+        id: 'm1', person_id: 'p1', movie_title: 'Heat',
+        movie_ratings: [{ person_id: 'p2', rating: 4 }],
+        proposal_proposers: [
+          { person_id: 'p3', created_at: '2026-10-19T21:00:00Z' },
+          { person_id: 'p1', created_at: '2026-10-19T20:00:00Z' },
+          { person_id: 'p2', created_at: '2026-10-19T20:30:00Z' },
+        ],
+      },
+      { id: 'm2', person_id: 'p3', movie_title: 'Heat', movie_ratings: [], proposal_vetoes: [{ person_id: 'p1', night_id: 'n1' }, { person_id: 'p2' }] },
+    ];
+
+    const [first, second] = transformRatingsData({ proposals }, people);
+    expect(first).toMatchObject({ proposalId: 'm1', proposerId: 'p1', proposerIds: ['p1', 'p2', 'p3'], proposedBy: 'Alice, Bob, Cleo', ratings: { p2: 4 } });
+    expect(second).toMatchObject({ proposalId: 'm2', proposerIds: ['p3'], proposedBy: 'Cleo', ratings: {}, vetoedBy: ['p1', 'p2'], vetoNights: { p1: 'n1', p2: null } });
+    expect(first.vetoedBy).toEqual([]);
+    expect(transformPeopleData([{ id: 'p3', name: 'Cleo' }], proposals)[0].movies.map(m => m.proposalId)).toEqual(['m1', 'm2']);
+  });
+
+  // Test that the original proposer always comes first, even without the embed
+  it('proposerIdsOf falls back to the original proposer', () => {
+    expect(proposerIdsOf({ person_id: 'p1' })).toEqual(['p1']);
+    expect(proposerIdsOf({ person_id: 'p1', proposal_proposers: [{ person_id: 'p2' }, { person_id: 'p1' }] })).toEqual(['p1', 'p2']);
+  });
+
+  // Test that both embedding shapes returned by PostgREST are handled
+  it('extractClaimUserId handles object, array and missing claims', () => {
+    expect(extractClaimUserId({ user_id: 'u1' })).toBe('u1');
+    expect(extractClaimUserId([{ user_id: 'u2' }])).toBe('u2');
+    expect(extractClaimUserId([])).toBeNull();
+    expect(extractClaimUserId(undefined)).toBeNull();
+  });
+  // Test that an edge function's own error message is read from its response
+  it('edgeFunctionErrorMessage reads the error an edge function answered with', async () => {
+    const answered = (body: unknown) => new FunctionsHttpError(new Response(JSON.stringify(body), { status: 409 }));
+
+    expect(await edgeFunctionErrorMessage(answered({ error: 'This movie is already in the backlog.' }))).toBe('This movie is already in the backlog.');
+    expect(await edgeFunctionErrorMessage(answered({}))).toBeNull();
+    expect(await edgeFunctionErrorMessage(new FunctionsHttpError(new Response('Bad gateway', { status: 502 })))).toBeNull();
+    expect(await edgeFunctionErrorMessage(new Error('offline'))).toBeNull();
+  });
 });
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { parseSessionPath, sessionPath } from '../sessionRoutes';
+
+describe('sessionRoutes', () => {
+  // Test that each URL section maps to its view, tab and selected item
+  it('parseSessionPath restores view, tab and selection', () => {
+    expect(parseSessionPath('')).toEqual({ view: 'session', tab: 'people' });
+    expect(parseSessionPath('rate')).toEqual({ view: 'session', tab: 'rate', proposalId: undefined });
+    expect(parseSessionPath('rate/prop-1')).toEqual({ view: 'session', tab: 'rate', proposalId: 'prop-1' });
+    expect(parseSessionPath('results')).toEqual({ view: 'session', tab: 'results' });
+    expect(parseSessionPath('watched/w-1')).toEqual({ view: 'watched', tab: 'people', watchedMovieId: 'w-1' });
+    expect(parseSessionPath('stats/person/p-1')).toEqual({ view: 'stats', tab: 'people', personId: 'p-1' });
+    expect(parseSessionPath('stats')).toEqual({ view: 'stats', tab: 'people', personId: undefined });
+    expect(parseSessionPath('join')).toEqual({ view: 'join', tab: 'people' });
+    expect(parseSessionPath('trash')).toEqual({ view: 'trash', tab: 'people' });
+    expect(parseSessionPath('activity')).toEqual({ view: 'activity', tab: 'people' });
+  });
+
+  // Test that unknown sections fall back to the people tab
+  it('parseSessionPath falls back to the default route', () => {
+    expect(parseSessionPath(undefined)).toEqual({ view: 'session', tab: 'people' });
+    expect(parseSessionPath('nope/123')).toEqual({ view: 'session', tab: 'people' });
+  });
+
+  // Test that built paths parse back to the same route
+  it('sessionPath round-trips through parseSessionPath', () => {
+    const routes = [
+      { view: 'session', tab: 'rate', proposalId: 'prop-1' },
+      { view: 'session', tab: 'results' },
+      { view: 'watched', tab: 'people', watchedMovieId: 'w-1' },
+      { view: 'stats', tab: 'people', personId: 'p-1' },
+      { view: 'trash', tab: 'people' },
+      { view: 'activity', tab: 'people' },
+    ] as const;
+
+    routes.forEach(route => {
+      const path = sessionPath('sess-1', route);
+      expect(path.startsWith('/s/sess-1')).toBe(true);
+      expect(parseSessionPath(path.replace('/s/sess-1', ''))).toEqual(route);
+    });
+    expect(sessionPath('sess-1')).toBe('/s/sess-1');
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { availableMinutes, runtimeFit } from '../timeBudget';
+
+describe('timeBudget', () => {
+  // Test that a finish-by time counts the minutes left, rolling over midnight
+  it('availableMinutes counts down to the finish time', () => {
+    const now = new Date(2026, 9, 19, 21, 15);
+
+    expect(availableMinutes({ kind: 'until', until: '23:30' }, now)).toBe(135);
+    expect(availableMinutes({ kind: 'until', until: '00:45' }, now)).toBe(210);
+    expect(availableMinutes({ kind: 'minutes', minutes: 110 }, now)).toBe(110);
+  });
+
+  // Test that runtimes are compared to the budget and missing ones are reported as unknown
+  it('runtimeFit compares the runtime to the budget', () => {
+    expect(runtimeFit(108, 110)).toBe('fits');
+    expect(runtimeFit(121, 110)).toBe('too_long');
+    expect(runtimeFit(null, 110)).toBe('unknown');
+    expect(runtimeFit(undefined, 110)).toBe('unknown');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { rankByMethod, Ballot } from '../votingMethods';
+
+const candidates = [
+  { proposalId: 'a', title: 'Alien' },
+  { proposalId: 'b', title: 'Heat' },
+  { proposalId: 'c', title: 'Tenet' },
+];
+
+const ballot = (personId: string, a: number, b: number, c: number): Ballot => ({ personId, ratings: { a, b, c } });
+
+// Two Alien fans, two Tenet fans and one Heat fan who all like Heat well enough
+const ballots = [
+  ballot('p1', 5, 4, 1),
+  ballot('p2', 5, 4, 1),
+  ballot('p3', 1, 4, 5),
+  ballot('p4', 1, 4, 5),
+  ballot('p5', 4, 5, 1),
+];
+
+const order = (method: Parameters<typeof rankByMethod>[0], threshold?: number) =>
+  rankByMethod(method, candidates, ballots, threshold).ranking.map(r => r.proposalId);
+
+describe('votingMethods', () => {
+  // Test that the mean ranks by average stars and ignores unrated movies
+  it('ranks by average hype', () => {
+    const result = rankByMethod('mean', candidates, [ballot('p1', 5, 3, 0), ballot('p2', 3, 3, 0)]);
+
+    expect(result.ranking.map(r => r.proposalId)).toEqual(['a', 'b', 'c']);
+    expect(result.ranking[0].scoreLabel).toBe('★ 4.0');
+    expect(result.explanation).toBe('"Alien" has the highest average hype: 4.0★ from 2 ratings.');
+  });
+
+  // Test that one low outlier can sink a movie's mean but not its median
+  it('median resists a single outlier', () => {
+    const outlier = [ballot('p1', 5, 4, 0), ballot('p2', 5, 4, 0), ballot('p3', 1, 4, 0)];
+
+    expect(rankByMethod('mean', candidates, outlier).winnerId).toBe('b');
+    expect(rankByMethod('median', candidates, outlier).winnerId).toBe('a');
+  });
+
+  // Test that approval counts ratings at or above the threshold
+  it('counts approvals at the threshold', () => {
+    expect(order('approval', 4)).toEqual(['b', 'a', 'c']);
+    expect(rankByMethod('approval', candidates, ballots, 4).explanation)
+      .toBe('"Heat" was rated 4★ or more by 5 of 5 present people, more than any other movie.');
+  });
+
+  // Test that a tied approval count is explained as a tie, not an outright win
+  it('explains a tie for the most approvals', () => {
+    const result = rankByMethod('approval', candidates, ballots, 5);
+    expect(result.ranking.map(r => r.score)).toEqual([2, 2, 1]);
+    expect(result.explanation).toBe(
+      '"Alien" was rated 5★ or more by 2 of 5 present people, tied with 1 other movie; the tie was broken by average hype and the session\'s tie-breakers.'
+    );
+  });
+
+  // Test that Borda gives a point per movie beaten on each ballot
+  it('scores Borda points from each star ordering', () => {
+    const result = rankByMethod('borda', candidates, ballots);
+
+    expect(result.ranking.map(r => [r.proposalId, r.score])).toEqual([['b', 6], ['a', 5], ['c', 4]]);
+    expect(result.ranking[0].scoreLabel).toBe('6 pts');
+    expect(result.explanation).toMatch(/^"Heat" scored 6 Borda points: /);
+
+    const tied = rankByMethod('borda', candidates.slice(0, 2), [ballot('p1', 5, 3, 0), ballot('p2', 3, 5, 0)]);
+    expect(tied.explanation).toMatch(/^"Alien" scored 1 Borda points, tied with 1 other movie; the tie was broken by/);
+  });
+
+  // Test that instant-runoff eliminates the fewest first choices and transfers those ballots
+  it('runs off until one movie has a majority', () => {
+    const result = rankByMethod('instant_runoff', candidates, ballots);
+
+    expect(result.ranking.map(r => r.proposalId)).toEqual(['a', 'c', 'b']);
+    expect(result.ranking[2].scoreLabel).toBe('out in round 1');
+    expect(result.explanation).toBe('"Alien" won in round 2 with 3 of 5 first-choice votes after "Heat" was eliminated.');
+  });
+
+  // Test that a movie preferred head-to-head over every other one wins under Schulze
+  it('elects the Condorcet winner', () => {
+    const result = rankByMethod('schulze', candidates, ballots);
+
+    expect(result.winnerId).toBe('b');
+    expect(result.explanation).toBe('"Heat" beats every other movie head-to-head (the Condorcet winner).');
+  });
+
+  // Test that a preference cycle falls back to the tie-break order
+  it('handles a Condorcet cycle', () => {
+    const cycle = [ballot('p1', 5, 4, 3), ballot('p2', 3, 5, 4), ballot('p3', 4, 3, 5)];
+    const result = rankByMethod('schulze', candidates, cycle);
+
+    expect(result.winnerId).toBe('a');
+    expect(result.explanation).toMatch(/^No movie beats all others head-to-head/);
+  });
+
+  // Test that no candidates means no winner under any method
+  it('returns no winner without candidates', () => {
+    expect(rankByMethod('borda', [], ballots)).toEqual({ method: 'borda', ranking: [], winnerId: null, explanation: '' });
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { drawWheel, sliceAngles, WheelSlice } from '../wheel';
+
+const slices: WheelSlice[] = [
+  { proposalId: 'a', title: 'Alien', weight: 3 },
+  { proposalId: 'b', title: 'Heat', weight: 1 },
+];
+
+describe('wheel', () => {
+  // Test that slices take a share of the wheel proportional to their weight
+  it('sliceAngles splits the wheel by weight', () => {
+    expect(sliceAngles(slices)).toEqual([{ start: 0, end: 270 }, { start: 270, end: 360 }]);
+    expect(sliceAngles([{ ...slices[0], weight: 0 }, { ...slices[1], weight: 0 }])).toEqual([{ start: 0, end: 180 }, { start: 180, end: 360 }]);
+  });
+
+  // Test that the same seed always gives the same draw
+  it('drawWheel is deterministic for a seed', () => {
+    expect(drawWheel(slices, 1234)).toEqual(drawWheel(slices, 1234));
+    expect(drawWheel([], 1234)).toBeNull();
+  });
+
+  // Test that the pick lands in the slice under the landing angle, at roughly the weighted rate
+  it('drawWheel picks in proportion to the weights', () => {
+    let alien = 0;
+    for (let seed = 1; seed <= 2000; seed++) {
+      const draw = drawWheel(slices, seed)!;
+      const angle = sliceAngles(slices)[draw.pickedIndex];
+      expect(draw.landingAngle).toBeGreaterThanOrEqual(angle.start);
+      expect(draw.landingAngle).toBeLessThan(angle.end);
+      if (draw.pickedIndex === 0) alien++;
+    }
+    expect(alien / 2000).toBeGreaterThan(0.7);
+    expect(alien / 2000).toBeLessThan(0.8);
+  });
+});
@@ -0,0 +1,27 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Every device signs in anonymously once. The persisted auth session is the
+// per-device secret that person claims are bound to (see person_claims).
+let pendingIdentity: Promise<string> | null = null;
+
+const resolveDeviceIdentity = async (): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (session?.user) return session.user.id;
+
+  const { data, error } = await supabase.auth.signInAnonymously();
+  if (error) throw error;
+  if (!data.user) throw new Error("Anonymous sign-in returned no user");
+  return data.user.id;
+};
+
+// Returns the auth user id of this device, signing in on first use.
+// Concurrent callers share a single sign-in request.
+export const ensureDeviceIdentity = (): Promise<string> => {
+  if (!pendingIdentity) {
+    pendingIdentity = resolveDeviceIdentity().catch(err => {
+      pendingIdentity = null;
+      throw err;
+    });
+  }
+  return pendingIdentity;
+};
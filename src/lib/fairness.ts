@@ -0,0 +1,58 @@
+import { splitProposers } from "@/lib/sessionHelpers";
+
+// Fairness weighting: proposals from people whose picks were watched least
+// often or least recently get their stars boosted, so the same proposers
+// don't win every night. Strength 0 turns it off; at 100 the stars of a
+// proposal whose backers were never picked are doubled.
+
+export const MAX_FAIRNESS_STRENGTH = 100;
+
+export interface WatchedCredit {
+  // watched_movies.proposed_by: display names joined with ", "
+  proposedBy: string;
+  watchedAt: string;
+}
+
+// How overdue each person is for a win, from 0 (picked most often and most
+// recently) to 1 (never picked). Half comes from how often their picks were
+// watched, half from how long ago. Without any history nobody is owed anything.
+export const proposerNeeds = (
+  people: { id: string; name: string }[],
+  watched: WatchedCredit[],
+  now: number = Date.now()
+): Record<string, number> => {
+  const needs: Record<string, number> = {};
+  if (watched.length === 0) {
+    people.forEach(p => { needs[p.id] = 0; });
+    return needs;
+  }
+
+  const counts: Record<string, number> = {};
+  const lastWatched: Record<string, number> = {};
+  watched.forEach(w => {
+    const at = new Date(w.watchedAt).getTime();
+    splitProposers(w.proposedBy).forEach(name => {
+      counts[name] = (counts[name] ?? 0) + 1;
+      lastWatched[name] = Math.max(lastWatched[name] ?? 0, at);
+    });
+  });
+
+  const maxCount = Math.max(0, ...people.map(p => counts[p.name] ?? 0));
+  const oldest = Math.min(...watched.map(w => new Date(w.watchedAt).getTime()));
+  const span = Math.max(1, now - oldest);
+
+  people.forEach(p => {
+    const frequency = maxCount > 0 ? 1 - (counts[p.name] ?? 0) / maxCount : 0;
+    const recency = p.name in lastWatched ? Math.min(1, (now - lastWatched[p.name]) / span) : 1;
+    needs[p.id] = (frequency + recency) / 2;
+  });
+  return needs;
+};
+
+// Multiplier for a proposal's stars: the backers' average need, scaled by the
+// session's strength (0-100)
+export const fairnessBoost = (proposerIds: string[], needs: Record<string, number>, strength: number): number => {
+  if (strength <= 0 || proposerIds.length === 0) return 1;
+  const need = proposerIds.reduce((sum, id) => sum + (needs[id] ?? 0), 0) / proposerIds.length;
+  return 1 + (Math.min(strength, MAX_FAIRNESS_STRENGTH) / MAX_FAIRNESS_STRENGTH) * need;
+};
@@ -0,0 +1,73 @@
+// Movie nights: a scheduled evening with an RSVP per person. While a night is
+// coming up, who counts as present for the results comes from its RSVPs.
+
+export type RsvpResponse = "yes" | "maybe" | "no";
+
+export const RSVP_RESPONSES: Record<RsvpResponse, string> = {
+  yes: "Going",
+  maybe: "Maybe",
+  no: "Not going",
+};
+
+export const isRsvpResponse = (value: unknown): value is RsvpResponse =>
+  typeof value === "string" && value in RSVP_RESPONSES;
+
+export interface MovieNight {
+  id: string;
+  scheduledFor: string;
+  note: string | null;
+  selectedProposalId: string | null;
+  // set once a movie has been watched on the night
+  watchedMovieId: string | null;
+  // person id -> response; people who haven't answered are missing
+  rsvps: Record<string, RsvpResponse>;
+}
+
+// How long after its start a night nothing was marked watched on still counts
+// as being held
+export const NIGHT_GRACE_HOURS = 12;
+
+// The next night still to be held: the earliest one nothing has been watched
+// on yet. A night stays upcoming after its start time until a movie is
+// marked as watched, so the results keep using its RSVPs during the evening,
+// but no longer than the grace period: a night nobody closed is forgotten
+// rather than holding on to last week's RSVPs.
+export const upcomingNight = (nights: MovieNight[], now: Date = new Date()): MovieNight | null => {
+  const cutoff = now.getTime() - NIGHT_GRACE_HOURS * 60 * 60 * 1000;
+  return nights
+    .filter(n => !n.watchedMovieId && new Date(n.scheduledFor).getTime() >= cutoff)
+    .sort((a, b) => new Date(a.scheduledFor).getTime() - new Date(b.scheduledFor).getTime())[0] ?? null;
+};
+
+// The night being held right now: the upcoming night, once it has started.
+// A movie watched now belongs to it; one watched days before the upcoming
+// night doesn't, or it would be dated to that night and take its RSVPs.
+export const startedNight = (nights: MovieNight[], now: Date = new Date()): MovieNight | null => {
+  const night = upcomingNight(nights, now);
+  return night && new Date(night.scheduledFor).getTime() <= now.getTime() ? night : null;
+};
+
+// Only a firm yes counts as present; maybes and missing answers don't
+export const isAttending = (night: MovieNight, personId: string): boolean => night.rsvps[personId] === "yes";
+
+type MovieNightRow = {
+  id: string;
+  scheduled_for: string;
+  note: string | null;
+  selected_proposal_id: string | null;
+  watched_movie_id: string | null;
+  movie_night_rsvps?: { person_id: string; response: string }[] | null;
+};
+
+export const toMovieNight = (row: MovieNightRow): MovieNight => ({
+  id: row.id,
+  scheduledFor: row.scheduled_for,
+  note: row.note,
+  selectedProposalId: row.selected_proposal_id,
+  watchedMovieId: row.watched_movie_id,
+  rsvps: Object.fromEntries(
+    (row.movie_night_rsvps || [])
+      .filter(r => isRsvpResponse(r.response))
+      .map(r => [r.person_id, r.response as RsvpResponse])
+  ),
+});
@@ -0,0 +1,75 @@
+// Per-session rules for the results: a quorum of present people who must have
+// rated a movie before it can win, and the tie-breakers applied, in order,
+// when movies have the same score.
+
+export type TieBreaker = "more_voters" | "fewer_one_stars" | "older_proposal" | "shorter_runtime" | "random";
+
+export const TIE_BREAKERS: Record<TieBreaker, string> = {
+  more_voters: "More voters",
+  fewer_one_stars: "Fewer 1-star votes",
+  older_proposal: "Older proposal",
+  shorter_runtime: "Shorter runtime",
+  random: "Random draw",
+};
+
+export const isTieBreaker = (value: unknown): value is TieBreaker =>
+  typeof value === "string" && value in TIE_BREAKERS;
+
+export interface TieBreakStats {
+  proposalId: string;
+  // ratings from present people
+  totalRatings: number;
+  oneStarVotes: number;
+  // movie_proposals.created_at
+  createdAt?: string;
+  // 0 when unknown
+  runtimeMinutes: number;
+}
+
+// Deterministic per session and proposal, so every device draws the same order
+// (FNV-1a over the seed and the proposal id)
+export const seededDraw = (seed: number, proposalId: string): number => {
+  let hash = 0x811c9dc5;
+  for (const char of `${seed}:${proposalId}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+// Compares two tied movies by each tie-breaker in turn; 0 when they are still tied
+export const compareByTieBreakers = (tieBreakers: TieBreaker[], seed: number) =>
+  (a: TieBreakStats, b: TieBreakStats): number => {
+    for (const tieBreaker of tieBreakers) {
+      let diff = 0;
+      switch (tieBreaker) {
+        case "more_voters":
+          diff = b.totalRatings - a.totalRatings;
+          break;
+        case "fewer_one_stars":
+          diff = a.oneStarVotes - b.oneStarVotes;
+          break;
+        case "older_proposal":
+          // proposals without a timestamp (still being saved) are the newest
+          diff = a.createdAt && b.createdAt
+            ? a.createdAt.localeCompare(b.createdAt)
+            : Number(!a.createdAt) - Number(!b.createdAt);
+          break;
+        case "shorter_runtime":
+          // unknown runtimes lose to known ones
+          diff = a.runtimeMinutes && b.runtimeMinutes
+            ? a.runtimeMinutes - b.runtimeMinutes
+            : Number(!a.runtimeMinutes) - Number(!b.runtimeMinutes);
+          break;
+        case "random":
+          diff = seededDraw(seed, a.proposalId) - seededDraw(seed, b.proposalId);
+          break;
+      }
+      if (diff !== 0) return diff;
+    }
+    return 0;
+  };
+
+// quorumPercent of the present people must have rated the movie; 0 means any
+export const meetsQuorum = (ratedCount: number, presentCount: number, quorumPercent: number): boolean =>
+  quorumPercent <= 0 || (presentCount > 0 && ratedCount * 100 >= quorumPercent * presentCount);
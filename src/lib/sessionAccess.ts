@@ -0,0 +1,31 @@
+// Session access tokens (invite keys). A device only needs the key to join;
+// from then on its membership grants access, so keys aren't remembered. While
+// a session is opened through an invite, the key is sent with every Supabase
+// request as x-session-token.
+export const SESSION_TOKEN_HEADER = "x-session-token";
+
+let activeSessionToken: string | null = null;
+
+// Selects the token sent with subsequent requests; null sends none
+export const setActiveSessionToken = (token: string | null) => {
+  activeSessionToken = token;
+};
+
+export const getActiveSessionToken = () => activeSessionToken;
+
+// Invite links open the join screen, which lets the newcomer add or claim themselves
+export const buildInviteLink = (sessionId: string, token: string, origin = window.location.origin) => {
+  const url = new URL(`/s/${sessionId}/join`, origin);
+  url.searchParams.set("key", token);
+  return url.toString();
+};
+
+// fetch wrapper for the Supabase client that attaches the active session token
+export const sessionTokenFetch: typeof fetch = (input, init) => {
+  const token = activeSessionToken;
+  if (!token) return fetch(input, init);
+
+  const headers = new Headers(init?.headers);
+  headers.set(SESSION_TOKEN_HEADER, token);
+  return fetch(input, { ...init, headers });
+};
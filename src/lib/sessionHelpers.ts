@@ -1,3 +1,4 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
 import { MovieDetails, MovieRating, Person } from "@/types/session";
 
 // Pure transformation functions
@@ -8,14 +9,51 @@ export const transformPeopleData = (peopleData: any[], proposals: any[]): Person
     name: person.name,
     isPresent: person.is_present,
     movies: proposals
-      .filter(p => p.person_id === person.id)
-      .map(p => p.movie_title)
+      .filter(p => proposerIdsOf(p).includes(person.id))
+      .map(p => ({ proposalId: p.id, title: p.movie_title })),
+    claimedBy: extractClaimUserId(person.person_claims),
+    profileId: person.profile_id ?? null
   }));
 };
 
+// Optimistic proposals use a temporary id until the server returns the real one
+const PENDING_PROPOSAL_PREFIX = "pending-";
+
+export const pendingProposalId = (): string => `${PENDING_PROPOSAL_PREFIX}${crypto.randomUUID()}`;
+
+export const isPendingProposal = (proposalId: string): boolean => proposalId.startsWith(PENDING_PROPOSAL_PREFIX);
+
+type ProposerEmbed = { person_id: string; created_at?: string | null };
+
+// Everyone backing a proposal in the order they joined, the original proposer
+// first. Falls back to person_id when proposal_proposers isn't embedded.
+export const proposerIdsOf = (proposal: { person_id: string; proposal_proposers?: ProposerEmbed[] | null }): string[] => {
+  const backers = [...(proposal.proposal_proposers || [])]
+    .sort((a, b) => (a.created_at || "").localeCompare(b.created_at || ""))
+    .map(b => b.person_id)
+    .filter(id => id !== proposal.person_id);
+  return [proposal.person_id, ...backers];
+};
+
+// Watched movies store their proposers as display names, joined with ", "
+// when a proposal had co-proposers
+export const splitProposers = (proposedBy: string): string[] =>
+  proposedBy.split(", ").map(name => name.trim()).filter(Boolean);
+
+type ClaimEmbed = { user_id?: string | null } | null | undefined;
+
+// person_claims is embedded one-to-one, but tolerate the array shape too
+export const extractClaimUserId = (claims: ClaimEmbed | ClaimEmbed[]): string | null => {
+  const claim = Array.isArray(claims) ? claims[0] : claims;
+  return claim?.user_id ?? null;
+};
+
 export const transformRatingsData = (proposalsData: { proposals: any[] }, peopleData: any[]): MovieRating[] => {
   return proposalsData.proposals.map(proposal => {
-    const proposer = peopleData.find(p => p.id === proposal.person_id);
+    const proposerIds = proposerIdsOf(proposal);
+    const proposerNames = proposerIds
+      .map(id => peopleData.find(p => p.id === id)?.name)
+      .filter(Boolean);
     
     // Transform ratings array to object
     const ratings: Record<string, number> = {};
@@ -28,8 +66,8 @@ export const transformRatingsData = (proposalsData: { proposals: any[] }, people
 
     const details: MovieDetails | undefined = proposal.poster ? {
       poster: proposal.poster,
-      genre: proposal.genre,
-      runtime: proposal.runtime,
+      genres: proposal.genres,
+      runtimeMinutes: proposal.runtime_minutes,
       year: proposal.year,
       director: proposal.director,
       plot: proposal.plot,
@@ -38,13 +76,33 @@ export const transformRatingsData = (proposalsData: { proposals: any[] }, people
     } : undefined;
 
     return {
+      proposalId: proposal.id,
       movieTitle: proposal.movie_title,
-      proposedBy: proposer?.name || 'Unknown',
+      proposedBy: proposerNames.join(', ') || 'Unknown',
       ratings,
       details,
       comment: commentRow?.comment,
-      proposalId: proposal.id,
-      proposerId: proposal.person_id
+      proposerId: proposal.person_id,
+      proposerIds,
+      createdAt: proposal.created_at,
+      parkedAt: proposal.parked_at ?? null,
+      vetoedBy: (proposal.proposal_vetoes || []).map((v: { person_id: string }) => v.person_id),
+      vetoNights: Object.fromEntries(
+        (proposal.proposal_vetoes || []).map((v: { person_id: string; night_id?: string | null }) => [v.person_id, v.night_id ?? null])
+      )
     };
   });
 };
+
+// The error an edge function answered with, e.g. a 409 for a full proposal
+// cap, which retrying can't fix. Null for network failures and bodies
+// without an error message.
+export const edgeFunctionErrorMessage = async (error: unknown): Promise<string | null> => {
+  if (!(error instanceof FunctionsHttpError)) return null;
+  try {
+    const body = await error.context.json();
+    return typeof body?.error === "string" ? body.error : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,75 @@
+// URL layout below /s/:sessionId. The path is the source of truth for which
+// view, tab, expanded card and stats person is shown, so links and the back
+// button restore them.
+//
+//   /s/:id[/people]                    People tab
+//   /s/:id/rate[/:proposalId]          Rate tab, optionally with a card expanded
+//   /s/:id/results                     Results tab
+//   /s/:id/watched[/:watchedMovieId]   Watched movies, optionally with a card expanded
+//   /s/:id/stats[/person/:personId]    Stats, group or personal
+//   /s/:id/join                        Join screen opened from an invite link
+//   /s/:id/trash                       Removed people, proposals and watched movies
+//   /s/:id/activity                    Activity log of every change
+export type SessionView = 'session' | 'watched' | 'stats' | 'join' | 'trash' | 'activity';
+export type SessionTab = 'people' | 'rate' | 'results';
+
+export interface SessionRoute {
+  view: SessionView;
+  tab: SessionTab;
+  proposalId?: string;
+  watchedMovieId?: string;
+  personId?: string;
+}
+
+const DEFAULT_ROUTE: SessionRoute = { view: 'session', tab: 'people' };
+
+// subPath is the part after /s/:sessionId/, e.g. "rate/123" or ""
+export const parseSessionPath = (subPath: string | undefined): SessionRoute => {
+  const [section, id, extra] = (subPath ?? '').split('/').filter(Boolean).map(decodeURIComponent);
+
+  switch (section) {
+    case undefined:
+    case 'people':
+      return DEFAULT_ROUTE;
+    case 'rate':
+      return { view: 'session', tab: 'rate', proposalId: id };
+    case 'results':
+      return { view: 'session', tab: 'results' };
+    case 'watched':
+      return { view: 'watched', tab: 'people', watchedMovieId: id };
+    case 'stats':
+      return { view: 'stats', tab: 'people', personId: id === 'person' ? extra : undefined };
+    case 'join':
+      return { view: 'join', tab: 'people' };
+    case 'trash':
+      return { view: 'trash', tab: 'people' };
+    case 'activity':
+      return { view: 'activity', tab: 'people' };
+    default:
+      return DEFAULT_ROUTE;
+  }
+};
+
+export const sessionPath = (sessionId: string, route: Partial<SessionRoute> = {}): string => {
+  const base = `/s/${encodeURIComponent(sessionId)}`;
+  const view = route.view ?? 'session';
+
+  if (view === 'watched') {
+    return route.watchedMovieId ? `${base}/watched/${encodeURIComponent(route.watchedMovieId)}` : `${base}/watched`;
+  }
+  if (view === 'stats') {
+    return route.personId ? `${base}/stats/person/${encodeURIComponent(route.personId)}` : `${base}/stats`;
+  }
+  if (view === 'join' || view === 'trash' || view === 'activity') {
+    return `${base}/${view}`;
+  }
+
+  switch (route.tab ?? 'people') {
+    case 'rate':
+      return route.proposalId ? `${base}/rate/${encodeURIComponent(route.proposalId)}` : `${base}/rate`;
+    case 'results':
+      return `${base}/results`;
+    default:
+      return base;
+  }
+};
@@ -0,0 +1,15 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Removing people, proposals and watched movies moves them to the session's
+// trash; they are purged for good once the retention period has passed.
+export type TrashKind = "person" | "proposal" | "watched_movie";
+
+export const trashItem = async (kind: TrashKind, id: string): Promise<void> => {
+  const { error } = await supabase.rpc("trash_item", { p_kind: kind, p_id: id });
+  if (error) throw error;
+};
+
+export const restoreItem = async (kind: TrashKind, id: string): Promise<void> => {
+  const { error } = await supabase.rpc("restore_item", { p_kind: kind, p_id: id });
+  if (error) throw error;
+};
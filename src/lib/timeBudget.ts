@@ -0,0 +1,24 @@
+// Tonight's time budget: either a maximum length or a time the movie has to
+// be finished by. Only set on this device; it filters the results shown here.
+export type TimeBudget =
+  | { kind: "minutes"; minutes: number }
+  // "HH:mm"; a time earlier than now means after midnight
+  | { kind: "until"; until: string };
+
+export type RuntimeFit = "fits" | "too_long" | "unknown";
+
+export const availableMinutes = (budget: TimeBudget, now: Date = new Date()): number => {
+  if (budget.kind === "minutes") return Math.max(0, budget.minutes);
+
+  const [hours, minutes] = budget.until.split(":").map(Number);
+  if (Number.isNaN(hours) || Number.isNaN(minutes)) return 0;
+  const end = new Date(now);
+  end.setHours(hours, minutes, 0, 0);
+  if (end.getTime() < now.getTime()) end.setDate(end.getDate() + 1);
+  return Math.floor((end.getTime() - now.getTime()) / 60000);
+};
+
+export const runtimeFit = (runtimeMinutes: number | null | undefined, available: number): RuntimeFit => {
+  if (!runtimeMinutes) return "unknown";
+  return runtimeMinutes <= available ? "fits" : "too_long";
+};
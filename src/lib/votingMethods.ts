@@ -0,0 +1,289 @@
+// Ways of picking tonight's movie from the present people's 1-5 hype stars.
+// All methods are pure: they take the candidate proposals (in tie-break
+// order) and one ballot per present person, and return a full ranking plus a
+// sentence explaining why the winner won.
+
+export type SelectionMethod = "mean" | "median" | "approval" | "borda" | "instant_runoff" | "schulze";
+
+export const SELECTION_METHODS: Record<SelectionMethod, { label: string; description: string }> = {
+  mean: { label: "Average", description: "Highest average hype" },
+  median: { label: "Median", description: "Highest middle rating, so one outlier can't swing it" },
+  approval: { label: "Approval", description: "Most people rating it at least the approval threshold" },
+  borda: { label: "Borda count", description: "A point for every movie it beats on each person's ordering" },
+  instant_runoff: { label: "Instant runoff", description: "Least-liked movies are eliminated until one has a majority of first choices" },
+  schulze: { label: "Condorcet (Schulze)", description: "Wins the head-to-head comparisons, directly or through chains" },
+};
+
+export const DEFAULT_APPROVAL_THRESHOLD = 4;
+
+export interface Candidate {
+  proposalId: string;
+  title: string;
+}
+
+// A present person's stars by proposalId; unrated movies are missing or 0
+export interface Ballot {
+  personId: string;
+  ratings: Record<string, number | null | undefined>;
+}
+
+export interface RankedCandidate {
+  proposalId: string;
+  score: number;
+  scoreLabel: string;
+}
+
+export interface SelectionResult {
+  method: SelectionMethod;
+  ranking: RankedCandidate[];
+  winnerId: string | null;
+  explanation: string;
+}
+
+const starsOf = (ballot: Ballot, proposalId: string): number => {
+  const rating = ballot.ratings[proposalId];
+  return typeof rating === "number" && rating > 0 ? rating : 0;
+};
+
+const quoted = (candidates: Candidate[], proposalId: string) =>
+  `"${candidates.find(c => c.proposalId === proposalId)?.title ?? "Unknown"}"`;
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+const formatNumber = (value: number) => Number.isInteger(value) ? String(value) : value.toFixed(1);
+
+// Higher scores first; equal scores keep the candidates' tie-break order
+const byScore = (candidates: Candidate[], scores: Record<string, number>, label: (score: number) => string): RankedCandidate[] =>
+  candidates
+    .map((c, index) => ({ proposalId: c.proposalId, score: scores[c.proposalId], index }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ proposalId, score }) => ({ proposalId, score, scoreLabel: label(score) }));
+
+// Equal scores at the top are settled by the candidates' order, which is by
+// average hype and then the session's tie-breakers
+const tieAtTop = (ranking: RankedCandidate[]): string | null => {
+  const others = ranking.filter(r => r.score === ranking[0]?.score).length - 1;
+  return others > 0
+    ? `tied with ${plural(others, "other movie")}; the tie was broken by average hype and the session's tie-breakers`
+    : null;
+};
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const rankMean = (candidates: Candidate[], ballots: Ballot[]): SelectionResult => {
+  const counts: Record<string, number> = {};
+  const scores: Record<string, number> = {};
+  candidates.forEach(c => {
+    const stars = ballots.map(b => starsOf(b, c.proposalId)).filter(s => s > 0);
+    counts[c.proposalId] = stars.length;
+    scores[c.proposalId] = stars.length ? stars.reduce((sum, s) => sum + s, 0) / stars.length : 0;
+  });
+  const ranking = byScore(candidates, scores, score => `★ ${score.toFixed(1)}`);
+  const winnerId = ranking[0]?.proposalId ?? null;
+  return {
+    method: "mean",
+    ranking,
+    winnerId,
+    explanation: winnerId
+      ? `${quoted(candidates, winnerId)} has the highest average hype: ${scores[winnerId].toFixed(1)}★ from ${plural(counts[winnerId], "rating")}.`
+      : "",
+  };
+};
+
+const rankMedian = (candidates: Candidate[], ballots: Ballot[]): SelectionResult => {
+  const scores: Record<string, number> = {};
+  candidates.forEach(c => {
+    scores[c.proposalId] = median(ballots.map(b => starsOf(b, c.proposalId)).filter(s => s > 0));
+  });
+  const ranking = byScore(candidates, scores, score => `median ${formatNumber(score)}★`);
+  const winnerId = ranking[0]?.proposalId ?? null;
+  const tied = ranking.filter(r => r.score === ranking[0]?.score).length > 1;
+  return {
+    method: "median",
+    ranking,
+    winnerId,
+    explanation: winnerId
+      ? `${quoted(candidates, winnerId)} has the highest median hype (${formatNumber(scores[winnerId])}★)` +
+        (tied ? ", and the best average among the movies tied with it." : ".")
+      : "",
+  };
+};
+
+const rankApproval = (candidates: Candidate[], ballots: Ballot[], threshold: number): SelectionResult => {
+  const scores: Record<string, number> = {};
+  candidates.forEach(c => {
+    scores[c.proposalId] = ballots.filter(b => starsOf(b, c.proposalId) >= threshold).length;
+  });
+  const ranking = byScore(candidates, scores, score => plural(score, "approval"));
+  const winnerId = ranking[0]?.proposalId ?? null;
+  const tie = tieAtTop(ranking);
+  return {
+    method: "approval",
+    ranking,
+    winnerId,
+    explanation: winnerId
+      ? `${quoted(candidates, winnerId)} was rated ${threshold}★ or more by ${scores[winnerId]} of ${ballots.length} present people, ` +
+        (tie ? `${tie}.` : "more than any other movie.")
+      : "",
+  };
+};
+
+// Each ballot gives a movie one point per movie it beats and half a point per tie;
+// unrated movies share the bottom of that person's ordering
+const rankBorda = (candidates: Candidate[], ballots: Ballot[]): SelectionResult => {
+  const scores: Record<string, number> = {};
+  candidates.forEach(c => { scores[c.proposalId] = 0; });
+  ballots.forEach(ballot => {
+    candidates.forEach(c => {
+      const stars = starsOf(ballot, c.proposalId);
+      candidates.forEach(other => {
+        if (other.proposalId === c.proposalId) return;
+        const otherStars = starsOf(ballot, other.proposalId);
+        if (stars > otherStars) scores[c.proposalId] += 1;
+        else if (stars === otherStars) scores[c.proposalId] += 0.5;
+      });
+    });
+  });
+  const ranking = byScore(candidates, scores, score => `${formatNumber(score)} pts`);
+  const winnerId = ranking[0]?.proposalId ?? null;
+  const tie = tieAtTop(ranking);
+  return {
+    method: "borda",
+    ranking,
+    winnerId,
+    explanation: winnerId
+      ? `${quoted(candidates, winnerId)} scored ${formatNumber(scores[winnerId])} Borda points` + (tie ? `, ${tie}` : "") +
+        `: on each person's star ordering a movie earns a point for every movie it beats.`
+      : "",
+  };
+};
+
+// Each ballot counts for its highest-rated remaining movie, split evenly when
+// several share the top. The movie with the fewest votes is eliminated until
+// one has a majority of the ballots still in play.
+const rankInstantRunoff = (candidates: Candidate[], ballots: Ballot[]): SelectionResult => {
+  let remaining = candidates.map(c => c.proposalId);
+  const eliminated: { proposalId: string; round: number; votes: number }[] = [];
+  let round = 0;
+  let tally: Record<string, number> = {};
+
+  while (remaining.length > 0) {
+    round += 1;
+    tally = Object.fromEntries(remaining.map(id => [id, 0]));
+    let active = 0;
+    ballots.forEach(ballot => {
+      const best = Math.max(...remaining.map(id => starsOf(ballot, id)));
+      if (best <= 0) return;
+      const top = remaining.filter(id => starsOf(ballot, id) === best);
+      top.forEach(id => { tally[id] += 1 / top.length; });
+      active += 1;
+    });
+
+    const leader = remaining.reduce((a, b) => tally[b] > tally[a] ? b : a);
+    if (remaining.length === 1 || tally[leader] > active / 2) break;
+
+    // Ties for last go out in reverse tie-break order
+    const loser = remaining.reduce((a, b) => tally[b] <= tally[a] ? b : a);
+    eliminated.push({ proposalId: loser, round, votes: tally[loser] });
+    remaining = remaining.filter(id => id !== loser);
+  }
+
+  const finalists = byScore(
+    candidates.filter(c => remaining.includes(c.proposalId)),
+    tally,
+    votes => `${formatNumber(votes)} votes in round ${round}`
+  );
+  const ranking = [
+    ...finalists,
+    ...[...eliminated].reverse().map(e => ({
+      proposalId: e.proposalId,
+      score: e.votes,
+      scoreLabel: `out in round ${e.round}`,
+    })),
+  ];
+  const winnerId = ranking[0]?.proposalId ?? null;
+  const activeBallots = ballots.filter(b => remaining.some(id => starsOf(b, id) > 0)).length;
+  return {
+    method: "instant_runoff",
+    ranking,
+    winnerId,
+    explanation: winnerId
+      ? `${quoted(candidates, winnerId)} won in round ${round} with ${formatNumber(tally[winnerId])} of ${activeBallots} first-choice votes` +
+        (eliminated.length ? ` after ${eliminated.map(e => quoted(candidates, e.proposalId)).join(", ")} ${eliminated.length === 1 ? "was" : "were"} eliminated.` : ".")
+      : "",
+  };
+};
+
+// Pairwise preferences from the star orderings, widened to strongest paths.
+// Candidates are ranked by how many others they beat on path strength.
+const rankSchulze = (candidates: Candidate[], ballots: Ballot[]): SelectionResult => {
+  const ids = candidates.map(c => c.proposalId);
+  const prefers: Record<string, Record<string, number>> = {};
+  ids.forEach(a => {
+    prefers[a] = {};
+    ids.forEach(b => {
+      prefers[a][b] = a === b ? 0 : ballots.filter(ballot => starsOf(ballot, a) > starsOf(ballot, b)).length;
+    });
+  });
+
+  const path: Record<string, Record<string, number>> = {};
+  ids.forEach(a => {
+    path[a] = {};
+    ids.forEach(b => {
+      path[a][b] = a !== b && prefers[a][b] > prefers[b][a] ? prefers[a][b] : 0;
+    });
+  });
+  ids.forEach(k => ids.forEach(a => ids.forEach(b => {
+    if (a !== b && a !== k && b !== k) {
+      path[a][b] = Math.max(path[a][b], Math.min(path[a][k], path[k][b]));
+    }
+  })));
+
+  const scores: Record<string, number> = {};
+  ids.forEach(a => {
+    scores[a] = ids.filter(b => b !== a && path[a][b] > path[b][a]).length;
+  });
+  const ranking = byScore(candidates, scores, score => `beats ${plural(score, "movie")}`);
+  const winnerId = ranking[0]?.proposalId ?? null;
+  const condorcet = winnerId !== null && ids.every(b => b === winnerId || prefers[winnerId][b] > prefers[b][winnerId]);
+  let explanation = "";
+  if (winnerId && ids.length === 1) {
+    explanation = `${quoted(candidates, winnerId)} is the only movie in the running.`;
+  } else if (condorcet) {
+    explanation = `${quoted(candidates, winnerId)} beats every other movie head-to-head (the Condorcet winner).`;
+  } else if (winnerId) {
+    explanation = `No movie beats all others head-to-head; ${quoted(candidates, winnerId)} has the strongest chains of pairwise wins.`;
+  }
+  return { method: "schulze", ranking, winnerId, explanation };
+};
+
+export const rankByMethod = (
+  method: SelectionMethod,
+  candidates: Candidate[],
+  ballots: Ballot[],
+  approvalThreshold: number = DEFAULT_APPROVAL_THRESHOLD
+): SelectionResult => {
+  if (candidates.length === 0) return { method, ranking: [], winnerId: null, explanation: "" };
+  switch (method) {
+    case "median":
+      return rankMedian(candidates, ballots);
+    case "approval":
+      return rankApproval(candidates, ballots, approvalThreshold);
+    case "borda":
+      return rankBorda(candidates, ballots);
+    case "instant_runoff":
+      return rankInstantRunoff(candidates, ballots);
+    case "schulze":
+      return rankSchulze(candidates, ballots);
+    default:
+      return rankMean(candidates, ballots);
+  }
+};
+
+export const isSelectionMethod = (value: unknown): value is SelectionMethod =>
+  typeof value === "string" && value in SELECTION_METHODS;
@@ -0,0 +1,62 @@
+// Spin the wheel: a seeded, weighted draw among the top of the results.
+// Every device replays a stored spin from its seed, so the wheel lands on the
+// same slice everywhere.
+
+export type WheelWeighting = "average" | "score";
+
+export interface WheelSlice {
+  proposalId: string;
+  title: string;
+  weight: number;
+}
+
+export const MAX_SEED = 2147483647;
+
+export const newSeed = (): number => Math.floor(Math.random() * MAX_SEED);
+
+// mulberry32: small, fast and the same on every JavaScript engine
+export const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Slices without a positive weight can't win, unless none has one; then all are equal
+const effectiveWeights = (slices: WheelSlice[]): number[] => {
+  const weights = slices.map(s => Math.max(0, s.weight));
+  return weights.some(w => w > 0) ? weights : slices.map(() => 1);
+};
+
+// Each slice's share of the wheel in degrees, clockwise from the top
+export const sliceAngles = (slices: WheelSlice[]): { start: number; end: number }[] => {
+  const weights = effectiveWeights(slices);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let start = 0;
+  return weights.map(w => {
+    const end = start + (w / total) * 360;
+    const angle = { start, end };
+    start = end;
+    return angle;
+  });
+};
+
+export interface WheelDraw {
+  pickedIndex: number;
+  // where the pointer stops, in degrees clockwise from the top of the wheel
+  landingAngle: number;
+}
+
+// The landing point is uniform around the wheel, so a slice's chance of being
+// picked is proportional to its weight
+export const drawWheel = (slices: WheelSlice[], seed: number): WheelDraw | null => {
+  if (slices.length === 0) return null;
+  const landingAngle = seededRandom(seed)() * 360;
+  const angles = sliceAngles(slices);
+  const pickedIndex = angles.findIndex(a => landingAngle >= a.start && landingAngle < a.end);
+  return { pickedIndex: pickedIndex === -1 ? slices.length - 1 : pickedIndex, landingAngle };
+};
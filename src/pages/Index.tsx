@@ -1,5 +1,17 @@
-import MovieSelectorRoot from "@/components/MovieSelector/index";
+import { Navigate, useSearchParams } from "react-router-dom";
+import SessionDirectory from "@/components/SessionDirectory";
 
-const Index = () => <MovieSelectorRoot />;
+const Index = () => {
+  const [searchParams] = useSearchParams();
+
+  // Links shared before sessions had their own route
+  const legacySessionId = searchParams.get("session");
+  if (legacySessionId) {
+    const key = searchParams.get("key");
+    return <Navigate to={`/s/${legacySessionId}${key ? `?key=${encodeURIComponent(key)}` : ""}`} replace />;
+  }
+
+  return <SessionDirectory />;
+};
 
 export default Index;
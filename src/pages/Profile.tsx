@@ -0,0 +1,10 @@
+import { useParams } from "react-router-dom";
+import ProfilePage from "@/components/Profile";
+
+const Profile = () => {
+  const { profileId } = useParams();
+
+  return <ProfilePage key={profileId} profileId={profileId!} />;
+};
+
+export default Profile;
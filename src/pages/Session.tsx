@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react";
+import { useParams, useSearchParams } from "react-router-dom";
+import MovieSelectorRoot from "@/components/MovieSelector/index";
+
+const Session = () => {
+  // The rest of the path selects the view, tab and expanded card (see lib/sessionRoutes)
+  const { sessionId, "*": subPath } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Read the invite key once; it is only needed to join and is dropped from the URL
+  const [invite] = useState(() => ({ sessionId, key: searchParams.get("key") }));
+
+  useEffect(() => {
+    if (searchParams.has("key")) {
+      const next = new URLSearchParams(searchParams);
+      next.delete("key");
+      setSearchParams(next, { replace: true });
+    }
+  }, [searchParams, setSearchParams]);
+
+  // Keyed by session so switching sessions starts from fresh state
+  return <MovieSelectorRoot key={sessionId} sessionId={sessionId!} inviteKey={invite.sessionId === sessionId ? invite.key : null} subPath={subPath} />;
+};
+
+export default Session;
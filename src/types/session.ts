@@ -1,33 +1,46 @@
-export interface MovieDetails {
-  poster?: string | null;
-  year?: string | null;
-  director?: string | null;
-  runtime?: string | null;
-  genre?: string | null;
-  imdbId?: string | null;
-  plot?: string | null;
-  imdbRating?: string | null;
-  // any other metadata you use
-}
+import type { RuntimeFit } from "@/lib/timeBudget";
+import type { RsvpResponse } from "@/lib/movieNights";
+import type { MovieMetadata } from "../../supabase/functions/_shared/movieMetadata.ts";
+
+// The provider metadata kept on a proposal (see the edge functions' movieMetadata.ts)
+export type MovieDetails = Partial<Pick<MovieMetadata, "poster" | "year" | "director" | "runtimeMinutes" | "genres" | "imdbId" | "plot" | "imdbRating">>;
 
 export interface MovieRating {
+  // movie_proposals.id; the identity of the proposal everywhere in the UI
+  proposalId: string;
+  // display only: titles can repeat across proposals and be edited
   movieTitle: string;
+  // display names of all proposers, e.g. "Alice, Bob"
   proposedBy: string;
   ratings: Record<string, number>;
   details?: MovieDetails;
-  // attached from movie_proposals so UI can rely on stable ids
-  proposalId?: string;
+  // movie_proposals.person_id, the person who first proposed the movie
   proposerId?: string;
+  // everyone backing this proposal, the original proposer first
+  proposerIds: string[];
+  // people who vetoed this proposal tonight
+  vetoedBy: string[];
+  // person id -> the movie night their veto was spent for; null when no
+  // night was scheduled. Vetoes for any other night don't count tonight.
+  vetoNights?: Record<string, string | null>;
+  // movie_proposals.created_at; missing while the proposal is being saved
+  createdAt?: string;
+  // set while the proposal is parked in its backers' backlog
+  parkedAt?: string | null;
   comment?: string;
 }
 
 // If you have MovieWithStats / MovieWithDetails types:
 export interface MovieWithStats {
-  // display / identity
+  // identity
+  proposalId: string; // movie_proposals.id
+
+  // display
   movieTitle: string;
-  proposedBy?: string | null; // display name
-  proposalId?: string | null; // movie_proposals.id (preferred)
-  proposerId?: string | null; // movie_proposals.person_id (preferred)
+  proposedBy?: string | null; // display names
+  proposerId?: string | null; // movie_proposals.person_id
+  proposerIds?: string[];
+  createdAt?: string; // movie_proposals.created_at
 
   // ratings from present/absent people (keyed by person id)
   ratings: Record<string, number | null>; // 1-5 (or null when reset)
@@ -35,16 +48,37 @@ export interface MovieWithStats {
   // computed summary values
   totalRatings: number; // number of ratings considered
   averageRating: number; // average from present people
+  score?: number; // score under the session's selection method
+  scoreLabel?: string; // the same score for display, e.g. "12 pts"
+  rawScoreLabel?: string; // the same score before fairness weighting
+  fairnessBoost?: number; // multiplier applied to the stars by fairness weighting, 1 when off
+  runtimeFit?: RuntimeFit; // against tonight's time budget; unset without one
 
   // optional fetched details
   details?: MovieDetails | null;
 }
 
+// A proposal as listed under one of the people backing it
+export interface PersonMovie {
+  proposalId: string;
+  title: string;
+}
+
 export interface Person {
   id: string;
   name: string;
   isPresent: boolean;
-  movies: string[];
+  // active proposals this person backs
+  movies: PersonMovie[];
+  // parked ("someday") proposals this person backs
+  backlog?: PersonMovie[];
+  // auth user id of the device that claimed this person (null when unclaimed)
+  claimedBy?: string | null;
+  // global profile linking this person across sessions
+  profileId?: string | null;
+  // answer for the upcoming movie night (null when not answered yet); unset
+  // when no night is scheduled and presence is toggled by hand
+  rsvp?: RsvpResponse | null;
 }
 
 export interface FavouriteMovie {
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { cachedLookupMovie, cachedLookupMovieById, cacheTtlFromEnv, CachedMovie, fromMovieRow, MovieCache, readOnlyCache, toCatalogueArgs, toTitleKey } from '../movieCache';
+import { fixtureProvider, MovieMetadata, MovieMetadataProvider } from '../movieMetadata';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const heat: MovieMetadata = {
+  title: 'Heat', year: 1995, genres: ['Crime', 'Drama'], director: 'Michael Mann', actors: null, plot: null,
+  poster: null, imdbRating: 8.3, runtimeMinutes: 170, imdbId: 'tt0113277',
+};
+
+const memoryCache = (entries: CachedMovie[] = []) => {
+  const store = new Map(entries.map(e => [e.metadata.imdbId, e]));
+  const cache: MovieCache = {
+    get: vi.fn(async (imdbId: string) => store.get(imdbId) ?? null),
+    findByTitle: vi.fn(async ({ title, year }) => [...store.values()].filter(e =>
+      e.metadata.title.toLowerCase() === title && (year === null || e.metadata.year === year))),
+    put: vi.fn(async (metadata: MovieMetadata) => {
+      store.set(metadata.imdbId, { metadata, fetchedAt: new Date().toISOString() });
+    }),
+  };
+  return cache;
+};
+
+const countingProvider = (provider: MovieMetadataProvider) => ({
+  ...provider,
+  findByImdbId: vi.fn(provider.findByImdbId),
+  findByTitle: vi.fn(provider.findByTitle),
+});
+
+const daysAgo = (days: number) => new Date(Date.now() - days * DAY).toISOString();
+
+describe('movieCache', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  // Test that fresh catalogue entries are used without asking the providers
+  it('uses fresh entries as they are', async () => {
+    const provider = countingProvider(fixtureProvider());
+    const cached = { ...heat, runtimeMinutes: 171 };
+    const cache = memoryCache([{ metadata: cached, fetchedAt: daysAgo(1) }]);
+
+    expect(await cachedLookupMovieById('tt0113277', [provider], cache, 7 * DAY)).toBe(cached);
+    expect(provider.findByImdbId).not.toHaveBeenCalled();
+  });
+
+  // Test that stale entries are refreshed and written back
+  it('refreshes stale entries', async () => {
+    const provider = countingProvider(fixtureProvider());
+    const cache = memoryCache([{ metadata: { ...heat, runtimeMinutes: 171 }, fetchedAt: daysAgo(8) }]);
+
+    expect((await cachedLookupMovieById('tt0113277', [provider], cache, 7 * DAY))?.runtimeMinutes).toBe(170);
+    expect(cache.put).toHaveBeenCalledWith(expect.objectContaining({ imdbId: 'tt0113277', runtimeMinutes: 170 }));
+  });
+
+  // Test that a stale entry still answers when the providers can't
+  it('falls back to stale entries when the providers fail', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const limited: MovieMetadataProvider = {
+      ...fixtureProvider(),
+      name: 'limited',
+      findByImdbId: () => Promise.reject(new Error('OMDb request limit reached')),
+    };
+    const cache = memoryCache([{ metadata: heat, fetchedAt: daysAgo(30) }]);
+
+    expect(await cachedLookupMovieById('tt0113277', [limited], cache, 7 * DAY)).toBe(heat);
+    expect(await cachedLookupMovieById('tt0078748', [limited], cache, 7 * DAY)).toBeNull();
+  });
+
+  // Test that title lookups are catalogued, and a broken cache doesn't fail them
+  it('writes title lookups through to the catalogue', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const cache = memoryCache();
+
+    expect((await cachedLookupMovie('Alien', [fixtureProvider()], cache, 7 * DAY))?.imdbId).toBe('tt0078748');
+    expect(await cache.get('tt0078748')).not.toBeNull();
+
+    const down = () => Promise.reject(new Error('down'));
+    const broken: MovieCache = { get: down, findByTitle: down, put: down };
+    expect((await cachedLookupMovieById('tt0078748', [fixtureProvider()], broken, 7 * DAY))?.title).toBe('Alien');
+    expect((await cachedLookupMovie('Alien', [fixtureProvider()], broken, 7 * DAY))?.title).toBe('Alien');
+  });
+
+  // Test that a read-only cache answers from the catalogue but never writes to it
+  it('leaves the catalogue alone through a read-only cache', async () => {
+    const cache = memoryCache([{ metadata: heat, fetchedAt: daysAgo(8) }]);
+    const readOnly = readOnlyCache(cache);
+
+    expect((await cachedLookupMovieById('tt0113277', [fixtureProvider()], readOnly, 7 * DAY))?.title).toBe('Heat');
+    expect((await cachedLookupMovie('Alien', [fixtureProvider()], readOnly, 7 * DAY))?.imdbId).toBe('tt0078748');
+    expect(cache.put).not.toHaveBeenCalled();
+    expect(await cache.get('tt0078748')).toBeNull();
+  });
+
+  // Test that title lookups are answered from the catalogue while the entry is fresh
+  it('answers titles from fresh catalogue entries', async () => {
+    const provider = countingProvider(fixtureProvider());
+    const cached = { ...heat, runtimeMinutes: 171 };
+    const cache = memoryCache([{ metadata: cached, fetchedAt: daysAgo(1) }]);
+
+    expect(await cachedLookupMovie('  heat ', [provider], cache, 7 * DAY)).toBe(cached);
+    expect(await cachedLookupMovie('Heat (1995)', [provider], cache, 7 * DAY)).toBe(cached);
+    expect(provider.findByTitle).not.toHaveBeenCalled();
+
+    expect((await cachedLookupMovie('Heat', [provider], cache, 0))?.runtimeMinutes).toBe(170);
+    expect(provider.findByTitle).toHaveBeenCalledTimes(1);
+  });
+
+  // Test that a title naming several catalogued movies is left to the providers
+  it('asks the providers when a title is ambiguous', async () => {
+    const provider = countingProvider(fixtureProvider());
+    const remake = { ...heat, year: 2013, imdbId: 'tt2400000' };
+    const cache = memoryCache([{ metadata: heat, fetchedAt: daysAgo(1) }, { metadata: remake, fetchedAt: daysAgo(1) }]);
+
+    expect(await cachedLookupMovie('Heat (2013)', [provider], cache, 7 * DAY)).toBe(remake);
+    expect((await cachedLookupMovie('Heat', [provider], cache, 7 * DAY))?.imdbId).toBe('tt0113277');
+    expect(provider.findByTitle).toHaveBeenCalledTimes(1);
+  });
+
+  // Test that the TTL comes from the environment and catalogue rows map to typed metadata
+  it('reads the TTL and maps catalogue rows', () => {
+    expect(cacheTtlFromEnv({ get: () => undefined })).toBe(7 * DAY);
+    expect(cacheTtlFromEnv({ get: () => '2' })).toBe(2 * DAY);
+    expect(cacheTtlFromEnv({ get: () => 'soon' })).toBe(7 * DAY);
+
+    expect(toTitleKey('  The  Thing (1982)')).toEqual({ title: 'the thing', year: 1982 });
+    expect(toTitleKey('2001: A Space Odyssey')).toEqual({ title: '2001: a space odyssey', year: null });
+
+    expect(toCatalogueArgs({ ...heat, imdbId: 'tt0113277' }))
+      .toMatchObject({ p_imdb_id: 'tt0113277', p_genres: ['Crime', 'Drama'], p_imdb_rating: 8.3, p_runtime_minutes: 170 });
+
+    const row = {
+      imdb_id: 'tt0113277', title: 'Heat', year: 1995, director: 'Michael Mann', actors: null, plot: null,
+      poster: null, imdb_rating: 8.3, runtime_minutes: 170, fetched_at: '2026-10-01T00:00:00.000Z',
+      movie_genres: [{ position: 2, genres: { name: 'Drama' } }, { position: 1, genres: { name: 'Crime' } }],
+    };
+    expect(fromMovieRow(row)).toEqual({ metadata: heat, fetchedAt: '2026-10-01T00:00:00.000Z' });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { fetchWithBackoff, fixtureProvider, isImdbId, lookupMovie, lookupMovieById, mergeMetadata, omdbProvider, providersFromEnv, searchMovies, MovieMetadata, MovieMetadataProvider } from '../movieMetadata';
+
+const movie = (fields: Partial<MovieMetadata>): MovieMetadata => ({
+  title: 'Alien', year: null, genres: [], director: null, actors: null, plot: null,
+  poster: null, imdbRating: null, runtimeMinutes: null, imdbId: null, ...fields,
+});
+
+const broken: MovieMetadataProvider = {
+  name: 'broken',
+  findByTitle: () => Promise.reject(new Error('down')),
+  findByImdbId: () => Promise.reject(new Error('down')),
+  search: () => Promise.reject(new Error('down')),
+};
+
+const env = (vars: Record<string, string>) => ({ get: (key: string) => vars[key] });
+
+describe('movieMetadata', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  // Test that earlier providers win and later ones only fill gaps for the same movie
+  it('mergeMetadata merges by priority', () => {
+    const merged = mergeMetadata([
+      null,
+      movie({ imdbId: 'tt0078748', runtimeMinutes: 117 }),
+      movie({ imdbId: 'tt0078748', runtimeMinutes: 116, poster: 'alien.jpg', genres: ['Horror'] }),
+      movie({ imdbId: 'tt9999999', plot: 'Another movie' }),
+    ]);
+
+    expect(merged).toMatchObject({ runtimeMinutes: 117, poster: 'alien.jpg', genres: ['Horror'], plot: null });
+    expect(mergeMetadata([null, null])).toBeNull();
+  });
+
+  // Test that providers are picked from the environment in order, skipping ones without a key
+  it('providersFromEnv reads the provider list', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(providersFromEnv(env({ OMDB_API_KEY: 'k' })).map(p => p.name)).toEqual(['omdb']);
+    expect(providersFromEnv(env({ MOVIE_METADATA_PROVIDERS: 'tmdb, fixture, omdb', TMDB_API_KEY: 'k' })).map(p => p.name))
+      .toEqual(['tmdb', 'fixture']);
+  });
+
+  // Test that a failing provider doesn't stop the others from answering
+  it('lookupMovie falls back when a provider fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect((await lookupMovie('heat', [broken, fixtureProvider()]))?.runtimeMinutes).toBe(170);
+    expect(await lookupMovie('Not A Movie', [fixtureProvider()])).toBeNull();
+  });
+
+  // Test that a picked IMDb id finds exactly that movie
+  it('lookupMovieById finds the movie by its IMDb id', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await lookupMovieById('tt0113277', [broken, fixtureProvider()]))?.title).toBe('Heat');
+    expect(await lookupMovieById('tt0000001', [fixtureProvider()])).toBeNull();
+    expect(isImdbId('tt0113277')).toBe(true);
+    expect(isImdbId('heat')).toBe(false);
+  });
+
+  // Test that the first provider finding anything answers the search, and failures fall through
+  it('searchMovies lists candidates from the first provider with results', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const empty = fixtureProvider([]);
+
+    const found = await searchMovies('i', 1, [broken, empty, fixtureProvider()]);
+    expect(found.totalResults).toBe(2);
+    expect(found.results.map(m => m.title)).toEqual(['Alien', 'Spirited Away']);
+    expect(found.results[0]).toEqual({ title: 'Alien', year: 1979, type: 'movie', poster: null, imdbId: 'tt0078748' });
+    expect(await searchMovies('i', 2, [fixtureProvider()])).toEqual({ results: [], page: 2, totalResults: 2 });
+    expect(await searchMovies('nothing', 1, [empty])).toEqual({ results: [], page: 1, totalResults: 0 });
+  });
+
+  // Test that OMDb's display strings are parsed and its "N/A" placeholders become nulls
+  it('omdbProvider maps the OMDb response', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      json: () => Promise.resolve({
+        Response: 'True', Title: 'Twin Peaks', Year: '1990–1991', Genre: 'Crime, Drama, Mystery', Runtime: '47 min',
+        imdbRating: '8.8', Poster: 'N/A', imdbID: 'tt0098936',
+      }),
+    }));
+
+    expect(await omdbProvider('k').findByTitle('Twin Peaks')).toMatchObject({
+      title: 'Twin Peaks', year: 1990, genres: ['Crime', 'Drama', 'Mystery'], runtimeMinutes: 47,
+      imdbRating: 8.8, poster: null, imdbId: 'tt0098936',
+    });
+  });
+
+  // Test that OMDb search hits become candidates with their year and type
+  it('omdbProvider maps OMDb search pages', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      json: () => Promise.resolve({
+        Response: 'True',
+        totalResults: '31',
+        Search: [{ Title: 'Dune', Year: '1984', imdbID: 'tt0087182', Type: 'movie', Poster: 'N/A' }],
+      }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await omdbProvider('k').search('Dune', 2)).toEqual({
+      results: [{ title: 'Dune', year: 1984, type: 'movie', poster: null, imdbId: 'tt0087182' }],
+      page: 2,
+      totalResults: 31,
+    });
+    expect(fetchMock).toHaveBeenCalledWith('https://www.omdbapi.com/?apikey=k&s=Dune&page=2');
+  });
+
+  // Test that rate-limited answers are retried with backoff, and OMDb's daily limit is a failure
+  it('backs off when rate limited', async () => {
+    const limited = { status: 429, headers: new Headers(), json: () => Promise.resolve({}) };
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(limited)
+      .mockResolvedValueOnce({ status: 200, headers: new Headers(), json: () => Promise.resolve({ ok: true }) });
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect((await fetchWithBackoff('https://example.test', { delayMs: 1 })).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    fetchMock.mockResolvedValue(limited);
+    expect((await fetchWithBackoff('https://example.test', { retries: 1, delayMs: 1 })).status).toBe(429);
+
+    fetchMock.mockResolvedValue({ status: 401, headers: new Headers(), json: () => Promise.resolve({ Response: 'False', Error: 'Request limit reached!' }) });
+    await expect(omdbProvider('k').findByImdbId('tt0078748')).rejects.toThrow('request limit');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseMovieReference, resolveImdbId } from '../movieReferences';
+
+const env = (vars: Record<string, string>) => ({ get: (key: string) => vars[key] });
+
+describe('movieReferences', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  // Test that IMDb ids and IMDb, TMDB and Letterboxd URLs are recognised, and titles aren't
+  it('parseMovieReference recognises pasted links and ids', () => {
+    expect(parseMovieReference(' tt0133093 ')).toEqual({ source: 'imdb', imdbId: 'tt0133093' });
+    expect(parseMovieReference('https://www.imdb.com/title/tt0133093/?ref_=fn_al_tt_1')).toEqual({ source: 'imdb', imdbId: 'tt0133093' });
+    expect(parseMovieReference('https://m.imdb.com/de/title/tt0133093/')).toEqual({ source: 'imdb', imdbId: 'tt0133093' });
+    expect(parseMovieReference('https://www.themoviedb.org/movie/603-the-matrix')).toEqual({ source: 'tmdb', tmdbId: 603 });
+    expect(parseMovieReference('letterboxd.com/film/the-matrix/')).toEqual({ source: 'letterboxd', slug: 'the-matrix' });
+    expect(parseMovieReference('https://letterboxd.com/someone/film/the-matrix/')).toEqual({ source: 'letterboxd', slug: 'the-matrix' });
+
+    expect(parseMovieReference('The Matrix')).toBeNull();
+    expect(parseMovieReference('https://www.themoviedb.org/tv/1399')).toBeNull();
+    expect(parseMovieReference('https://www.imdb.com/name/nm0000206/')).toBeNull();
+  });
+
+  // Test that a Letterboxd page resolves through its IMDb link
+  it('resolveImdbId reads the IMDb id off a Letterboxd page', async () => {
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      text: () => Promise.resolve('<a href="http://www.imdb.com/title/tt0133093/maindetails" data-track-action="IMDb">IMDb</a>'),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await resolveImdbId({ source: 'letterboxd', slug: 'the-matrix' }, env({}))).toBe('tt0133093');
+    expect(fetchMock).toHaveBeenCalledWith('https://letterboxd.com/film/the-matrix/');
+  });
+
+  // Test that TMDB links need a TMDB key and resolve through TMDB's external ids
+  it('resolveImdbId looks TMDB ids up on TMDB', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, json: () => Promise.resolve({ imdb_id: 'tt0133093' }) }));
+
+    expect(await resolveImdbId({ source: 'tmdb', tmdbId: 603 }, env({}))).toBeNull();
+    expect(await resolveImdbId({ source: 'tmdb', tmdbId: 603 }, env({ TMDB_API_KEY: 'k' }))).toBe('tt0133093');
+  });
+});
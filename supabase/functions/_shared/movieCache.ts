@@ -0,0 +1,158 @@
+// Read-through cache over the metadata providers, backed by the shared
+// `movies` catalogue (one row per IMDb id, across all sessions). Entries
+// older than the TTL are refreshed from the providers on read; when the
+// providers can't answer (rate limited, down), the stale entry is used.
+//
+// Like movieMetadata.ts this module has no Deno or Supabase imports; the
+// edge functions hand in a MovieCache (see supabaseMovieCache.ts).
+import {
+  lookupMovie,
+  lookupMovieById,
+  MovieMetadata,
+  MovieMetadataProvider,
+  ProviderEnv,
+  toMovieColumns,
+} from "./movieMetadata.ts";
+
+export interface CachedMovie {
+  metadata: MovieMetadata;
+  // when the providers were last asked about this movie
+  fetchedAt: string;
+}
+
+export interface MovieCache {
+  get: (imdbId: string) => Promise<CachedMovie | null>;
+  // entries whose title matches the key case-insensitively, and its year if it has one
+  findByTitle: (key: TitleKey) => Promise<CachedMovie[]>;
+  put: (metadata: MovieMetadata) => Promise<void>;
+}
+
+export interface TitleKey {
+  title: string;
+  year: number | null;
+}
+
+// "  the  Thing (1982)" -> { title: "the thing", year: 1982 }
+export const toTitleKey = (title: string): TitleKey => {
+  const normalized = title.trim().replace(/\s+/g, " ").toLowerCase();
+  const match = normalized.match(/^(.+?) \((\d{4})\)$/);
+  return match ? { title: match[1], year: Number(match[2]) } : { title: normalized, year: null };
+};
+
+export const DEFAULT_CACHE_TTL_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// MOVIE_CACHE_TTL_DAYS overrides how long catalogue entries are trusted
+export const cacheTtlFromEnv = (env: ProviderEnv): number => {
+  const days = Number(env.get("MOVIE_CACHE_TTL_DAYS"));
+  return (days > 0 ? days : DEFAULT_CACHE_TTL_DAYS) * DAY_MS;
+};
+
+export const isFresh = (cached: CachedMovie, ttlMs: number, now = Date.now()): boolean =>
+  now - new Date(cached.fetchedAt).getTime() < ttlMs;
+
+// A `movies` row with its genres, as read by the cache
+export type MovieRow = Omit<ReturnType<typeof toMovieColumns>, "genres"> & {
+  imdb_id: string;
+  title: string;
+  actors: string | null;
+  fetched_at: string;
+  movie_genres: { position: number; genres: { name: string } | null }[];
+};
+
+// The catalogue_movie arguments that add or refresh a movie
+export const toCatalogueArgs = (metadata: MovieMetadata & { imdbId: string }) => ({
+  p_imdb_id: metadata.imdbId,
+  p_title: metadata.title,
+  p_year: metadata.year,
+  p_genres: metadata.genres,
+  p_director: metadata.director,
+  p_actors: metadata.actors,
+  p_plot: metadata.plot,
+  p_poster: metadata.poster,
+  p_imdb_rating: metadata.imdbRating,
+  p_runtime_minutes: metadata.runtimeMinutes,
+});
+
+export const fromMovieRow = (row: MovieRow): CachedMovie => ({
+  metadata: {
+    title: row.title,
+    year: row.year,
+    genres: [...row.movie_genres]
+      .sort((a, b) => a.position - b.position)
+      .flatMap(g => g.genres ? [g.genres.name] : []),
+    director: row.director,
+    actors: row.actors,
+    plot: row.plot,
+    poster: row.poster,
+    // numeric columns can come back as strings
+    imdbRating: row.imdb_rating === null ? null : Number(row.imdb_rating),
+    runtimeMinutes: row.runtime_minutes,
+    imdbId: row.imdb_id,
+  },
+  fetchedAt: row.fetched_at,
+});
+
+// Lookups answered for anyone, like search-movie's, read the catalogue but
+// leave it as it is: catalogue writes rewrite the copies of a movie's details
+// in every session, so only callers checked for session access make them
+export const readOnlyCache = (cache: MovieCache): MovieCache => ({
+  ...cache,
+  put: () => Promise.resolve(),
+});
+
+// The cache is an optimisation: failing to read or write it never fails a lookup
+const readCache = (cache: MovieCache, imdbId: string) =>
+  cache.get(imdbId).catch(error => {
+    console.error("Failed to read the movie catalogue:", error);
+    return null;
+  });
+
+// Only a title that names one catalogued movie is answered from the
+// catalogue; "The Thing" could be either of two, so the providers pick
+const readCacheByTitle = async (cache: MovieCache, title: string) => {
+  const found = await cache.findByTitle(toTitleKey(title)).catch(error => {
+    console.error("Failed to read the movie catalogue:", error);
+    return [];
+  });
+  return found.length === 1 ? found[0] : null;
+};
+
+const writeCache = async (cache: MovieCache, metadata: MovieMetadata | null) => {
+  if (!metadata?.imdbId) return;
+  await cache.put(metadata).catch(error => console.error("Failed to write the movie catalogue:", error));
+};
+
+// Fresh catalogue entries are used as they are; anything else asks the providers
+export const cachedLookupMovieById = async (
+  imdbId: string,
+  providers: MovieMetadataProvider[],
+  cache: MovieCache,
+  ttlMs: number
+): Promise<MovieMetadata | null> => {
+  const cached = await readCache(cache, imdbId);
+  if (cached && isFresh(cached, ttlMs)) return cached.metadata;
+
+  const fetched = await lookupMovieById(imdbId, providers);
+  if (!fetched) return cached?.metadata ?? null;
+  await writeCache(cache, fetched);
+  return fetched;
+};
+
+// The same for a title, matched against the catalogued titles. Answers
+// from the providers are catalogued for later lookups by id or title.
+export const cachedLookupMovie = async (
+  title: string,
+  providers: MovieMetadataProvider[],
+  cache: MovieCache,
+  ttlMs: number
+): Promise<MovieMetadata | null> => {
+  const cached = await readCacheByTitle(cache, title);
+  if (cached && isFresh(cached, ttlMs)) return cached.metadata;
+
+  const fetched = await lookupMovie(title, providers);
+  if (!fetched) return cached?.metadata ?? null;
+  await writeCache(cache, fetched);
+  return fetched;
+};
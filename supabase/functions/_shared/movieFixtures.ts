@@ -0,0 +1,54 @@
+import type { MovieMetadata } from "./movieMetadata.ts";
+
+// A handful of real movies for the fixture provider, so proposals get posters
+// and runtimes without any API key (MOVIE_METADATA_PROVIDERS=fixture)
+export const MOVIE_FIXTURES: MovieMetadata[] = [
+  {
+    title: "Alien",
+    year: 1979,
+    genres: ["Horror", "Sci-Fi"],
+    director: "Ridley Scott",
+    actors: "Sigourney Weaver, Tom Skerritt, John Hurt",
+    plot: "The crew of a commercial spacecraft encounters a deadly lifeform after investigating an unknown transmission.",
+    poster: null,
+    imdbRating: 8.5,
+    runtimeMinutes: 117,
+    imdbId: "tt0078748",
+  },
+  {
+    title: "Heat",
+    year: 1995,
+    genres: ["Action", "Crime", "Drama"],
+    director: "Michael Mann",
+    actors: "Al Pacino, Robert De Niro, Val Kilmer",
+    plot: "A group of high-end professional thieves start to feel the heat from the LAPD when they unknowingly leave a clue at their latest heist.",
+    poster: null,
+    imdbRating: 8.3,
+    runtimeMinutes: 170,
+    imdbId: "tt0113277",
+  },
+  {
+    title: "Spirited Away",
+    year: 2001,
+    genres: ["Animation", "Adventure", "Family"],
+    director: "Hayao Miyazaki",
+    actors: "Daveigh Chase, Suzanne Pleshette, Miyu Irino",
+    plot: "During her family's move to the suburbs, a sullen 10-year-old girl wanders into a world ruled by gods, witches and spirits.",
+    poster: null,
+    imdbRating: 8.6,
+    runtimeMinutes: 125,
+    imdbId: "tt0245429",
+  },
+  {
+    title: "The Grand Budapest Hotel",
+    year: 2014,
+    genres: ["Adventure", "Comedy", "Crime"],
+    director: "Wes Anderson",
+    actors: "Ralph Fiennes, F. Murray Abraham, Mathieu Amalric",
+    plot: "A writer encounters the owner of an aging high-class hotel, who tells him of his early years serving as a lobby boy.",
+    poster: null,
+    imdbRating: 8.1,
+    runtimeMinutes: 99,
+    imdbId: "tt2278388",
+  },
+];
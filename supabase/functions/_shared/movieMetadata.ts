@@ -0,0 +1,348 @@
+// Movie metadata providers shared by the edge functions. Each provider maps
+// its API onto MovieMetadata; lookupMovie asks every configured provider and
+// merges the answers by priority, so a field missing from the first provider
+// can still come from the next one. searchMovies lists candidates to pick
+// from, and the IMDb id of the pick is what identifies the movie from then on.
+//
+// No Deno globals here: the environment is passed in, which keeps the module
+// importable from the web app's types and its tests.
+import { MOVIE_FIXTURES } from "./movieFixtures.ts";
+
+export interface MovieMetadata {
+  title: string;
+  // the first year of a series' run
+  year: number | null;
+  // most defining first, as the provider lists them
+  genres: string[];
+  director: string | null;
+  actors: string | null;
+  plot: string | null;
+  poster: string | null;
+  // out of 10
+  imdbRating: number | null;
+  runtimeMinutes: number | null;
+  imdbId: string | null;
+}
+
+// One search hit, enough to tell "Dune" (1984) from "Dune" (2021)
+export interface MovieCandidate {
+  title: string;
+  year: number | null;
+  // "movie", "series", "episode", ...
+  type: string | null;
+  poster: string | null;
+  imdbId: string | null;
+}
+
+export interface MovieSearchPage {
+  results: MovieCandidate[];
+  // 1-based; page sizes are up to the provider
+  page: number;
+  totalResults: number;
+}
+
+export interface MovieMetadataProvider {
+  name: string;
+  findByTitle: (title: string) => Promise<MovieMetadata | null>;
+  findByImdbId: (imdbId: string) => Promise<MovieMetadata | null>;
+  search: (query: string, page: number) => Promise<MovieSearchPage>;
+}
+
+export interface ProviderEnv {
+  get: (key: string) => string | undefined;
+}
+
+export const isImdbId = (value: string): boolean => /^tt\d{7,}$/.test(value);
+
+const noResults = (page: number): MovieSearchPage => ({ results: [], page, totalResults: 0 });
+
+export const PROVIDER_NAMES = ["omdb", "tmdb", "fixture"] as const;
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+// Used when MOVIE_METADATA_PROVIDERS isn't set
+export const DEFAULT_PROVIDERS: ProviderName[] = ["omdb", "tmdb"];
+
+const emptyMetadata = (title: string): MovieMetadata => ({
+  title,
+  year: null,
+  genres: [],
+  director: null,
+  actors: null,
+  plot: null,
+  poster: null,
+  imdbRating: null,
+  runtimeMinutes: null,
+  imdbId: null,
+});
+
+// Longest wait between retries, so a lookup still fits in an edge function call
+const MAX_BACKOFF_MS = 8000;
+
+// Retries rate-limited (429) and unavailable (5xx) answers with exponential
+// backoff, waiting as long as Retry-After asks when the API says
+export const fetchWithBackoff = async (url: string, { retries = 2, delayMs = 500 } = {}): Promise<Response> => {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(url);
+    const retryable = response.status === 429 || response.status >= 500;
+    if (!retryable || attempt >= retries) return response;
+
+    const retryAfter = Number(response.headers.get("Retry-After")) * 1000;
+    const wait = Math.min(retryAfter > 0 ? retryAfter : delayMs * 2 ** attempt, MAX_BACKOFF_MS);
+    await new Promise(resolve => setTimeout(resolve, wait));
+  }
+};
+
+// OMDb marks missing values with "N/A"
+const omdbValue = (value: string | undefined): string | null =>
+  value && value !== "N/A" ? value : null;
+
+// Parsers for the display strings OMDb sends: "2017–2019", "121 min", "7.0"
+// and "Drama, Horror, Mystery"
+export const parseYear = (text: string | null | undefined): number | null => {
+  const match = text?.match(/\d{4}/);
+  return match ? Number(match[0]) : null;
+};
+
+export const parseMinutes = (text: string | null | undefined): number | null => {
+  const match = text?.match(/\d+/);
+  return match && Number(match[0]) > 0 ? Number(match[0]) : null;
+};
+
+export const parseRating = (text: string | null | undefined): number | null =>
+  text && /^\d+(\.\d+)?$/.test(text) ? Number(text) : null;
+
+export const parseGenres = (text: string | null | undefined): string[] =>
+  (text ?? "").split(",").map(g => g.trim()).filter(g => g && g !== "N/A");
+
+const fromOmdb = (data: Record<string, string>): MovieMetadata => ({
+  title: data.Title,
+  year: parseYear(data.Year),
+  genres: parseGenres(data.Genre),
+  director: omdbValue(data.Director),
+  actors: omdbValue(data.Actors),
+  plot: omdbValue(data.Plot),
+  poster: omdbValue(data.Poster),
+  imdbRating: parseRating(data.imdbRating),
+  runtimeMinutes: parseMinutes(data.Runtime),
+  imdbId: omdbValue(data.imdbID),
+});
+
+export const omdbProvider = (apiKey: string): MovieMetadataProvider => {
+  const get = async (params: string) => {
+    const response = await fetchWithBackoff(`https://www.omdbapi.com/?apikey=${apiKey}&${params}`);
+    const data = await response.json();
+    // The daily limit isn't "not found": failing lets other providers and the
+    // cache answer instead
+    if (data.Error === "Request limit reached!") throw new Error("OMDb request limit reached");
+    return data;
+  };
+
+  return {
+    name: "omdb",
+    findByTitle: async (title) => {
+      const data = await get(`t=${encodeURIComponent(title)}`);
+      return data.Response === "False" ? null : fromOmdb(data);
+    },
+    findByImdbId: async (imdbId) => {
+      const data = await get(`i=${encodeURIComponent(imdbId)}`);
+      return data.Response === "False" ? null : fromOmdb(data);
+    },
+    // Ten hits a page; "Movie not found!" comes back as Response "False"
+    search: async (query, page) => {
+      const data = await get(`s=${encodeURIComponent(query)}&page=${page}`);
+      if (data.Response === "False") return noResults(page);
+      return {
+        results: (data.Search as Record<string, string>[]).map(hit => ({
+          title: hit.Title,
+          year: parseYear(hit.Year),
+          type: omdbValue(hit.Type),
+          poster: omdbValue(hit.Poster),
+          imdbId: omdbValue(hit.imdbID),
+        })),
+        page,
+        totalResults: Number(data.totalResults) || 0,
+      };
+    },
+  };
+};
+
+const TMDB_API = "https://api.themoviedb.org/3";
+const TMDB_POSTERS = "https://image.tmdb.org/t/p/w500";
+
+type TmdbPerson = { name: string; job?: string };
+type TmdbSearchHit = { id: number; title: string; release_date?: string; poster_path?: string | null };
+
+export const tmdbProvider = (apiKey: string): MovieMetadataProvider => {
+  const get = async (path: string, params = "") => {
+    const response = await fetchWithBackoff(`${TMDB_API}${path}?api_key=${apiKey}${params}`);
+    return response.json();
+  };
+
+  const details = async (tmdbId: number): Promise<MovieMetadata> => {
+    const movie = await get(`/movie/${tmdbId}`, "&append_to_response=credits");
+    const director = (movie.credits?.crew as TmdbPerson[] | undefined)?.find(p => p.job === "Director");
+    const cast = ((movie.credits?.cast as TmdbPerson[] | undefined) ?? []).slice(0, 3).map(p => p.name);
+
+    return {
+      ...emptyMetadata(movie.title),
+      year: parseYear(movie.release_date),
+      genres: (movie.genres ?? []).map((g: { name: string }) => g.name),
+      director: director?.name ?? null,
+      actors: cast.length ? cast.join(", ") : null,
+      plot: movie.overview || null,
+      poster: movie.poster_path ? `${TMDB_POSTERS}${movie.poster_path}` : null,
+      // TMDB's own vote average isn't an IMDb rating, so it is left to OMDb
+      runtimeMinutes: movie.runtime || null,
+      imdbId: movie.imdb_id || null,
+    };
+  };
+
+  return {
+    name: "tmdb",
+    findByTitle: async (title) => {
+      const found = (await get("/search/movie", `&query=${encodeURIComponent(title)}`)).results?.[0];
+      return found ? details(found.id) : null;
+    },
+    findByImdbId: async (imdbId) => {
+      const found = (await get(`/find/${encodeURIComponent(imdbId)}`, "&external_source=imdb_id")).movie_results?.[0];
+      return found ? details(found.id) : null;
+    },
+    // Search hits don't carry IMDb ids, so each one is looked up; TMDB pages are 20 long
+    search: async (query, page) => {
+      const data = await get("/search/movie", `&query=${encodeURIComponent(query)}&page=${page}`);
+      const hits: TmdbSearchHit[] = data.results ?? [];
+      const imdbIds = await Promise.all(hits.map(hit =>
+        get(`/movie/${hit.id}/external_ids`).then(ids => ids.imdb_id || null, () => null)
+      ));
+      return {
+        results: hits.map((hit, i) => ({
+          title: hit.title,
+          year: parseYear(hit.release_date),
+          type: "movie",
+          poster: hit.poster_path ? `${TMDB_POSTERS}${hit.poster_path}` : null,
+          imdbId: imdbIds[i],
+        })),
+        page,
+        totalResults: data.total_results ?? 0,
+      };
+    },
+  };
+};
+
+const FIXTURE_PAGE_SIZE = 10;
+
+// Canned movies for offline development and tests
+export const fixtureProvider = (fixtures: MovieMetadata[] = MOVIE_FIXTURES): MovieMetadataProvider => ({
+  name: "fixture",
+  findByTitle: async (title) =>
+    fixtures.find(m => m.title.toLowerCase() === title.trim().toLowerCase()) ?? null,
+  findByImdbId: async (imdbId) => fixtures.find(m => m.imdbId === imdbId) ?? null,
+  search: async (query, page) => {
+    const hits = fixtures.filter(m => m.title.toLowerCase().includes(query.trim().toLowerCase()));
+    return {
+      results: hits.slice((page - 1) * FIXTURE_PAGE_SIZE, page * FIXTURE_PAGE_SIZE).map(m => ({
+        title: m.title, year: m.year, type: "movie", poster: m.poster, imdbId: m.imdbId,
+      })),
+      page,
+      totalResults: hits.length,
+    };
+  },
+});
+
+// MOVIE_METADATA_PROVIDERS is a comma-separated list in priority order, e.g.
+// "tmdb,omdb" or "fixture". Providers whose API key is missing are skipped.
+export const providersFromEnv = (env: ProviderEnv): MovieMetadataProvider[] => {
+  const configured = env.get("MOVIE_METADATA_PROVIDERS");
+  const names = configured
+    ? configured.split(",").map(n => n.trim().toLowerCase()).filter(Boolean)
+    : DEFAULT_PROVIDERS;
+
+  return names.flatMap((name): MovieMetadataProvider[] => {
+    switch (name) {
+      case "omdb": {
+        const key = env.get("OMDB_API_KEY");
+        if (!key) console.warn("OMDB_API_KEY is not set, skipping the OMDb provider");
+        return key ? [omdbProvider(key)] : [];
+      }
+      case "tmdb": {
+        const key = env.get("TMDB_API_KEY");
+        if (!key) console.warn("TMDB_API_KEY is not set, skipping the TMDB provider");
+        return key ? [tmdbProvider(key)] : [];
+      }
+      case "fixture":
+        return [fixtureProvider()];
+      default:
+        console.warn(`Unknown movie metadata provider "${name}"`);
+        return [];
+    }
+  });
+};
+
+// The first answer decides which movie it is; later answers only fill in
+// fields it is missing (null, or no genres), and only when they aren't a
+// different movie
+const isMissing = (value: unknown) => value === null || (Array.isArray(value) && value.length === 0);
+
+export const mergeMetadata = (answers: (MovieMetadata | null)[]): MovieMetadata | null => {
+  const found = answers.filter((m): m is MovieMetadata => m !== null);
+  if (found.length === 0) return null;
+
+  const [primary, ...rest] = found;
+  return rest
+    .filter(m => !primary.imdbId || !m.imdbId || m.imdbId === primary.imdbId)
+    .reduce((merged, m) => {
+      const filled = { ...merged };
+      for (const key of Object.keys(m) as (keyof MovieMetadata)[]) {
+        if (isMissing(filled[key]) && !isMissing(m[key])) Object.assign(filled, { [key]: m[key] });
+      }
+      return filled;
+    }, primary);
+};
+
+const askAll = async (
+  providers: MovieMetadataProvider[],
+  ask: (provider: MovieMetadataProvider) => Promise<MovieMetadata | null>
+): Promise<MovieMetadata | null> => {
+  const answers = await Promise.all(providers.map(provider =>
+    ask(provider).catch(error => {
+      console.error(`Movie metadata provider ${provider.name} failed:`, error);
+      return null;
+    })
+  ));
+  return mergeMetadata(answers);
+};
+
+// Asks every provider at once; a provider that fails counts as not finding it
+export const lookupMovie = (title: string, providers: MovieMetadataProvider[]): Promise<MovieMetadata | null> =>
+  askAll(providers, provider => provider.findByTitle(title));
+
+// The same for a movie the user already picked, so it can't drift to another
+// movie with the same title
+export const lookupMovieById = (imdbId: string, providers: MovieMetadataProvider[]): Promise<MovieMetadata | null> =>
+  askAll(providers, provider => provider.findByImdbId(imdbId));
+
+// Pages can't be merged across providers, so the first provider in priority
+// order that finds anything answers the whole search
+export const searchMovies = async (query: string, page: number, providers: MovieMetadataProvider[]): Promise<MovieSearchPage> => {
+  for (const provider of providers) {
+    try {
+      const found = await provider.search(query, page);
+      if (found.totalResults > 0) return found;
+    } catch (error) {
+      console.error(`Movie metadata provider ${provider.name} failed to search:`, error);
+    }
+  }
+  return noResults(page);
+};
+
+// Metadata as movie_proposals / watched_movies columns
+export const toMovieColumns = (metadata: MovieMetadata | null) => ({
+  poster: metadata?.poster ?? null,
+  genres: metadata?.genres ?? [],
+  runtime_minutes: metadata?.runtimeMinutes ?? null,
+  year: metadata?.year ?? null,
+  director: metadata?.director ?? null,
+  plot: metadata?.plot ?? null,
+  imdb_rating: metadata?.imdbRating ?? null,
+  imdb_id: metadata?.imdbId ?? null,
+});
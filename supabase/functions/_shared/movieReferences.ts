@@ -0,0 +1,76 @@
+// Pasted movie links and ids: an IMDb id or URL, a TMDB movie URL or a
+// Letterboxd film URL. Each resolves to the movie's IMDb id, which the
+// metadata providers can look up exactly (see movieMetadata.ts).
+import { fetchWithBackoff, isImdbId, ProviderEnv } from "./movieMetadata.ts";
+
+export type MovieReference =
+  | { source: "imdb"; imdbId: string }
+  | { source: "tmdb"; tmdbId: number }
+  | { source: "letterboxd"; slug: string };
+
+// imdb.com/title/tt0133093, also with a language prefix (imdb.com/de/title/...)
+const IMDB_URL = /^(?:https?:\/\/)?(?:www\.|m\.)?imdb\.com\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?title\/(tt\d{7,})/i;
+// themoviedb.org/movie/603-the-matrix; TV shows aren't movies, so /tv/ isn't matched
+const TMDB_URL = /^(?:https?:\/\/)?(?:www\.)?themoviedb\.org\/(?:[a-z]{2}(?:-[a-z]{2})?\/)?movie\/(\d+)/i;
+// letterboxd.com/film/the-matrix/, also a member's page for it (letterboxd.com/someone/film/the-matrix/)
+const LETTERBOXD_URL = /^(?:https?:\/\/)?(?:www\.)?letterboxd\.com\/(?:[\w-]+\/)?film\/([a-z0-9-]+)/i;
+
+// null for anything else, which is then treated as a title to search for
+export const parseMovieReference = (input: string): MovieReference | null => {
+  const text = input.trim();
+  if (isImdbId(text)) return { source: "imdb", imdbId: text };
+
+  const imdb = text.match(IMDB_URL);
+  if (imdb) return { source: "imdb", imdbId: imdb[1].toLowerCase() };
+
+  const tmdb = text.match(TMDB_URL);
+  if (tmdb) return { source: "tmdb", tmdbId: Number(tmdb[1]) };
+
+  const letterboxd = text.match(LETTERBOXD_URL);
+  if (letterboxd) return { source: "letterboxd", slug: letterboxd[1].toLowerCase() };
+
+  return null;
+};
+
+export const isMovieReference = (input: string): boolean => parseMovieReference(input) !== null;
+
+const tmdbImdbId = async (tmdbId: number, env: ProviderEnv): Promise<string | null> => {
+  const apiKey = env.get("TMDB_API_KEY");
+  if (!apiKey) {
+    console.warn("TMDB_API_KEY is not set, TMDB links can't be resolved");
+    return null;
+  }
+  const response = await fetchWithBackoff(`https://api.themoviedb.org/3/movie/${tmdbId}/external_ids?api_key=${apiKey}`);
+  if (!response.ok) return null;
+  const ids = await response.json();
+  return ids.imdb_id && isImdbId(ids.imdb_id) ? ids.imdb_id : null;
+};
+
+// Letterboxd has no public API, but its film pages link to IMDb and carry the TMDB id
+const letterboxdImdbId = async (slug: string, env: ProviderEnv): Promise<string | null> => {
+  const response = await fetch(`https://letterboxd.com/film/${slug}/`);
+  if (!response.ok) return null;
+  const page = await response.text();
+
+  const imdb = page.match(/imdb\.com\/title\/(tt\d{7,})/);
+  if (imdb) return imdb[1];
+  const tmdb = page.match(/data-tmdb-id="(\d+)"/);
+  return tmdb ? tmdbImdbId(Number(tmdb[1]), env) : null;
+};
+
+// The IMDb id a reference points at, or null when it can't be resolved
+export const resolveImdbId = async (reference: MovieReference, env: ProviderEnv): Promise<string | null> => {
+  try {
+    switch (reference.source) {
+      case "imdb":
+        return reference.imdbId;
+      case "tmdb":
+        return await tmdbImdbId(reference.tmdbId, env);
+      case "letterboxd":
+        return await letterboxdImdbId(reference.slug, env);
+    }
+  } catch (error) {
+    console.error(`Failed to resolve the ${reference.source} link:`, error);
+    return null;
+  }
+};
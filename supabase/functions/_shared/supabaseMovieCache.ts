@@ -0,0 +1,34 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { fromMovieRow, MovieCache, MovieRow, toCatalogueArgs } from "./movieCache.ts";
+
+// The `movies` catalogue as a MovieCache. Anyone can read it, but only the
+// service role can write to it (through catalogue_movie, which also stores
+// the genres), so a client with the anon key is only fit for readOnlyCache.
+export const supabaseMovieCache = (supabase: SupabaseClient): MovieCache => ({
+  get: async (imdbId) => {
+    const { data, error } = await supabase
+      .from("movies")
+      .select("*, movie_genres(position, genres(name))")
+      .eq("imdb_id", imdbId)
+      .maybeSingle();
+    if (error) throw error;
+    return data ? fromMovieRow(data as MovieRow) : null;
+  },
+  findByTitle: async ({ title, year }) => {
+    // ilike without wildcards is a case-insensitive equality
+    let query = supabase
+      .from("movies")
+      .select("*, movie_genres(position, genres(name))")
+      .ilike("title", title.replace(/[\\%_]/g, "\\$&"));
+    if (year !== null) query = query.eq("year", year);
+    // two are enough to tell that the title is ambiguous
+    const { data, error } = await query.limit(2);
+    if (error) throw error;
+    return (data || []).map(row => fromMovieRow(row as MovieRow));
+  },
+  put: async (metadata) => {
+    if (!metadata.imdbId) return;
+    const { error } = await supabase.rpc("catalogue_movie", toCatalogueArgs({ ...metadata, imdbId: metadata.imdbId }));
+    if (error) throw error;
+  },
+});
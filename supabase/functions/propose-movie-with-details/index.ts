@@ -1,10 +1,14 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.56.0';
+import { isImdbId, MovieMetadata, providersFromEnv, toMovieColumns } from "../_shared/movieMetadata.ts";
+import { cacheTtlFromEnv, cachedLookupMovie, cachedLookupMovieById } from "../_shared/movieCache.ts";
+import { parseMovieReference, resolveImdbId } from "../_shared/movieReferences.ts";
+import { supabaseMovieCache } from "../_shared/supabaseMovieCache.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-session-token',
 };
 
 serve(async (req) => {
@@ -14,11 +18,16 @@ serve(async (req) => {
   }
 
   try {
-    const { sessionId, personId, movieTitle } = await req.json();
+    // parked: add the title to the person's backlog instead of the active pool
+    // imdbId: the search candidate the person picked, if they picked one
+    // reference: a pasted IMDb, TMDB or Letterboxd link or IMDb id
+    // Either of the last two can stand in for the title, which is then the movie's own
+    const { sessionId, personId, movieTitle, parked = false, imdbId = null, reference = null } = await req.json();
 
-    if (!sessionId || !personId || !movieTitle || movieTitle.trim() === '') {
+    const hasTitle = typeof movieTitle === 'string' && movieTitle.trim() !== '';
+    if (!sessionId || !personId || (!hasTitle && !imdbId && !reference)) {
       return new Response(
-        JSON.stringify({ error: 'Session ID, person ID, and movie title are required' }),
+        JSON.stringify({ error: 'Session ID, person ID, and a movie title or id are required' }),
         { 
           status: 400,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
@@ -26,26 +35,181 @@ serve(async (req) => {
       );
     }
 
+    if (imdbId !== null && (typeof imdbId !== 'string' || !isImdbId(imdbId))) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid IMDb id' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const movieReference = typeof reference === 'string' ? parseMovieReference(reference) : null;
+    if (reference !== null && !movieReference) {
+      return new Response(
+        JSON.stringify({ error: 'Not an IMDb, TMDB or Letterboxd movie link' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // The service role bypasses row level security, so first check that the
+    // caller can access this session with their own credentials and token
+    const callerClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: {
+            Authorization: req.headers.get('Authorization') ?? '',
+            'x-session-token': req.headers.get('x-session-token') ?? '',
+          }
+        }
+      }
+    );
+
+    const { data: hasAccess, error: accessError } = await callerClient
+      .rpc('has_session_access', { p_session_id: sessionId });
+
+    if (accessError || !hasAccess) {
+      return new Response(
+        JSON.stringify({ error: 'Access to this session is not allowed' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // The proposal and its default rating are written as personId, so the
+    // caller must have claimed that person, in this session
+    const [{ data: canActAs, error: claimError }, { data: personSessionId, error: personError }] = await Promise.all([
+      callerClient.rpc('can_act_as', { p_person_id: personId }),
+      callerClient.rpc('person_session_id', { p_person_id: personId }),
+    ]);
+
+    if (claimError || personError || !canActAs || personSessionId !== sessionId) {
+      return new Response(
+        JSON.stringify({ error: 'You can only propose as a person you have claimed in this session' }),
+        {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Recorded on the proposal so the activity log can attribute it to the caller
+    const { data: { user: caller } } = await callerClient.auth.getUser();
+
     // Initialize Supabase client
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
-    // Check if this movie is already proposed by this person in this session
-    const { data: existingProposal } = await supabase
+    const pickedImdbId: string | null = movieReference ? await resolveImdbId(movieReference, Deno.env) : imdbId;
+    if (movieReference && !pickedImdbId) {
+      return new Response(
+        JSON.stringify({ error: 'Could not resolve the movie link' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    // Proposed by id alone, the title comes from the movie's details, so they
+    // are looked up before anything else
+    // Details are read through the shared movie catalogue
+    const providers = providersFromEnv(Deno.env);
+    const cache = supabaseMovieCache(supabase);
+    const ttl = cacheTtlFromEnv(Deno.env);
+    let metadata: MovieMetadata | null = null;
+    if (!hasTitle) {
+      metadata = await cachedLookupMovieById(pickedImdbId!, providers, cache, ttl);
+      if (!metadata) {
+        return new Response(
+          JSON.stringify({ error: 'Movie not found' }),
+          {
+            status: 404,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+    }
+
+    // A movie already up in this session is backed instead of proposed twice,
+    // so the votes aren't split across duplicate proposals. A picked IMDb id
+    // is the movie's identity: it matches proposals of that movie under any
+    // title, and only matches by title those that were never identified, so
+    // "The Thing" (2011) doesn't join "The Thing" (1982).
+    const title: string = hasTitle ? movieTitle.trim() : metadata!.title;
+    const sessionProposals = () => supabase
       .from('movie_proposals')
-      .select('id')
+      .select('id, parked_at, proposal_proposers(person_id)')
       .eq('session_id', sessionId)
-      .eq('person_id', personId)
-      .eq('movie_title', movieTitle.trim())
-      .single();
+      .is('deleted_at', null)
+      .order('created_at')
+      .limit(1);
+
+    let existingProposal = null;
+    if (pickedImdbId) {
+      ({ data: existingProposal } = await sessionProposals().eq('imdb_id', pickedImdbId).maybeSingle());
+    }
+    if (!existingProposal) {
+      let byTitle = sessionProposals().ilike('movie_title', title.replace(/[\\%_]/g, '\\$&'));
+      if (pickedImdbId) byTitle = byTitle.is('imdb_id', null);
+      ({ data: existingProposal } = await byTitle.maybeSingle());
+    }
 
     if (existingProposal) {
+      // Joining a parked proposal only adds it to the backlog, so it isn't
+      // passed off as an active pick; it has to be promoted, within the cap
+      if (existingProposal.parked_at && !parked) {
+        return new Response(
+          JSON.stringify({ error: 'This movie is already in the backlog. Promote it to bring it into the pool.', proposalId: existingProposal.id }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      const alreadyBacked = (existingProposal.proposal_proposers || [])
+        .some((backer: { person_id: string }) => backer.person_id === personId);
+
+      if (!alreadyBacked) {
+        // Backed with the caller's own credentials, so second_proposal checks
+        // the person claim, session and active proposal cap like it does for
+        // the app; it also adds the default rating of 5, unless the person
+        // already rated it
+        const { error: backerError } = await callerClient
+          .rpc('second_proposal', { p_proposal_id: existingProposal.id, p_person_id: personId });
+
+        if (backerError) {
+          console.error('Error adding co-proposer:', backerError);
+          const status = backerError.code === '42501' ? 403
+            : backerError.code === 'P0002' ? 404
+            : backerError.code === '22023' ? 409
+            : 500;
+          return new Response(
+            JSON.stringify({ error: status === 500 ? 'Failed to join the existing proposal' : backerError.message }),
+            {
+              status,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          );
+        }
+      }
+
       return new Response(
         JSON.stringify({ 
           success: true, 
-          message: 'Movie already proposed by this person',
+          message: alreadyBacked ? 'Movie already proposed by this person' : 'Joined the existing proposal',
+          merged: !alreadyBacked,
           proposalId: existingProposal.id 
         }),
         {
@@ -54,56 +218,48 @@ serve(async (req) => {
       );
     }
 
-    // Fetch movie details from OMDB API
-    const omdbApiKey = Deno.env.get('OMDB_API_KEY');
-    let movieDetails = {
-      poster: null,
-      genre: null,
-      runtime: null,
-      year: null,
-      director: null,
-      plot: null,
-      imdb_rating: null,
-      imdb_id: null
-    };
-
-    if (omdbApiKey) {
-      try {
-        console.log(`Fetching details for movie: ${movieTitle}`);
-        const omdbUrl = `https://www.omdbapi.com/?apikey=${omdbApiKey}&t=${encodeURIComponent(movieTitle.trim())}`;
-        const response = await fetch(omdbUrl);
-        const movieData = await response.json();
-
-        if (movieData.Response !== 'False') {
-          movieDetails = {
-            poster: movieData.Poster !== 'N/A' ? movieData.Poster : null,
-            genre: movieData.Genre !== 'N/A' ? movieData.Genre : null,
-            runtime: movieData.Runtime !== 'N/A' ? movieData.Runtime : null,
-            year: movieData.Year !== 'N/A' ? movieData.Year : null,
-            director: movieData.Director !== 'N/A' ? movieData.Director : null,
-            plot: movieData.Plot !== 'N/A' ? movieData.Plot : null,
-            imdb_rating: movieData.imdbRating !== 'N/A' ? movieData.imdbRating : null,
-            imdb_id: movieData.imdbID !== 'N/A' ? movieData.imdbID : null
-          };
-          console.log(`Successfully fetched details for: ${movieData.Title}`);
-        } else {
-          console.log(`Movie not found in OMDB: ${movieTitle}`);
-        }
-      } catch (error) {
-        console.error('Error fetching movie details from OMDB:', error);
-        // Continue with empty details if API fails
+    // New active proposals count towards the person's cap; parked ones don't
+    if (!parked) {
+      const [{ data: session }, { data: activeCount }] = await Promise.all([
+        supabase.from('movie_sessions').select('max_active_proposals').eq('id', sessionId).single(),
+        supabase.rpc('active_proposal_count', { p_person_id: personId }),
+      ]);
+      const cap = session?.max_active_proposals ?? 3;
+
+      if ((activeCount ?? 0) >= cap) {
+        return new Response(
+          JSON.stringify({ error: `This person already has ${cap} active proposals. Park one or add this title to the backlog.` }),
+          {
+            status: 409,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
       }
-    } else {
-      console.warn('OMDB API key not available, creating proposal without details');
     }
 
+    // Fetch movie details from the configured metadata providers, unless they
+    // were already fetched for the title
+    if (!metadata && providers.length > 0) {
+      console.log(`Fetching details for movie: ${pickedImdbId ?? title}`);
+      metadata = pickedImdbId
+        ? await cachedLookupMovieById(pickedImdbId, providers, cache, ttl)
+        : await cachedLookupMovie(title, providers, cache, ttl);
+      if (!metadata) console.log(`Movie not found by any provider: ${pickedImdbId ?? title}`);
+    } else if (providers.length === 0) {
+      console.warn('No movie metadata provider is configured, creating proposal without details');
+    }
+    // The picked id is kept even when no provider could return its details
+    const movieDetails = { ...toMovieColumns(metadata), ...(pickedImdbId ? { imdb_id: pickedImdbId } : {}) };
+
     // Insert movie proposal with details
     const { data: newProposal, error: insertError } = await supabase
       .from('movie_proposals')
       .insert({
         session_id: sessionId,
         person_id: personId,
-        movie_title: movieTitle.trim(),
+        movie_title: title,
+        created_by: caller?.id ?? null,
+        parked_at: parked ? new Date().toISOString() : null,
         ...movieDetails
       })
       .select()
@@ -120,13 +276,27 @@ serve(async (req) => {
       );
     }
 
-    console.log(`Successfully created proposal for: ${movieTitle}`);
+    // Proposers start with a rating of 5 for their own pick. Rating writes are
+    // guarded by person claims, so this is done here with the service role.
+    const { error: ratingError } = await supabase
+      .from('movie_ratings')
+      .upsert({
+        proposal_id: newProposal.id,
+        person_id: personId,
+        rating: 5
+      }, { onConflict: 'proposal_id,person_id' });
+
+    if (ratingError) {
+      console.error('Error saving default proposer rating:', ratingError);
+    }
+
+    console.log(`Successfully created proposal for: ${title}`);
 
     return new Response(
       JSON.stringify({ 
         success: true, 
         proposal: newProposal,
-        detailsFetched: !!omdbApiKey && !!movieDetails.imdb_id
+        detailsFetched: !!metadata
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -1,9 +1,14 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.56.0';
+import { isImdbId, providersFromEnv, searchMovies } from "../_shared/movieMetadata.ts";
+import { cacheTtlFromEnv, cachedLookupMovie, cachedLookupMovieById, readOnlyCache } from "../_shared/movieCache.ts";
+import { parseMovieReference, resolveImdbId } from "../_shared/movieReferences.ts";
+import { supabaseMovieCache } from "../_shared/supabaseMovieCache.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-session-token',
 };
 
 serve(async (req) => {
@@ -13,9 +18,45 @@ serve(async (req) => {
   }
 
   try {
-    const { title } = await req.json();
+    // { query, page } lists candidates to pick from; { imdbId } returns the
+    // details of a picked candidate; { reference } those of a pasted IMDb,
+    // TMDB or Letterboxd link; { title } returns the best match
+    const { title, query, page = 1, imdbId, reference } = await req.json();
 
-    if (!title || title.trim() === '') {
+    const searchQuery = typeof query === 'string' ? query.trim() : '';
+    const pageNumber = Number(page);
+    if (query !== undefined && (!searchQuery || !Number.isInteger(pageNumber) || pageNumber < 1)) {
+      return new Response(
+        JSON.stringify({ error: 'A search query and a page number from 1 are required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    if (imdbId !== undefined && (typeof imdbId !== 'string' || !isImdbId(imdbId))) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid IMDb id' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    const movieReference = typeof reference === 'string' ? parseMovieReference(reference) : null;
+    if (reference !== undefined && !movieReference) {
+      return new Response(
+        JSON.stringify({ error: 'Not an IMDb, TMDB or Letterboxd movie link' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
+
+    if (query === undefined && imdbId === undefined && reference === undefined && (!title || title.trim() === '')) {
       return new Response(
         JSON.stringify({ error: 'Movie title is required' }),
         { 
@@ -25,9 +66,9 @@ serve(async (req) => {
       );
     }
 
-    const omdbApiKey = Deno.env.get('OMDB_API_KEY');
-    if (!omdbApiKey) {
-      console.error('OMDB API key not found in environment variables');
+    const providers = providersFromEnv(Deno.env);
+    if (providers.length === 0) {
+      console.error('No movie metadata provider is configured');
       return new Response(
         JSON.stringify({ error: 'API configuration error' }),
         { 
@@ -37,36 +78,52 @@ serve(async (req) => {
       );
     }
 
-    const omdbUrl = `https://www.omdbapi.com/?apikey=${omdbApiKey}&t=${encodeURIComponent(title)}`;
-    
-    console.log(`Searching for movie: ${title}`);
-    
-    const response = await fetch(omdbUrl);
-    const movieData = await response.json();
+    const providerNames = providers.map(p => p.name).join(', ');
 
-    if (movieData.Response === 'False') {
+    if (query !== undefined) {
+      console.log(`Searching for movies: ${searchQuery}, page ${pageNumber} (${providerNames})`);
+      const results = await searchMovies(searchQuery, pageNumber, providers);
       return new Response(
-        JSON.stringify({ error: movieData.Error || 'Movie not found' }),
-        { 
+        JSON.stringify(results),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const exactId = movieReference ? await resolveImdbId(movieReference, Deno.env) : imdbId;
+    if (movieReference && !exactId) {
+      return new Response(
+        JSON.stringify({ error: 'Could not resolve the movie link' }),
+        {
           status: 404,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' }
         }
       );
     }
 
-    // Return relevant movie information
-    const movieInfo = {
-      title: movieData.Title,
-      year: movieData.Year,
-      genre: movieData.Genre,
-      director: movieData.Director,
-      actors: movieData.Actors,
-      plot: movieData.Plot,
-      poster: movieData.Poster,
-      imdbRating: movieData.imdbRating,
-      runtime: movieData.Runtime,
-      imdbId: movieData.imdbID
-    };
+    console.log(`Looking up movie: ${exactId ?? title} (${providerNames})`);
+
+    // Details are read through the shared movie catalogue. Anyone can call
+    // this function, so it doesn't write to the catalogue; proposing does.
+    const cache = readOnlyCache(supabaseMovieCache(createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? ''
+    )));
+    const ttl = cacheTtlFromEnv(Deno.env);
+    const movieInfo = exactId
+      ? await cachedLookupMovieById(exactId, providers, cache, ttl)
+      : await cachedLookupMovie(title.trim(), providers, cache, ttl);
+
+    if (!movieInfo) {
+      return new Response(
+        JSON.stringify({ error: 'Movie not found' }),
+        { 
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      );
+    }
 
     return new Response(
       JSON.stringify(movieInfo),
@@ -0,0 +1,198 @@
+-- Person claims: a session_people row can be claimed once by a device.
+-- Devices are identified by their (anonymous) Supabase auth user, whose
+-- persisted refresh token acts as the per-device secret.
+CREATE TABLE public.person_claims (
+  person_id UUID NOT NULL PRIMARY KEY REFERENCES public.session_people(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  claimed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Re-claim requests let a new device take over a claimed person once approved
+CREATE TABLE public.person_reclaim_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  person_id UUID NOT NULL REFERENCES public.session_people(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_person_claims_user_id ON public.person_claims(user_id);
+CREATE UNIQUE INDEX idx_person_reclaim_requests_pending
+  ON public.person_reclaim_requests(person_id, user_id)
+  WHERE status = 'pending';
+
+-- Enable Row Level Security
+ALTER TABLE public.person_claims ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.person_reclaim_requests ENABLE ROW LEVEL SECURITY;
+
+-- Claims are readable so clients can tell who is taken; all writes go through
+-- the SECURITY DEFINER functions below
+CREATE POLICY "Public read access to person_claims" ON public.person_claims FOR SELECT USING (true);
+CREATE POLICY "Public read access to person_reclaim_requests" ON public.person_reclaim_requests FOR SELECT USING (true);
+
+-- True when the calling device holds the claim for the given person
+CREATE OR REPLACE FUNCTION public.can_act_as(p_person_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.person_claims
+    WHERE person_id = p_person_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.claim_person(p_person_id UUID)
+RETURNS public.person_claims
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_claim public.person_claims;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'A device identity is required to claim a person' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.person_claims (person_id, user_id)
+  VALUES (p_person_id, auth.uid())
+  ON CONFLICT (person_id) DO NOTHING
+  RETURNING * INTO v_claim;
+
+  IF NOT FOUND THEN
+    SELECT * INTO v_claim FROM public.person_claims WHERE person_id = p_person_id;
+    IF v_claim.user_id <> auth.uid() THEN
+      RAISE EXCEPTION 'This person has already been claimed on another device' USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN v_claim;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.request_person_reclaim(p_person_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'A device identity is required to request a re-claim' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_request_id FROM public.person_reclaim_requests
+  WHERE person_id = p_person_id AND user_id = auth.uid() AND status = 'pending';
+
+  IF v_request_id IS NULL THEN
+    INSERT INTO public.person_reclaim_requests (person_id, user_id)
+    VALUES (p_person_id, auth.uid())
+    RETURNING id INTO v_request_id;
+  END IF;
+
+  RETURN v_request_id;
+END;
+$$;
+
+-- Moves the claim to the requesting device
+CREATE OR REPLACE FUNCTION public.approve_person_reclaim(p_request_id UUID)
+RETURNS public.person_claims
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.person_reclaim_requests;
+  v_claim public.person_claims;
+BEGIN
+  SELECT * INTO v_request FROM public.person_reclaim_requests
+  WHERE id = p_request_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Re-claim request not found or already resolved';
+  END IF;
+
+  INSERT INTO public.person_claims (person_id, user_id)
+  VALUES (v_request.person_id, v_request.user_id)
+  ON CONFLICT (person_id) DO UPDATE SET user_id = EXCLUDED.user_id, claimed_at = now()
+  RETURNING * INTO v_claim;
+
+  UPDATE public.person_reclaim_requests
+  SET status = 'approved', resolved_at = now()
+  WHERE id = p_request_id;
+
+  -- Any other pending request for the same person is now stale
+  UPDATE public.person_reclaim_requests
+  SET status = 'rejected', resolved_at = now()
+  WHERE person_id = v_request.person_id AND status = 'pending';
+
+  RETURN v_claim;
+END;
+$$;
+
+-- Until sessions have admins, re-claims are approved from the dashboard
+REVOKE EXECUTE ON FUNCTION public.approve_person_reclaim(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_person_reclaim(UUID) TO service_role;
+
+-- Guard person-scoped writes. Only the rating itself is protected on the
+-- rating tables, so bookkeeping updates (linking a rating to its watched
+-- movie, ticking someone present) keep working for everyone.
+CREATE OR REPLACE FUNCTION public.enforce_person_claim()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_guarded BOOLEAN;
+BEGIN
+  -- Edge functions run as service_role; nested calls are cascaded deletes
+  IF auth.role() = 'service_role' OR pg_trigger_depth() > 1 THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_TABLE_NAME = 'favourite_movies' THEN
+    v_guarded := true;
+  ELSIF TG_OP = 'INSERT' THEN
+    v_guarded := NEW.rating IS NOT NULL;
+  ELSIF TG_OP = 'UPDATE' THEN
+    v_guarded := NEW.rating IS DISTINCT FROM OLD.rating OR NEW.person_id IS DISTINCT FROM OLD.person_id;
+  ELSE
+    v_guarded := OLD.rating IS NOT NULL;
+  END IF;
+
+  IF v_guarded THEN
+    IF TG_OP <> 'INSERT' AND NOT public.can_act_as(OLD.person_id) THEN
+      RAISE EXCEPTION 'Person % is not claimed by this device', OLD.person_id USING ERRCODE = '42501';
+    END IF;
+    IF TG_OP <> 'DELETE' AND NOT public.can_act_as(NEW.person_id) THEN
+      RAISE EXCEPTION 'Person % is not claimed by this device', NEW.person_id USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER enforce_movie_ratings_claim
+  BEFORE INSERT OR UPDATE OR DELETE ON public.movie_ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_person_claim();
+
+CREATE TRIGGER enforce_detailed_ratings_claim
+  BEFORE INSERT OR UPDATE OR DELETE ON public.detailed_ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_person_claim();
+
+CREATE TRIGGER enforce_favourite_movies_claim
+  BEFORE INSERT OR UPDATE OR DELETE ON public.favourite_movies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_person_claim();
+
+-- Broadcast claims so other devices see people become taken
+ALTER PUBLICATION supabase_realtime ADD TABLE public.person_claims;
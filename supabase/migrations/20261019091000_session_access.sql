@@ -0,0 +1,225 @@
+-- Session access tokens: every session gets a join secret that is carried in
+-- the share link (?session=<id>&key=<secret>) and sent by the client as the
+-- x-session-token header. Sessions created before this migration have no
+-- secret and stay open until a member generates one.
+ALTER TABLE public.movie_sessions ADD COLUMN join_secret TEXT;
+
+-- Devices that joined a session with a valid token. Realtime subscriptions
+-- carry no custom headers, so membership is what keeps them authorised.
+CREATE TABLE public.session_members (
+  session_id UUID NOT NULL REFERENCES public.movie_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (session_id, user_id)
+);
+
+CREATE INDEX idx_session_members_user_id ON public.session_members(user_id);
+
+ALTER TABLE public.session_members ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.request_session_token()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT NULLIF(current_setting('request.headers', true), '')::json ->> 'x-session-token';
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_session_access(p_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.movie_sessions s
+    WHERE s.id = p_session_id
+      AND (s.join_secret IS NULL OR s.join_secret = public.request_session_token())
+  ) OR EXISTS (
+    SELECT 1 FROM public.session_members m
+    WHERE m.session_id = p_session_id AND m.user_id = auth.uid()
+  );
+$$;
+
+-- Lookups used by policies on tables that only reference a session indirectly
+CREATE OR REPLACE FUNCTION public.person_session_id(p_person_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT session_id FROM public.session_people WHERE id = p_person_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.proposal_session_id(p_proposal_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT session_id FROM public.movie_proposals WHERE id = p_proposal_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.generate_join_secret()
+RETURNS TEXT
+LANGUAGE sql
+VOLATILE
+AS $$
+  SELECT replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');
+$$;
+
+-- Sessions are created through this function so the creator can read the row
+-- (and its secret) back before holding a token
+CREATE OR REPLACE FUNCTION public.create_session(p_name TEXT)
+RETURNS public.movie_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.movie_sessions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'A device identity is required to create a session' USING ERRCODE = '42501';
+  END IF;
+  IF p_name IS NULL OR btrim(p_name) = '' THEN
+    RAISE EXCEPTION 'Session name is required';
+  END IF;
+
+  INSERT INTO public.movie_sessions (name, join_secret)
+  VALUES (btrim(p_name), public.generate_join_secret())
+  RETURNING * INTO v_session;
+
+  INSERT INTO public.session_members (session_id, user_id)
+  VALUES (v_session.id, auth.uid());
+
+  RETURN v_session;
+END;
+$$;
+
+-- Records membership for a device holding a valid token and returns the session
+CREATE OR REPLACE FUNCTION public.join_session(p_session_id UUID, p_token TEXT DEFAULT NULL)
+RETURNS public.movie_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.movie_sessions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'A device identity is required to join a session' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_session FROM public.movie_sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.session_members
+    WHERE session_id = p_session_id AND user_id = auth.uid()
+  ) THEN
+    IF v_session.join_secret IS NOT NULL
+      AND v_session.join_secret IS DISTINCT FROM COALESCE(p_token, public.request_session_token()) THEN
+      RAISE EXCEPTION 'A valid session token is required' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO public.session_members (session_id, user_id)
+    VALUES (p_session_id, auth.uid())
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN v_session;
+END;
+$$;
+
+-- Returns the session's join secret to members, generating one for legacy sessions
+CREATE OR REPLACE FUNCTION public.get_session_join_secret(p_session_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_secret TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.session_members
+    WHERE session_id = p_session_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only session members can share the session' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.movie_sessions
+  SET join_secret = COALESCE(join_secret, public.generate_join_secret())
+  WHERE id = p_session_id
+  RETURNING join_secret INTO v_secret;
+
+  RETURN v_secret;
+END;
+$$;
+
+-- Replace the public-access policies with session-scoped ones
+ALTER TABLE public.favourite_movies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.proposal_comments ENABLE ROW LEVEL SECURITY;
+
+DO $$
+DECLARE
+  v_policy RECORD;
+BEGIN
+  FOR v_policy IN
+    SELECT policyname, tablename FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename IN (
+        'movie_sessions', 'session_people', 'movie_proposals', 'movie_ratings',
+        'watched_movies', 'detailed_ratings', 'proposal_comments', 'favourite_movies',
+        'person_claims', 'person_reclaim_requests'
+      )
+  LOOP
+    EXECUTE format('DROP POLICY %I ON public.%I', v_policy.policyname, v_policy.tablename);
+  END LOOP;
+END;
+$$;
+
+CREATE POLICY "Session access to movie_sessions" ON public.movie_sessions
+  FOR SELECT USING (public.has_session_access(id));
+CREATE POLICY "Session access to update movie_sessions" ON public.movie_sessions
+  FOR UPDATE USING (public.has_session_access(id)) WITH CHECK (public.has_session_access(id));
+
+CREATE POLICY "Session access to session_members" ON public.session_members
+  FOR SELECT USING (public.has_session_access(session_id));
+
+CREATE POLICY "Session access to session_people" ON public.session_people
+  FOR ALL USING (public.has_session_access(session_id)) WITH CHECK (public.has_session_access(session_id));
+
+CREATE POLICY "Session access to movie_proposals" ON public.movie_proposals
+  FOR ALL USING (public.has_session_access(session_id)) WITH CHECK (public.has_session_access(session_id));
+
+CREATE POLICY "Session access to watched_movies" ON public.watched_movies
+  FOR ALL USING (public.has_session_access(session_id)) WITH CHECK (public.has_session_access(session_id));
+
+CREATE POLICY "Session access to movie_ratings" ON public.movie_ratings
+  FOR ALL USING (public.has_session_access(public.person_session_id(person_id)))
+  WITH CHECK (public.has_session_access(public.person_session_id(person_id)));
+
+CREATE POLICY "Session access to detailed_ratings" ON public.detailed_ratings
+  FOR ALL USING (public.has_session_access(public.person_session_id(person_id)))
+  WITH CHECK (public.has_session_access(public.person_session_id(person_id)));
+
+CREATE POLICY "Session access to favourite_movies" ON public.favourite_movies
+  FOR ALL USING (public.has_session_access(public.person_session_id(person_id)))
+  WITH CHECK (public.has_session_access(public.person_session_id(person_id)));
+
+CREATE POLICY "Session access to proposal_comments" ON public.proposal_comments
+  FOR ALL USING (public.has_session_access(public.proposal_session_id(proposal_id)))
+  WITH CHECK (public.has_session_access(public.proposal_session_id(proposal_id)));
+
+CREATE POLICY "Session access to person_claims" ON public.person_claims
+  FOR SELECT USING (public.has_session_access(public.person_session_id(person_id)));
+
+CREATE POLICY "Session access to person_reclaim_requests" ON public.person_reclaim_requests
+  FOR SELECT USING (public.has_session_access(public.person_session_id(person_id)));
@@ -0,0 +1,282 @@
+-- Session admins: the device that creates a session becomes its admin and can
+-- promote co-admins. Destructive actions (removing people, removing other
+-- people's proposals, marking as watched, editing watched movies, renaming the
+-- session) are limited to admins.
+ALTER TABLE public.session_members
+  ADD COLUMN role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('member', 'admin'));
+
+-- Existing sessions: the earliest member becomes the admin
+UPDATE public.session_members m
+SET role = 'admin'
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.session_members earlier
+  WHERE earlier.session_id = m.session_id
+    AND (earlier.joined_at, earlier.user_id) < (m.joined_at, m.user_id)
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.session_members;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.person_reclaim_requests;
+
+CREATE OR REPLACE FUNCTION public.is_session_admin(p_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.session_members
+    WHERE session_id = p_session_id AND user_id = auth.uid() AND role = 'admin'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_session(p_name TEXT)
+RETURNS public.movie_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.movie_sessions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'A device identity is required to create a session' USING ERRCODE = '42501';
+  END IF;
+  IF p_name IS NULL OR btrim(p_name) = '' THEN
+    RAISE EXCEPTION 'Session name is required';
+  END IF;
+
+  INSERT INTO public.movie_sessions (name, join_secret)
+  VALUES (btrim(p_name), public.generate_join_secret())
+  RETURNING * INTO v_session;
+
+  INSERT INTO public.session_members (session_id, user_id, role)
+  VALUES (v_session.id, auth.uid(), 'admin');
+
+  RETURN v_session;
+END;
+$$;
+
+-- Legacy sessions have no creator on record, so the first device to join one
+-- without an admin becomes its admin
+CREATE OR REPLACE FUNCTION public.join_session(p_session_id UUID, p_token TEXT DEFAULT NULL)
+RETURNS public.movie_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.movie_sessions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'A device identity is required to join a session' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_session FROM public.movie_sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.session_members
+    WHERE session_id = p_session_id AND user_id = auth.uid()
+  ) THEN
+    IF v_session.join_secret IS NOT NULL
+      AND v_session.join_secret IS DISTINCT FROM COALESCE(p_token, public.request_session_token()) THEN
+      RAISE EXCEPTION 'A valid session token is required' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO public.session_members (session_id, user_id, role)
+    VALUES (
+      p_session_id,
+      auth.uid(),
+      CASE WHEN EXISTS (
+        SELECT 1 FROM public.session_members WHERE session_id = p_session_id AND role = 'admin'
+      ) THEN 'member' ELSE 'admin' END
+    )
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN v_session;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_member_role(p_session_id UUID, p_user_id UUID, p_role TEXT)
+RETURNS public.session_members
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member public.session_members;
+BEGIN
+  IF NOT public.is_session_admin(p_session_id) THEN
+    RAISE EXCEPTION 'Only session admins can change roles' USING ERRCODE = '42501';
+  END IF;
+  IF p_role NOT IN ('member', 'admin') THEN
+    RAISE EXCEPTION 'Unknown role %', p_role;
+  END IF;
+
+  IF p_role = 'member' AND NOT EXISTS (
+    SELECT 1 FROM public.session_members
+    WHERE session_id = p_session_id AND role = 'admin' AND user_id <> p_user_id
+  ) THEN
+    RAISE EXCEPTION 'A session needs at least one admin';
+  END IF;
+
+  UPDATE public.session_members
+  SET role = p_role
+  WHERE session_id = p_session_id AND user_id = p_user_id
+  RETURNING * INTO v_member;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Device is not a member of this session' USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN v_member;
+END;
+$$;
+
+-- Moves a proposal to watched_movies, keeping its ratings linked
+CREATE OR REPLACE FUNCTION public.mark_proposal_watched(p_proposal_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal public.movie_proposals;
+  v_watched_id UUID;
+BEGIN
+  SELECT * INTO v_proposal FROM public.movie_proposals WHERE id = p_proposal_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT public.is_session_admin(v_proposal.session_id) THEN
+    RAISE EXCEPTION 'Only session admins can mark movies as watched' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.watched_movies (
+    session_id, movie_title, proposed_by, poster, genre, runtime, year,
+    director, plot, imdb_rating, imdb_id, watched_at
+  )
+  SELECT
+    v_proposal.session_id, v_proposal.movie_title, COALESCE(p.name, 'Unknown'),
+    v_proposal.poster, v_proposal.genre, v_proposal.runtime, v_proposal.year,
+    v_proposal.director, v_proposal.plot, v_proposal.imdb_rating, v_proposal.imdb_id, now()
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.session_people p ON p.id = v_proposal.person_id
+  RETURNING id INTO v_watched_id;
+
+  UPDATE public.movie_ratings SET watched_movie_id = v_watched_id WHERE proposal_id = p_proposal_id;
+  DELETE FROM public.proposal_comments WHERE proposal_id = p_proposal_id;
+  DELETE FROM public.movie_proposals WHERE id = p_proposal_id;
+
+  RETURN v_watched_id;
+END;
+$$;
+
+-- Re-claims can now be resolved by admins of the person's session
+CREATE OR REPLACE FUNCTION public.approve_person_reclaim(p_request_id UUID)
+RETURNS public.person_claims
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.person_reclaim_requests;
+  v_claim public.person_claims;
+BEGIN
+  SELECT * INTO v_request FROM public.person_reclaim_requests
+  WHERE id = p_request_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Re-claim request not found or already resolved';
+  END IF;
+
+  IF auth.role() IS DISTINCT FROM 'service_role'
+    AND NOT public.is_session_admin(public.person_session_id(v_request.person_id)) THEN
+    RAISE EXCEPTION 'Only session admins can approve re-claims' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.person_claims (person_id, user_id)
+  VALUES (v_request.person_id, v_request.user_id)
+  ON CONFLICT (person_id) DO UPDATE SET user_id = EXCLUDED.user_id, claimed_at = now()
+  RETURNING * INTO v_claim;
+
+  UPDATE public.person_reclaim_requests
+  SET status = 'approved', resolved_at = now()
+  WHERE id = p_request_id;
+
+  -- Any other pending request for the same person is now stale
+  UPDATE public.person_reclaim_requests
+  SET status = 'rejected', resolved_at = now()
+  WHERE person_id = v_request.person_id AND status = 'pending';
+
+  RETURN v_claim;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.approve_person_reclaim(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.reject_person_reclaim(p_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_request public.person_reclaim_requests;
+BEGIN
+  SELECT * INTO v_request FROM public.person_reclaim_requests
+  WHERE id = p_request_id AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Re-claim request not found or already resolved';
+  END IF;
+
+  IF NOT public.is_session_admin(public.person_session_id(v_request.person_id)) THEN
+    RAISE EXCEPTION 'Only session admins can reject re-claims' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.person_reclaim_requests
+  SET status = 'rejected', resolved_at = now()
+  WHERE id = p_request_id;
+END;
+$$;
+
+-- Split the session-wide policies so destructive writes require an admin
+DROP POLICY "Session access to update movie_sessions" ON public.movie_sessions;
+CREATE POLICY "Admins can update movie_sessions" ON public.movie_sessions
+  FOR UPDATE USING (public.is_session_admin(id)) WITH CHECK (public.is_session_admin(id));
+
+DROP POLICY "Session access to session_people" ON public.session_people;
+CREATE POLICY "Session access to read session_people" ON public.session_people
+  FOR SELECT USING (public.has_session_access(session_id));
+CREATE POLICY "Session access to insert session_people" ON public.session_people
+  FOR INSERT WITH CHECK (public.has_session_access(session_id));
+CREATE POLICY "Session access to update session_people" ON public.session_people
+  FOR UPDATE USING (public.has_session_access(session_id)) WITH CHECK (public.has_session_access(session_id));
+CREATE POLICY "Admins can delete session_people" ON public.session_people
+  FOR DELETE USING (public.is_session_admin(session_id));
+
+DROP POLICY "Session access to movie_proposals" ON public.movie_proposals;
+CREATE POLICY "Session access to read movie_proposals" ON public.movie_proposals
+  FOR SELECT USING (public.has_session_access(session_id));
+CREATE POLICY "Session access to insert movie_proposals" ON public.movie_proposals
+  FOR INSERT WITH CHECK (public.has_session_access(session_id));
+CREATE POLICY "Session access to update movie_proposals" ON public.movie_proposals
+  FOR UPDATE USING (public.has_session_access(session_id)) WITH CHECK (public.has_session_access(session_id));
+CREATE POLICY "Proposers and admins can delete movie_proposals" ON public.movie_proposals
+  FOR DELETE USING (public.can_act_as(person_id) OR public.is_session_admin(session_id));
+
+DROP POLICY "Session access to watched_movies" ON public.watched_movies;
+CREATE POLICY "Session access to read watched_movies" ON public.watched_movies
+  FOR SELECT USING (public.has_session_access(session_id));
+CREATE POLICY "Session access to insert watched_movies" ON public.watched_movies
+  FOR INSERT WITH CHECK (public.has_session_access(session_id));
+CREATE POLICY "Admins can update watched_movies" ON public.watched_movies
+  FOR UPDATE USING (public.is_session_admin(session_id)) WITH CHECK (public.is_session_admin(session_id));
+CREATE POLICY "Admins can delete watched_movies" ON public.watched_movies
+  FOR DELETE USING (public.is_session_admin(session_id));
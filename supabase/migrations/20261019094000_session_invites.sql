@@ -0,0 +1,169 @@
+-- Session invites: expiring, revocable join links. A newcomer opens
+-- /s/<id>/join?key=<token>, joins the session as a member and then either adds
+-- themselves as a new person or claims an existing one. Members remember which
+-- invite they joined through.
+CREATE TABLE public.session_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.movie_sessions(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT public.generate_join_secret(),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_session_invites_session_id ON public.session_invites(session_id);
+
+ALTER TABLE public.session_members
+  ADD COLUMN invite_id UUID REFERENCES public.session_invites(id) ON DELETE SET NULL;
+
+ALTER TABLE public.session_invites ENABLE ROW LEVEL SECURITY;
+
+-- Members can list invites; all writes go through the functions below
+CREATE POLICY "Session access to read session_invites" ON public.session_invites
+  FOR SELECT USING (public.has_session_access(session_id));
+
+-- Any member can invite. Legacy sessions without a join secret get one here,
+-- so inviting someone closes the session to unauthenticated links.
+CREATE OR REPLACE FUNCTION public.create_session_invite(p_session_id UUID, p_expires_in INTERVAL DEFAULT INTERVAL '7 days')
+RETURNS public.session_invites
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.session_invites;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.session_members
+    WHERE session_id = p_session_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Only session members can create invites' USING ERRCODE = '42501';
+  END IF;
+  IF p_expires_in IS NULL OR p_expires_in <= INTERVAL '0' THEN
+    RAISE EXCEPTION 'Invites must expire in the future';
+  END IF;
+
+  UPDATE public.movie_sessions
+  SET join_secret = public.generate_join_secret()
+  WHERE id = p_session_id AND join_secret IS NULL;
+
+  INSERT INTO public.session_invites (session_id, created_by, expires_at)
+  VALUES (p_session_id, auth.uid(), now() + p_expires_in)
+  RETURNING * INTO v_invite;
+
+  RETURN v_invite;
+END;
+$$;
+
+-- The device that created an invite, or any admin, can revoke it
+CREATE OR REPLACE FUNCTION public.revoke_session_invite(p_invite_id UUID)
+RETURNS public.session_invites
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite public.session_invites;
+BEGIN
+  SELECT * INTO v_invite FROM public.session_invites WHERE id = p_invite_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF v_invite.created_by IS DISTINCT FROM auth.uid() AND NOT public.is_session_admin(v_invite.session_id) THEN
+    RAISE EXCEPTION 'Only the inviter or a session admin can revoke an invite' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.session_invites
+  SET revoked_at = COALESCE(revoked_at, now())
+  WHERE id = p_invite_id
+  RETURNING * INTO v_invite;
+
+  RETURN v_invite;
+END;
+$$;
+
+-- Accepts either the session join secret or a live invite token, recording
+-- the invite on the new membership
+CREATE OR REPLACE FUNCTION public.join_session(p_session_id UUID, p_token TEXT DEFAULT NULL)
+RETURNS public.movie_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.movie_sessions;
+  v_token TEXT := COALESCE(p_token, public.request_session_token());
+  v_invite_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'A device identity is required to join a session' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_session FROM public.movie_sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.session_members
+    WHERE session_id = p_session_id AND user_id = auth.uid()
+  ) THEN
+    SELECT id INTO v_invite_id FROM public.session_invites
+    WHERE session_id = p_session_id
+      AND token = v_token
+      AND revoked_at IS NULL
+      AND expires_at > now();
+
+    IF v_invite_id IS NULL
+      AND v_session.join_secret IS NOT NULL
+      AND v_session.join_secret IS DISTINCT FROM v_token THEN
+      RAISE EXCEPTION 'A valid session token is required' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO public.session_members (session_id, user_id, role, invite_id)
+    VALUES (
+      p_session_id,
+      auth.uid(),
+      CASE WHEN EXISTS (
+        SELECT 1 FROM public.session_members WHERE session_id = p_session_id AND role = 'admin'
+      ) THEN 'member' ELSE 'admin' END,
+      v_invite_id
+    )
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN v_session;
+END;
+$$;
+
+-- Join screen: adds the caller as a new person and claims them in one step
+CREATE OR REPLACE FUNCTION public.join_as_new_person(p_session_id UUID, p_name TEXT)
+RETURNS public.session_people
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_person public.session_people;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.session_members
+    WHERE session_id = p_session_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Join the session before adding yourself' USING ERRCODE = '42501';
+  END IF;
+  IF p_name IS NULL OR btrim(p_name) = '' THEN
+    RAISE EXCEPTION 'Name is required';
+  END IF;
+
+  INSERT INTO public.session_people (session_id, name, is_present)
+  VALUES (p_session_id, btrim(p_name), true)
+  RETURNING * INTO v_person;
+
+  INSERT INTO public.person_claims (person_id, user_id)
+  VALUES (v_person.id, auth.uid());
+
+  RETURN v_person;
+END;
+$$;
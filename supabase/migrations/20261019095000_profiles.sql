@@ -0,0 +1,70 @@
+-- Profiles: one global identity per friend that links their session_people
+-- rows across sessions, so stats can be aggregated over all of them. A
+-- profile belongs to the device that created it, and only that device can
+-- link people it has claimed to it.
+CREATE TABLE public.profiles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  display_name TEXT NOT NULL CHECK (btrim(display_name) <> ''),
+  owner_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_profiles_owner_id ON public.profiles(owner_id);
+
+ALTER TABLE public.session_people
+  ADD COLUMN profile_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_session_people_profile_id ON public.session_people(profile_id);
+
+ALTER TABLE public.profiles ENABLE ROW LEVEL SECURITY;
+
+-- Profile names are shown next to people in any session they are linked to
+CREATE POLICY "Public read access to profiles" ON public.profiles FOR SELECT USING (true);
+CREATE POLICY "Owners can insert profiles" ON public.profiles
+  FOR INSERT WITH CHECK (owner_id = auth.uid());
+CREATE POLICY "Owners can update profiles" ON public.profiles
+  FOR UPDATE USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+CREATE POLICY "Owners can delete profiles" ON public.profiles
+  FOR DELETE USING (owner_id = auth.uid());
+
+CREATE TRIGGER update_profiles_updated_at
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- session_people is writable by everyone in the session, so guard the link:
+-- only the device holding the person's claim can change it, and only to a
+-- profile that device owns
+CREATE OR REPLACE FUNCTION public.enforce_person_profile()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.role() = 'service_role' THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND NEW.profile_id IS NOT DISTINCT FROM OLD.profile_id THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' AND NEW.profile_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NOT public.can_act_as(NEW.id) THEN
+    RAISE EXCEPTION 'Person % is not claimed by this device', NEW.id USING ERRCODE = '42501';
+  END IF;
+  IF NEW.profile_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = NEW.profile_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Profile % does not belong to this device', NEW.profile_id USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_session_people_profile
+  BEFORE INSERT OR UPDATE ON public.session_people
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_person_profile();
@@ -0,0 +1,365 @@
+-- Soft delete: removing a person, a proposal or a watched movie moves it to the
+-- session's trash instead of deleting it. Trashed rows are hidden by row level
+-- security together with everything hanging off them (ratings, favourites,
+-- claims, comments), can be restored, and are only purged for good once they
+-- have been in the trash longer than the retention period.
+ALTER TABLE public.session_people ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.movie_proposals ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.watched_movies ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_session_people_deleted_at ON public.session_people(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_movie_proposals_deleted_at ON public.movie_proposals(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_watched_movies_deleted_at ON public.watched_movies(deleted_at) WHERE deleted_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.trash_retention()
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT INTERVAL '30 days';
+$$;
+
+-- Rows hanging off a trashed person or proposal resolve to no session, so the
+-- policies built on these helpers hide them too
+CREATE OR REPLACE FUNCTION public.person_session_id(p_person_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT session_id FROM public.session_people WHERE id = p_person_id AND deleted_at IS NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION public.proposal_session_id(p_proposal_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT session_id FROM public.movie_proposals WHERE id = p_proposal_id AND deleted_at IS NULL;
+$$;
+
+-- Trashed rows are invisible and read-only; moving rows in and out of the
+-- trash goes through trash_item / restore_item, and only the purge deletes
+DROP POLICY "Session access to read session_people" ON public.session_people;
+DROP POLICY "Session access to update session_people" ON public.session_people;
+DROP POLICY "Admins can delete session_people" ON public.session_people;
+CREATE POLICY "Session access to read session_people" ON public.session_people
+  FOR SELECT USING (public.has_session_access(session_id) AND deleted_at IS NULL);
+CREATE POLICY "Session access to update session_people" ON public.session_people
+  FOR UPDATE USING (public.has_session_access(session_id) AND deleted_at IS NULL)
+  WITH CHECK (public.has_session_access(session_id) AND deleted_at IS NULL);
+
+DROP POLICY "Session access to read movie_proposals" ON public.movie_proposals;
+DROP POLICY "Session access to update movie_proposals" ON public.movie_proposals;
+DROP POLICY "Proposers and admins can delete movie_proposals" ON public.movie_proposals;
+CREATE POLICY "Session access to read movie_proposals" ON public.movie_proposals
+  FOR SELECT USING (public.has_session_access(session_id) AND deleted_at IS NULL);
+CREATE POLICY "Session access to update movie_proposals" ON public.movie_proposals
+  FOR UPDATE USING (public.has_session_access(session_id) AND deleted_at IS NULL)
+  WITH CHECK (public.has_session_access(session_id) AND deleted_at IS NULL);
+
+DROP POLICY "Session access to read watched_movies" ON public.watched_movies;
+DROP POLICY "Admins can update watched_movies" ON public.watched_movies;
+DROP POLICY "Admins can delete watched_movies" ON public.watched_movies;
+CREATE POLICY "Session access to read watched_movies" ON public.watched_movies
+  FOR SELECT USING (public.has_session_access(session_id) AND deleted_at IS NULL);
+CREATE POLICY "Admins can update watched_movies" ON public.watched_movies
+  FOR UPDATE USING (public.is_session_admin(session_id) AND deleted_at IS NULL)
+  WITH CHECK (public.is_session_admin(session_id) AND deleted_at IS NULL);
+
+-- p_kind is 'person', 'proposal' or 'watched_movie'. Removing people and
+-- watched movies is admin-only; proposals can also be removed by the device
+-- acting as their proposer. A person's proposals go to the trash with them.
+CREATE OR REPLACE FUNCTION public.trash_item(p_kind TEXT, p_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session_id UUID;
+  v_person_id UUID;
+  v_deleted_at TIMESTAMP WITH TIME ZONE := now();
+BEGIN
+  IF p_kind = 'person' THEN
+    SELECT session_id INTO v_session_id FROM public.session_people WHERE id = p_id AND deleted_at IS NULL;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Person not found' USING ERRCODE = 'P0002';
+    END IF;
+    IF NOT public.is_session_admin(v_session_id) THEN
+      RAISE EXCEPTION 'Only session admins can remove people' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.session_people SET deleted_at = v_deleted_at WHERE id = p_id;
+    UPDATE public.movie_proposals SET deleted_at = v_deleted_at WHERE person_id = p_id AND deleted_at IS NULL;
+  ELSIF p_kind = 'proposal' THEN
+    SELECT session_id, person_id INTO v_session_id, v_person_id
+    FROM public.movie_proposals WHERE id = p_id AND deleted_at IS NULL;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'P0002';
+    END IF;
+    IF NOT (public.can_act_as(v_person_id) OR public.is_session_admin(v_session_id)) THEN
+      RAISE EXCEPTION 'Only session admins can remove other people''s proposals' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.movie_proposals SET deleted_at = v_deleted_at WHERE id = p_id;
+  ELSIF p_kind = 'watched_movie' THEN
+    SELECT session_id INTO v_session_id FROM public.watched_movies WHERE id = p_id AND deleted_at IS NULL;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Watched movie not found' USING ERRCODE = 'P0002';
+    END IF;
+    IF NOT public.is_session_admin(v_session_id) THEN
+      RAISE EXCEPTION 'Only session admins can remove watched movies' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.watched_movies SET deleted_at = v_deleted_at WHERE id = p_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown trash item kind %', p_kind;
+  END IF;
+
+  RETURN v_deleted_at;
+END;
+$$;
+
+-- Restoring needs the same rights as trashing. A person comes back with the
+-- proposals that were trashed along with them.
+CREATE OR REPLACE FUNCTION public.restore_item(p_kind TEXT, p_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_person public.session_people;
+  v_proposal public.movie_proposals;
+  v_session_id UUID;
+BEGIN
+  IF p_kind = 'person' THEN
+    SELECT * INTO v_person FROM public.session_people WHERE id = p_id AND deleted_at IS NOT NULL;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Person not found in trash' USING ERRCODE = 'P0002';
+    END IF;
+    IF NOT public.is_session_admin(v_person.session_id) THEN
+      RAISE EXCEPTION 'Only session admins can restore people' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.movie_proposals SET deleted_at = NULL
+    WHERE person_id = p_id AND deleted_at = v_person.deleted_at;
+    UPDATE public.session_people SET deleted_at = NULL WHERE id = p_id;
+  ELSIF p_kind = 'proposal' THEN
+    SELECT * INTO v_proposal FROM public.movie_proposals WHERE id = p_id AND deleted_at IS NOT NULL;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Proposal not found in trash' USING ERRCODE = 'P0002';
+    END IF;
+    IF NOT (public.can_act_as(v_proposal.person_id) OR public.is_session_admin(v_proposal.session_id)) THEN
+      RAISE EXCEPTION 'Only session admins can restore other people''s proposals' USING ERRCODE = '42501';
+    END IF;
+    IF public.person_session_id(v_proposal.person_id) IS NULL THEN
+      RAISE EXCEPTION 'Restore the person who proposed this movie first';
+    END IF;
+    IF EXISTS (
+      SELECT 1 FROM public.movie_proposals
+      WHERE person_id = v_proposal.person_id AND movie_title = v_proposal.movie_title AND deleted_at IS NULL
+    ) THEN
+      RAISE EXCEPTION '"%" has been proposed again since it was removed', v_proposal.movie_title USING ERRCODE = '23505';
+    END IF;
+
+    UPDATE public.movie_proposals SET deleted_at = NULL WHERE id = p_id;
+  ELSIF p_kind = 'watched_movie' THEN
+    SELECT session_id INTO v_session_id FROM public.watched_movies WHERE id = p_id AND deleted_at IS NOT NULL;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Watched movie not found in trash' USING ERRCODE = 'P0002';
+    END IF;
+    IF NOT public.is_session_admin(v_session_id) THEN
+      RAISE EXCEPTION 'Only session admins can restore watched movies' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.watched_movies SET deleted_at = NULL WHERE id = p_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown trash item kind %', p_kind;
+  END IF;
+END;
+$$;
+
+-- The session's trash, newest first. Proposals trashed together with their
+-- proposer are listed under the person rather than on their own. person_id is
+-- the person for people and the proposer for proposals, so clients can tell
+-- who may restore an item.
+CREATE OR REPLACE FUNCTION public.list_session_trash(p_session_id UUID)
+RETURNS TABLE (
+  kind TEXT,
+  id UUID,
+  label TEXT,
+  detail TEXT,
+  person_id UUID,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  purge_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_session_access(p_session_id) THEN
+    RAISE EXCEPTION 'No access to this session' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT t.kind, t.id, t.label, t.detail, t.person_id, t.deleted_at, t.deleted_at + public.trash_retention()
+  FROM (
+    SELECT 'person'::TEXT AS kind, sp.id, sp.name AS label,
+      (SELECT count(*) || ' proposal(s)' FROM public.movie_proposals mp
+        WHERE mp.person_id = sp.id AND mp.deleted_at = sp.deleted_at) AS detail,
+      sp.id AS person_id, sp.deleted_at
+    FROM public.session_people sp
+    WHERE sp.session_id = p_session_id AND sp.deleted_at IS NOT NULL
+    UNION ALL
+    SELECT 'proposal'::TEXT, mp.id, mp.movie_title, 'Proposed by ' || COALESCE(sp.name, 'Unknown'),
+      mp.person_id, mp.deleted_at
+    FROM public.movie_proposals mp
+    LEFT JOIN public.session_people sp ON sp.id = mp.person_id
+    WHERE mp.session_id = p_session_id AND mp.deleted_at IS NOT NULL
+      AND sp.deleted_at IS DISTINCT FROM mp.deleted_at
+    UNION ALL
+    SELECT 'watched_movie'::TEXT, w.id, w.movie_title, 'Watched on ' || to_char(w.watched_at, 'YYYY-MM-DD'),
+      NULL::UUID, w.deleted_at
+    FROM public.watched_movies w
+    WHERE w.session_id = p_session_id AND w.deleted_at IS NOT NULL
+  ) AS t
+  ORDER BY t.deleted_at DESC;
+END;
+$$;
+
+-- Deletes everything that has been in the trash longer than the retention
+-- period. Runs from pg_cron, outside of any request.
+CREATE OR REPLACE FUNCTION public.purge_session_trash()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_cutoff TIMESTAMP WITH TIME ZONE := now() - public.trash_retention();
+  v_count INTEGER;
+  v_total INTEGER := 0;
+BEGIN
+  -- Purging removes ratings of people whose claims are gone; let the claim
+  -- guards treat this like an edge function
+  PERFORM set_config('request.jwt.claim.role', 'service_role', true);
+
+  DELETE FROM public.detailed_ratings
+  WHERE watched_movie_id IN (SELECT id FROM public.watched_movies WHERE deleted_at < v_cutoff);
+  DELETE FROM public.watched_movies WHERE deleted_at < v_cutoff;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_total := v_total + v_count;
+
+  DELETE FROM public.proposal_comments
+  WHERE proposal_id IN (SELECT id FROM public.movie_proposals WHERE deleted_at < v_cutoff);
+  DELETE FROM public.movie_proposals WHERE deleted_at < v_cutoff;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_total := v_total + v_count;
+
+  -- Cascades to the person's remaining proposals, ratings, favourites and claims
+  DELETE FROM public.session_people WHERE deleted_at < v_cutoff;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_total := v_total + v_count;
+
+  RETURN v_total;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_session_trash() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.purge_session_trash() TO service_role;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule('purge-session-trash', '0 4 * * *', 'SELECT public.purge_session_trash()');
+  END IF;
+END;
+$$;
+
+-- Trashed proposals can't be marked as watched
+CREATE OR REPLACE FUNCTION public.mark_proposal_watched(p_proposal_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal public.movie_proposals;
+  v_watched_id UUID;
+BEGIN
+  SELECT * INTO v_proposal FROM public.movie_proposals WHERE id = p_proposal_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT public.is_session_admin(v_proposal.session_id) THEN
+    RAISE EXCEPTION 'Only session admins can mark movies as watched' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.watched_movies (
+    session_id, movie_title, proposed_by, poster, genre, runtime, year,
+    director, plot, imdb_rating, imdb_id, watched_at
+  )
+  SELECT
+    v_proposal.session_id, v_proposal.movie_title, COALESCE(p.name, 'Unknown'),
+    v_proposal.poster, v_proposal.genre, v_proposal.runtime, v_proposal.year,
+    v_proposal.director, v_proposal.plot, v_proposal.imdb_rating, v_proposal.imdb_id, now()
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.session_people p ON p.id = v_proposal.person_id
+  RETURNING id INTO v_watched_id;
+
+  UPDATE public.movie_ratings SET watched_movie_id = v_watched_id WHERE proposal_id = p_proposal_id;
+  DELETE FROM public.proposal_comments WHERE proposal_id = p_proposal_id;
+  DELETE FROM public.movie_proposals WHERE id = p_proposal_id;
+
+  RETURN v_watched_id;
+END;
+$$;
+
+-- Trashed watched movies and activity no longer count in the directory
+CREATE OR REPLACE FUNCTION public.list_my_sessions()
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  role TEXT,
+  member_count INTEGER,
+  watched_count INTEGER,
+  last_activity_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.name,
+    s.created_at,
+    s.archived_at,
+    m.role,
+    (SELECT count(*)::int FROM public.session_members sm WHERE sm.session_id = s.id),
+    (SELECT count(*)::int FROM public.watched_movies w WHERE w.session_id = s.id AND w.deleted_at IS NULL),
+    -- GREATEST ignores NULLs, so sessions without activity fall back to updated_at
+    GREATEST(
+      s.updated_at,
+      (SELECT max(p.created_at) FROM public.movie_proposals p WHERE p.session_id = s.id AND p.deleted_at IS NULL),
+      (SELECT max(w.created_at) FROM public.watched_movies w WHERE w.session_id = s.id AND w.deleted_at IS NULL),
+      (SELECT max(r.updated_at) FROM public.movie_ratings r
+        JOIN public.session_people sp ON sp.id = r.person_id WHERE sp.session_id = s.id),
+      (SELECT max(d.updated_at) FROM public.detailed_ratings d
+        JOIN public.session_people sp ON sp.id = d.person_id WHERE sp.session_id = s.id)
+    )
+  FROM public.session_members m
+  JOIN public.movie_sessions s ON s.id = m.session_id
+  WHERE m.user_id = auth.uid()
+  ORDER BY 8 DESC;
+$$;
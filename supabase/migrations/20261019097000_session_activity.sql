@@ -0,0 +1,169 @@
+-- Activity log: an append-only record of every change in a session, written
+-- by triggers so no client can skip it. Each entry keeps the acting device,
+-- the affected person and the changed values before and after.
+ALTER TABLE public.movie_proposals ADD COLUMN created_by UUID DEFAULT auth.uid();
+
+CREATE TABLE public.session_activity (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.movie_sessions(id) ON DELETE CASCADE,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- auth user id of the acting device; NULL for server-side changes
+  actor_id UUID,
+  entity TEXT NOT NULL CHECK (entity IN ('rating', 'score', 'person', 'proposal', 'comment', 'favourite', 'watched_movie')),
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete', 'trash', 'restore')),
+  row_id UUID,
+  person_id UUID,
+  -- movie title or person name at the time of the change
+  subject TEXT,
+  old_values JSONB,
+  new_values JSONB
+);
+
+CREATE INDEX idx_session_activity_session_id ON public.session_activity(session_id, occurred_at DESC);
+
+ALTER TABLE public.session_activity ENABLE ROW LEVEL SECURITY;
+
+-- Readable by the session; only the triggers below write to it
+CREATE POLICY "Session access to read session_activity" ON public.session_activity
+  FOR SELECT USING (public.has_session_access(session_id));
+
+CREATE OR REPLACE FUNCTION public.prevent_session_activity_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Deleting a whole session cascades here
+  IF pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'session_activity is append-only' USING ERRCODE = '42501';
+END;
+$$;
+
+CREATE TRIGGER prevent_session_activity_changes
+  BEFORE UPDATE OR DELETE ON public.session_activity
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_session_activity_changes();
+
+-- TG_ARGV[0] is the entity logged for the table. Rows are looked up without
+-- the soft delete filter so changes to trashed rows still resolve.
+CREATE OR REPLACE FUNCTION public.log_session_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entity TEXT := TG_ARGV[0];
+  v_action TEXT := lower(TG_OP);
+  v_row JSONB;
+  v_old JSONB;
+  v_new JSONB;
+  v_session_id UUID;
+  v_person_id UUID;
+  v_subject TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := to_jsonb(OLD);
+    -- Purging the trash isn't activity (trashing it already was), and
+    -- cascaded deletes are covered by the entry for their parent
+    IF v_row ->> 'deleted_at' IS NOT NULL OR pg_trigger_depth() > 1 THEN
+      RETURN NULL;
+    END IF;
+    v_old := v_row - 'created_at' - 'updated_at';
+  ELSIF TG_OP = 'INSERT' THEN
+    v_row := to_jsonb(NEW);
+    v_new := v_row - 'created_at' - 'updated_at';
+  ELSE
+    v_row := to_jsonb(NEW);
+    -- Only the columns that changed; timestamps and the rating's link to its
+    -- watched movie are bookkeeping
+    SELECT jsonb_object_agg(o.key, o.value), jsonb_object_agg(o.key, v_row -> o.key)
+    INTO v_old, v_new
+    FROM jsonb_each(to_jsonb(OLD)) AS o
+    WHERE o.value IS DISTINCT FROM v_row -> o.key
+      AND o.key NOT IN ('created_at', 'updated_at', 'watched_movie_id');
+
+    IF v_old IS NULL THEN
+      RETURN NULL;
+    END IF;
+    IF v_new ? 'deleted_at' THEN
+      v_action := CASE WHEN v_new ->> 'deleted_at' IS NULL THEN 'restore' ELSE 'trash' END;
+    END IF;
+  END IF;
+
+  IF v_entity IN ('rating', 'score', 'favourite') THEN
+    v_person_id := (v_row ->> 'person_id')::UUID;
+    SELECT session_id INTO v_session_id FROM public.session_people WHERE id = v_person_id;
+    IF v_entity = 'score' THEN
+      SELECT movie_title INTO v_subject FROM public.watched_movies WHERE id = (v_row ->> 'watched_movie_id')::UUID;
+    ELSE
+      SELECT movie_title INTO v_subject FROM public.movie_proposals WHERE id = (v_row ->> 'proposal_id')::UUID;
+    END IF;
+  ELSIF v_entity = 'comment' THEN
+    SELECT session_id, person_id, movie_title INTO v_session_id, v_person_id, v_subject
+    FROM public.movie_proposals WHERE id = (v_row ->> 'proposal_id')::UUID;
+  ELSIF v_entity = 'person' THEN
+    v_session_id := (v_row ->> 'session_id')::UUID;
+    v_person_id := (v_row ->> 'id')::UUID;
+    v_subject := v_row ->> 'name';
+  ELSE
+    v_session_id := (v_row ->> 'session_id')::UUID;
+    v_person_id := (v_row ->> 'person_id')::UUID;
+    v_subject := v_row ->> 'movie_title';
+  END IF;
+
+  -- Children of a purged person or proposal no longer belong to a session
+  IF v_session_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.session_activity (
+    session_id, actor_id, entity, action, row_id, person_id, subject, old_values, new_values
+  ) VALUES (
+    v_session_id,
+    -- Proposals are inserted by an edge function on behalf of created_by
+    COALESCE(auth.uid(), CASE WHEN TG_OP = 'INSERT' THEN (v_row ->> 'created_by')::UUID END),
+    v_entity, v_action, (v_row ->> 'id')::UUID, v_person_id, v_subject, v_old, v_new
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_movie_ratings_activity
+  AFTER INSERT OR UPDATE OR DELETE ON public.movie_ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_session_activity('rating');
+
+CREATE TRIGGER log_detailed_ratings_activity
+  AFTER INSERT OR UPDATE OR DELETE ON public.detailed_ratings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_session_activity('score');
+
+CREATE TRIGGER log_session_people_activity
+  AFTER INSERT OR UPDATE OR DELETE ON public.session_people
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_session_activity('person');
+
+CREATE TRIGGER log_movie_proposals_activity
+  AFTER INSERT OR UPDATE OR DELETE ON public.movie_proposals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_session_activity('proposal');
+
+CREATE TRIGGER log_proposal_comments_activity
+  AFTER INSERT OR UPDATE OR DELETE ON public.proposal_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_session_activity('comment');
+
+CREATE TRIGGER log_favourite_movies_activity
+  AFTER INSERT OR UPDATE OR DELETE ON public.favourite_movies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_session_activity('favourite');
+
+CREATE TRIGGER log_watched_movies_activity
+  AFTER INSERT OR UPDATE OR DELETE ON public.watched_movies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_session_activity('watched_movie');
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.session_activity;
@@ -0,0 +1,87 @@
+-- Proposals can be backed by several people. movie_proposals.person_id stays
+-- the person who first proposed the movie; proposal_proposers lists everyone
+-- behind it, the original proposer included.
+CREATE TABLE public.proposal_proposers (
+  proposal_id UUID NOT NULL REFERENCES public.movie_proposals(id) ON DELETE CASCADE,
+  person_id UUID NOT NULL REFERENCES public.session_people(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (proposal_id, person_id)
+);
+
+CREATE INDEX idx_proposal_proposers_person_id ON public.proposal_proposers(person_id);
+
+INSERT INTO public.proposal_proposers (proposal_id, person_id, created_at)
+SELECT id, person_id, created_at FROM public.movie_proposals;
+
+ALTER TABLE public.proposal_proposers ENABLE ROW LEVEL SECURITY;
+
+-- Trashed proposals and people are hidden through the session lookups
+CREATE POLICY "Session access to read proposal_proposers" ON public.proposal_proposers
+  FOR SELECT USING (
+    public.has_session_access(public.proposal_session_id(proposal_id))
+    AND public.person_session_id(person_id) IS NOT NULL
+  );
+
+CREATE OR REPLACE FUNCTION public.add_original_proposer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.proposal_proposers (proposal_id, person_id, created_at)
+  VALUES (NEW.id, NEW.person_id, NEW.created_at)
+  ON CONFLICT DO NOTHING;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER add_original_proposer
+  AFTER INSERT ON public.movie_proposals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.add_original_proposer();
+
+-- Watched movies credit every proposer, in the order they backed the proposal
+CREATE OR REPLACE FUNCTION public.mark_proposal_watched(p_proposal_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal public.movie_proposals;
+  v_proposed_by TEXT;
+  v_watched_id UUID;
+BEGIN
+  SELECT * INTO v_proposal FROM public.movie_proposals WHERE id = p_proposal_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT public.is_session_admin(v_proposal.session_id) THEN
+    RAISE EXCEPTION 'Only session admins can mark movies as watched' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT string_agg(p.name, ', ' ORDER BY pp.created_at, p.name) INTO v_proposed_by
+  FROM public.proposal_proposers pp
+  JOIN public.session_people p ON p.id = pp.person_id AND p.deleted_at IS NULL
+  WHERE pp.proposal_id = p_proposal_id;
+
+  INSERT INTO public.watched_movies (
+    session_id, movie_title, proposed_by, poster, genre, runtime, year,
+    director, plot, imdb_rating, imdb_id, watched_at
+  ) VALUES (
+    v_proposal.session_id, v_proposal.movie_title, COALESCE(v_proposed_by, 'Unknown'),
+    v_proposal.poster, v_proposal.genre, v_proposal.runtime, v_proposal.year,
+    v_proposal.director, v_proposal.plot, v_proposal.imdb_rating, v_proposal.imdb_id, now()
+  )
+  RETURNING id INTO v_watched_id;
+
+  UPDATE public.movie_ratings SET watched_movie_id = v_watched_id WHERE proposal_id = p_proposal_id;
+  DELETE FROM public.proposal_comments WHERE proposal_id = p_proposal_id;
+  DELETE FROM public.movie_proposals WHERE id = p_proposal_id;
+
+  RETURN v_watched_id;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.proposal_proposers;
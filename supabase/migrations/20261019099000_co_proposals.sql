@@ -0,0 +1,199 @@
+-- Co-proposals: several people can back the same movie instead of splitting
+-- the votes across duplicate proposals. Proposing a title that is already up
+-- in the session (see propose-movie-with-details) or seconding it adds a
+-- backer; withdrawing removes one, and the proposal is only trashed along
+-- with its last backer.
+
+-- Folds a duplicate proposal into the one that is kept: backers, ratings,
+-- the comment and favourites move over, then the duplicate is removed.
+-- Where someone rated both, the rating on the kept proposal wins.
+CREATE OR REPLACE FUNCTION public.merge_proposal_into(p_duplicate_id UUID, p_keeper_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.proposal_proposers (proposal_id, person_id, created_at)
+  SELECT p_keeper_id, person_id, created_at FROM public.proposal_proposers WHERE proposal_id = p_duplicate_id
+  ON CONFLICT DO NOTHING;
+
+  UPDATE public.movie_ratings SET proposal_id = p_keeper_id
+  WHERE proposal_id = p_duplicate_id
+    AND person_id NOT IN (SELECT person_id FROM public.movie_ratings WHERE proposal_id = p_keeper_id);
+  DELETE FROM public.movie_ratings WHERE proposal_id = p_duplicate_id;
+
+  IF NOT EXISTS (SELECT 1 FROM public.proposal_comments WHERE proposal_id = p_keeper_id) THEN
+    UPDATE public.proposal_comments SET proposal_id = p_keeper_id WHERE proposal_id = p_duplicate_id;
+  END IF;
+  DELETE FROM public.proposal_comments WHERE proposal_id = p_duplicate_id;
+
+  UPDATE public.favourite_movies SET proposal_id = p_keeper_id WHERE proposal_id = p_duplicate_id;
+
+  DELETE FROM public.movie_proposals WHERE id = p_duplicate_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_proposal_into(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_proposal_into(UUID, UUID) TO service_role;
+
+-- Merge the duplicates that already exist into the oldest proposal of each title
+DO $$
+DECLARE
+  v_duplicate RECORD;
+BEGIN
+  -- Lets the claim guards accept moving other people's ratings and favourites
+  PERFORM set_config('request.jwt.claim.role', 'service_role', true);
+
+  FOR v_duplicate IN
+    SELECT id, first_value(id) OVER (
+      PARTITION BY session_id, lower(btrim(movie_title)) ORDER BY created_at, id
+    ) AS keeper_id
+    FROM public.movie_proposals
+    WHERE deleted_at IS NULL
+  LOOP
+    IF v_duplicate.id <> v_duplicate.keeper_id THEN
+      PERFORM public.merge_proposal_into(v_duplicate.id, v_duplicate.keeper_id);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Backs a proposal as a person claimed on this device. Like proposing, it
+-- comes with a default rating of 5 unless the person already rated it.
+CREATE OR REPLACE FUNCTION public.second_proposal(p_proposal_id UUID, p_person_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session_id UUID := public.proposal_session_id(p_proposal_id);
+BEGIN
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF public.person_session_id(p_person_id) IS DISTINCT FROM v_session_id THEN
+    RAISE EXCEPTION 'Person not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT public.can_act_as(p_person_id) THEN
+    RAISE EXCEPTION 'Person % is not claimed by this device', p_person_id USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.proposal_proposers (proposal_id, person_id)
+  VALUES (p_proposal_id, p_person_id)
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO public.movie_ratings (proposal_id, person_id, rating)
+  VALUES (p_proposal_id, p_person_id, 5)
+  ON CONFLICT (proposal_id, person_id) DO NOTHING;
+END;
+$$;
+
+-- Stops backing a proposal. If the original proposer withdraws, the next
+-- backer takes over movie_proposals.person_id. The last backer can't
+-- withdraw; the proposal goes to the trash instead.
+CREATE OR REPLACE FUNCTION public.withdraw_proposal(p_proposal_id UUID, p_person_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal public.movie_proposals;
+  v_next_person_id UUID;
+BEGIN
+  SELECT * INTO v_proposal FROM public.movie_proposals WHERE id = p_proposal_id AND deleted_at IS NULL;
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM public.proposal_proposers WHERE proposal_id = p_proposal_id AND person_id = p_person_id
+  ) THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT (public.can_act_as(p_person_id) OR public.is_session_admin(v_proposal.session_id)) THEN
+    RAISE EXCEPTION 'Only session admins can remove other people''s proposals' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT pp.person_id INTO v_next_person_id
+  FROM public.proposal_proposers pp
+  JOIN public.session_people p ON p.id = pp.person_id AND p.deleted_at IS NULL
+  WHERE pp.proposal_id = p_proposal_id AND pp.person_id <> p_person_id
+  ORDER BY pp.created_at, pp.person_id
+  LIMIT 1;
+
+  IF v_next_person_id IS NULL THEN
+    RAISE EXCEPTION 'No one else backs this proposal; remove it instead' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_proposal.person_id = p_person_id THEN
+    UPDATE public.movie_proposals SET person_id = v_next_person_id WHERE id = p_proposal_id;
+  END IF;
+  DELETE FROM public.proposal_proposers WHERE proposal_id = p_proposal_id AND person_id = p_person_id;
+END;
+$$;
+
+-- Removing a person only trashes the proposals nobody else backs; the others
+-- pass to their next backer
+CREATE OR REPLACE FUNCTION public.trash_item(p_kind TEXT, p_id UUID)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session_id UUID;
+  v_person_id UUID;
+  v_deleted_at TIMESTAMP WITH TIME ZONE := now();
+BEGIN
+  IF p_kind = 'person' THEN
+    SELECT session_id INTO v_session_id FROM public.session_people WHERE id = p_id AND deleted_at IS NULL;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Person not found' USING ERRCODE = 'P0002';
+    END IF;
+    IF NOT public.is_session_admin(v_session_id) THEN
+      RAISE EXCEPTION 'Only session admins can remove people' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.session_people SET deleted_at = v_deleted_at WHERE id = p_id;
+    UPDATE public.movie_proposals mp SET person_id = (
+      SELECT pp.person_id
+      FROM public.proposal_proposers pp
+      JOIN public.session_people p ON p.id = pp.person_id AND p.deleted_at IS NULL
+      WHERE pp.proposal_id = mp.id
+      ORDER BY pp.created_at, pp.person_id
+      LIMIT 1
+    )
+    WHERE mp.person_id = p_id AND mp.deleted_at IS NULL
+      AND EXISTS (
+        SELECT 1 FROM public.proposal_proposers pp
+        JOIN public.session_people p ON p.id = pp.person_id AND p.deleted_at IS NULL
+        WHERE pp.proposal_id = mp.id
+      );
+    UPDATE public.movie_proposals SET deleted_at = v_deleted_at WHERE person_id = p_id AND deleted_at IS NULL;
+  ELSIF p_kind = 'proposal' THEN
+    SELECT session_id, person_id INTO v_session_id, v_person_id
+    FROM public.movie_proposals WHERE id = p_id AND deleted_at IS NULL;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'P0002';
+    END IF;
+    IF NOT (public.can_act_as(v_person_id) OR public.is_session_admin(v_session_id)) THEN
+      RAISE EXCEPTION 'Only session admins can remove other people''s proposals' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.movie_proposals SET deleted_at = v_deleted_at WHERE id = p_id;
+  ELSIF p_kind = 'watched_movie' THEN
+    SELECT session_id INTO v_session_id FROM public.watched_movies WHERE id = p_id AND deleted_at IS NULL;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Watched movie not found' USING ERRCODE = 'P0002';
+    END IF;
+    IF NOT public.is_session_admin(v_session_id) THEN
+      RAISE EXCEPTION 'Only session admins can remove watched movies' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.watched_movies SET deleted_at = v_deleted_at WHERE id = p_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown trash item kind %', p_kind;
+  END IF;
+
+  RETURN v_deleted_at;
+END;
+$$;
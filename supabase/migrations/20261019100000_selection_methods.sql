@@ -0,0 +1,8 @@
+-- How a session picks its winner from the present people's hype stars.
+-- Admins change these through the existing "Admins can update movie_sessions"
+-- policy; approval_threshold only matters for the approval method.
+ALTER TABLE public.movie_sessions
+  ADD COLUMN selection_method TEXT NOT NULL DEFAULT 'mean'
+    CHECK (selection_method IN ('mean', 'median', 'approval', 'borda', 'instant_runoff', 'schulze')),
+  ADD COLUMN approval_threshold SMALLINT NOT NULL DEFAULT 4
+    CHECK (approval_threshold BETWEEN 1 AND 5);
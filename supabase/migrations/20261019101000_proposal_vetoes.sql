@@ -0,0 +1,137 @@
+-- Vetoes: each person gets vetoes_per_person tokens per movie night. A
+-- proposal vetoed by a present person drops out of the results for the
+-- night; the night ends, and every veto in the session is handed back, when
+-- a movie is marked as watched.
+ALTER TABLE public.movie_sessions
+  ADD COLUMN vetoes_per_person SMALLINT NOT NULL DEFAULT 1
+    CHECK (vetoes_per_person BETWEEN 0 AND 5);
+
+CREATE TABLE public.proposal_vetoes (
+  proposal_id UUID NOT NULL REFERENCES public.movie_proposals(id) ON DELETE CASCADE,
+  person_id UUID NOT NULL REFERENCES public.session_people(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (proposal_id, person_id)
+);
+
+CREATE INDEX idx_proposal_vetoes_person_id ON public.proposal_vetoes(person_id);
+
+ALTER TABLE public.proposal_vetoes ENABLE ROW LEVEL SECURITY;
+
+-- Vetoes are public within the session; changes go through the RPCs below
+CREATE POLICY "Session access to read proposal_vetoes" ON public.proposal_vetoes
+  FOR SELECT USING (
+    public.has_session_access(public.proposal_session_id(proposal_id))
+    AND public.person_session_id(person_id) IS NOT NULL
+  );
+
+-- Spends one of a person's vetoes on a proposal they don't back
+CREATE OR REPLACE FUNCTION public.veto_proposal(p_proposal_id UUID, p_person_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session_id UUID := public.proposal_session_id(p_proposal_id);
+  v_allowed SMALLINT;
+  v_used INT;
+BEGIN
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF public.person_session_id(p_person_id) IS DISTINCT FROM v_session_id THEN
+    RAISE EXCEPTION 'Person not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT public.can_act_as(p_person_id) THEN
+    RAISE EXCEPTION 'Person % is not claimed by this device', p_person_id USING ERRCODE = '42501';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.proposal_proposers WHERE proposal_id = p_proposal_id AND person_id = p_person_id) THEN
+    RAISE EXCEPTION 'You can''t veto a movie you back' USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialises a person's vetoes so two devices can't both spend the last one
+  PERFORM 1 FROM public.session_people WHERE id = p_person_id FOR UPDATE;
+
+  SELECT vetoes_per_person INTO v_allowed FROM public.movie_sessions WHERE id = v_session_id;
+  SELECT count(*) INTO v_used
+  FROM public.proposal_vetoes v
+  JOIN public.movie_proposals mp ON mp.id = v.proposal_id AND mp.deleted_at IS NULL
+  WHERE v.person_id = p_person_id AND v.proposal_id <> p_proposal_id;
+
+  IF v_used >= v_allowed THEN
+    RAISE EXCEPTION 'No vetoes left tonight' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.proposal_vetoes (proposal_id, person_id)
+  VALUES (p_proposal_id, p_person_id)
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+-- Only the vetoer (a device that has claimed them) can take a veto back
+CREATE OR REPLACE FUNCTION public.revoke_veto(p_proposal_id UUID, p_person_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_act_as(p_person_id) THEN
+    RAISE EXCEPTION 'Person % is not claimed by this device', p_person_id USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.proposal_vetoes WHERE proposal_id = p_proposal_id AND person_id = p_person_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Veto not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+-- Watching a movie ends the night, so every veto in the session is handed back
+CREATE OR REPLACE FUNCTION public.mark_proposal_watched(p_proposal_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal public.movie_proposals;
+  v_proposed_by TEXT;
+  v_watched_id UUID;
+BEGIN
+  SELECT * INTO v_proposal FROM public.movie_proposals WHERE id = p_proposal_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT public.is_session_admin(v_proposal.session_id) THEN
+    RAISE EXCEPTION 'Only session admins can mark movies as watched' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT string_agg(p.name, ', ' ORDER BY pp.created_at, p.name) INTO v_proposed_by
+  FROM public.proposal_proposers pp
+  JOIN public.session_people p ON p.id = pp.person_id AND p.deleted_at IS NULL
+  WHERE pp.proposal_id = p_proposal_id;
+
+  INSERT INTO public.watched_movies (
+    session_id, movie_title, proposed_by, poster, genre, runtime, year,
+    director, plot, imdb_rating, imdb_id, watched_at
+  ) VALUES (
+    v_proposal.session_id, v_proposal.movie_title, COALESCE(v_proposed_by, 'Unknown'),
+    v_proposal.poster, v_proposal.genre, v_proposal.runtime, v_proposal.year,
+    v_proposal.director, v_proposal.plot, v_proposal.imdb_rating, v_proposal.imdb_id, now()
+  )
+  RETURNING id INTO v_watched_id;
+
+  DELETE FROM public.proposal_vetoes v
+  USING public.movie_proposals mp
+  WHERE mp.id = v.proposal_id AND mp.session_id = v_proposal.session_id;
+
+  UPDATE public.movie_ratings SET watched_movie_id = v_watched_id WHERE proposal_id = p_proposal_id;
+  DELETE FROM public.proposal_comments WHERE proposal_id = p_proposal_id;
+  DELETE FROM public.movie_proposals WHERE id = p_proposal_id;
+
+  RETURN v_watched_id;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.proposal_vetoes;
@@ -0,0 +1,6 @@
+-- Fairness weighting: how strongly (0-100, 0 = off) rankedMovies boosts
+-- proposals from people whose picks were watched least often or least
+-- recently. The history comes from watched_movies.proposed_by and watched_at.
+ALTER TABLE public.movie_sessions
+  ADD COLUMN fairness_strength SMALLINT NOT NULL DEFAULT 0
+    CHECK (fairness_strength BETWEEN 0 AND 100);
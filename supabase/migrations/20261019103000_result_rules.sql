@@ -0,0 +1,10 @@
+-- Results rules: quorum_percent of the present people must have rated a
+-- movie before it can win (0 = any), and tie_breakers are applied in order
+-- when movies score the same. tie_break_seed makes the random draw the same
+-- on every device; admins redraw by changing it.
+ALTER TABLE public.movie_sessions
+  ADD COLUMN quorum_percent SMALLINT NOT NULL DEFAULT 0
+    CHECK (quorum_percent BETWEEN 0 AND 100),
+  ADD COLUMN tie_breakers TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (tie_breakers <@ ARRAY['more_voters', 'fewer_one_stars', 'older_proposal', 'shorter_runtime', 'random']),
+  ADD COLUMN tie_break_seed INTEGER NOT NULL DEFAULT floor(random() * 2147483647)::INTEGER;
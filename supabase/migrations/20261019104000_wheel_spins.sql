@@ -0,0 +1,28 @@
+-- Spin the wheel: an admin draws tonight's movie from the top of the results,
+-- with each slice weighted by its score. The spinning device draws the winner
+-- from the seed (see src/lib/wheel.ts) and stores the whole spin, so every
+-- device replays the same wheel and lands on the same movie.
+CREATE TABLE public.wheel_spins (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.movie_sessions(id) ON DELETE CASCADE,
+  seed INTEGER NOT NULL,
+  weighting TEXT NOT NULL CHECK (weighting IN ('average', 'score')),
+  -- [{ "proposal_id", "title", "weight" }] in wheel order
+  slices JSONB NOT NULL CHECK (jsonb_typeof(slices) = 'array' AND jsonb_array_length(slices) >= 2),
+  picked_proposal_id UUID REFERENCES public.movie_proposals(id) ON DELETE SET NULL,
+  picked_title TEXT NOT NULL,
+  spun_by UUID NOT NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_wheel_spins_session_id ON public.wheel_spins(session_id, created_at DESC);
+
+ALTER TABLE public.wheel_spins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Session access to read wheel_spins" ON public.wheel_spins
+  FOR SELECT USING (public.has_session_access(session_id));
+
+CREATE POLICY "Admins can spin the wheel" ON public.wheel_spins
+  FOR INSERT WITH CHECK (public.is_session_admin(session_id) AND spun_by = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.wheel_spins;
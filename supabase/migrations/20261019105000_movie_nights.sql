@@ -0,0 +1,154 @@
+-- Movie nights: a scheduled date and time, an RSVP per person and the movie
+-- picked for the night. While a night is coming up, presence comes from its
+-- RSVPs instead of session_people.is_present, and the movie watched is
+-- attached to the night so watch dates and attendance are accurate.
+CREATE TABLE public.movie_nights (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.movie_sessions(id) ON DELETE CASCADE,
+  scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+  note TEXT,
+  selected_proposal_id UUID REFERENCES public.movie_proposals(id) ON DELETE SET NULL,
+  -- set once a movie has been watched on the night; the night is then over
+  watched_movie_id UUID REFERENCES public.watched_movies(id) ON DELETE SET NULL,
+  created_by UUID NOT NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_movie_nights_session_id ON public.movie_nights(session_id, scheduled_for);
+
+CREATE TABLE public.movie_night_rsvps (
+  night_id UUID NOT NULL REFERENCES public.movie_nights(id) ON DELETE CASCADE,
+  person_id UUID NOT NULL REFERENCES public.session_people(id) ON DELETE CASCADE,
+  response TEXT NOT NULL CHECK (response IN ('yes', 'maybe', 'no')),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (night_id, person_id)
+);
+
+CREATE INDEX idx_movie_night_rsvps_person_id ON public.movie_night_rsvps(person_id);
+
+ALTER TABLE public.watched_movies
+  ADD COLUMN movie_night_id UUID REFERENCES public.movie_nights(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION public.night_session_id(p_night_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT session_id FROM public.movie_nights WHERE id = p_night_id;
+$$;
+
+ALTER TABLE public.movie_nights ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.movie_night_rsvps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Session access to read movie_nights" ON public.movie_nights
+  FOR SELECT USING (public.has_session_access(session_id));
+CREATE POLICY "Admins can schedule movie_nights" ON public.movie_nights
+  FOR INSERT WITH CHECK (public.is_session_admin(session_id) AND created_by = auth.uid());
+CREATE POLICY "Admins can update movie_nights" ON public.movie_nights
+  FOR UPDATE USING (public.is_session_admin(session_id)) WITH CHECK (public.is_session_admin(session_id));
+CREATE POLICY "Admins can delete movie_nights" ON public.movie_nights
+  FOR DELETE USING (public.is_session_admin(session_id));
+
+-- A person answers for themselves from a device that has claimed them;
+-- admins can take attendance for anyone
+CREATE POLICY "Session access to read movie_night_rsvps" ON public.movie_night_rsvps
+  FOR SELECT USING (
+    public.has_session_access(public.night_session_id(night_id))
+    AND public.person_session_id(person_id) IS NOT NULL
+  );
+CREATE POLICY "People and admins can insert movie_night_rsvps" ON public.movie_night_rsvps
+  FOR INSERT WITH CHECK (
+    public.person_session_id(person_id) = public.night_session_id(night_id)
+    AND (public.can_act_as(person_id) OR public.is_session_admin(public.night_session_id(night_id)))
+  );
+CREATE POLICY "People and admins can update movie_night_rsvps" ON public.movie_night_rsvps
+  FOR UPDATE USING (public.can_act_as(person_id) OR public.is_session_admin(public.night_session_id(night_id)))
+  WITH CHECK (public.can_act_as(person_id) OR public.is_session_admin(public.night_session_id(night_id)));
+CREATE POLICY "People and admins can delete movie_night_rsvps" ON public.movie_night_rsvps
+  FOR DELETE USING (public.can_act_as(person_id) OR public.is_session_admin(public.night_session_id(night_id)));
+
+CREATE TRIGGER update_movie_nights_updated_at
+  BEFORE UPDATE ON public.movie_nights
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_movie_night_rsvps_updated_at
+  BEFORE UPDATE ON public.movie_night_rsvps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Watching a movie on a night dates it to the night and closes the night.
+-- The old single-argument version is replaced, not overloaded.
+DROP FUNCTION public.mark_proposal_watched(UUID);
+
+CREATE FUNCTION public.mark_proposal_watched(p_proposal_id UUID, p_night_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal public.movie_proposals;
+  v_night public.movie_nights;
+  v_proposed_by TEXT;
+  v_watched_id UUID;
+BEGIN
+  SELECT * INTO v_proposal FROM public.movie_proposals WHERE id = p_proposal_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT public.is_session_admin(v_proposal.session_id) THEN
+    RAISE EXCEPTION 'Only session admins can mark movies as watched' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_night_id IS NOT NULL THEN
+    SELECT * INTO v_night FROM public.movie_nights
+    WHERE id = p_night_id AND session_id = v_proposal.session_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Movie night not found' USING ERRCODE = 'P0002';
+    END IF;
+    IF v_night.watched_movie_id IS NOT NULL THEN
+      RAISE EXCEPTION 'A movie was already watched on this night' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  SELECT string_agg(p.name, ', ' ORDER BY pp.created_at, p.name) INTO v_proposed_by
+  FROM public.proposal_proposers pp
+  JOIN public.session_people p ON p.id = pp.person_id AND p.deleted_at IS NULL
+  WHERE pp.proposal_id = p_proposal_id;
+
+  INSERT INTO public.watched_movies (
+    session_id, movie_title, proposed_by, poster, genre, runtime, year,
+    director, plot, imdb_rating, imdb_id, watched_at, movie_night_id
+  ) VALUES (
+    v_proposal.session_id, v_proposal.movie_title, COALESCE(v_proposed_by, 'Unknown'),
+    v_proposal.poster, v_proposal.genre, v_proposal.runtime, v_proposal.year,
+    v_proposal.director, v_proposal.plot, v_proposal.imdb_rating, v_proposal.imdb_id,
+    COALESCE(v_night.scheduled_for, now()), p_night_id
+  )
+  RETURNING id INTO v_watched_id;
+
+  IF p_night_id IS NOT NULL THEN
+    UPDATE public.movie_nights
+    SET watched_movie_id = v_watched_id, selected_proposal_id = NULL
+    WHERE id = p_night_id;
+  END IF;
+
+  DELETE FROM public.proposal_vetoes v
+  USING public.movie_proposals mp
+  WHERE mp.id = v.proposal_id AND mp.session_id = v_proposal.session_id;
+
+  UPDATE public.movie_ratings SET watched_movie_id = v_watched_id WHERE proposal_id = p_proposal_id;
+  DELETE FROM public.proposal_comments WHERE proposal_id = p_proposal_id;
+  DELETE FROM public.movie_proposals WHERE id = p_proposal_id;
+
+  RETURN v_watched_id;
+END;
+$$;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.movie_nights;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.movie_night_rsvps;
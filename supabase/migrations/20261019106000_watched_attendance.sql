@@ -0,0 +1,85 @@
+-- Marking a movie as watched snapshots who was present into detailed_ratings
+-- (present, no score yet): the people who said yes to the movie night, or
+-- the people marked present when no night is scheduled. Presence no longer
+-- has to be ticked by hand on every watched movie.
+CREATE OR REPLACE FUNCTION public.mark_proposal_watched(p_proposal_id UUID, p_night_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal public.movie_proposals;
+  v_night public.movie_nights;
+  v_proposed_by TEXT;
+  v_watched_id UUID;
+BEGIN
+  SELECT * INTO v_proposal FROM public.movie_proposals WHERE id = p_proposal_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT public.is_session_admin(v_proposal.session_id) THEN
+    RAISE EXCEPTION 'Only session admins can mark movies as watched' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_night_id IS NOT NULL THEN
+    SELECT * INTO v_night FROM public.movie_nights
+    WHERE id = p_night_id AND session_id = v_proposal.session_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Movie night not found' USING ERRCODE = 'P0002';
+    END IF;
+    IF v_night.watched_movie_id IS NOT NULL THEN
+      RAISE EXCEPTION 'A movie was already watched on this night' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  SELECT string_agg(p.name, ', ' ORDER BY pp.created_at, p.name) INTO v_proposed_by
+  FROM public.proposal_proposers pp
+  JOIN public.session_people p ON p.id = pp.person_id AND p.deleted_at IS NULL
+  WHERE pp.proposal_id = p_proposal_id;
+
+  INSERT INTO public.watched_movies (
+    session_id, movie_title, proposed_by, poster, genre, runtime, year,
+    director, plot, imdb_rating, imdb_id, watched_at, movie_night_id
+  ) VALUES (
+    v_proposal.session_id, v_proposal.movie_title, COALESCE(v_proposed_by, 'Unknown'),
+    v_proposal.poster, v_proposal.genre, v_proposal.runtime, v_proposal.year,
+    v_proposal.director, v_proposal.plot, v_proposal.imdb_rating, v_proposal.imdb_id,
+    COALESCE(v_night.scheduled_for, now()), p_night_id
+  )
+  RETURNING id INTO v_watched_id;
+
+  -- Everyone present right now starts out present and unrated, so the
+  -- watched movie can tell who still owes a score from the start
+  INSERT INTO public.detailed_ratings (watched_movie_id, person_id, present, rating)
+  SELECT v_watched_id, p.id, true, NULL
+  FROM public.session_people p
+  WHERE p.session_id = v_proposal.session_id
+    AND p.deleted_at IS NULL
+    AND CASE
+      WHEN p_night_id IS NOT NULL THEN EXISTS (
+        SELECT 1 FROM public.movie_night_rsvps r
+        WHERE r.night_id = p_night_id AND r.person_id = p.id AND r.response = 'yes'
+      )
+      ELSE p.is_present
+    END
+  ON CONFLICT (watched_movie_id, person_id) DO NOTHING;
+
+  IF p_night_id IS NOT NULL THEN
+    UPDATE public.movie_nights
+    SET watched_movie_id = v_watched_id, selected_proposal_id = NULL
+    WHERE id = p_night_id;
+  END IF;
+
+  DELETE FROM public.proposal_vetoes v
+  USING public.movie_proposals mp
+  WHERE mp.id = v.proposal_id AND mp.session_id = v_proposal.session_id;
+
+  UPDATE public.movie_ratings SET watched_movie_id = v_watched_id WHERE proposal_id = p_proposal_id;
+  DELETE FROM public.proposal_comments WHERE proposal_id = p_proposal_id;
+  DELETE FROM public.movie_proposals WHERE id = p_proposal_id;
+
+  RETURN v_watched_id;
+END;
+$$;
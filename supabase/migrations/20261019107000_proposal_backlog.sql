@@ -0,0 +1,105 @@
+-- Backlog: a proposal can be parked ("someday") instead of being removed. Parked
+-- proposals keep their backers and hype ratings but stay out of the active
+-- pool (rating, results, vetoes) until a backer promotes them again. Each
+-- person can back at most max_active_proposals active proposals at a time.
+ALTER TABLE public.movie_proposals
+  ADD COLUMN parked_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.movie_sessions
+  ADD COLUMN max_active_proposals SMALLINT NOT NULL DEFAULT 3
+    CHECK (max_active_proposals BETWEEN 1 AND 10);
+
+-- Active (not parked, not trashed) proposals a person backs
+CREATE OR REPLACE FUNCTION public.active_proposal_count(p_person_id UUID)
+RETURNS INT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::INT
+  FROM public.proposal_proposers pp
+  JOIN public.movie_proposals mp ON mp.id = pp.proposal_id
+  WHERE pp.person_id = p_person_id AND mp.parked_at IS NULL AND mp.deleted_at IS NULL;
+$$;
+
+-- Admins, or a device that has claimed one of the backers, can move a
+-- proposal between the active pool and the backlog
+CREATE OR REPLACE FUNCTION public.can_manage_proposal(p_proposal_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_session_admin(public.proposal_session_id(p_proposal_id))
+    OR EXISTS (
+      SELECT 1 FROM public.proposal_proposers
+      WHERE proposal_id = p_proposal_id AND public.can_act_as(person_id)
+    );
+$$;
+
+-- Parking hands back the vetoes spent on the proposal and unpicks it from
+-- the upcoming movie night
+CREATE OR REPLACE FUNCTION public.park_proposal(p_proposal_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.proposal_session_id(p_proposal_id) IS NULL THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT public.can_manage_proposal(p_proposal_id) THEN
+    RAISE EXCEPTION 'Only a backer or an admin can park this proposal' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.movie_proposals SET parked_at = now() WHERE id = p_proposal_id AND parked_at IS NULL;
+  DELETE FROM public.proposal_vetoes WHERE proposal_id = p_proposal_id;
+  UPDATE public.movie_nights SET selected_proposal_id = NULL
+  WHERE selected_proposal_id = p_proposal_id AND watched_movie_id IS NULL;
+END;
+$$;
+
+-- Promoting back into the active pool must keep every backer within the cap
+CREATE OR REPLACE FUNCTION public.promote_proposal(p_proposal_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session_id UUID := public.proposal_session_id(p_proposal_id);
+  v_cap SMALLINT;
+  v_full TEXT;
+BEGIN
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT public.can_manage_proposal(p_proposal_id) THEN
+    RAISE EXCEPTION 'Only a backer or an admin can promote this proposal' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT max_active_proposals INTO v_cap FROM public.movie_sessions WHERE id = v_session_id;
+
+  -- Serialises promotions for the same backers so the cap can't be overshot
+  PERFORM 1 FROM public.session_people p
+  JOIN public.proposal_proposers pp ON pp.person_id = p.id
+  WHERE pp.proposal_id = p_proposal_id
+  FOR UPDATE OF p;
+
+  SELECT string_agg(p.name, ', ' ORDER BY p.name) INTO v_full
+  FROM public.proposal_proposers pp
+  JOIN public.session_people p ON p.id = pp.person_id AND p.deleted_at IS NULL
+  WHERE pp.proposal_id = p_proposal_id AND public.active_proposal_count(p.id) >= v_cap;
+
+  IF v_full IS NOT NULL THEN
+    RAISE EXCEPTION '% already % % active proposals', v_full,
+      CASE WHEN position(',' IN v_full) > 0 THEN 'have' ELSE 'has' END, v_cap
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.movie_proposals SET parked_at = NULL WHERE id = p_proposal_id;
+END;
+$$;
@@ -0,0 +1,6 @@
+-- A proposal picked from the search results is identified by its IMDb id:
+-- proposing the same movie again backs the existing proposal, whatever title
+-- it was typed under. Not unique, since older proposals may already repeat a
+-- movie until they are merged.
+CREATE INDEX idx_movie_proposals_session_imdb_id ON public.movie_proposals(session_id, imdb_id)
+  WHERE imdb_id IS NOT NULL AND deleted_at IS NULL;
@@ -0,0 +1,124 @@
+-- Shared movie catalogue: the provider details of each movie, once, keyed by
+-- its IMDb id and shared by every session. The edge functions read through it
+-- and refresh entries older than MOVIE_CACHE_TTL_DAYS (fetched_at).
+CREATE TABLE public.movies (
+  imdb_id TEXT PRIMARY KEY CHECK (imdb_id ~ '^tt[0-9]{7,}$'),
+  title TEXT NOT NULL,
+  year TEXT,
+  genre TEXT,
+  director TEXT,
+  actors TEXT,
+  plot TEXT,
+  poster TEXT,
+  imdb_rating TEXT,
+  runtime TEXT,
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.movies ENABLE ROW LEVEL SECURITY;
+
+-- Public facts about movies; only the edge functions (service role) write them
+CREATE POLICY "Anyone can view movies" ON public.movies
+  FOR SELECT USING (true);
+
+CREATE TRIGGER update_movies_updated_at
+  BEFORE UPDATE ON public.movies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Proposals and watched movies reference their catalogue entry. imdb_id stays
+-- the movie's identity; movie_id is set from it while the movie is catalogued.
+ALTER TABLE public.movie_proposals
+  ADD COLUMN movie_id TEXT REFERENCES public.movies(imdb_id) ON DELETE SET NULL;
+ALTER TABLE public.watched_movies
+  ADD COLUMN movie_id TEXT REFERENCES public.movies(imdb_id) ON DELETE SET NULL;
+
+CREATE INDEX idx_movie_proposals_movie_id ON public.movie_proposals(movie_id);
+CREATE INDEX idx_watched_movies_movie_id ON public.watched_movies(movie_id);
+
+-- Seed the catalogue with the details already stored, the newest copy of each
+-- movie. They are dated by when they were stored, so old ones are refreshed
+-- on their next lookup.
+INSERT INTO public.movies (imdb_id, title, year, genre, director, plot, poster, imdb_rating, runtime, fetched_at)
+SELECT DISTINCT ON (imdb_id) imdb_id, movie_title, year, genre, director, plot, poster, imdb_rating, runtime, stored_at
+FROM (
+  SELECT imdb_id, movie_title, year, genre, director, plot, poster, imdb_rating, runtime, created_at AS stored_at
+  FROM public.movie_proposals
+  UNION ALL
+  SELECT imdb_id, movie_title, year, genre, director, plot, poster, imdb_rating, runtime, updated_at AS stored_at
+  FROM public.watched_movies
+) stored
+WHERE imdb_id ~ '^tt[0-9]{7,}$'
+ORDER BY imdb_id, stored_at DESC;
+
+UPDATE public.movie_proposals SET movie_id = imdb_id
+WHERE imdb_id IN (SELECT imdb_id FROM public.movies);
+UPDATE public.watched_movies SET movie_id = imdb_id
+WHERE imdb_id IN (SELECT imdb_id FROM public.movies);
+
+-- The detail columns on proposals and watched movies remain as a copy of the
+-- catalogue entry, since realtime changes can't join the catalogue. Writing
+-- imdb_id links the row and takes the catalogue's details.
+CREATE OR REPLACE FUNCTION public.link_movie_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_movie public.movies%ROWTYPE;
+BEGIN
+  SELECT * INTO v_movie FROM public.movies WHERE imdb_id = NEW.imdb_id;
+  NEW.movie_id := v_movie.imdb_id;
+
+  IF FOUND THEN
+    NEW.year := v_movie.year;
+    NEW.genre := v_movie.genre;
+    NEW.director := v_movie.director;
+    NEW.plot := v_movie.plot;
+    NEW.poster := v_movie.poster;
+    NEW.imdb_rating := v_movie.imdb_rating;
+    NEW.runtime := v_movie.runtime;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_movie_proposal_details
+  BEFORE INSERT OR UPDATE OF imdb_id, movie_id ON public.movie_proposals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.link_movie_details();
+
+CREATE TRIGGER link_watched_movie_details
+  BEFORE INSERT OR UPDATE OF imdb_id, movie_id ON public.watched_movies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.link_movie_details();
+
+-- A new or refreshed catalogue entry updates every copy, in every session,
+-- and links rows that named the movie before it was catalogued. Rewriting
+-- imdb_id runs link_movie_details on each of them.
+CREATE OR REPLACE FUNCTION public.sync_movie_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.movie_proposals SET imdb_id = NEW.imdb_id WHERE imdb_id = NEW.imdb_id;
+  UPDATE public.watched_movies SET imdb_id = NEW.imdb_id WHERE imdb_id = NEW.imdb_id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_new_movie_details
+  AFTER INSERT ON public.movies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_movie_details();
+
+CREATE TRIGGER sync_refreshed_movie_details
+  AFTER UPDATE ON public.movies
+  FOR EACH ROW
+  WHEN ((OLD.title, OLD.year, OLD.genre, OLD.director, OLD.plot, OLD.poster, OLD.imdb_rating, OLD.runtime)
+    IS DISTINCT FROM (NEW.title, NEW.year, NEW.genre, NEW.director, NEW.plot, NEW.poster, NEW.imdb_rating, NEW.runtime))
+  EXECUTE FUNCTION public.sync_movie_details();
@@ -0,0 +1,306 @@
+-- Typed movie metadata: whole-number years and runtimes, numeric IMDb
+-- ratings and genres as a list, instead of the display strings the providers
+-- send ("2017–2019", "121 min", "7.0", "Drama, Horror, Mystery"). Existing rows
+-- are parsed once here; the edge functions parse provider answers from now on.
+--
+-- The catalogue keeps its genres in a join table. Proposals and watched
+-- movies copy them into a genres array, like their other details, since
+-- realtime changes can't join.
+
+-- Parsers for the backfill only; dropped at the end
+CREATE FUNCTION public.parse_year(p_text TEXT)
+RETURNS INT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  -- the first year of a range ("2017–2019" -> 2017)
+  SELECT substring(p_text FROM '[0-9]{4}')::INT;
+$$;
+
+CREATE FUNCTION public.parse_minutes(p_text TEXT)
+RETURNS INT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT NULLIF(substring(p_text FROM '[0-9]+')::INT, 0);
+$$;
+
+CREATE FUNCTION public.parse_rating(p_text TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN p_text ~ '^[0-9]+(\.[0-9]+)?$' THEN p_text::NUMERIC(3,1) END;
+$$;
+
+CREATE FUNCTION public.parse_genres(p_text TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ARRAY(
+    SELECT btrim(g)
+    FROM unnest(string_to_array(p_text, ',')) WITH ORDINALITY AS t(g, n)
+    WHERE btrim(g) NOT IN ('', 'N/A')
+    ORDER BY n
+  );
+$$;
+
+CREATE TABLE public.genres (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.movie_genres (
+  movie_id TEXT NOT NULL REFERENCES public.movies(imdb_id) ON DELETE CASCADE,
+  genre_id UUID NOT NULL REFERENCES public.genres(id) ON DELETE CASCADE,
+  -- the provider's order, the most defining genre first
+  position SMALLINT NOT NULL,
+  PRIMARY KEY (movie_id, genre_id)
+);
+
+CREATE INDEX idx_movie_genres_genre_id ON public.movie_genres(genre_id);
+
+ALTER TABLE public.genres ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.movie_genres ENABLE ROW LEVEL SECURITY;
+
+-- Like the catalogue: readable by anyone, written by the edge functions only
+CREATE POLICY "Anyone can view genres" ON public.genres
+  FOR SELECT USING (true);
+CREATE POLICY "Anyone can view movie_genres" ON public.movie_genres
+  FOR SELECT USING (true);
+
+INSERT INTO public.genres (name)
+SELECT DISTINCT g FROM public.movies, unnest(public.parse_genres(genre)) AS g
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO public.movie_genres (movie_id, genre_id, position)
+SELECT m.imdb_id, g.id, min(t.n)
+FROM public.movies m
+CROSS JOIN unnest(public.parse_genres(m.genre)) WITH ORDINALITY AS t(name, n)
+JOIN public.genres g ON g.name = t.name
+GROUP BY m.imdb_id, g.id;
+
+-- The catalogue sync triggers compare the old text columns; catalogue_movie
+-- below takes over from them
+DROP TRIGGER sync_new_movie_details ON public.movies;
+DROP TRIGGER sync_refreshed_movie_details ON public.movies;
+DROP FUNCTION public.sync_movie_details();
+
+ALTER TABLE public.movies
+  ALTER COLUMN year TYPE INT USING public.parse_year(year),
+  ALTER COLUMN runtime TYPE INT USING public.parse_minutes(runtime),
+  ALTER COLUMN imdb_rating TYPE NUMERIC(3,1) USING public.parse_rating(imdb_rating),
+  DROP COLUMN genre;
+ALTER TABLE public.movies RENAME COLUMN runtime TO runtime_minutes;
+ALTER TABLE public.movies
+  ADD CONSTRAINT movies_imdb_rating_check CHECK (imdb_rating BETWEEN 0 AND 10);
+
+ALTER TABLE public.movie_proposals
+  ADD COLUMN genres TEXT[] NOT NULL DEFAULT '{}';
+UPDATE public.movie_proposals SET genres = public.parse_genres(genre) WHERE genre IS NOT NULL;
+ALTER TABLE public.movie_proposals
+  ALTER COLUMN year TYPE INT USING public.parse_year(year),
+  ALTER COLUMN runtime TYPE INT USING public.parse_minutes(runtime),
+  ALTER COLUMN imdb_rating TYPE NUMERIC(3,1) USING public.parse_rating(imdb_rating),
+  DROP COLUMN genre;
+ALTER TABLE public.movie_proposals RENAME COLUMN runtime TO runtime_minutes;
+
+ALTER TABLE public.watched_movies
+  ADD COLUMN genres TEXT[] NOT NULL DEFAULT '{}';
+UPDATE public.watched_movies SET genres = public.parse_genres(genre) WHERE genre IS NOT NULL;
+ALTER TABLE public.watched_movies
+  ALTER COLUMN year TYPE INT USING public.parse_year(year),
+  ALTER COLUMN runtime TYPE INT USING public.parse_minutes(runtime),
+  ALTER COLUMN imdb_rating TYPE NUMERIC(3,1) USING public.parse_rating(imdb_rating),
+  DROP COLUMN genre;
+ALTER TABLE public.watched_movies RENAME COLUMN runtime TO runtime_minutes;
+
+DROP FUNCTION public.parse_year(TEXT);
+DROP FUNCTION public.parse_minutes(TEXT);
+DROP FUNCTION public.parse_rating(TEXT);
+DROP FUNCTION public.parse_genres(TEXT);
+
+-- A catalogued movie's genres, in order
+CREATE OR REPLACE FUNCTION public.movie_genre_names(p_imdb_id TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(g.name ORDER BY mg.position), '{}')
+  FROM public.movie_genres mg
+  JOIN public.genres g ON g.id = mg.genre_id
+  WHERE mg.movie_id = p_imdb_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.link_movie_details()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_movie public.movies%ROWTYPE;
+BEGIN
+  SELECT * INTO v_movie FROM public.movies WHERE imdb_id = NEW.imdb_id;
+  NEW.movie_id := v_movie.imdb_id;
+
+  IF FOUND THEN
+    NEW.year := v_movie.year;
+    NEW.genres := public.movie_genre_names(v_movie.imdb_id);
+    NEW.director := v_movie.director;
+    NEW.plot := v_movie.plot;
+    NEW.poster := v_movie.poster;
+    NEW.imdb_rating := v_movie.imdb_rating;
+    NEW.runtime_minutes := v_movie.runtime_minutes;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Adds or refreshes a catalogue entry with its genres, then updates the
+-- copies that differ, in every session, and links rows that named the movie
+-- before it was catalogued (rewriting imdb_id runs link_movie_details)
+CREATE OR REPLACE FUNCTION public.catalogue_movie(
+  p_imdb_id TEXT,
+  p_title TEXT,
+  p_year INT,
+  p_genres TEXT[],
+  p_director TEXT,
+  p_actors TEXT,
+  p_plot TEXT,
+  p_poster TEXT,
+  p_imdb_rating NUMERIC,
+  p_runtime_minutes INT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_genres TEXT[];
+BEGIN
+  INSERT INTO public.movies (imdb_id, title, year, director, actors, plot, poster, imdb_rating, runtime_minutes, fetched_at)
+  VALUES (p_imdb_id, p_title, p_year, p_director, p_actors, p_plot, p_poster, p_imdb_rating, p_runtime_minutes, now())
+  ON CONFLICT (imdb_id) DO UPDATE SET
+    title = EXCLUDED.title,
+    year = EXCLUDED.year,
+    director = EXCLUDED.director,
+    actors = EXCLUDED.actors,
+    plot = EXCLUDED.plot,
+    poster = EXCLUDED.poster,
+    imdb_rating = EXCLUDED.imdb_rating,
+    runtime_minutes = EXCLUDED.runtime_minutes,
+    fetched_at = EXCLUDED.fetched_at;
+
+  INSERT INTO public.genres (name)
+  SELECT DISTINCT btrim(g) FROM unnest(p_genres) AS g WHERE btrim(g) <> ''
+  ON CONFLICT (name) DO NOTHING;
+
+  DELETE FROM public.movie_genres WHERE movie_id = p_imdb_id;
+  INSERT INTO public.movie_genres (movie_id, genre_id, position)
+  SELECT p_imdb_id, g.id, min(t.n)
+  FROM unnest(p_genres) WITH ORDINALITY AS t(name, n)
+  JOIN public.genres g ON g.name = btrim(t.name)
+  GROUP BY g.id;
+
+  v_genres := public.movie_genre_names(p_imdb_id);
+
+  UPDATE public.movie_proposals SET imdb_id = p_imdb_id
+  WHERE imdb_id = p_imdb_id
+    AND (movie_id, year, genres, director, plot, poster, imdb_rating, runtime_minutes)
+      IS DISTINCT FROM (p_imdb_id, p_year, v_genres, p_director, p_plot, p_poster, p_imdb_rating, p_runtime_minutes);
+  UPDATE public.watched_movies SET imdb_id = p_imdb_id
+  WHERE imdb_id = p_imdb_id
+    AND (movie_id, year, genres, director, plot, poster, imdb_rating, runtime_minutes)
+      IS DISTINCT FROM (p_imdb_id, p_year, v_genres, p_director, p_plot, p_poster, p_imdb_rating, p_runtime_minutes);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.catalogue_movie(TEXT, TEXT, INT, TEXT[], TEXT, TEXT, TEXT, TEXT, NUMERIC, INT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.catalogue_movie(TEXT, TEXT, INT, TEXT[], TEXT, TEXT, TEXT, TEXT, NUMERIC, INT) TO service_role;
+
+-- As before, copying the typed detail columns from the proposal
+CREATE OR REPLACE FUNCTION public.mark_proposal_watched(p_proposal_id UUID, p_night_id UUID DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_proposal public.movie_proposals;
+  v_night public.movie_nights;
+  v_proposed_by TEXT;
+  v_watched_id UUID;
+BEGIN
+  SELECT * INTO v_proposal FROM public.movie_proposals WHERE id = p_proposal_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT public.is_session_admin(v_proposal.session_id) THEN
+    RAISE EXCEPTION 'Only session admins can mark movies as watched' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_night_id IS NOT NULL THEN
+    SELECT * INTO v_night FROM public.movie_nights
+    WHERE id = p_night_id AND session_id = v_proposal.session_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Movie night not found' USING ERRCODE = 'P0002';
+    END IF;
+    IF v_night.watched_movie_id IS NOT NULL THEN
+      RAISE EXCEPTION 'A movie was already watched on this night' USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  SELECT string_agg(p.name, ', ' ORDER BY pp.created_at, p.name) INTO v_proposed_by
+  FROM public.proposal_proposers pp
+  JOIN public.session_people p ON p.id = pp.person_id AND p.deleted_at IS NULL
+  WHERE pp.proposal_id = p_proposal_id;
+
+  INSERT INTO public.watched_movies (
+    session_id, movie_title, proposed_by, poster, genres, runtime_minutes, year,
+    director, plot, imdb_rating, imdb_id, watched_at, movie_night_id
+  ) VALUES (
+    v_proposal.session_id, v_proposal.movie_title, COALESCE(v_proposed_by, 'Unknown'),
+    v_proposal.poster, v_proposal.genres, v_proposal.runtime_minutes, v_proposal.year,
+    v_proposal.director, v_proposal.plot, v_proposal.imdb_rating, v_proposal.imdb_id,
+    COALESCE(v_night.scheduled_for, now()), p_night_id
+  )
+  RETURNING id INTO v_watched_id;
+
+  -- Everyone present right now starts out present and unrated, so the
+  -- watched movie can tell who still owes a score from the start
+  INSERT INTO public.detailed_ratings (watched_movie_id, person_id, present, rating)
+  SELECT v_watched_id, p.id, true, NULL
+  FROM public.session_people p
+  WHERE p.session_id = v_proposal.session_id
+    AND p.deleted_at IS NULL
+    AND CASE
+      WHEN p_night_id IS NOT NULL THEN EXISTS (
+        SELECT 1 FROM public.movie_night_rsvps r
+        WHERE r.night_id = p_night_id AND r.person_id = p.id AND r.response = 'yes'
+      )
+      ELSE p.is_present
+    END
+  ON CONFLICT (watched_movie_id, person_id) DO NOTHING;
+
+  IF p_night_id IS NOT NULL THEN
+    UPDATE public.movie_nights
+    SET watched_movie_id = v_watched_id, selected_proposal_id = NULL
+    WHERE id = p_night_id;
+  END IF;
+
+  DELETE FROM public.proposal_vetoes v
+  USING public.movie_proposals mp
+  WHERE mp.id = v.proposal_id AND mp.session_id = v_proposal.session_id;
+
+  UPDATE public.movie_ratings SET watched_movie_id = v_watched_id WHERE proposal_id = p_proposal_id;
+  DELETE FROM public.proposal_comments WHERE proposal_id = p_proposal_id;
+  DELETE FROM public.movie_proposals WHERE id = p_proposal_id;
+
+  RETURN v_watched_id;
+END;
+$$;
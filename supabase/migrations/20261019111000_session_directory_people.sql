@@ -0,0 +1,45 @@
+-- The directory counted devices (session_members) as the session's members.
+-- It now lists the people in the session, with the device count alongside.
+DROP FUNCTION public.list_my_sessions();
+
+CREATE OR REPLACE FUNCTION public.list_my_sessions()
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  role TEXT,
+  people_count INTEGER,
+  device_count INTEGER,
+  watched_count INTEGER,
+  last_activity_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.name,
+    s.created_at,
+    s.archived_at,
+    m.role,
+    (SELECT count(*)::int FROM public.session_people p WHERE p.session_id = s.id AND p.deleted_at IS NULL),
+    (SELECT count(*)::int FROM public.session_members sm WHERE sm.session_id = s.id),
+    (SELECT count(*)::int FROM public.watched_movies w WHERE w.session_id = s.id AND w.deleted_at IS NULL),
+    -- GREATEST ignores NULLs, so sessions without activity fall back to updated_at
+    GREATEST(
+      s.updated_at,
+      (SELECT max(p.created_at) FROM public.movie_proposals p WHERE p.session_id = s.id AND p.deleted_at IS NULL),
+      (SELECT max(w.created_at) FROM public.watched_movies w WHERE w.session_id = s.id AND w.deleted_at IS NULL),
+      (SELECT max(r.updated_at) FROM public.movie_ratings r
+        JOIN public.session_people sp ON sp.id = r.person_id WHERE sp.session_id = s.id),
+      (SELECT max(d.updated_at) FROM public.detailed_ratings d
+        JOIN public.session_people sp ON sp.id = d.person_id WHERE sp.session_id = s.id)
+    )
+  FROM public.session_members m
+  JOIN public.movie_sessions s ON s.id = m.session_id
+  WHERE m.user_id = auth.uid()
+  ORDER BY 9 DESC;
+$$;
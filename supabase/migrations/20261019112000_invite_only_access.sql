@@ -0,0 +1,73 @@
+-- The permanent join secret worked as an access and join token that never
+-- expired and couldn't be revoked, which defeated the expiring, revocable
+-- invites. Access now comes from membership alone, and new devices join
+-- through an invite. join_secret only marks a session as closed: legacy
+-- sessions without one stay open until someone creates an invite.
+CREATE OR REPLACE FUNCTION public.has_session_access(p_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.movie_sessions s
+    WHERE s.id = p_session_id AND s.join_secret IS NULL
+  ) OR EXISTS (
+    SELECT 1 FROM public.session_members m
+    WHERE m.session_id = p_session_id AND m.user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.join_session(p_session_id UUID, p_token TEXT DEFAULT NULL)
+RETURNS public.movie_sessions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.movie_sessions;
+  v_token TEXT := COALESCE(p_token, public.request_session_token());
+  v_invite_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'A device identity is required to join a session' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_session FROM public.movie_sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.session_members
+    WHERE session_id = p_session_id AND user_id = auth.uid()
+  ) THEN
+    SELECT id INTO v_invite_id FROM public.session_invites
+    WHERE session_id = p_session_id
+      AND token = v_token
+      AND revoked_at IS NULL
+      AND expires_at > now();
+
+    IF v_invite_id IS NULL AND v_session.join_secret IS NOT NULL THEN
+      RAISE EXCEPTION 'A valid invite is required' USING ERRCODE = '42501';
+    END IF;
+
+    INSERT INTO public.session_members (session_id, user_id, role, invite_id)
+    VALUES (
+      p_session_id,
+      auth.uid(),
+      CASE WHEN EXISTS (
+        SELECT 1 FROM public.session_members WHERE session_id = p_session_id AND role = 'admin'
+      ) THEN 'member' ELSE 'admin' END,
+      v_invite_id
+    )
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN v_session;
+END;
+$$;
+
+-- Members share the session through invites now
+DROP FUNCTION public.get_session_join_secret(UUID);
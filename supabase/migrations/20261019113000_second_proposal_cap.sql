@@ -0,0 +1,48 @@
+-- Backing an active proposal makes it one of the person's active picks, so
+-- it's held to the session's max_active_proposals like proposing and
+-- promoting are. Backing a parked one only adds it to their backlog.
+CREATE OR REPLACE FUNCTION public.second_proposal(p_proposal_id UUID, p_person_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session_id UUID := public.proposal_session_id(p_proposal_id);
+  v_cap SMALLINT;
+  v_name TEXT;
+BEGIN
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF public.person_session_id(p_person_id) IS DISTINCT FROM v_session_id THEN
+    RAISE EXCEPTION 'Person not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT public.can_act_as(p_person_id) THEN
+    RAISE EXCEPTION 'Person % is not claimed by this device', p_person_id USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.movie_proposals WHERE id = p_proposal_id AND parked_at IS NULL
+  ) AND NOT EXISTS (
+    SELECT 1 FROM public.proposal_proposers WHERE proposal_id = p_proposal_id AND person_id = p_person_id
+  ) THEN
+    SELECT max_active_proposals INTO v_cap FROM public.movie_sessions WHERE id = v_session_id;
+
+    -- Serialises picks for the same person so the cap can't be overshot
+    SELECT name INTO v_name FROM public.session_people WHERE id = p_person_id FOR UPDATE;
+
+    IF public.active_proposal_count(p_person_id) >= v_cap THEN
+      RAISE EXCEPTION '% already has % active proposals', v_name, v_cap USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  INSERT INTO public.proposal_proposers (proposal_id, person_id)
+  VALUES (p_proposal_id, p_person_id)
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO public.movie_ratings (proposal_id, person_id, rating)
+  VALUES (p_proposal_id, p_person_id, 5)
+  ON CONFLICT (proposal_id, person_id) DO NOTHING;
+END;
+$$;
@@ -0,0 +1,116 @@
+-- Since movie nights, presence comes from RSVPs, so scheduling nights and
+-- answering for them are logged as session activity like everything else.
+ALTER TABLE public.session_activity DROP CONSTRAINT session_activity_entity_check;
+ALTER TABLE public.session_activity ADD CONSTRAINT session_activity_entity_check
+  CHECK (entity IN ('rating', 'score', 'person', 'proposal', 'comment', 'favourite', 'watched_movie', 'movie_night', 'rsvp'));
+
+CREATE OR REPLACE FUNCTION public.log_session_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entity TEXT := TG_ARGV[0];
+  v_action TEXT := lower(TG_OP);
+  v_row JSONB;
+  v_old JSONB;
+  v_new JSONB;
+  v_session_id UUID;
+  v_person_id UUID;
+  v_subject TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := to_jsonb(OLD);
+    -- Purging the trash isn't activity (trashing it already was), and
+    -- cascaded deletes are covered by the entry for their parent
+    IF v_row ->> 'deleted_at' IS NOT NULL OR pg_trigger_depth() > 1 THEN
+      RETURN NULL;
+    END IF;
+    v_old := v_row - 'created_at' - 'updated_at';
+  ELSIF TG_OP = 'INSERT' THEN
+    v_row := to_jsonb(NEW);
+    v_new := v_row - 'created_at' - 'updated_at';
+  ELSE
+    v_row := to_jsonb(NEW);
+    -- Only the columns that changed; timestamps and the rating's link to its
+    -- watched movie are bookkeeping
+    SELECT jsonb_object_agg(o.key, o.value), jsonb_object_agg(o.key, v_row -> o.key)
+    INTO v_old, v_new
+    FROM jsonb_each(to_jsonb(OLD)) AS o
+    WHERE o.value IS DISTINCT FROM v_row -> o.key
+      AND o.key NOT IN ('created_at', 'updated_at', 'watched_movie_id');
+
+    IF v_old IS NULL THEN
+      RETURN NULL;
+    END IF;
+    -- catalogue_movie copying a refreshed movie's details onto every
+    -- proposal and watched movie of it isn't anyone's activity
+    IF v_entity IN ('proposal', 'watched_movie') AND NOT EXISTS (
+      SELECT 1 FROM jsonb_object_keys(v_new) AS k
+      WHERE k NOT IN ('movie_id', 'year', 'genres', 'director', 'plot', 'poster', 'imdb_rating', 'runtime_minutes')
+    ) THEN
+      RETURN NULL;
+    END IF;
+    IF v_new ? 'deleted_at' THEN
+      v_action := CASE WHEN v_new ->> 'deleted_at' IS NULL THEN 'restore' ELSE 'trash' END;
+    END IF;
+  END IF;
+
+  IF v_entity IN ('rating', 'score', 'favourite') THEN
+    v_person_id := (v_row ->> 'person_id')::UUID;
+    SELECT session_id INTO v_session_id FROM public.session_people WHERE id = v_person_id;
+    IF v_entity = 'score' THEN
+      SELECT movie_title INTO v_subject FROM public.watched_movies WHERE id = (v_row ->> 'watched_movie_id')::UUID;
+    ELSE
+      SELECT movie_title INTO v_subject FROM public.movie_proposals WHERE id = (v_row ->> 'proposal_id')::UUID;
+    END IF;
+  ELSIF v_entity = 'comment' THEN
+    SELECT session_id, person_id, movie_title INTO v_session_id, v_person_id, v_subject
+    FROM public.movie_proposals WHERE id = (v_row ->> 'proposal_id')::UUID;
+  ELSIF v_entity = 'rsvp' THEN
+    -- Nights are named by when they are scheduled; to_jsonb keeps it ISO 8601
+    SELECT session_id, to_jsonb(scheduled_for) #>> '{}' INTO v_session_id, v_subject
+    FROM public.movie_nights WHERE id = (v_row ->> 'night_id')::UUID;
+    v_person_id := (v_row ->> 'person_id')::UUID;
+  ELSIF v_entity = 'movie_night' THEN
+    v_session_id := (v_row ->> 'session_id')::UUID;
+    v_subject := v_row ->> 'scheduled_for';
+  ELSIF v_entity = 'person' THEN
+    v_session_id := (v_row ->> 'session_id')::UUID;
+    v_person_id := (v_row ->> 'id')::UUID;
+    v_subject := v_row ->> 'name';
+  ELSE
+    v_session_id := (v_row ->> 'session_id')::UUID;
+    v_person_id := (v_row ->> 'person_id')::UUID;
+    v_subject := v_row ->> 'movie_title';
+  END IF;
+
+  -- Children of a purged person or proposal no longer belong to a session
+  IF v_session_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.session_activity (
+    session_id, actor_id, entity, action, row_id, person_id, subject, old_values, new_values
+  ) VALUES (
+    v_session_id,
+    -- Proposals are inserted by an edge function on behalf of created_by
+    COALESCE(auth.uid(), CASE WHEN TG_OP = 'INSERT' THEN (v_row ->> 'created_by')::UUID END),
+    -- RSVPs have no id of their own; they're entered under their night
+    v_entity, v_action, COALESCE(v_row ->> 'id', v_row ->> 'night_id')::UUID, v_person_id, v_subject, v_old, v_new
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_movie_nights_activity
+  AFTER INSERT OR UPDATE OR DELETE ON public.movie_nights
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_session_activity('movie_night');
+
+CREATE TRIGGER log_movie_night_rsvps_activity
+  AFTER INSERT OR UPDATE OR DELETE ON public.movie_night_rsvps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_session_activity('rsvp');
@@ -0,0 +1,24 @@
+-- Proposals are made through propose-movie-with-details, which checks the
+-- person claim and the active proposal cap, and movies are marked as
+-- watched through mark_proposal_watched, which is admin-only. The direct
+-- write policies left over from before let any session member skip both.
+
+-- Proposals are only inserted by the edge function, with the service role
+DROP POLICY "Session access to insert movie_proposals" ON public.movie_proposals;
+
+-- Backfilling a past movie by hand stays possible, for admins
+DROP POLICY "Session access to insert watched_movies" ON public.watched_movies;
+CREATE POLICY "Admins can insert watched_movies" ON public.watched_movies
+  FOR INSERT WITH CHECK (public.is_session_admin(session_id));
+
+-- Backers and admins can fill in a proposal's movie details. Who proposed
+-- it, its title and whether it is parked only change through the RPCs
+-- (withdraw_proposal, park_proposal, promote_proposal, trash_item).
+DROP POLICY "Session access to update movie_proposals" ON public.movie_proposals;
+CREATE POLICY "Backers and admins can update movie_proposals" ON public.movie_proposals
+  FOR UPDATE USING (public.can_manage_proposal(id) AND deleted_at IS NULL)
+  WITH CHECK (public.can_manage_proposal(id) AND deleted_at IS NULL);
+
+REVOKE UPDATE ON public.movie_proposals FROM anon, authenticated;
+GRANT UPDATE (poster, genres, runtime_minutes, year, director, plot, imdb_rating, imdb_id)
+  ON public.movie_proposals TO authenticated;
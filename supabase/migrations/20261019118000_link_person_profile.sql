@@ -0,0 +1,29 @@
+-- Linking a person to a profile attaches their stats to it, so it goes
+-- through an RPC that checks the claim and the profile's owner instead of a
+-- direct update of session_people, which any session member may make.
+CREATE OR REPLACE FUNCTION public.link_person_profile(p_person_id UUID, p_profile_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.person_session_id(p_person_id) IS NULL THEN
+    RAISE EXCEPTION 'Person not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT public.can_act_as(p_person_id) THEN
+    RAISE EXCEPTION 'Person % is not claimed by this device', p_person_id USING ERRCODE = '42501';
+  END IF;
+  IF p_profile_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = p_profile_id AND owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Profile % does not belong to this device', p_profile_id USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.session_people SET profile_id = p_profile_id WHERE id = p_person_id;
+END;
+$$;
+
+-- Members only update a person's name and presence directly
+REVOKE UPDATE ON public.session_people FROM anon, authenticated;
+GRANT UPDATE (name, is_present) ON public.session_people TO authenticated;
@@ -0,0 +1,79 @@
+-- Vetoes are per movie night, but were counted across the whole session and
+-- only handed back when a movie was marked as watched, so vetoes spent on a
+-- night that passed without one (or was cancelled) were lost for good. Each
+-- veto now records the night it was spent for and only counts on that night.
+-- Vetoes spent while no night was scheduled count until a movie is watched,
+-- as before.
+ALTER TABLE public.proposal_vetoes
+  ADD COLUMN night_id UUID REFERENCES public.movie_nights(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_proposal_vetoes_night_id ON public.proposal_vetoes(night_id);
+
+-- The next night still to be held, like upcomingNight in src/lib/movieNights.ts:
+-- the earliest one nothing has been watched on, up to 12 hours after its start
+CREATE OR REPLACE FUNCTION public.upcoming_night_id(p_session_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM public.movie_nights
+  WHERE session_id = p_session_id
+    AND watched_movie_id IS NULL
+    AND scheduled_for >= now() - INTERVAL '12 hours'
+  ORDER BY scheduled_for
+  LIMIT 1;
+$$;
+
+-- Spends one of a person's vetoes for the upcoming night on a proposal they don't back
+CREATE OR REPLACE FUNCTION public.veto_proposal(p_proposal_id UUID, p_person_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session_id UUID := public.proposal_session_id(p_proposal_id);
+  v_night_id UUID;
+  v_allowed SMALLINT;
+  v_used INT;
+BEGIN
+  IF v_session_id IS NULL THEN
+    RAISE EXCEPTION 'Proposal not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF public.person_session_id(p_person_id) IS DISTINCT FROM v_session_id THEN
+    RAISE EXCEPTION 'Person not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF NOT public.can_act_as(p_person_id) THEN
+    RAISE EXCEPTION 'Person % is not claimed by this device', p_person_id USING ERRCODE = '42501';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.proposal_proposers WHERE proposal_id = p_proposal_id AND person_id = p_person_id) THEN
+    RAISE EXCEPTION 'You can''t veto a movie you back' USING ERRCODE = '22023';
+  END IF;
+
+  -- Serialises a person's vetoes so two devices can't both spend the last one
+  PERFORM 1 FROM public.session_people WHERE id = p_person_id FOR UPDATE;
+
+  v_night_id := public.upcoming_night_id(v_session_id);
+
+  SELECT vetoes_per_person INTO v_allowed FROM public.movie_sessions WHERE id = v_session_id;
+  SELECT count(*) INTO v_used
+  FROM public.proposal_vetoes v
+  JOIN public.movie_proposals mp ON mp.id = v.proposal_id AND mp.deleted_at IS NULL
+  WHERE v.person_id = p_person_id AND v.proposal_id <> p_proposal_id
+    AND (v.night_id IS NULL OR v.night_id = v_night_id);
+
+  IF v_used >= v_allowed THEN
+    RAISE EXCEPTION 'No vetoes left tonight' USING ERRCODE = '22023';
+  END IF;
+
+  -- A veto left over from an earlier night is spent again for this one
+  INSERT INTO public.proposal_vetoes (proposal_id, person_id, night_id)
+  VALUES (p_proposal_id, p_person_id, v_night_id)
+  ON CONFLICT (proposal_id, person_id) DO UPDATE
+    SET night_id = EXCLUDED.night_id, created_at = now()
+    WHERE proposal_vetoes.night_id IS NOT NULL
+      AND proposal_vetoes.night_id IS DISTINCT FROM EXCLUDED.night_id;
+END;
+$$;